@@ -1,9 +1,36 @@
+import * as path from 'path';
 import * as vscode from 'vscode';
 import { Logger } from 'react-vscode-webview-ipc/host';
 import type { ChatSidebarProvider } from './providers/chatSidebarProvider';
 import { FileWatcherService, type FileChangeEvent } from './services/fileWatcherService';
 import { generateCanvasHtml, getNonce } from './helpers/canvasTemplate';
 import type { DesignFile } from './types/designFile';
+import {
+    getDesignHistoryKey,
+    listDesignVersions,
+    readDesignVersion,
+    restoreDesignVersion,
+} from './services/designHistory';
+import { writeDesignExports } from './services/designExport';
+import type { DesignExportItem } from './types/designExport';
+import type { VariantManifest } from './types/designVariants';
+import { indexVariantManifests, VARIANT_MANIFEST_SUFFIX } from './services/designVariants';
+import type { CanvasLayout } from './types/canvasLayout';
+import type { DesignCommentAction, DesignCommentThread } from './types/designComments';
+import {
+    formatRevisionRequest,
+    readDesignComments,
+    updateDesignComments,
+} from './services/designComments';
+import { readCommentAuthor } from './services/commentSettings';
+import { CANVAS_SECTION, readDevicePresets } from './services/devicePresetSettings';
+import {
+    CANVAS_LAYOUT_FILE,
+    DEFAULT_CANVAS_LAYOUT,
+    parseCanvasLayout,
+    reconcileCanvasLayout,
+    serializeCanvasLayout,
+} from './services/canvasLayout';
 
 interface CanvasPanelState {
     workspaceUri?: string;
@@ -24,6 +51,8 @@ export class SuperdesignCanvasPanel {
     private _workspaceChangeListener: vscode.Disposable | undefined;
     private _isDisposing = false;
     private readonly _state: CanvasPanelState;
+    // Last layout file content read or written, to skip writes that change nothing
+    private _canvasLayoutText: string | undefined;
 
     public static createOrShow(extensionUri: vscode.Uri, sidebarProvider: ChatSidebarProvider) {
         const column = vscode.window.activeTextEditor?.viewColumn;
@@ -152,6 +181,16 @@ export class SuperdesignCanvasPanel {
         this._disposables.push(this._fileWatcherService);
         this._setupFileWatcher();
         this._setupWorkspaceChangeListener();
+        // Frames re-render when the device catalogue is edited
+        vscode.workspace.onDidChangeConfiguration(
+            event => {
+                if (event.affectsConfiguration(`${CANVAS_SECTION}.devicePresets`)) {
+                    void this._loadDesignFiles();
+                }
+            },
+            null,
+            this._disposables
+        );
 
         // Restore state if we have any
         if (state) {
@@ -188,6 +227,39 @@ export class SuperdesignCanvasPanel {
                             data: message.data,
                         });
                         break;
+                    case 'getDesignHistory':
+                        void this._sendDesignHistory(message.data.filePath);
+                        break;
+                    case 'getDesignVersion':
+                        void this._sendDesignVersion(message.data.filePath, message.data.versionId);
+                        break;
+                    case 'restoreDesignVersion':
+                        this._restoreDesignVersion(message.data.filePath, message.data.versionId);
+                        break;
+                    case 'saveDesignExports':
+                        void this._saveDesignExports(message.data.items);
+                        break;
+                    case 'saveCanvasLayout':
+                        void this._saveCanvasLayout(message.data.layout);
+                        break;
+                    case 'openDevicePresetSettings':
+                        void vscode.commands.executeCommand(
+                            'workbench.action.openSettings',
+                            `${CANVAS_SECTION}.devicePresets`
+                        );
+                        break;
+                    case 'updateDesignComments':
+                        this._updateDesignComments(message.data.filePath, message.data.action);
+                        break;
+                    case 'sendDesignCommentsToChat':
+                        this._sendDesignCommentsToChat(message.data.filePath);
+                        break;
+                    case 'generateComponent':
+                        void vscode.commands.executeCommand(
+                            'securedesign.generateComponent',
+                            vscode.Uri.file(message.data.filePath)
+                        );
+                        break;
                 }
             },
             null,
@@ -279,7 +351,7 @@ export class SuperdesignCanvasPanel {
 
     private _setupFileWatcher() {
         this._fileWatcherService.setupWatcher({
-            pattern: '.superdesign/design_iterations/**/*.{html,svg,css}',
+            pattern: '.superdesign/design_iterations/**/*.{html,svg,css,json}',
             onFileChange: (event: FileChangeEvent) => {
                 this._panel.webview.postMessage({
                     command: 'fileChanged',
@@ -462,7 +534,17 @@ export class SuperdesignCanvasPanel {
             );
 
             // Filter out any failed file reads and add to all files
-            const validFiles = loadedFiles.filter((file): file is DesignFile => file !== null);
+            const variants = indexVariantManifests(
+                await this._readVariantManifests(designFolder, files)
+            );
+            const validFiles = loadedFiles
+                .filter((file): file is DesignFile => file !== null)
+                .map(file => {
+                    const variant = variants.get(file.name);
+                    return variant
+                        ? { ...file, variantGroup: variant.group, variantLabel: variant.label }
+                        : file;
+                });
             Logger.info(
                 `Loaded ${validFiles.length} design files from workspace: ${workspaceFolder.name}`
             );
@@ -475,6 +557,34 @@ export class SuperdesignCanvasPanel {
         }
     }
 
+    private async _readVariantManifests(
+        designFolder: vscode.Uri,
+        files: Array<[string, vscode.FileType]>
+    ): Promise<VariantManifest[]> {
+        const manifests = await Promise.all(
+            files
+                .filter(
+                    ([name, type]) =>
+                        type === vscode.FileType.File && name.endsWith(VARIANT_MANIFEST_SUFFIX)
+                )
+                .map(async ([name]) => {
+                    try {
+                        const content = await vscode.workspace.fs.readFile(
+                            vscode.Uri.joinPath(designFolder, name)
+                        );
+                        return JSON.parse(Buffer.from(content).toString('utf8')) as VariantManifest;
+                    } catch (error) {
+                        Logger.warn(`Failed to read variant manifest ${name}: ${error}`);
+                        return null;
+                    }
+                })
+        );
+        return manifests.filter(
+            (manifest): manifest is VariantManifest =>
+                manifest !== null && Array.isArray(manifest.variants)
+        );
+    }
+
     private async _loadDesignFiles() {
         const workspaceFolders = vscode.workspace.workspaceFolders;
         if (!workspaceFolders || workspaceFolders.length === 0) {
@@ -512,10 +622,30 @@ export class SuperdesignCanvasPanel {
                 `Total loaded design files: ${allValidFiles.length} from ${workspaceFolders.length} workspace(s)`
             );
 
+            const devicePresets = readDevicePresets();
+            const layout = await this._readCanvasLayout(
+                allValidFiles.map(file => file.name),
+                devicePresets.map(preset => preset.id)
+            );
+            const comments: Record<string, DesignCommentThread[]> = {};
+            for (const file of allValidFiles) {
+                const workingDirectory = this._getDesignWorkingDirectory(file.path);
+                const threads =
+                    workingDirectory !== undefined
+                        ? readDesignComments(workingDirectory, file.path)
+                        : [];
+                if (threads.length > 0) {
+                    comments[file.path] = threads;
+                }
+            }
+
             this._panel.webview.postMessage({
                 command: 'designFilesLoaded',
                 data: {
                     files: allValidFiles,
+                    layout,
+                    comments,
+                    devicePresets,
                     workspaceInfo: {
                         folderCount: vscode.workspace.workspaceFolders?.length ?? 0,
                         folderNames: vscode.workspace.workspaceFolders?.map(f => f.name) ?? [],
@@ -531,6 +661,222 @@ export class SuperdesignCanvasPanel {
         }
     }
 
+    private _getCanvasLayoutUri(): vscode.Uri | undefined {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        return workspaceFolder
+            ? vscode.Uri.joinPath(workspaceFolder.uri, '.superdesign', CANVAS_LAYOUT_FILE)
+            : undefined;
+    }
+
+    /**
+     * Read the saved canvas layout, dropping frames of deleted designs from the file
+     */
+    private async _readCanvasLayout(
+        designNames: string[],
+        deviceIds: string[]
+    ): Promise<CanvasLayout> {
+        const layoutUri = this._getCanvasLayoutUri();
+        if (!layoutUri) {
+            return DEFAULT_CANVAS_LAYOUT;
+        }
+
+        let saved: CanvasLayout;
+        try {
+            const content = await vscode.workspace.fs.readFile(layoutUri);
+            this._canvasLayoutText = Buffer.from(content).toString('utf8');
+            saved = parseCanvasLayout(this._canvasLayoutText, deviceIds);
+        } catch {
+            return DEFAULT_CANVAS_LAYOUT;
+        }
+
+        const layout = reconcileCanvasLayout(saved, designNames);
+        if (layout !== saved) {
+            await this._saveCanvasLayout(layout);
+        }
+        return layout;
+    }
+
+    private async _saveCanvasLayout(layout: CanvasLayout) {
+        const layoutUri = this._getCanvasLayoutUri();
+        const text = serializeCanvasLayout(layout);
+        if (!layoutUri || text === this._canvasLayoutText) {
+            return;
+        }
+
+        try {
+            await vscode.workspace.fs.writeFile(layoutUri, Buffer.from(text, 'utf8'));
+            this._canvasLayoutText = text;
+        } catch (error) {
+            Logger.warn(`Failed to save canvas layout: ${error}`);
+        }
+    }
+
+    /**
+     * Resolve the .superdesign folder that owns a design file, or undefined when the file is
+     * not a versioned design
+     */
+    private _getDesignWorkingDirectory(filePath: string): string | undefined {
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+        if (!workspaceFolder) {
+            return undefined;
+        }
+        const workingDirectory = path.join(workspaceFolder.uri.fsPath, '.superdesign');
+        return getDesignHistoryKey(workingDirectory, filePath) !== undefined
+            ? workingDirectory
+            : undefined;
+    }
+
+    private async _sendDesignHistory(filePath: string) {
+        const workingDirectory = this._getDesignWorkingDirectory(filePath);
+        if (workingDirectory === undefined) {
+            vscode.window.showWarningMessage(`No version history for ${filePath}`);
+            return;
+        }
+
+        try {
+            const current = await vscode.workspace.fs.readFile(vscode.Uri.file(filePath));
+            this._panel.webview.postMessage({
+                command: 'designHistoryLoaded',
+                data: {
+                    filePath,
+                    versions: listDesignVersions(workingDirectory, filePath),
+                    current: Buffer.from(current).toString('utf8'),
+                },
+            });
+        } catch (error) {
+            Logger.error(`Failed to load design history for ${filePath}: ${error}`);
+            vscode.window.showErrorMessage(`Failed to load design history: ${error}`);
+        }
+    }
+
+    private async _sendDesignVersion(filePath: string, versionId: string) {
+        const workingDirectory = this._getDesignWorkingDirectory(filePath);
+        if (workingDirectory === undefined) {
+            return;
+        }
+
+        try {
+            const content = readDesignVersion(workingDirectory, filePath, versionId);
+            // Render old versions against the current stylesheets, as the canvas does
+            const renderedContent = filePath.toLowerCase().endsWith('.html')
+                ? await this._inlineExternalCSS(content, vscode.Uri.file(path.dirname(filePath)))
+                : content;
+            this._panel.webview.postMessage({
+                command: 'designVersionLoaded',
+                data: { filePath, versionId, content, renderedContent },
+            });
+        } catch (error) {
+            Logger.error(`Failed to read design version ${versionId} of ${filePath}: ${error}`);
+            vscode.window.showErrorMessage(`Failed to read design version: ${error}`);
+        }
+    }
+
+    private _restoreDesignVersion(filePath: string, versionId: string) {
+        const workingDirectory = this._getDesignWorkingDirectory(filePath);
+        if (workingDirectory === undefined) {
+            return;
+        }
+
+        try {
+            restoreDesignVersion(workingDirectory, filePath, versionId);
+            Logger.info(`Restored ${filePath} to version ${versionId}`);
+            this._panel.webview.postMessage({
+                command: 'designVersionRestored',
+                data: { filePath, versionId },
+            });
+            // The file watcher reloads the canvas; refresh the history list right away
+            void this._sendDesignHistory(filePath);
+        } catch (error) {
+            Logger.error(`Failed to restore ${filePath} to version ${versionId}: ${error}`);
+            vscode.window.showErrorMessage(`Failed to restore design version: ${error}`);
+        }
+    }
+
+    private _updateDesignComments(filePath: string, action: DesignCommentAction) {
+        const workingDirectory = this._getDesignWorkingDirectory(filePath);
+        if (workingDirectory === undefined) {
+            vscode.window.showWarningMessage(`Comments can't be saved for ${filePath}`);
+            return;
+        }
+
+        try {
+            const threads = updateDesignComments(
+                workingDirectory,
+                filePath,
+                action,
+                readCommentAuthor()
+            );
+            this._panel.webview.postMessage({
+                command: 'designCommentsLoaded',
+                data: { filePath, threads },
+            });
+        } catch (error) {
+            Logger.error(`Failed to update comments on ${filePath}: ${error}`);
+            vscode.window.showErrorMessage(`Failed to save comment: ${error}`);
+        }
+    }
+
+    /**
+     * Put the open comments on a design into the chat as a revision request, with the design
+     * as context, for the user to send
+     */
+    private _sendDesignCommentsToChat(filePath: string) {
+        const workingDirectory = this._getDesignWorkingDirectory(filePath);
+        const prompt =
+            workingDirectory !== undefined
+                ? formatRevisionRequest(readDesignComments(workingDirectory, filePath))
+                : undefined;
+        if (prompt === undefined) {
+            vscode.window.showInformationMessage('There are no open comments on this design');
+            return;
+        }
+
+        this._sidebarProvider.sendMessage({
+            command: 'contextFromCanvas',
+            data: { fileName: filePath, type: 'frame' },
+        });
+        this._sidebarProvider.sendMessage({
+            command: 'setChatPrompt',
+            data: { prompt },
+        });
+        void vscode.commands.executeCommand('workbench.view.extension.securedesign-sidebar');
+    }
+
+    private async _saveDesignExports(items: DesignExportItem[]) {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        if (!workspaceFolder) {
+            this._panel.webview.postMessage({
+                command: 'designExportFailed',
+                data: { error: 'No workspace folder found. Please open a workspace first.' },
+            });
+            return;
+        }
+
+        try {
+            const paths = await writeDesignExports(
+                path.join(workspaceFolder.uri.fsPath, '.superdesign'),
+                items
+            );
+            Logger.info(`Exported ${paths.length} design snapshot(s)`);
+            this._panel.webview.postMessage({ command: 'designExportsSaved', data: { paths } });
+
+            const reveal = 'Reveal in File Explorer';
+            const choice = await vscode.window.showInformationMessage(
+                `Exported ${paths.length} file(s) to .superdesign/exports`,
+                reveal
+            );
+            if (choice === reveal && paths.length > 0) {
+                await vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(paths[0]));
+            }
+        } catch (error) {
+            Logger.error(`Failed to export designs: ${error}`);
+            this._panel.webview.postMessage({
+                command: 'designExportFailed',
+                data: { error: `Failed to export designs: ${error}` },
+            });
+        }
+    }
+
     private async _inlineExternalCSS(
         htmlContent: string,
         designFolder: vscode.Uri
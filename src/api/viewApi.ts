@@ -1,10 +1,16 @@
 import type { StorageAdapter } from 'ai-sdk-react-model-picker';
 import type { ChatMessage } from '../types/chatMessage';
+import type { CanvasChatContext } from '../types/elementPicker';
+import type { ToolApprovalRequest } from '../types/toolApproval';
 import type { ClientCalls, HostCalls } from 'react-vscode-webview-ipc/client';
 
 export interface ChatViewAPI extends StorageAdapter, ClientCalls {
     stopChat: () => Promise<void>;
 
+    // Tool approval operations
+    getPendingToolApprovals: () => Promise<ToolApprovalRequest[]>;
+    respondToToolApproval: (requestId: string, approved: boolean) => Promise<void>;
+
     // Context operations
     selectFile: () => Promise<string | null>;
     selectFolder: () => Promise<string | null>;
@@ -40,13 +46,17 @@ export interface ChatViewEvents extends HostCalls {
     chatError: (error: string, actions?: any[]) => void;
     chatStopped: () => void;
 
+    // Tool approval events
+    toolApprovalRequested: (request: ToolApprovalRequest) => void;
+    toolApprovalResolved: (requestId: string, approved: boolean) => void;
+
     // State events
     workspaceChanged: (workspaceId?: string) => void;
     providerChanged: (providerId: string, model: string) => void;
     historyLoaded: (history: ChatMessage[], workspaceId?: string) => void;
 
     // Context events
-    contextFromCanvas: (data: { fileName: string; type: string }) => void;
+    contextFromCanvas: (data: CanvasChatContext) => void;
 
     // Image events
     imageSavedToMoodboard: (data: {
@@ -7,6 +7,25 @@ import { getLogger } from 'react-vscode-webview-ipc/host';
 import type { ChatViewEvents, ChatViewAPI } from '../api/viewApi';
 import type { TextPart, ImagePart, FilePart } from '@ai-sdk/provider-utils';
 import { SecureStorageService } from '../services/secureStorageService';
+import type { ToolApprovalService } from '../services/toolApprovalService';
+import type { ToolApprovalRequest } from '../types/toolApproval';
+import { readUsageSettings } from '../services/usageSettings';
+import { WorkspaceSpendTracker } from '../services/workspaceSpend';
+import type ChatSessionsRepository from './ChatSessionsRepository';
+import type { ChatSessionsState } from '../types';
+import type { DesignWorkflow, WorkflowStepId } from '../types/designWorkflow';
+import {
+    approveStep,
+    findStepArtifact,
+    getWorkflowStep,
+    isWorkflowComplete,
+    reviseStep,
+    startWorkflow,
+    submitStep,
+    workflowArtifactPath,
+} from '../services/designWorkflow';
+import { replaceUserText } from '../services/chatBranches';
+import { resolvePathInDirectory } from '../tools/tool-utils';
 
 /**
  * Interface for event triggering capability to avoid circular dependencies
@@ -24,16 +43,22 @@ export interface EventTrigger {
  */
 export class ChatController {
     private currentRequestController: AbortController | undefined = undefined;
+    // The session the running request answers in
+    private currentRequestSessionId: string | undefined = undefined;
     private readonly storage: SecureStorageService;
+    private readonly spendTracker: WorkspaceSpendTracker;
     private readonly logger = getLogger('ChatController');
 
     constructor(
         private readonly agentService: AgentService,
         private readonly eventTrigger: EventTrigger,
         private readonly chatMessagesRepository: ChatMessagesRepository,
-        workspaceState: WorkspaceStateService
+        private readonly toolApprovalService: ToolApprovalService,
+        workspaceState: WorkspaceStateService,
+        private readonly chatSessionsRepository: ChatSessionsRepository
     ) {
         this.storage = new SecureStorageService(workspaceState.secrets());
+        this.spendTracker = new WorkspaceSpendTracker(workspaceState);
     }
 
     // eslint-disable-next-line @typescript-eslint/member-ordering
@@ -205,10 +230,22 @@ export class ChatController {
             this.logger.debug('Initializing Securedesign project');
             await vscode.commands.executeCommand('securedesign.initializeProject');
         },
-        stopChat(): Promise<void> {
-            // TODO:
-            // this.currentRequestController?.abort();
-            // this.eventTrigger.triggerEvent('chatStopped');
+        stopChat: (): Promise<void> => {
+            if (this.currentRequestController === undefined) {
+                // Nothing is running; still reset the UI in case it missed the end event
+                this.eventTrigger.triggerEvent('chatStopped');
+                return Promise.resolve();
+            }
+            this.logger.info('API: stopChat called, aborting current request');
+            // sendChatMessage persists the interrupted history and fires chatStopped
+            this.currentRequestController.abort();
+            return Promise.resolve();
+        },
+        getPendingToolApprovals: (): Promise<ToolApprovalRequest[]> => {
+            return Promise.resolve(this.toolApprovalService.getPendingRequests());
+        },
+        respondToToolApproval: (requestId: string, approved: boolean): Promise<void> => {
+            this.toolApprovalService.respond(requestId, approved);
             return Promise.resolve();
         },
         get: (key: string) => this.storage.get(key),
@@ -217,50 +254,167 @@ export class ChatController {
     };
 
     async sendChatMessage(prompt: string | Array<TextPart | ImagePart | FilePart>): Promise<void> {
+        if (this.rejectOverSpendCap()) {
+            return;
+        }
+        // Pin the session so switching sessions mid-stream doesn't redirect the response
+        const sessionId = this.chatMessagesRepository.getActiveSessionId();
+        const controller = this.claimRequest('sending another message', sessionId);
+        if (controller === undefined) {
+            return;
+        }
+        await this.sendClaimed(sessionId, prompt, controller);
+    }
+
+    /**
+     * Change the text of an earlier user message and run the agent again from there. The
+     * conversation that followed the original message stays available as a branch.
+     */
+    async editAndResend(messageIndex: number, text: string): Promise<void> {
+        if (this.rejectOverSpendCap()) {
+            return;
+        }
+        const sessionId = this.chatMessagesRepository.getActiveSessionId();
+        const original = this.chatMessagesRepository.getChatHistory(sessionId)[messageIndex];
+        if (original?.role !== 'user') {
+            this.logger.warn(`Cannot edit message ${messageIndex}: not a user message`);
+            return;
+        }
+        const controller = this.claimRequest('editing a message', sessionId);
+        if (controller === undefined) {
+            return;
+        }
+        const content = replaceUserText(original.content, text);
         try {
-            void vscode.commands.executeCommand('securedesign.openCanvas');
+            this.openCanvas();
+            await this.chatMessagesRepository.forkChatHistory(
+                messageIndex,
+                { role: 'user', content, metadata: { timestamp: Date.now() } },
+                sessionId
+            );
         } catch (error) {
-            this.logger.error('Failed to auto-open canvas on sending message', { error });
+            this.releaseRequest();
+            throw error;
         }
-        await this.chatMessagesRepository.appendMessage({
-            role: 'user',
-            content: prompt,
-            metadata: {
-                timestamp: Date.now(),
-            },
-        });
+        await this.respond(sessionId, content, controller);
+    }
+
+    /**
+     * Show another branch at an edited message. Not while a response streams into the session,
+     * since its saves would overwrite the switched history.
+     */
+    async switchBranch(messageIndex: number, branch: number): Promise<void> {
+        const sessionId = this.chatMessagesRepository.getActiveSessionId();
+        if (this.refuseWhileResponding(sessionId, 'switching branches')) {
+            return;
+        }
+        await this.chatMessagesRepository.switchBranch(messageIndex, branch, sessionId);
+    }
+
+    /**
+     * Take the request slot. Sessions share it, so Stop always reaches the running stream and a
+     * second request waits until the first one ends.
+     */
+    private claimRequest(action: string, sessionId: string): AbortController | undefined {
+        if (this.currentRequestController !== undefined) {
+            this.warnRequestRunning(action);
+            return undefined;
+        }
+        this.currentRequestController = new AbortController();
+        this.currentRequestSessionId = sessionId;
+        return this.currentRequestController;
+    }
+
+    private warnRequestRunning(action: string): void {
+        vscode.window.showWarningMessage(
+            `Wait for the current response to finish or stop it before ${action}.`
+        );
+    }
+
+    private releaseRequest(): void {
+        this.currentRequestController = undefined;
+        this.currentRequestSessionId = undefined;
+    }
+
+    /**
+     * Add the user's message to a session and respond to it
+     */
+    private async sendClaimed(
+        sessionId: string,
+        prompt: string | Array<TextPart | ImagePart | FilePart>,
+        controller: AbortController
+    ): Promise<void> {
+        try {
+            this.openCanvas();
+            await this.chatMessagesRepository.appendMessage(
+                {
+                    role: 'user',
+                    content: prompt,
+                    metadata: {
+                        timestamp: Date.now(),
+                    },
+                },
+                sessionId
+            );
+        } catch (error) {
+            this.releaseRequest();
+            throw error;
+        }
+        await this.respond(sessionId, prompt, controller);
+    }
+
+    /**
+     * Run the agent on a session whose history ends with the user's message
+     */
+    private async respond(
+        sessionId: string,
+        prompt: string | Array<TextPart | ImagePart | FilePart>,
+        controller: AbortController
+    ): Promise<void> {
+        const history = this.chatMessagesRepository.getChatHistory(sessionId);
+        let latestHistory = history;
         try {
-            this.currentRequestController = new AbortController();
             this.eventTrigger.triggerEvent('chatStreamStart');
+            const workflow = await this.prepareWorkflowTurn(sessionId, prompt);
 
             const updatedChatHistory = await this.agentService.query(
-                this.chatMessagesRepository.getChatHistory(),
-                this.currentRequestController,
+                history,
+                controller,
                 (prev: ChatMessage[]) => {
+                    latestHistory = prev;
                     void (async () => {
                         try {
-                            await this.chatMessagesRepository.saveChatHistory(prev);
+                            await this.chatMessagesRepository.saveChatHistory(prev, sessionId);
                         } catch (error) {
                             this.logger.error('Failed to save intermediate chat history', {
                                 error,
                             });
                         }
                     })();
-                }
+                },
+                workflow
             );
-            await this.chatMessagesRepository.saveChatHistory(updatedChatHistory);
+            latestHistory = updatedChatHistory;
+            await this.chatMessagesRepository.saveChatHistory(updatedChatHistory, sessionId);
 
             // Check if request was aborted
-            if (this.currentRequestController.signal.aborted) {
-                this.logger.warn('Request was aborted');
+            if (controller.signal.aborted) {
+                this.logger.info('Request was stopped by user');
+                this.eventTrigger.triggerEvent('chatStopped');
                 return;
             }
 
+            // A failed model call leaves the step with the agent instead of asking for review
+            const failed = updatedChatHistory[updatedChatHistory.length - 1]?.metadata?.is_error;
+            if (workflow !== undefined && failed !== true) {
+                await this.submitWorkflowStep(sessionId, workflow, updatedChatHistory);
+            }
+
             // Trigger stream end event
             this.eventTrigger.triggerEvent('chatStreamEnd');
         } catch (error) {
             // Check if the error is due to abort
-            if (this.currentRequestController?.signal.aborted === true) {
+            if (controller.signal.aborted) {
                 this.logger.info('Request was stopped by user');
                 this.eventTrigger.triggerEvent('chatStopped');
                 return;
@@ -276,14 +430,241 @@ export class ChatController {
             this.eventTrigger.triggerEvent('chatError', errorMessage);
         } finally {
             // Clear the controller when done
-            this.currentRequestController = undefined;
+            this.releaseRequest();
+            // Stopped and failed requests are still billed for the steps that completed
+            await this.recordSpend(history, latestHistory);
+        }
+    }
+
+    /**
+     * Delete a session and its history once the user confirms. The session a response is
+     * streaming into is kept until the response is stopped, since the request would save its
+     * history back.
+     */
+    public async deleteSession(sessionId: string): Promise<ChatSessionsState> {
+        const session = this.chatSessionsRepository.getSession(sessionId);
+        if (this.refuseWhileResponding(sessionId, 'deleting this chat')) {
+            return this.chatSessionsRepository.getState();
+        }
+        const choice = await vscode.window.showWarningMessage(
+            `Delete chat "${session?.name ?? sessionId}"? This cannot be undone.`,
+            { modal: true },
+            'Delete'
+        );
+        // A response may have started while the dialog was open
+        if (choice !== 'Delete' || this.refuseWhileResponding(sessionId, 'deleting this chat')) {
+            return this.chatSessionsRepository.getState();
+        }
+        const state = await this.chatSessionsRepository.deleteSession(sessionId);
+        await this.chatMessagesRepository.deleteChatHistory(sessionId);
+        return state;
+    }
+
+    /**
+     * Warn and return true when a response is streaming into the session
+     */
+    private refuseWhileResponding(sessionId: string, action: string): boolean {
+        if (this.currentRequestSessionId !== sessionId) {
+            return false;
+        }
+        this.warnRequestRunning(action);
+        return true;
+    }
+
+    public async startWorkflow(): Promise<ChatSessionsState> {
+        const sessionId = this.chatSessionsRepository.getActiveSessionId();
+        this.logger.info(`Starting guided workflow in session ${sessionId}`);
+        return this.chatSessionsRepository.setWorkflow(sessionId, startWorkflow());
+    }
+
+    public async exitWorkflow(): Promise<ChatSessionsState> {
+        const sessionId = this.chatSessionsRepository.getActiveSessionId();
+        return this.chatSessionsRepository.setWorkflow(sessionId, undefined);
+    }
+
+    /**
+     * Approve the step under review and ask the agent to start the next one
+     */
+    public async approveWorkflowStep(): Promise<ChatSessionsState> {
+        const sessionId = this.chatSessionsRepository.getActiveSessionId();
+        const workflow = this.chatSessionsRepository.getSession(sessionId)?.workflow;
+        if (workflow?.steps[workflow.currentStep].status !== 'review') {
+            return this.chatSessionsRepository.getState();
+        }
+        const approved = approveStep(workflow);
+        if (isWorkflowComplete(approved)) {
+            return this.chatSessionsRepository.setWorkflow(sessionId, approved);
+        }
+        // The next step starts a request, so approving waits for the running one
+        if (this.rejectOverSpendCap()) {
+            return this.chatSessionsRepository.getState();
+        }
+        const controller = this.claimRequest('approving the step', sessionId);
+        if (controller === undefined) {
+            return this.chatSessionsRepository.getState();
+        }
+        let state: ChatSessionsState;
+        try {
+            state = await this.chatSessionsRepository.setWorkflow(sessionId, approved);
+        } catch (error) {
+            this.releaseRequest();
+            throw error;
+        }
+        const next = getWorkflowStep(approved.currentStep);
+        this.sendClaimed(
+            sessionId,
+            `Approved ${getWorkflowStep(workflow.currentStep).label.toLowerCase()}. Continue with the ${next.label.toLowerCase()} step.`,
+            controller
+        ).catch((error: unknown) => {
+            this.logger.error('Failed to start the next workflow step', { error });
+            this.eventTrigger.triggerEvent(
+                'chatError',
+                error instanceof Error ? error.message : String(error)
+            );
+        });
+        return state;
+    }
+
+    public async openWorkflowArtifact(stepId: WorkflowStepId): Promise<void> {
+        const sessionId = this.chatSessionsRepository.getActiveSessionId();
+        const artifact =
+            this.chatSessionsRepository.getSession(sessionId)?.workflow?.steps[stepId].artifact;
+        const superdesign = this.getSuperdesignUri();
+        if (artifact === undefined || superdesign === undefined) {
+            return;
+        }
+        // Tool artifacts are the path the agent passed, which may be absolute
+        await vscode.window.showTextDocument(
+            vscode.Uri.file(resolvePathInDirectory(artifact, superdesign.fsPath))
+        );
+    }
+
+    /**
+     * The workflow the agent works within for this message. A message sent while a step is
+     * under review is feedback on that step, so the step goes back to the agent.
+     */
+    private async prepareWorkflowTurn(
+        sessionId: string,
+        prompt: string | Array<TextPart | ImagePart | FilePart>
+    ): Promise<DesignWorkflow | undefined> {
+        const workflow = this.chatSessionsRepository.getSession(sessionId)?.workflow;
+        if (workflow === undefined || isWorkflowComplete(workflow)) {
+            return workflow;
+        }
+        if (workflow.steps[workflow.currentStep].status !== 'review') {
+            return workflow;
+        }
+        const feedback =
+            typeof prompt === 'string'
+                ? prompt
+                : prompt.map(part => (part.type === 'text' ? part.text : '')).join('');
+        const revised = reviseStep(workflow, feedback.trim());
+        await this.chatSessionsRepository.setWorkflow(sessionId, revised);
+        return revised;
+    }
+
+    /**
+     * Save the output of the agent's turn as the current step's artifact and hold the step for
+     * review. Files written by tools are referenced; text replies are saved to .superdesign.
+     */
+    private async submitWorkflowStep(
+        sessionId: string,
+        workflow: DesignWorkflow,
+        messages: ChatMessage[]
+    ): Promise<void> {
+        if (isWorkflowComplete(workflow)) {
+            return;
+        }
+        let artifact: string | undefined;
+        try {
+            const output = findStepArtifact(workflow.currentStep, messages);
+            const superdesign = this.getSuperdesignUri();
+            if (output !== undefined && 'path' in output) {
+                artifact = output.path;
+            } else if (output !== undefined && superdesign !== undefined) {
+                artifact = workflowArtifactPath(sessionId, workflow.currentStep);
+                const uri = vscode.Uri.joinPath(superdesign, artifact);
+                await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(uri, '..'));
+                await vscode.workspace.fs.writeFile(uri, Buffer.from(`${output.text}\n`, 'utf8'));
+            }
+        } catch (error) {
+            this.logger.error('Failed to save workflow step output', { error });
+            artifact = undefined;
+        }
+        try {
+            await this.chatSessionsRepository.setWorkflow(
+                sessionId,
+                submitStep(workflow, artifact)
+            );
+        } catch (error) {
+            // The session was deleted while the agent was working
+            this.logger.warn('Could not update workflow of session', { sessionId, error });
+        }
+    }
+
+    private getSuperdesignUri(): vscode.Uri | undefined {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        return workspaceFolder
+            ? vscode.Uri.joinPath(workspaceFolder.uri, '.superdesign')
+            : undefined;
+    }
+
+    /**
+     * Tell the user when the monthly spend cap stops a request. Returns true when it does.
+     */
+    private rejectOverSpendCap(): boolean {
+        const capMessage = this.checkSpendCap();
+        if (capMessage === undefined) {
+            return false;
+        }
+        this.logger.warn(capMessage);
+        void vscode.window
+            .showErrorMessage(capMessage, 'Open Settings')
+            .then(choice =>
+                choice === 'Open Settings'
+                    ? vscode.commands.executeCommand(
+                          'workbench.action.openSettings',
+                          'securedesign.usage.monthlySpendCapUsd'
+                      )
+                    : undefined
+            );
+        this.eventTrigger.triggerEvent('chatError', capMessage);
+        return true;
+    }
+
+    private openCanvas(): void {
+        try {
+            void vscode.commands.executeCommand('securedesign.openCanvas');
+        } catch (error) {
+            this.logger.error('Failed to auto-open canvas on sending message', { error });
+        }
+    }
+
+    /**
+     * Returns a message when this workspace's spend for the month has reached the configured cap
+     */
+    private checkSpendCap(): string | undefined {
+        return this.spendTracker.getCapMessage(readUsageSettings().monthlySpendCapUsd);
+    }
+
+    /**
+     * Record the cost added by a request. Totals are compared rather than new messages sliced
+     * off, because compaction can insert a (billed) summary message earlier in the history.
+     */
+    private async recordSpend(before: ChatMessage[], after: ChatMessage[]): Promise<void> {
+        const totalCost = (messages: ChatMessage[]) =>
+            messages.reduce((total, message) => total + (message.metadata?.total_cost_usd ?? 0), 0);
+        try {
+            await this.spendTracker.record(totalCost(after) - totalCost(before));
+        } catch (error) {
+            this.logger.error('Failed to record workspace spend', { error });
         }
     }
 
     dispose(): void {
         if (this.currentRequestController) {
             this.currentRequestController.abort();
-            this.currentRequestController = undefined;
+            this.releaseRequest();
         }
     }
 }
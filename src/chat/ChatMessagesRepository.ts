@@ -1,39 +1,165 @@
 import { getLogger } from 'react-vscode-webview-ipc/host';
 import type { WorkspaceStateService } from '../services/workspaceStateService';
-import type { ChatMessage } from '../types';
+import type { ChatForks, ChatMessage } from '../types';
+import { forkConversation, switchBranch } from '../services/chatBranches';
 import BaseRepository from '../types/BaseRepository';
+import type ChatSessionsRepository from './ChatSessionsRepository';
 
 const CHAT_HISTORY_KEY_PREFIX = 'securedesign.chatHistory';
 
+const CHAT_BRANCHES_KEY_PREFIX = 'securedesign.chatBranches';
+
+function historyKey(sessionId: string): string {
+    return `${CHAT_HISTORY_KEY_PREFIX}.${sessionId}`;
+}
+
+function branchesKey(sessionId: string): string {
+    return `${CHAT_BRANCHES_KEY_PREFIX}.${sessionId}`;
+}
+
+/**
+ * Holds the message history of the active chat session. Each session's history is persisted
+ * under its own key, and switching sessions swaps the data seen by subscribers.
+ */
 class ChatMessagesRepository extends BaseRepository<ChatMessage[] | undefined> {
     private readonly logger = getLogger('ChatMessagesRepository');
-    constructor(private readonly workspace: WorkspaceStateService) {
-        super(workspace.get(CHAT_HISTORY_KEY_PREFIX));
+    private activeSessionId: string;
+    private readonly sessionsUnsubscribe: () => void;
+
+    constructor(
+        private readonly workspace: WorkspaceStateService,
+        private readonly sessions: ChatSessionsRepository
+    ) {
+        super(workspace.get(historyKey(sessions.getActiveSessionId())));
+        this.activeSessionId = sessions.getActiveSessionId();
+        this.migrateLegacyHistory();
+
+        this.sessionsUnsubscribe = sessions.subscribe(({ activeSessionId }) => {
+            if (activeSessionId === this.activeSessionId) {
+                return;
+            }
+            this.activeSessionId = activeSessionId;
+            super.setData(this.workspace.get<ChatMessage[]>(historyKey(activeSessionId)) ?? []);
+        });
     }
 
-    public async saveChatHistory(chatHistory: ChatMessage[]): Promise<void> {
+    public getActiveSessionId(): string {
+        return this.activeSessionId;
+    }
+
+    /**
+     * Persist a session's history. Updates subscribers only when the session is the active one,
+     * so a response still streaming into a session the user has switched away from stays there.
+     */
+    public async saveChatHistory(
+        chatHistory: ChatMessage[],
+        sessionId: string = this.activeSessionId
+    ): Promise<void> {
         try {
             await this.workspace.update(
-                CHAT_HISTORY_KEY_PREFIX,
+                historyKey(sessionId),
                 chatHistory.length > 0 ? chatHistory : undefined
             );
-            super.setData(chatHistory);
+            if (sessionId === this.activeSessionId) {
+                super.setData(chatHistory);
+            }
         } catch (error) {
             this.logger.error('Failed to save chat history:', { error });
             throw error;
         }
     }
 
-    public getChatHistory(): ChatMessage[] {
-        return super.getData() ?? [];
+    public getChatHistory(sessionId: string = this.activeSessionId): ChatMessage[] {
+        if (sessionId === this.activeSessionId) {
+            return super.getData() ?? [];
+        }
+        return this.workspace.get<ChatMessage[]>(historyKey(sessionId)) ?? [];
     }
 
     public async clearChatHistory(): Promise<void> {
+        await this.saveForks({}, this.activeSessionId);
         return this.saveChatHistory([]);
     }
 
-    public async appendMessage(message: ChatMessage): Promise<void> {
-        return this.saveChatHistory([...this.getChatHistory(), message]);
+    public async deleteChatHistory(sessionId: string): Promise<void> {
+        await this.workspace.update(historyKey(sessionId), undefined);
+        await this.workspace.update(branchesKey(sessionId), undefined);
+    }
+
+    /**
+     * Replace the user message at `index` and drop what followed it, keeping the old
+     * conversation from that message onwards as a branch
+     */
+    public async forkChatHistory(
+        index: number,
+        message: ChatMessage,
+        sessionId: string = this.activeSessionId
+    ): Promise<void> {
+        const forked = forkConversation(
+            this.getChatHistory(sessionId),
+            this.getForks(sessionId),
+            index,
+            message
+        );
+        await this.saveForks(forked.forks, sessionId);
+        await this.saveChatHistory(forked.messages, sessionId);
+        await this.sessions.touchSession(sessionId);
+    }
+
+    public async switchBranch(
+        index: number,
+        branch: number,
+        sessionId: string = this.activeSessionId
+    ): Promise<void> {
+        const switched = switchBranch(
+            this.getChatHistory(sessionId),
+            this.getForks(sessionId),
+            index,
+            branch
+        );
+        await this.saveForks(switched.forks, sessionId);
+        await this.saveChatHistory(switched.messages, sessionId);
+    }
+
+    public async appendMessage(
+        message: ChatMessage,
+        sessionId: string = this.activeSessionId
+    ): Promise<void> {
+        await this.saveChatHistory([...this.getChatHistory(sessionId), message], sessionId);
+        await this.sessions.touchSession(sessionId);
+    }
+
+    dispose(): void {
+        this.sessionsUnsubscribe();
+    }
+
+    /**
+     * Move the single pre-sessions history into the active session
+     */
+    private migrateLegacyHistory(): void {
+        const legacy = this.workspace.get<ChatMessage[]>(CHAT_HISTORY_KEY_PREFIX);
+        if (legacy === undefined) {
+            return;
+        }
+        if (super.getData() === undefined) {
+            super.setData(legacy);
+            void this.workspace.update(historyKey(this.activeSessionId), legacy);
+        }
+        void this.workspace.update(CHAT_HISTORY_KEY_PREFIX, undefined);
+        this.logger.info('Migrated legacy chat history into session', {
+            sessionId: this.activeSessionId,
+        });
+    }
+
+    private getForks(sessionId: string): ChatForks {
+        return this.workspace.get<ChatForks>(branchesKey(sessionId)) ?? {};
+    }
+
+    private async saveForks(forks: ChatForks, sessionId: string): Promise<void> {
+        await this.workspace.update(
+            branchesKey(sessionId),
+            Object.keys(forks).length > 0 ? forks : undefined
+        );
     }
 }
 
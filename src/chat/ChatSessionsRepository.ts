@@ -0,0 +1,171 @@
+import { randomUUID } from 'crypto';
+import { getLogger } from 'react-vscode-webview-ipc/host';
+import type { WorkspaceStateService } from '../services/workspaceStateService';
+import type { ChatSession, ChatSessionsState } from '../types';
+import type { DesignWorkflow } from '../types/designWorkflow';
+import BaseRepository from '../types/BaseRepository';
+
+const CHAT_SESSIONS_KEY = 'securedesign.chatSessions';
+
+class ChatSessionsRepository extends BaseRepository<ChatSessionsState> {
+    private readonly logger = getLogger('ChatSessionsRepository');
+    constructor(private readonly workspace: WorkspaceStateService) {
+        const stored = workspace.get<ChatSessionsState>(CHAT_SESSIONS_KEY);
+        super(ChatSessionsRepository.restore(stored));
+        if (stored?.activeSessionId !== this.data.activeSessionId) {
+            void workspace.update(CHAT_SESSIONS_KEY, this.data);
+        }
+    }
+
+    /**
+     * Use the stored index if its active session exists, otherwise start a fresh session
+     */
+    private static restore(stored: ChatSessionsState | undefined): ChatSessionsState {
+        if (stored?.sessions.some(s => s.id === stored.activeSessionId) === true) {
+            return stored;
+        }
+        const sessions = stored?.sessions ?? [];
+        const session = ChatSessionsRepository.newSession(sessions);
+        return { sessions: [...sessions, session], activeSessionId: session.id };
+    }
+
+    private static newSession(existing: ChatSession[], name?: string): ChatSession {
+        const now = Date.now();
+        return {
+            id: randomUUID(),
+            name: name?.trim() ?? `Chat ${existing.length + 1}`,
+            createdAt: now,
+            updatedAt: now,
+        };
+    }
+
+    public getState(): ChatSessionsState {
+        return super.getData();
+    }
+
+    public getActiveSessionId(): string {
+        return super.getData().activeSessionId;
+    }
+
+    public getSession(sessionId: string): ChatSession | undefined {
+        return super.getData().sessions.find(s => s.id === sessionId);
+    }
+
+    public async createSession(name?: string): Promise<ChatSessionsState> {
+        const { sessions } = super.getData();
+        const session = ChatSessionsRepository.newSession(
+            sessions,
+            name !== undefined && name.trim().length > 0 ? name : undefined
+        );
+        return this.save({ sessions: [...sessions, session], activeSessionId: session.id });
+    }
+
+    public async switchSession(sessionId: string): Promise<ChatSessionsState> {
+        const session = this.requireSession(sessionId);
+        const state = super.getData();
+        return this.save({
+            sessions:
+                session.archived === true
+                    ? state.sessions.map(s => (s.id === sessionId ? { ...s, archived: false } : s))
+                    : state.sessions,
+            activeSessionId: sessionId,
+        });
+    }
+
+    public async renameSession(sessionId: string, name: string): Promise<ChatSessionsState> {
+        this.requireSession(sessionId);
+        const trimmed = name.trim();
+        if (trimmed.length === 0) {
+            throw new Error('Session name cannot be empty');
+        }
+        return this.updateSession(sessionId, { name: trimmed, updatedAt: Date.now() });
+    }
+
+    public async setArchived(sessionId: string, archived: boolean): Promise<ChatSessionsState> {
+        this.requireSession(sessionId);
+        const state = super.getData();
+        const sessions = state.sessions.map(s => (s.id === sessionId ? { ...s, archived } : s));
+        if (archived && sessionId === state.activeSessionId) {
+            return this.save(ChatSessionsRepository.withFallbackActive(sessions));
+        }
+        return this.save({ ...state, sessions });
+    }
+
+    public async deleteSession(sessionId: string): Promise<ChatSessionsState> {
+        this.requireSession(sessionId);
+        const state = super.getData();
+        const sessions = state.sessions.filter(s => s.id !== sessionId);
+        if (sessionId === state.activeSessionId) {
+            return this.save(ChatSessionsRepository.withFallbackActive(sessions));
+        }
+        return this.save({ ...state, sessions });
+    }
+
+    public async setWorkflow(
+        sessionId: string,
+        workflow: DesignWorkflow | undefined
+    ): Promise<ChatSessionsState> {
+        this.requireSession(sessionId);
+        return this.updateSession(sessionId, { workflow });
+    }
+
+    /**
+     * Mark a session as recently used so it sorts to the top of the session list
+     */
+    public async touchSession(sessionId: string): Promise<void> {
+        if (this.getSession(sessionId) === undefined) {
+            return;
+        }
+        await this.updateSession(sessionId, { updatedAt: Date.now() });
+    }
+
+    /**
+     * Pick the most recently updated non-archived session as active, creating one if none is left
+     */
+    private static withFallbackActive(sessions: ChatSession[]): ChatSessionsState {
+        const candidates = sessions
+            .filter(s => s.archived !== true)
+            .sort((a, b) => b.updatedAt - a.updatedAt);
+        if (candidates.length > 0) {
+            return { sessions, activeSessionId: candidates[0].id };
+        }
+        const session = ChatSessionsRepository.newSession(sessions);
+        return { sessions: [...sessions, session], activeSessionId: session.id };
+    }
+
+    private requireSession(sessionId: string): ChatSession {
+        const session = this.getSession(sessionId);
+        if (session === undefined) {
+            throw new Error(`Chat session not found: ${sessionId}`);
+        }
+        return session;
+    }
+
+    private async updateSession(
+        sessionId: string,
+        changes: Partial<Omit<ChatSession, 'id'>>
+    ): Promise<ChatSessionsState> {
+        const state = super.getData();
+        return this.save({
+            ...state,
+            sessions: state.sessions.map(s => (s.id === sessionId ? { ...s, ...changes } : s)),
+        });
+    }
+
+    private async save(state: ChatSessionsState): Promise<ChatSessionsState> {
+        await this.persist(state);
+        super.setData(state);
+        return state;
+    }
+
+    private async persist(state: ChatSessionsState): Promise<void> {
+        try {
+            await this.workspace.update(CHAT_SESSIONS_KEY, state);
+        } catch (error) {
+            this.logger.error('Failed to save chat sessions:', { error });
+            throw error;
+        }
+    }
+}
+
+export default ChatSessionsRepository;
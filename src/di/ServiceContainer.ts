@@ -1,8 +1,13 @@
 import type * as vscode from 'vscode';
+import { AgentProfileService } from '../services/agentProfileService';
 import { CustomAgentService } from '../services/customAgentService';
+import { DesignSystemService } from '../services/designSystemService';
+import { DesignVariantService } from '../services/designVariantService';
+import { ToolApprovalService } from '../services/toolApprovalService';
 import { WorkspaceStateService } from '../services/workspaceStateService';
 import { ChatController } from '../chat/ChatController';
 import ChatMessagesRepository from '../chat/ChatMessagesRepository';
+import ChatSessionsRepository from '../chat/ChatSessionsRepository';
 import { getLogger, WebviewApiProvider } from 'react-vscode-webview-ipc/host';
 import { ChatSidebarProvider } from '../providers/chatSidebarProvider';
 import type { ChatViewEvents } from '../api/viewApi';
@@ -25,24 +30,47 @@ export class ServiceContainer implements vscode.Disposable {
 
         // WSS is initialized in extension.ts
         const workspaceStateService = WorkspaceStateService.getInstance();
-        const customAgent = new CustomAgentService(workspaceStateService);
+        const chatApiProvider = new WebviewApiProvider<ChatViewEvents>();
+        this.services.set('apiProvider', chatApiProvider);
+
+        // apiProvider implements EventTrigger interface
+        const toolApprovalService = new ToolApprovalService(chatApiProvider);
+        const agentProfileService = new AgentProfileService(workspaceStateService);
+        const designSystemService = new DesignSystemService();
+        const customAgent = new CustomAgentService(
+            workspaceStateService,
+            toolApprovalService,
+            agentProfileService,
+            designSystemService
+        );
 
         this.services.set('workspaceStateService', workspaceStateService);
+        this.services.set('toolApprovalService', toolApprovalService);
+        this.services.set('agentProfileService', agentProfileService);
+        this.services.set('designSystemService', designSystemService);
         this.services.set('customAgent', customAgent);
+        this.services.set(
+            'designVariantService',
+            new DesignVariantService(workspaceStateService, designSystemService)
+        );
 
-        // Initialize repository
-        const chatMessagesRepository = new ChatMessagesRepository(workspaceStateService);
+        // Initialize repositories
+        const chatSessionsRepository = new ChatSessionsRepository(workspaceStateService);
+        this.services.set('chatSessionsRepository', chatSessionsRepository);
+        const chatMessagesRepository = new ChatMessagesRepository(
+            workspaceStateService,
+            chatSessionsRepository
+        );
         this.services.set('chatMessagesRepository', chatMessagesRepository);
 
-        const chatApiProvider = new WebviewApiProvider<ChatViewEvents>();
-        this.services.set('apiProvider', chatApiProvider);
-
         // Create ChatController with apiProvider as EventTrigger
         const chatController = new ChatController(
             customAgent,
             chatApiProvider, // apiProvider implements EventTrigger interface
             chatMessagesRepository,
-            workspaceStateService
+            toolApprovalService,
+            workspaceStateService,
+            chatSessionsRepository
         );
         this.services.set('chatController', chatController);
 
@@ -51,7 +79,9 @@ export class ServiceContainer implements vscode.Disposable {
             this.context.extensionUri,
             chatApiProvider,
             chatController,
-            chatMessagesRepository
+            chatMessagesRepository,
+            chatSessionsRepository,
+            agentProfileService
         );
         this.services.set('sidebarProvider', sidebarProvider);
 
@@ -7,6 +7,23 @@ import { type WebviewApiProvider, Logger } from 'react-vscode-webview-ipc/host';
 import { WorkspaceStateService } from './services/workspaceStateService';
 import { SuperdesignCanvasPanel } from './SuperdesignCanvasPanel';
 import type ChatMessagesRepository from './chat/ChatMessagesRepository';
+import {
+    type ComponentFramework,
+    generateComponent,
+    getLocalStylesheetHrefs,
+    toComponentName,
+} from './services/componentGenerator';
+import { type TokenExportFormat, writeTokenExports } from './services/tokenExport';
+import { buildDesignAgentPrompt, DEFAULT_STYLE_RULES } from './templates/designAgentPrompt';
+import type { DesignVariantService } from './services/designVariantService';
+import type { AgentProfileService } from './services/agentProfileService';
+import { toVariantBaseName } from './services/designVariants';
+import { readVariantSettings } from './services/variantSettings';
+import {
+    LOCAL_PROVIDER_SECTION,
+    readLocalProviderSettings,
+} from './services/localProviderSettings';
+import { fetchLocalModels, isLoopbackUrl } from './providers/openAICompatibleProvider';
 
 // This method is called when your extension is activated
 // Your extension is activated the very first time the command is executed
@@ -198,388 +215,10 @@ async function initializeSecuredesignProject() {
     const superdesignFolder = vscode.Uri.joinPath(workspaceRoot, '.superdesign');
 
     const designRuleContent = `When asked to design UI & frontend interface
-When asked to design UI & frontend interface
-# Role
-You are superdesign, a senior frontend designer integrated into VS Code as part of the Super Design extension.
-Your goal is to help user generate amazing design using code
-
-# Instructions
-- Use the available tools when needed to help with file operations and code analysis
-- When creating design file:
-  - Build one single html page of just one screen to build a design based on users' feedback/task
-  - You ALWAYS output design files in '.superdesign/design_iterations' folder as {design_name}_{n}.html (Where n needs to be unique like table_1.html, table_2.html, etc.) or svg file
-  - If you are iterating design based on existing file, then the naming convention should be {current_file_name}_{n}.html, e.g. if we are iterating ui_1.html, then each version should be ui_1_1.html, ui_1_2.html, etc.
-- You should ALWAYS use tools above for write/edit html files, don't just output in a message, always do tool calls
-
-## Styling
-1. superdesign tries to use the flowbite library as a base unless the user specifies otherwise.
-2. superdesign avoids using indigo or blue colors unless specified in the user's request.
-3. superdesign MUST generate responsive designs.
-4. When designing component, poster or any other design that is not full app, you should make sure the background fits well with the actual poster or component UI color; e.g. if component is light then background should be dark, vice versa.
-5. Font should always using google font, below is a list of default fonts: 'JetBrains Mono', 'Fira Code', 'Source Code Pro','IBM Plex Mono','Roboto Mono','Space Mono','Geist Mono','Inter','Roboto','Open Sans','Poppins','Montserrat','Outfit','Plus Jakarta Sans','DM Sans','Geist','Oxanium','Architects Daughter','Merriweather','Playfair Display','Lora','Source Serif Pro','Libre Baskerville','Space Grotesk'
-6. When creating CSS, make sure you include !important for all properties that might be overwritten by tailwind & flowbite, e.g. h1, body, etc.
-7. Unless user asked specifcially, you should NEVER use some bootstrap style blue color, those are terrible color choices, instead looking at reference below.
-8. Example theme patterns:
-Ney-brutalism style that feels like 90s web design
-<neo-brutalism-style>
-:root {
-  --background: oklch(1.0000 0 0);
-  --foreground: oklch(0 0 0);
-  --card: oklch(1.0000 0 0);
-  --card-foreground: oklch(0 0 0);
-  --popover: oklch(1.0000 0 0);
-  --popover-foreground: oklch(0 0 0);
-  --primary: oklch(0.6489 0.2370 26.9728);
-  --primary-foreground: oklch(1.0000 0 0);
-  --secondary: oklch(0.9680 0.2110 109.7692);
-  --secondary-foreground: oklch(0 0 0);
-  --muted: oklch(0.9551 0 0);
-  --muted-foreground: oklch(0.3211 0 0);
-  --accent: oklch(0.5635 0.2408 260.8178);
-  --accent-foreground: oklch(1.0000 0 0);
-  --destructive: oklch(0 0 0);
-  --destructive-foreground: oklch(1.0000 0 0);
-  --border: oklch(0 0 0);
-  --input: oklch(0 0 0);
-  --ring: oklch(0.6489 0.2370 26.9728);
-  --chart-1: oklch(0.6489 0.2370 26.9728);
-  --chart-2: oklch(0.9680 0.2110 109.7692);
-  --chart-3: oklch(0.5635 0.2408 260.8178);
-  --chart-4: oklch(0.7323 0.2492 142.4953);
-  --chart-5: oklch(0.5931 0.2726 328.3634);
-  --sidebar: oklch(0.9551 0 0);
-  --sidebar-foreground: oklch(0 0 0);
-  --sidebar-primary: oklch(0.6489 0.2370 26.9728);
-  --sidebar-primary-foreground: oklch(1.0000 0 0);
-  --sidebar-accent: oklch(0.5635 0.2408 260.8178);
-  --sidebar-accent-foreground: oklch(1.0000 0 0);
-  --sidebar-border: oklch(0 0 0);
-  --sidebar-ring: oklch(0.6489 0.2370 26.9728);
-  --font-sans: DM Sans, sans-serif;
-  --font-serif: ui-serif, Georgia, Cambria, "Times New Roman", Times, serif;
-  --font-mono: Space Mono, monospace;
-  --radius: 0px;
-  --shadow-2xs: 4px 4px 0px 0px hsl(0 0% 0% / 0.50);
-  --shadow-xs: 4px 4px 0px 0px hsl(0 0% 0% / 0.50);
-  --shadow-sm: 4px 4px 0px 0px hsl(0 0% 0% / 1.00), 4px 1px 2px -1px hsl(0 0% 0% / 1.00);
-  --shadow: 4px 4px 0px 0px hsl(0 0% 0% / 1.00), 4px 1px 2px -1px hsl(0 0% 0% / 1.00);
-  --shadow-md: 4px 4px 0px 0px hsl(0 0% 0% / 1.00), 4px 2px 4px -1px hsl(0 0% 0% / 1.00);
-  --shadow-lg: 4px 4px 0px 0px hsl(0 0% 0% / 1.00), 4px 4px 6px -1px hsl(0 0% 0% / 1.00);
-  --shadow-xl: 4px 4px 0px 0px hsl(0 0% 0% / 1.00), 4px 8px 10px -1px hsl(0 0% 0% / 1.00);
-  --shadow-2xl: 4px 4px 0px 0px hsl(0 0% 0% / 2.50);
-  --tracking-normal: 0em;
-  --spacing: 0.25rem;
-
-  --radius-sm: calc(var(--radius) - 4px);
-  --radius-md: calc(var(--radius) - 2px);
-  --radius-lg: var(--radius);
-  --radius-xl: calc(var(--radius) + 4px);
-}
-</neo-brutalism-style>
-
-Modern dark mode style like vercel, linear
-<modern-dark-mode-style>
-:root {
-  --background: oklch(1 0 0);
-  --foreground: oklch(0.1450 0 0);
-  --card: oklch(1 0 0);
-  --card-foreground: oklch(0.1450 0 0);
-  --popover: oklch(1 0 0);
-  --popover-foreground: oklch(0.1450 0 0);
-  --primary: oklch(0.2050 0 0);
-  --primary-foreground: oklch(0.9850 0 0);
-  --secondary: oklch(0.9700 0 0);
-  --secondary-foreground: oklch(0.2050 0 0);
-  --muted: oklch(0.9700 0 0);
-  --muted-foreground: oklch(0.5560 0 0);
-  --accent: oklch(0.9700 0 0);
-  --accent-foreground: oklch(0.2050 0 0);
-  --destructive: oklch(0.5770 0.2450 27.3250);
-  --destructive-foreground: oklch(1 0 0);
-  --border: oklch(0.9220 0 0);
-  --input: oklch(0.9220 0 0);
-  --ring: oklch(0.7080 0 0);
-  --chart-1: oklch(0.8100 0.1000 252);
-  --chart-2: oklch(0.6200 0.1900 260);
-  --chart-3: oklch(0.5500 0.2200 263);
-  --chart-4: oklch(0.4900 0.2200 264);
-  --chart-5: oklch(0.4200 0.1800 266);
-  --sidebar: oklch(0.9850 0 0);
-  --sidebar-foreground: oklch(0.1450 0 0);
-  --sidebar-primary: oklch(0.2050 0 0);
-  --sidebar-primary-foreground: oklch(0.9850 0 0);
-  --sidebar-accent: oklch(0.9700 0 0);
-  --sidebar-accent-foreground: oklch(0.2050 0 0);
-  --sidebar-border: oklch(0.9220 0 0);
-  --sidebar-ring: oklch(0.7080 0 0);
-  --font-sans: ui-sans-serif, system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, 'Noto Sans', sans-serif, 'Apple Color Emoji', 'Segoe UI Emoji', 'Segoe UI Symbol', 'Noto Color Emoji';
-  --font-serif: ui-serif, Georgia, Cambria, "Times New Roman", Times, serif;
-  --font-mono: ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", "Courier New", monospace;
-  --radius: 0.625rem;
-  --shadow-2xs: 0 1px 3px 0px hsl(0 0% 0% / 0.05);
-  --shadow-xs: 0 1px 3px 0px hsl(0 0% 0% / 0.05);
-  --shadow-sm: 0 1px 3px 0px hsl(0 0% 0% / 0.10), 0 1px 2px -1px hsl(0 0% 0% / 0.10);
-  --shadow: 0 1px 3px 0px hsl(0 0% 0% / 0.10), 0 1px 2px -1px hsl(0 0% 0% / 0.10);
-  --shadow-md: 0 1px 3px 0px hsl(0 0% 0% / 0.10), 0 2px 4px -1px hsl(0 0% 0% / 0.10);
-  --shadow-lg: 0 1px 3px 0px hsl(0 0% 0% / 0.10), 0 4px 6px -1px hsl(0 0% 0% / 0.10);
-  --shadow-xl: 0 1px 3px 0px hsl(0 0% 0% / 0.10), 0 8px 10px -1px hsl(0 0% 0% / 0.10);
-  --shadow-2xl: 0 1px 3px 0px hsl(0 0% 0% / 0.25);
-  --tracking-normal: 0em;
-  --spacing: 0.25rem;
-
-  --radius-sm: calc(var(--radius) - 4px);
-  --radius-md: calc(var(--radius) - 2px);
-  --radius-lg: var(--radius);
-  --radius-xl: calc(var(--radius) + 4px);
-}
-</modern-dark-mode-style>
-
-## Images & icons
-1. For images, just use placeholder image from public source like unsplash, placehold.co or others that you already know exact image url; Don't make up urls
-2. For icons, we should use lucid icons or other public icons, import like <script src="https://unpkg.com/lucide@latest/dist/umd/lucide.min.js"></script>
-
-## Script
-1. When importing tailwind css, just use <script src="https://cdn.tailwindcss.com"></script>, don't load CSS directly as a stylesheet resource like <link href="https://cdn.jsdelivr.net/npm/tailwindcss@2.2.19/dist/tailwind.min.css" rel="stylesheet">
-2. When using flowbite, import like <script src="https://cdn.jsdelivr.net/npm/flowbite@2.0.0/dist/flowbite.min.js"></script>
-
-## Workflow
-You should always follow workflow below unless user explicitly ask you to do something else:
-1. Layout design
-2. Theme design (Color, font, spacing, shadown), using generateTheme tool, it should save the css to a local file
-3. Core Animation design
-4. Generate a singlehtml file for the UI
-5. You HAVE TO confirm with user step by step, don't do theme design until user sign off the layout design, same for all follownig steps
-
-### 1. Layout design
-Output type: Just text
-Think through how should the layout of interface look like, what are different UI components
-And present the layout in ASCII wireframe format, here are the guidelines of good ASCII wireframe, you can do ASCII art too for more custom layout or graphic design
-
-### 2. Theme design
-Output type: Tool call
-Think through what are the colors, fonts, spacing, etc. 
-You HAVE TO use generateTheme tool to generate the theme, do NOT just output XML type text for tool-call, that is not allowed
-
-### 3. Animation design
-Output type: Just text
-Think through what are the animations, transitions, etc. 
-
-### 4. Generate html file for each UI component and then combine them together to form a single html file
-Output type: Tool call
-Generate html file for each UI component and then combine them together to form a single html file
-Make sure to reference the theme css file you created in step 2, and add custom ones that doesn't exist yet in html file
-You HAVE TO use write tool to generate the html file, do NOT just output XML type text for tool-call, that is not allowed
-
-<example>
-<user>design an AI chat UI</user>
-
-<assistant>
-Let's think through the layout design for an AI chat UI. Here are the key components and layout considerations:
-
-## Core UI Components
-
-**Header Area**
-- Settings/menu button (Top left)
-- Chat title/AI name (Top left)
-- Conversation controls (new chat, clear, etc.) (Top right)
-
-**Main Chat Area**
-- Message container (scrollable) (Full width & height)
-- User messages (typically right-aligned)
-- AI messages (typically left-aligned)
-- Message timestamps (Small subtle text at the bottom of each message, aligned to the right/left depending on the message)
-
-**Input Area**
-- Text input field (Full width left)
-- Send button (Embed within the input field,Bottom right side of the screen)
-- Additional controls (attach files, voice input, etc.) (Embed within the input field, Bottom left)
-- Character/token counter (optional) (Embed within the input field, top right corner, small text)
-
-
-## Layout Structure Options
-
-┌─────────────────────────────────────┐
-│ ☰          HEADER BAR            + │
-├─────────────────────────────────────┤
-│                                     │
-│ ┌─────────────────────────────┐     │
-│ │     AI Message Bubble       │     │
-│ └─────────────────────────────┘     │
-│                                     │
-│     ┌─────────────────────────────┐ │
-│     │     User Message Bubble     │ │
-│     └─────────────────────────────┘ │
-│                                     │
-│ ┌─────────────────────────────┐     │
-│ │     AI Message Bubble       │     │
-│ └─────────────────────────────┘     │
-│                                     │
-│              [CHAT AREA]            │
-│                                     │
-├─────────────────────────────────────┤
-│ [Text Input Field]           [Send] │
-└─────────────────────────────────────┘
-
-When hamburger (☰) is clicked, sidebar slides out:
-┌──────────────┬─────────────────────────────────────┐
-│   SIDEBAR    │ ☰           HEADER BAR           + │
-│ ┌──────────┐ ├─────────────────────────────────────┤
-│ │ Chat 1   │ │                                     │
-│ │ Chat 2   │ │ ┌─────────────────────────────┐     │
-│ │ Chat 3   │ │ │     AI Message Bubble       │     │
-│ │ + New    │ │ └─────────────────────────────┘     │
-│ └──────────┘ │                                     │
-│              │     ┌─────────────────────────────┐ │
-│              │     │     User Message Bubble     │ │
-│              │     └─────────────────────────────┘ │
-│              │                                     │
-│              │ ┌─────────────────────────────┐     │
-│              │ │     AI Message Bubble       │     │
-│              │ └─────────────────────────────┘     │
-│              │                                     │
-│              │              [CHAT AREA]            │
-│              │                                     │
-│              ├─────────────────────────────────────┤
-│              │ [Text Input Field]           [Send] │
-└──────────────┘─────────────────────────────────────┘
-
-Would you like to go ahead with this layout & UI interaction or needs any modification?
-</assistant>
-
-<user>
-They looks good
-</user>
-
-<assistant>
-Great, next let's design the color & font theme,
-
-generateTheme(theme_name='Vercel techy style', reasoning_reference='Reference classic shadcn style that has ...', cssFilePath='.superdesign/design_iterations/theme_1.css', cssSheet=':root {
-  --background: oklch(1.0000 0 0);
-  --foreground: oklch(0.1448 0 0);
-  --card: oklch(1.0000 0 0);
-  --card-foreground: oklch(0.1448 0 0);
-  --popover: oklch(1.0000 0 0);
-  --popover-foreground: oklch(0.1448 0 0);
-  --primary: oklch(0.5555 0 0);
-  --primary-foreground: oklch(0.9851 0 0);
-  --secondary: oklch(0.9702 0 0);
-  --secondary-foreground: oklch(0.2046 0 0);
-  --muted: oklch(0.9702 0 0);
-  --muted-foreground: oklch(0.5486 0 0);
-  --accent: oklch(0.9702 0 0);
-  --accent-foreground: oklch(0.2046 0 0);
-  --destructive: oklch(0.5830 0.2387 28.4765);
-  --destructive-foreground: oklch(0.9702 0 0);
-  --border: oklch(0.9219 0 0);
-  --input: oklch(0.9219 0 0);
-  --ring: oklch(0.7090 0 0);
-  --chart-1: oklch(0.5555 0 0);
-  --chart-2: oklch(0.5555 0 0);
-  --chart-3: oklch(0.5555 0 0);
-  --chart-4: oklch(0.5555 0 0);
-  --chart-5: oklch(0.5555 0 0);
-  --sidebar: oklch(0.9851 0 0);
-  --sidebar-foreground: oklch(0.1448 0 0);
-  --sidebar-primary: oklch(0.2046 0 0);
-  --sidebar-primary-foreground: oklch(0.9851 0 0);
-  --sidebar-accent: oklch(0.9702 0 0);
-  --sidebar-accent-foreground: oklch(0.2046 0 0);
-  --sidebar-border: oklch(0.9219 0 0);
-  --sidebar-ring: oklch(0.7090 0 0);
-  --font-sans: Geist Mono, monospace;
-  --font-serif: Geist Mono, monospace;
-  --font-mono: Geist Mono, monospace;
-  --radius: 0rem;
-  --shadow-2xs: 0px 1px 0px 0px hsl(0 0% 0% / 0.00);
-  --shadow-xs: 0px 1px 0px 0px hsl(0 0% 0% / 0.00);
-  --shadow-sm: 0px 1px 0px 0px hsl(0 0% 0% / 0.00), 0px 1px 2px -1px hsl(0 0% 0% / 0.00);
-  --shadow: 0px 1px 0px 0px hsl(0 0% 0% / 0.00), 0px 1px 2px -1px hsl(0 0% 0% / 0.00);
-  --shadow-md: 0px 1px 0px 0px hsl(0 0% 0% / 0.00), 0px 2px 4px -1px hsl(0 0% 0% / 0.00);
-  --shadow-lg: 0px 1px 0px 0px hsl(0 0% 0% / 0.00), 0px 4px 6px -1px hsl(0 0% 0% / 0.00);
-  --shadow-xl: 0px 1px 0px 0px hsl(0 0% 0% / 0.00), 0px 8px 10px -1px hsl(0 0% 0% / 0.00);
-  --shadow-2xl: 0px 1px 0px 0px hsl(0 0% 0% / 0.00);
-  --tracking-normal: 0em;
-  --spacing: 0.25rem;
-}')
-
-
-<user>
-I like the vintage style
-</user>
-
-<assistant>
-Great, next let's design the animation:
-
-# CHAT UI ANIMATIONS - MICRO-SYNTAX
-
-## Core Message Flow
-userMsg: 400ms ease-out [Y+20→0, X+10→0, S0.9→1]
-aiMsg: 600ms bounce [Y+15→0, S0.95→1] +200ms
-typing: 1400ms ∞ [Y±8, α0.4→1] stagger+200ms
-status: 300ms ease-out [α0.6→1, S1→1.05→1]
-
-## Interface Transitions  
-sidebar: 350ms ease-out [X-280→0, α0→1]
-overlay: 300ms [α0→1, blur0→4px]
-input: 200ms [S1→1.01, shadow+ring] focus
-input: 150ms [S1.01→1, shadow-ring] blur
-
-## Button Interactions
-sendBtn: 150ms [S1→0.95→1, R±2°] press
-sendBtn: 200ms [S1→1.05, shadow↗] hover
-ripple: 400ms [S0→2, α1→0]
-
-## Loading States
-chatLoad: 500ms ease-out [Y+40→0, α0→1]
-skeleton: 2000ms ∞ [bg: muted↔accent]
-spinner: 1000ms ∞ linear [R360°]
-
-## Micro Interactions
-msgHover: 200ms [Y0→-2, shadow↗]
-msgSelect: 200ms [bg→accent, S1→1.02]
-error: 400ms [X±5] shake
-success: 600ms bounce [S0→1.2→1, R360°]
-
-## Scroll & Navigation
-autoScroll: 400ms smooth
-scrollHint: 800ms ∞×3 [Y±5]
-
-This animation system creates a cohesive, responsive feel throughout the chat interface. Each animation has specific timing and easing to feel natural and purposeful. Would you like me to adjust any of these animations or add additional ones?
-
-</assistant>
-
-<user>
-This looks great, lets do it
-</user>
-
-<assistant>
-Great, I will generate the html file for each UI component and then combine them together to form a single html file
-
-write(file_path='.superdesign/design_iterations/chat_ui.css', content='...')
-write(file_path='.superdesign/design_iterations/chat_ui.html', content='...')
-
-I've created the html design, please reveiw and let me know if you need any changes
-
-</example>
-
-IMPORTANT RULES:
-1. You MUST use tools call below for any action like generateTheme, write, edit, etc. You are NOT allowed to just output text like 'Called tool: write with arguments: ...' or <tool-call>...</tool-call>; MUST USE TOOL CALL (This is very important!!)
-2. You MUST confirm the layout, and then theme style, and then animation
-3. You MUST use .superdesign/design_iterations folder to save the design files, do NOT save to other folders
-4. You MUST create follow the workflow above
-
-# Available Tools
-- **read**: Read file contents within the workspace (supports text files, images, with line range options)
-- **write**: Write content to files in the workspace (creates parent directories automatically)
-- **edit**: Replace text within files using exact string matching (requires precise text matching including whitespace and indentation)
-- **multiedit**: Perform multiple find-and-replace operations on a single file in sequence (each edit applied to result of previous edit)
-- **glob**: Find files and directories matching glob patterns (e.g., "*.js", "src/**/*.ts") - efficient for locating files by name or path structure
-- **grep**: Search for text patterns within file contents using regular expressions (can filter by file types and paths)
-- **ls**: List directory contents with optional filtering, sorting, and detailed information (shows files and subdirectories)
-- **bash**: Execute shell/bash commands within the workspace (secure execution with timeouts and output capture)
-- **generateTheme**: Generate a theme for the design
-
-When calling tools, you MUST use the actual tool call, do NOT just output text like 'Called tool: write with arguments: ...' or <tool-call>...</tool-call>, this won't actually call the tool. (This is very important to my life, please follow)`;
+${buildDesignAgentPrompt({
+    designFolder: '.superdesign/design_iterations',
+    styleRules: DEFAULT_STYLE_RULES,
+})}`;
 
     const designRuleMdcContent = `---
 description: Use this rule when asked to do any frontend or UI design
@@ -1231,6 +870,300 @@ html.dark {
     }
 }
 
+async function pickDesignFile(): Promise<vscode.Uri | undefined> {
+    const designs = await vscode.workspace.findFiles(
+        '.superdesign/design_iterations/**/*.html',
+        '**/node_modules/**'
+    );
+    if (designs.length === 0) {
+        vscode.window.showWarningMessage('No HTML designs found in .superdesign/design_iterations');
+        return undefined;
+    }
+    const picked = await vscode.window.showQuickPick(
+        designs.map(uri => ({
+            label: uri.path.split('/').pop() ?? uri.fsPath,
+            description: vscode.workspace.asRelativePath(uri),
+            uri,
+        })),
+        { placeHolder: 'Select a design to convert' }
+    );
+    return picked?.uri;
+}
+
+// Turn a canvas design into a React, Vue or Svelte component inside the user's project
+async function generateComponentFromDesign(designUri?: vscode.Uri) {
+    const sourceUri = designUri ?? (await pickDesignFile());
+    if (!sourceUri) {
+        return;
+    }
+
+    const frameworks: Array<vscode.QuickPickItem & { value: ComponentFramework }> = [
+        { label: 'React', description: 'TSX function component', value: 'react' },
+        { label: 'Vue', description: 'Single-file component', value: 'vue' },
+        { label: 'Svelte', description: 'Svelte component', value: 'svelte' },
+    ];
+    const framework = await vscode.window.showQuickPick(frameworks, {
+        placeHolder: 'Target framework',
+    });
+    if (!framework) {
+        return;
+    }
+
+    const fileName = sourceUri.path.split('/').pop() ?? 'design.html';
+    const name = await vscode.window.showInputBox({
+        prompt: 'Component name',
+        value: toComponentName(fileName),
+        validateInput: value =>
+            /^[A-Z][A-Za-z0-9]*$/.test(value) ? undefined : 'Use a PascalCase name, e.g. LoginCard',
+    });
+    if (name === undefined) {
+        return;
+    }
+
+    const targets = await vscode.window.showOpenDialog({
+        canSelectFiles: false,
+        canSelectFolders: true,
+        canSelectMany: false,
+        defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+        openLabel: 'Generate Here',
+    });
+    if (!targets || targets.length === 0) {
+        return;
+    }
+    const outputDir = vscode.Uri.joinPath(targets[0], name);
+
+    try {
+        await vscode.workspace.fs.stat(outputDir);
+        const overwrite = await vscode.window.showWarningMessage(
+            `${vscode.workspace.asRelativePath(outputDir)} already exists. Overwrite generated files?`,
+            { modal: true },
+            'Overwrite'
+        );
+        if (overwrite !== 'Overwrite') {
+            return;
+        }
+    } catch {
+        // Folder doesn't exist yet
+    }
+
+    try {
+        const html = Buffer.from(await vscode.workspace.fs.readFile(sourceUri)).toString('utf8');
+        const designDir = vscode.Uri.joinPath(sourceUri, '..');
+        const stylesheets: Record<string, string> = {};
+        for (const href of getLocalStylesheetHrefs(html)) {
+            try {
+                const css = await vscode.workspace.fs.readFile(
+                    vscode.Uri.joinPath(designDir, href)
+                );
+                stylesheets[href] = Buffer.from(css).toString('utf8');
+            } catch {
+                Logger.warn(`Stylesheet not found for component generation: ${href}`);
+            }
+        }
+
+        const result = generateComponent(html, {
+            name,
+            framework: framework.value,
+            stylesheets,
+        });
+        for (const file of result.files) {
+            await vscode.workspace.fs.writeFile(
+                vscode.Uri.joinPath(outputDir, file.path),
+                Buffer.from(file.content, 'utf8')
+            );
+        }
+        Logger.info(`Generated ${framework.label} component ${name} from ${fileName}`, {
+            files: result.files.length,
+            warnings: result.warnings.length,
+        });
+
+        await vscode.window.showTextDocument(vscode.Uri.joinPath(outputDir, result.files[0].path));
+        const summary = `Generated ${name} (${result.files.length} files) from ${fileName}.`;
+        if (result.warnings.length > 0) {
+            vscode.window.showWarningMessage(`${summary} ${result.warnings.join('. ')}.`);
+        } else {
+            vscode.window.showInformationMessage(summary);
+        }
+    } catch (error) {
+        Logger.error(`Failed to generate component: ${error}`);
+        vscode.window.showErrorMessage(`Failed to generate component: ${error}`);
+    }
+}
+
+// Convert a generated theme stylesheet into token files for a design system pipeline
+async function exportDesignTokens(themeUri?: vscode.Uri) {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (!workspaceFolder) {
+        vscode.window.showErrorMessage('No workspace folder found. Please open a workspace first.');
+        return;
+    }
+
+    let sourceUri = themeUri;
+    if (!sourceUri) {
+        const themes = await vscode.workspace.findFiles(
+            '.superdesign/**/*.css',
+            '.superdesign/{history,exports,tokens}/**'
+        );
+        if (themes.length === 0) {
+            vscode.window.showWarningMessage('No theme CSS files found in .superdesign');
+            return;
+        }
+        const picked = await vscode.window.showQuickPick(
+            themes.map(uri => ({
+                label: uri.path.split('/').pop() ?? uri.fsPath,
+                description: vscode.workspace.asRelativePath(uri),
+                uri,
+            })),
+            { placeHolder: 'Select a theme to export' }
+        );
+        sourceUri = picked?.uri;
+    }
+    if (!sourceUri) {
+        return;
+    }
+
+    const formatItems: Array<vscode.QuickPickItem & { value: TokenExportFormat }> = [
+        {
+            label: 'W3C Design Tokens (DTCG)',
+            description: '.tokens.json',
+            value: 'dtcg',
+            picked: true,
+        },
+        {
+            label: 'Tailwind theme extension',
+            description: '.tailwind.js',
+            value: 'tailwind',
+            picked: true,
+        },
+        {
+            label: 'Style Dictionary',
+            description: '.style-dictionary.json',
+            value: 'style-dictionary',
+            picked: true,
+        },
+    ];
+    const formats = await vscode.window.showQuickPick(formatItems, {
+        canPickMany: true,
+        placeHolder: 'Token formats to export',
+    });
+    if (!formats || formats.length === 0) {
+        return;
+    }
+
+    const themeName = (sourceUri.path.split('/').pop() ?? 'theme').replace(/\.css$/i, '');
+    try {
+        const css = Buffer.from(await vscode.workspace.fs.readFile(sourceUri)).toString('utf8');
+        const paths = await writeTokenExports(
+            vscode.Uri.joinPath(workspaceFolder.uri, '.superdesign').fsPath,
+            themeName,
+            css,
+            formats.map(format => format.value)
+        );
+        Logger.info(`Exported ${paths.length} token file(s) for ${themeName}`);
+
+        const open = 'Open';
+        const choice = await vscode.window.showInformationMessage(
+            `Exported ${themeName} tokens to .superdesign/tokens`,
+            open
+        );
+        if (choice === open) {
+            await vscode.window.showTextDocument(vscode.Uri.file(paths[0]));
+        }
+    } catch (error) {
+        Logger.error(`Failed to export design tokens: ${error}`);
+        vscode.window.showErrorMessage(`Failed to export design tokens: ${error}`);
+    }
+}
+
+// Fan one brief out to several models or sampling settings and compare the results on the canvas
+async function generateDesignVariants(
+    variantService: DesignVariantService,
+    extensionUri: vscode.Uri,
+    sidebarProvider: ChatSidebarProvider
+) {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (!workspaceFolder) {
+        vscode.window.showErrorMessage('No workspace folder found. Please open a workspace first.');
+        return;
+    }
+
+    const capMessage = variantService.checkSpendCap();
+    if (capMessage !== undefined) {
+        vscode.window.showErrorMessage(capMessage);
+        return;
+    }
+
+    const brief = await vscode.window.showInputBox({
+        prompt: 'Design brief for the variants',
+        placeHolder: 'e.g. An analytics dashboard for a small online shop',
+        ignoreFocusOut: true,
+    });
+    if (!brief?.trim()) {
+        return;
+    }
+    const baseName = await vscode.window.showInputBox({
+        prompt: 'File name for the variants',
+        value: toVariantBaseName(brief),
+        validateInput: value =>
+            /^[a-z0-9][a-z0-9-]*$/.test(value)
+                ? undefined
+                : 'Use lowercase letters, numbers and hyphens, e.g. dashboard',
+    });
+    if (baseName === undefined) {
+        return;
+    }
+
+    const count = readVariantSettings().count;
+    const designFolder = vscode.Uri.joinPath(
+        workspaceFolder.uri,
+        '.superdesign',
+        'design_iterations'
+    );
+    try {
+        const result = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: `Generating ${count} variants of ${baseName}`,
+                cancellable: true,
+            },
+            async (progress, token) => {
+                const abortController = new AbortController();
+                token.onCancellationRequested(() => abortController.abort());
+                return variantService.generate(
+                    brief.trim(),
+                    baseName,
+                    designFolder,
+                    abortController.signal,
+                    (label, error) =>
+                        progress.report({
+                            increment: 100 / count,
+                            message: error !== undefined ? `${label} failed` : `${label} done`,
+                        })
+                );
+            }
+        );
+
+        if (result.manifest.variants.length > 0) {
+            SuperdesignCanvasPanel.createOrShow(extensionUri, sidebarProvider);
+        }
+        const cost = result.costUsd > 0 ? ` ($${result.costUsd.toFixed(2)})` : '';
+        if (result.failures.length === 0) {
+            vscode.window.showInformationMessage(
+                `Generated ${result.manifest.variants.length} variants of ${result.manifest.name}${cost}`
+            );
+        } else {
+            vscode.window.showWarningMessage(
+                `Generated ${result.manifest.variants.length} of ${count} variants${cost}. ${result.failures
+                    .map(failure => `${failure.label}: ${failure.error}`)
+                    .join('; ')}`
+            );
+        }
+    } catch (error) {
+        Logger.error(`Failed to generate design variants: ${error}`);
+        vscode.window.showErrorMessage(`Failed to generate design variants: ${error}`);
+    }
+}
+
 export function activate(context: vscode.ExtensionContext): void {
     Logger.setOutputChannel(vscode.window.createOutputChannel('SecureDesign'));
     const workspaceStateService = WorkspaceStateService.getInstance();
@@ -1325,6 +1258,116 @@ export function activate(context: vscode.ExtensionContext): void {
         }
     );
 
+    const generateComponentDisposable = vscode.commands.registerCommand(
+        'securedesign.generateComponent',
+        async (designUri?: vscode.Uri) => {
+            await generateComponentFromDesign(designUri);
+        }
+    );
+
+    const exportTokensDisposable = vscode.commands.registerCommand(
+        'securedesign.exportDesignTokens',
+        async (themeUri?: vscode.Uri) => {
+            await exportDesignTokens(themeUri);
+        }
+    );
+
+    const generateVariantsDisposable = vscode.commands.registerCommand(
+        'securedesign.generateVariants',
+        async () => {
+            await generateDesignVariants(
+                serviceContainer.get<DesignVariantService>('designVariantService'),
+                context.extensionUri,
+                sidebarProvider
+            );
+        }
+    );
+
+    const createAgentProfileDisposable = vscode.commands.registerCommand(
+        'securedesign.createAgentProfile',
+        async () => {
+            const profileId = await vscode.window.showInputBox({
+                prompt: 'Name of the new agent profile',
+                placeHolder: 'e.g. marketing-site',
+                validateInput: value =>
+                    /^[a-z0-9][a-z0-9-]*$/.test(value)
+                        ? undefined
+                        : 'Use lowercase letters, numbers and dashes',
+            });
+            if (!profileId) {
+                return;
+            }
+            const profileService = serviceContainer.get<AgentProfileService>('agentProfileService');
+            if (!(await profileService.openProfile(profileId))) {
+                return;
+            }
+            await profileService.reload();
+            await profileService.select(profileId);
+        }
+    );
+
+    const configureLocalProviderDisposable = vscode.commands.registerCommand(
+        'securedesign.configureLocalProvider',
+        async () => {
+            const settings = readLocalProviderSettings();
+            const baseUrl = await vscode.window.showInputBox({
+                prompt: 'Base URL of the OpenAI-compatible endpoint (Ollama, LM Studio, vLLM...)',
+                value: settings.baseUrl,
+                validateInput: value => {
+                    try {
+                        return /^https?:$/.test(new URL(value).protocol)
+                            ? undefined
+                            : 'Use an http or https URL';
+                    } catch {
+                        return 'Enter a URL such as http://localhost:11434/v1';
+                    }
+                },
+            });
+            if (baseUrl === undefined) {
+                return;
+            }
+
+            let modelIds: string[] = [];
+            try {
+                modelIds = await fetchLocalModels(baseUrl);
+            } catch (error) {
+                vscode.window.showWarningMessage(
+                    `Could not list models at ${baseUrl}: ${error instanceof Error ? error.message : String(error)}`
+                );
+            }
+
+            const useModelPicker = 'Use the chat model picker instead';
+            const model =
+                modelIds.length > 0
+                    ? await vscode.window.showQuickPick([...modelIds, useModelPicker], {
+                          placeHolder: isLoopbackUrl(baseUrl)
+                              ? 'Model to use for chat and variants'
+                              : `Model to use. ${baseUrl} is not on this machine, so prompts and designs are sent to it.`,
+                      })
+                    : await vscode.window.showInputBox({
+                          prompt: 'Model id to use, e.g. llama3.1:8b. Leave empty to use the chat model picker.',
+                          value: settings.model,
+                      });
+            if (model === undefined) {
+                return;
+            }
+
+            const config = vscode.workspace.getConfiguration(LOCAL_PROVIDER_SECTION);
+            const target =
+                vscode.workspace.workspaceFolders !== undefined
+                    ? vscode.ConfigurationTarget.Workspace
+                    : vscode.ConfigurationTarget.Global;
+            const modelId = model === useModelPicker ? '' : model.trim();
+            await config.update('baseUrl', baseUrl, target);
+            await config.update('model', modelId, target);
+            vscode.window.showInformationMessage(
+                modelId.length > 0
+                    ? `Using local model ${modelId}`
+                    : 'Using the model picked in the chat'
+            );
+        }
+    );
+
     const reportBugDisposable = vscode.commands.registerCommand('securedesign.reportBug', () => {
         vscode.env.openExternal(
             vscode.Uri.parse('https://github.com/hbmartin/secure-design/issues')
@@ -1397,6 +1440,11 @@ export function activate(context: vscode.ExtensionContext): void {
         clearChatDisposable,
         resetWelcomeDisposable,
         initializeProjectDisposable,
+        generateComponentDisposable,
+        exportTokensDisposable,
+        generateVariantsDisposable,
+        createAgentProfileDisposable,
+        configureLocalProviderDisposable,
         workspaceChangeDisposable,
         reportBugDisposable
     );
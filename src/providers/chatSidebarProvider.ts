@@ -10,15 +10,44 @@ import {
 } from 'react-vscode-webview-ipc/host';
 import type { ChatController } from '../chat/ChatController';
 import type ChatMessagesRepository from '../chat/ChatMessagesRepository';
-import { type ChatSidebarActions, ChatSidebarKey } from '../types/chatSidebarTypes';
-import type { ChatMessage } from '../types';
+import type ChatSessionsRepository from '../chat/ChatSessionsRepository';
+import type { AgentProfileService } from '../services/agentProfileService';
+import {
+    LOCAL_PROVIDER_SECTION,
+    readLocalProviderSettings,
+} from '../services/localProviderSettings';
+import { remoteEndpointWarning } from './openAICompatibleProvider';
+import {
+    type ChatDisplaySettings,
+    type ChatSidebarActions,
+    ChatSidebarKey,
+} from '../types/chatSidebarTypes';
+import type { ChatMessage, ChatSessionsState } from '../types';
+import type { AgentProfilesState } from '../types/agentProfile';
+import type { WorkflowStepId } from '../types/designWorkflow';
 import getCssFileContent from '../chat/getCssFileContent';
 import type { TextPart, ImagePart, FilePart } from '@ai-sdk/provider-utils';
 import type { ChatViewAPI, ChatViewEvents } from '../api/viewApi';
 
+const CHAT_SECTION = 'securedesign.chat';
+
+function readChatDisplaySettings(): ChatDisplaySettings {
+    const config = vscode.workspace.getConfiguration(CHAT_SECTION);
+    const { model, ...local } = readLocalProviderSettings();
+    return {
+        showReasoning: config.get<boolean>('showReasoning') ?? true,
+        localModel:
+            model !== undefined
+                ? { model, ...local, remoteWarning: remoteEndpointWarning(local.baseUrl) }
+                : undefined,
+    };
+}
+
 function createActionDelegate(
     chatMessagesRepository: ChatMessagesRepository,
-    chatController: ChatController
+    chatSessionsRepository: ChatSessionsRepository,
+    chatController: ChatController,
+    agentProfileService: AgentProfileService
 ): ActionDelegate<ChatSidebarActions> {
     return {
         loadChats: function (): ChatMessage[] {
@@ -40,6 +69,60 @@ function createActionDelegate(
         sendChatMessage: function (prompt: string | (TextPart | ImagePart | FilePart)[]) {
             void chatController.sendChatMessage(prompt);
         },
+        editMessage: function (messageIndex: number, text: string) {
+            void chatController.editAndResend(messageIndex, text);
+        },
+        switchBranch: async function (messageIndex: number, branch: number): Promise<void> {
+            await chatController.switchBranch(messageIndex, branch);
+        },
+        loadSessions: function (): ChatSessionsState {
+            return chatSessionsRepository.getState();
+        },
+        createSession: async function (name?: string): Promise<ChatSessionsState> {
+            return chatSessionsRepository.createSession(name);
+        },
+        switchSession: async function (sessionId: string): Promise<ChatSessionsState> {
+            return chatSessionsRepository.switchSession(sessionId);
+        },
+        renameSession: async function (
+            sessionId: string,
+            name: string
+        ): Promise<ChatSessionsState> {
+            return chatSessionsRepository.renameSession(sessionId, name);
+        },
+        archiveSession: async function (
+            sessionId: string,
+            archived: boolean
+        ): Promise<ChatSessionsState> {
+            return chatSessionsRepository.setArchived(sessionId, archived);
+        },
+        deleteSession: async function (sessionId: string): Promise<ChatSessionsState> {
+            return chatController.deleteSession(sessionId);
+        },
+        loadDisplaySettings: function (): ChatDisplaySettings {
+            return readChatDisplaySettings();
+        },
+        loadProfiles: function (): AgentProfilesState {
+            return agentProfileService.getState();
+        },
+        selectProfile: async function (profileId: string): Promise<AgentProfilesState> {
+            return agentProfileService.select(profileId);
+        },
+        editProfile: async function (profileId: string): Promise<void> {
+            await agentProfileService.openProfile(profileId);
+        },
+        startWorkflow: async function (): Promise<ChatSessionsState> {
+            return chatController.startWorkflow();
+        },
+        approveWorkflowStep: async function (): Promise<ChatSessionsState> {
+            return chatController.approveWorkflowStep();
+        },
+        exitWorkflow: async function (): Promise<ChatSessionsState> {
+            return chatController.exitWorkflow();
+        },
+        openWorkflowArtifact: async function (stepId: WorkflowStepId): Promise<void> {
+            await chatController.openWorkflowArtifact(stepId);
+        },
     };
 }
 
@@ -48,20 +131,44 @@ export class ChatSidebarProvider extends BaseWebviewViewProvider<ChatSidebarActi
     protected readonly webviewActionDelegate: ActionDelegate<ChatSidebarActions>;
     private customMessageHandler?: (message: any) => void;
     private repositoryUnsubscribe?: () => void;
+    private sessionsUnsubscribe?: () => void;
+    private profilesUnsubscribe?: () => void;
+    private configurationListener?: vscode.Disposable;
 
     constructor(
         _extensionUri: vscode.Uri,
         apiProvider: WebviewApiProvider<ChatViewEvents>,
         private readonly chatController: ChatController,
-        private readonly chatMessagesRepository: ChatMessagesRepository
+        private readonly chatMessagesRepository: ChatMessagesRepository,
+        private readonly chatSessionsRepository: ChatSessionsRepository,
+        private readonly agentProfileService: AgentProfileService
     ) {
         super(ChatSidebarKey, _extensionUri, apiProvider);
-        this.webviewActionDelegate = createActionDelegate(chatMessagesRepository, chatController);
+        this.webviewActionDelegate = createActionDelegate(
+            chatMessagesRepository,
+            chatSessionsRepository,
+            chatController,
+            agentProfileService
+        );
 
         // Subscribe to repository changes and send patches to webview
         this.repositoryUnsubscribe = this.chatMessagesRepository.subscribe(messages => {
             this.postPatch('loadChats', messages ?? []);
         });
+        this.sessionsUnsubscribe = this.chatSessionsRepository.subscribe(sessions => {
+            this.postPatch('loadSessions', sessions);
+        });
+        this.profilesUnsubscribe = this.agentProfileService.subscribe(profiles => {
+            this.postPatch('loadProfiles', profiles);
+        });
+        this.configurationListener = vscode.workspace.onDidChangeConfiguration(event => {
+            if (
+                event.affectsConfiguration(CHAT_SECTION) ||
+                event.affectsConfiguration(LOCAL_PROVIDER_SECTION)
+            ) {
+                this.postPatch('loadDisplaySettings', readChatDisplaySettings());
+            }
+        });
     }
 
     generateWebviewHtml(webview: vscode.Webview, extensionUri: vscode.Uri): string {
@@ -362,5 +469,15 @@ export class ChatSidebarProvider extends BaseWebviewViewProvider<ChatSidebarActi
             this.repositoryUnsubscribe();
             this.repositoryUnsubscribe = undefined;
         }
+        if (this.sessionsUnsubscribe) {
+            this.sessionsUnsubscribe();
+            this.sessionsUnsubscribe = undefined;
+        }
+        if (this.profilesUnsubscribe) {
+            this.profilesUnsubscribe();
+            this.profilesUnsubscribe = undefined;
+        }
+        this.configurationListener?.dispose();
+        this.configurationListener = undefined;
     }
 }
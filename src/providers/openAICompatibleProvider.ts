@@ -0,0 +1,125 @@
+/**
+ * Models served from an OpenAI-compatible endpoint such as Ollama, LM Studio or vLLM,
+ * typically on the user's own machine or network. No API key is needed.
+ */
+
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+import type { LanguageModelV2 } from '@ai-sdk/provider';
+import type { ChatMessage } from '../types/chatMessage';
+
+export const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+
+const MODEL_LIST_TIMEOUT_MS = 5000;
+
+/**
+ * What the served model can do. Endpoints don't report this, so it comes from settings.
+ */
+export interface LocalModelCapabilities {
+    supportsTools: boolean;
+    supportsVision: boolean;
+}
+
+export function normalizeBaseUrl(baseUrl: string): string {
+    return baseUrl.trim().replace(/\/+$/, '');
+}
+
+/**
+ * Whether requests to the URL stay on this machine
+ */
+export function isLoopbackUrl(baseUrl: string): boolean {
+    try {
+        const { hostname } = new URL(baseUrl);
+        return (
+            hostname === 'localhost' ||
+            hostname === '[::1]' ||
+            hostname.startsWith('127.') ||
+            hostname.endsWith('.localhost')
+        );
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Why the user should know where their requests go, for endpoints off this machine
+ */
+export function remoteEndpointWarning(baseUrl: string): string | undefined {
+    return isLoopbackUrl(baseUrl)
+        ? undefined
+        : `${normalizeBaseUrl(baseUrl)} is not on this machine; prompts and designs are sent to it`;
+}
+
+export function createLocalModel(
+    modelId: string,
+    baseUrl: string = DEFAULT_LOCAL_BASE_URL
+): LanguageModelV2 {
+    return createOpenAICompatible({ name: 'local', baseURL: normalizeBaseUrl(baseUrl) })(modelId);
+}
+
+/**
+ * Model ids from a model list response: OpenAI's `{ data: [{ id }] }` or Ollama's native
+ * `{ models: [{ name }] }`
+ */
+export function parseModelList(body: unknown): string[] {
+    if (body === null || typeof body !== 'object') {
+        return [];
+    }
+    const record = body as Record<string, unknown>;
+    const entries = Array.isArray(record.data)
+        ? record.data
+        : Array.isArray(record.models)
+          ? record.models
+          : [];
+    const ids = entries.flatMap((entry: unknown) => {
+        if (entry === null || typeof entry !== 'object') {
+            return [];
+        }
+        const { id, name } = entry as Record<string, unknown>;
+        const modelId = typeof id === 'string' ? id : name;
+        return typeof modelId === 'string' && modelId.length > 0 ? [modelId] : [];
+    });
+    return [...new Set(ids)].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * List the models the endpoint serves from its `/models` route
+ */
+export async function fetchLocalModels(
+    baseUrl: string,
+    fetchImpl: typeof fetch = fetch
+): Promise<string[]> {
+    const response = await fetchImpl(`${normalizeBaseUrl(baseUrl)}/models`, {
+        signal: AbortSignal.timeout(MODEL_LIST_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+        throw new Error(`${response.status} ${response.statusText}`.trim());
+    }
+    return parseModelList(await response.json());
+}
+
+/**
+ * Replace images in user messages with a note, for models that can't read them
+ */
+export function dropImageParts(messages: readonly ChatMessage[]): ChatMessage[] {
+    return messages.map(message => {
+        if (message.role !== 'user' || typeof message.content === 'string') {
+            return message;
+        }
+        const isImage = (part: (typeof message.content)[number]) =>
+            part.type === 'image' || (part.type === 'file' && part.mediaType.startsWith('image/'));
+        const images = message.content.filter(isImage).length;
+        if (images === 0) {
+            return message;
+        }
+        return {
+            ...message,
+            content: [
+                ...message.content.filter(part => !isImage(part)),
+                {
+                    type: 'text',
+                    text: `[${images} image${images === 1 ? '' : 's'} omitted: the local model does not support images]`,
+                },
+            ],
+        };
+    });
+}
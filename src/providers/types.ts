@@ -43,6 +43,8 @@ export interface ModelConfig {
     maxTokens?: number;
     /** Whether the model supports vision/images */
     supportsVision?: boolean;
+    /** Whether the model supports tool calling */
+    supportsTools?: boolean;
     /** Additional model-specific configuration */
     metadata?: Record<string, any>;
 }
@@ -0,0 +1,22 @@
+import * as vscode from 'vscode';
+
+const AGENT_SECTION = 'securedesign.agent';
+
+export interface AgentLoopSettings {
+    maxSteps: number;
+    // 0 disables the time limit
+    maxDurationSeconds: number;
+}
+
+export function readAgentLoopSettings(): AgentLoopSettings {
+    const config = vscode.workspace.getConfiguration(AGENT_SECTION);
+    return {
+        maxSteps: Math.max(1, config.get<number>('maxSteps') ?? 20),
+        maxDurationSeconds: config.get<number>('maxDurationSeconds') ?? 600,
+    };
+}
+
+// Whether each request's model calls are saved under .superdesign/recordings for replay tests
+export function isSessionRecordingEnabled(): boolean {
+    return vscode.workspace.getConfiguration(AGENT_SECTION).get<boolean>('recordSessions') ?? false;
+}
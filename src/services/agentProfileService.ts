@@ -0,0 +1,171 @@
+import * as vscode from 'vscode';
+import { getLogger } from 'react-vscode-webview-ipc/host';
+import BaseRepository from '../types/BaseRepository';
+import type { AgentProfile, AgentProfilesState } from '../types/agentProfile';
+import type { WorkspaceStateService } from './workspaceStateService';
+import {
+    createProfileTemplate,
+    DEFAULT_PROFILE,
+    DEFAULT_PROFILE_ID,
+    parseAgentProfile,
+    PROFILES_FOLDER,
+    toProfileSummary,
+} from './agentProfiles';
+
+const SELECTED_PROFILE_KEY = 'securedesign.agent.profile';
+
+/**
+ * Agent profiles from .superdesign/profiles/*.md plus the built-in default, and which one the
+ * chat uses. A workspace default.md replaces the built-in profile.
+ */
+export class AgentProfileService
+    extends BaseRepository<AgentProfilesState>
+    implements vscode.Disposable
+{
+    private readonly logger = getLogger('AgentProfileService');
+    private readonly watcher: vscode.FileSystemWatcher | undefined;
+
+    constructor(private readonly workspace: WorkspaceStateService) {
+        super({
+            profiles: [toProfileSummary(DEFAULT_PROFILE)],
+            selectedId: workspace.get<string>(SELECTED_PROFILE_KEY) ?? DEFAULT_PROFILE_ID,
+        });
+
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        if (workspaceFolder) {
+            this.watcher = vscode.workspace.createFileSystemWatcher(
+                new vscode.RelativePattern(workspaceFolder, `.superdesign/${PROFILES_FOLDER}/*.md`)
+            );
+            const reload = () => void this.reload();
+            this.watcher.onDidCreate(reload);
+            this.watcher.onDidChange(reload);
+            this.watcher.onDidDelete(reload);
+        }
+        void this.reload();
+    }
+
+    public getState(): AgentProfilesState {
+        return super.getData();
+    }
+
+    public async reload(): Promise<AgentProfilesState> {
+        const profiles = await this.loadProfiles();
+        const { selectedId } = super.getData();
+        this.setData({
+            profiles: profiles.map(toProfileSummary),
+            selectedId: profiles.some(p => p.id === selectedId) ? selectedId : DEFAULT_PROFILE_ID,
+        });
+        return super.getData();
+    }
+
+    public async select(profileId: string): Promise<AgentProfilesState> {
+        await this.workspace.update(SELECTED_PROFILE_KEY, profileId);
+        this.setData({ ...super.getData(), selectedId: profileId });
+        this.logger.info(`Selected agent profile ${profileId}`);
+        return super.getData();
+    }
+
+    /**
+     * The selected profile, read from disk so edits apply to the next request without a reload
+     */
+    public async getSelectedProfile(): Promise<AgentProfile> {
+        const { selectedId } = super.getData();
+        const profiles = await this.loadProfiles();
+        return profiles.find(p => p.id === selectedId) ?? DEFAULT_PROFILE;
+    }
+
+    /**
+     * Open a profile file, creating it from the built-in rules when it doesn't exist yet.
+     * Returns false when there is no workspace to store it in.
+     */
+    public async openProfile(profileId: string): Promise<boolean> {
+        const folder = this.getProfilesFolder();
+        if (!folder) {
+            vscode.window.showErrorMessage(
+                'No workspace folder found. Please open a workspace first.'
+            );
+            return false;
+        }
+        const uri = vscode.Uri.joinPath(folder, `${profileId}.md`);
+        try {
+            await vscode.workspace.fs.stat(uri);
+        } catch {
+            await vscode.workspace.fs.createDirectory(folder);
+            await vscode.workspace.fs.writeFile(
+                uri,
+                Buffer.from(
+                    createProfileTemplate(profileId === DEFAULT_PROFILE_ID ? 'Default' : profileId),
+                    'utf8'
+                )
+            );
+        }
+        await vscode.window.showTextDocument(uri);
+        return true;
+    }
+
+    private getProfilesFolder(): vscode.Uri | undefined {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        return workspaceFolder
+            ? vscode.Uri.joinPath(workspaceFolder.uri, '.superdesign', PROFILES_FOLDER)
+            : undefined;
+    }
+
+    private async loadProfiles(): Promise<AgentProfile[]> {
+        const folder = this.getProfilesFolder();
+        if (!folder) {
+            return [DEFAULT_PROFILE];
+        }
+
+        let entries: Array<[string, vscode.FileType]>;
+        try {
+            entries = await vscode.workspace.fs.readDirectory(folder);
+        } catch {
+            // No profiles folder yet
+            return [DEFAULT_PROFILE];
+        }
+
+        const loaded = await Promise.all(
+            entries
+                .filter(
+                    ([name, type]) =>
+                        type === vscode.FileType.File && name.toLowerCase().endsWith('.md')
+                )
+                .map(async ([name]): Promise<AgentProfile | null> => {
+                    const uri = vscode.Uri.joinPath(folder, name);
+                    try {
+                        const content = Buffer.from(
+                            await vscode.workspace.fs.readFile(uri)
+                        ).toString('utf8');
+                        return parseAgentProfile(
+                            name.replace(/\.md$/i, ''),
+                            content,
+                            vscode.workspace.asRelativePath(uri, false)
+                        );
+                    } catch (error) {
+                        this.logger.warn(`Failed to read agent profile ${name}`, { error });
+                        return null;
+                    }
+                })
+        );
+        const profiles = loaded
+            .filter((profile): profile is AgentProfile => profile !== null)
+            .sort(
+                (a, b) =>
+                    Number(b.id === DEFAULT_PROFILE_ID) - Number(a.id === DEFAULT_PROFILE_ID) ||
+                    a.name.localeCompare(b.name)
+            );
+        for (const profile of profiles) {
+            if (profile.warnings.length > 0) {
+                this.logger.warn(`Agent profile ${profile.source} has problems`, {
+                    warnings: profile.warnings,
+                });
+            }
+        }
+        const builtIn = profiles.some(p => p.id === DEFAULT_PROFILE_ID) ? [] : [DEFAULT_PROFILE];
+        return [...builtIn, ...profiles];
+    }
+
+    dispose(): void {
+        this.watcher?.dispose();
+    }
+}
@@ -0,0 +1,158 @@
+import type { AgentProfile, AgentProfileSummary } from '../types/agentProfile';
+import { DEFAULT_STYLE_RULES, DESIGN_AGENT_TOOLS } from '../templates/designAgentPrompt';
+import { MODEL_PROVIDERS, parseModelEntry } from './providerModels';
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+export const PROFILES_FOLDER = 'profiles';
+
+// lookupDesignSystem is only offered when design system sources are configured
+const PROFILE_TOOLS = [...DESIGN_AGENT_TOOLS, 'lookupDesignSystem'];
+
+const PROFILE_KEYS = new Set(['name', 'description', 'model', 'tools']);
+
+export const DEFAULT_PROFILE: AgentProfile = {
+    id: DEFAULT_PROFILE_ID,
+    name: 'Default',
+    description: 'Built-in SecureDesign house style',
+    styleRules: DEFAULT_STYLE_RULES,
+    warnings: [],
+};
+
+function unquote(value: string): string {
+    return value.replace(/^(['"])(.*)\1$/, '$2');
+}
+
+/**
+ * Split a Markdown file into its front matter and body. Front matter supports the small YAML
+ * subset profiles need: "key: value", inline lists ("[a, b]") and "- item" lists.
+ */
+export function parseFrontMatter(content: string): {
+    attributes: Record<string, string | string[]>;
+    body: string;
+} {
+    const match = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/.exec(content);
+    if (!match) {
+        return { attributes: {}, body: content };
+    }
+
+    const attributes: Record<string, string | string[]> = {};
+    let listKey: string | undefined;
+    for (const line of match[1].split(/\r?\n/)) {
+        if (line.trim().length === 0 || line.trim().startsWith('#')) {
+            continue;
+        }
+        const item = /^\s*-\s+(.*)$/.exec(line);
+        if (item && listKey !== undefined) {
+            (attributes[listKey] as string[]).push(unquote(item[1].trim()));
+            continue;
+        }
+        const pair = /^([A-Za-z][\w-]*)\s*:\s*(.*)$/.exec(line);
+        if (!pair) {
+            continue;
+        }
+        const [, key, rawValue] = pair;
+        const value = rawValue.trim();
+        listKey = undefined;
+        if (value.length === 0) {
+            attributes[key] = [];
+            listKey = key;
+        } else if (value.startsWith('[') && value.endsWith(']')) {
+            attributes[key] = value
+                .slice(1, -1)
+                .split(',')
+                .map(entry => unquote(entry.trim()))
+                .filter(entry => entry.length > 0);
+        } else {
+            attributes[key] = unquote(value);
+        }
+    }
+    return { attributes, body: content.slice(match[0].length) };
+}
+
+/**
+ * Build a profile from a profile file. Problems in the front matter become warnings and the
+ * offending field falls back to the default, so one typo doesn't disable the whole profile.
+ * An empty body keeps the built-in style rules.
+ */
+export function parseAgentProfile(id: string, content: string, source?: string): AgentProfile {
+    const { attributes, body } = parseFrontMatter(content);
+    const warnings: string[] = [];
+    const text = (key: string): string | undefined => {
+        const value = attributes[key];
+        if (Array.isArray(value)) {
+            warnings.push(`"${key}" should be a single value`);
+            return undefined;
+        }
+        return value !== undefined && value.length > 0 ? value : undefined;
+    };
+
+    for (const key of Object.keys(attributes)) {
+        if (!PROFILE_KEYS.has(key)) {
+            warnings.push(`Unknown front matter key "${key}"`);
+        }
+    }
+
+    let model = text('model');
+    if (model !== undefined && parseModelEntry(model) === undefined) {
+        warnings.push(
+            `Model "${model}" should be provider:model with a provider of ${MODEL_PROVIDERS.join(', ')}`
+        );
+        model = undefined;
+    }
+
+    let tools: string[] | undefined;
+    const rawTools = attributes.tools;
+    if (typeof rawTools === 'string') {
+        warnings.push('"tools" should be a list, e.g. [read, write, generateTheme]');
+    } else if (rawTools !== undefined) {
+        const unknown = rawTools.filter(tool => !PROFILE_TOOLS.includes(tool));
+        if (unknown.length > 0) {
+            warnings.push(`Unknown tools: ${unknown.join(', ')}`);
+        }
+        tools = rawTools.filter(tool => PROFILE_TOOLS.includes(tool));
+    }
+
+    return {
+        id,
+        name: text('name') ?? id,
+        description: text('description'),
+        model,
+        tools,
+        styleRules: body.trim().length > 0 ? body.trim() : DEFAULT_STYLE_RULES,
+        source,
+        warnings,
+    };
+}
+
+export function toProfileSummary({ styleRules: _, ...summary }: AgentProfile): AgentProfileSummary {
+    return summary;
+}
+
+/**
+ * Keep only the tools a profile allows. Profiles without a tools list allow everything.
+ */
+export function filterProfileTools<T>(
+    tools: Record<string, T>,
+    profile: AgentProfile
+): Record<string, T> {
+    const allowed = profile.tools;
+    if (allowed === undefined) {
+        return tools;
+    }
+    return Object.fromEntries(Object.entries(tools).filter(([name]) => allowed.includes(name)));
+}
+
+/**
+ * Starting point for a new profile: the built-in rules, ready to edit into a house style
+ */
+export function createProfileTemplate(name: string): string {
+    return `---
+name: ${name}
+description: House style for ${name}
+# model: anthropic:claude-sonnet-4-20250514
+# tools: [read, write, edit, multiedit, glob, grep, ls, generateTheme]
+---
+${DEFAULT_STYLE_RULES}
+`;
+}
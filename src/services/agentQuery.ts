@@ -0,0 +1,403 @@
+import { generateText, stepCountIs, streamText, type StopCondition, type ToolSet } from 'ai';
+import type { LanguageModelV2 } from '@ai-sdk/provider';
+import type { ILogger } from 'react-vscode-webview-ipc/host';
+import type { ExecutionContext } from '../types/agent';
+import type { AgentProfile } from '../types/agentProfile';
+import type { AgentRecording } from '../types/agentRecording';
+import type { ChatMessage } from '../types/chatMessage';
+import type { DesignSystemIndex } from '../types/designSystem';
+import type { DesignWorkflow } from '../types/designWorkflow';
+import type { BashExecutionPolicy } from '../tools/bash-sandbox';
+import { createReadTool } from '../tools/read-tool';
+import { createWriteTool } from '../tools/write-tool';
+import { createBashTool } from '../tools/bash-tool';
+import { createEditTool } from '../tools/edit-tool';
+import { createGlobTool } from '../tools/glob-tool';
+import { createGrepTool } from '../tools/grep-tool';
+import { createThemeTool } from '../tools/theme-tool';
+import { createLsTool } from '../tools/ls-tool';
+import { createMultieditTool } from '../tools/multiedit-tool';
+import { createDesignSystemTool } from '../tools/design-system-tool';
+import { buildDesignAgentPrompt } from '../templates/designAgentPrompt';
+import { dropImageParts, type LocalModelCapabilities } from '../providers/openAICompatibleProvider';
+import type { AgentLoopSettings } from './agentLoopSettings';
+import type { ContextSettings } from './contextSettings';
+import { filterProfileTools } from './agentProfiles';
+import { buildWorkflowPrompt, filterWorkflowTools } from './designWorkflow';
+import { isDesignSystemEmpty, summarizeDesignSystem } from './designSystemIndex';
+import { computeCost, findModelPrice, type ModelPrice } from './usageCost';
+import { markInterrupted } from './interruptedMessages';
+import { AgentStreamAssembler, extractErrorMessage } from './agentStreamMessages';
+import { recordModel, saveRecording } from './agentRecording';
+import {
+    createSummaryMessage,
+    elideToolPayloads,
+    estimateMessagesTokens,
+    estimateTokens,
+    findCompactionSplit,
+    renderTranscript,
+    resolveContextWindow,
+    splitAtSummary,
+    SUMMARY_SYSTEM_PROMPT,
+} from './contextCompaction';
+
+/**
+ * Everything one agent request depends on. CustomAgentService reads it from the settings, the
+ * selected profile and the model picker; replay tests pass it directly.
+ */
+export interface AgentQueryOptions {
+    model: LanguageModelV2;
+    // What a local model can do, since its endpoint doesn't say
+    local?: LocalModelCapabilities;
+    profile: AgentProfile;
+    // Guided workflow of the session, whose current step limits the turn
+    workflow?: DesignWorkflow;
+    workingDirectory: string;
+    sessionId: string;
+    logger: ILogger;
+    bashPolicy: BashExecutionPolicy;
+    designSystem?: DesignSystemIndex;
+    maxDesignSystemChars: number;
+    loop: AgentLoopSettings;
+    context: ContextSettings;
+    modelPrices: Record<string, ModelPrice>;
+    // The user's tool permission settings
+    applyPermissions: (tools: ToolSet, context: ExecutionContext) => ToolSet;
+    // Folder the request's model calls are recorded to; not recorded when undefined
+    recordingsFolder?: string;
+    now?: () => number;
+}
+
+/**
+ * Stop conditions for one request. The time limit is checked between steps, so a step that
+ * is already running always finishes and its tool results are kept.
+ */
+export function buildStopConditions(
+    settings: AgentLoopSettings,
+    startedAt: number
+): Array<StopCondition<ToolSet>> {
+    const conditions: Array<StopCondition<ToolSet>> = [stepCountIs(settings.maxSteps)];
+    if (settings.maxDurationSeconds > 0) {
+        conditions.push(() => Date.now() - startedAt >= settings.maxDurationSeconds * 1000);
+    }
+    return conditions;
+}
+
+/**
+ * Every built-in tool, bound to the request's execution context
+ */
+export function createAgentTools(context: ExecutionContext): ToolSet {
+    return {
+        read: createReadTool(context),
+        write: createWriteTool(context),
+        edit: createEditTool(context),
+        multiedit: createMultieditTool(context),
+        glob: createGlobTool(context),
+        grep: createGrepTool(context),
+        ls: createLsTool(context),
+        bash: createBashTool(context),
+        generateTheme: createThemeTool(context),
+        ...(context.designSystem && {
+            lookupDesignSystem: createDesignSystemTool(context),
+        }),
+    };
+}
+
+/**
+ * The assistant message shown when a request fails before or while streaming
+ */
+export function createQueryErrorMessage(error: unknown, sessionId: string): ChatMessage {
+    return {
+        role: 'assistant',
+        content: extractErrorMessage(error),
+        metadata: {
+            is_error: true,
+            timestamp: Date.now(),
+            session_id: sessionId,
+        },
+    };
+}
+
+function getDesignSystemPrompt(designSystem: DesignSystemIndex, maxChars: number): string {
+    if (isDesignSystemEmpty(designSystem)) {
+        return '';
+    }
+    const summary = maxChars > 0 ? `\n${summarizeDesignSystem(designSystem, maxChars)}\n` : '';
+    return `
+# Project design system
+The user's project has its own design system, indexed from their workspace. It takes precedence over the fonts, example themes and component library in the style rules above: use these tokens (as CSS custom properties in the design's :root) and mirror these components' structure and naming so designs match the product's brand.
+Use the **lookupDesignSystem** tool to search tokens and components or read a component's source before designing with it.
+${summary}`;
+}
+
+function getSystemPrompt(options: AgentQueryOptions, tools: readonly string[]): string {
+    const prompt = buildDesignAgentPrompt({
+        designFolder: 'design_iterations',
+        styleRules: options.profile.styleRules,
+        workingDirectory: options.workingDirectory,
+        tools,
+    });
+    const designSystem = options.designSystem
+        ? getDesignSystemPrompt(options.designSystem, options.maxDesignSystemChars)
+        : '';
+    const basePrompt = `${prompt}
+${designSystem}`;
+    return options.workflow ? `${basePrompt}${buildWorkflowPrompt(options.workflow)}` : basePrompt;
+}
+
+/**
+ * Fit the conversation into the model's context window. Large tool payloads from earlier
+ * turns are always elided; once the estimate passes the compaction threshold, older turns
+ * are summarised into a summary message that is inserted into the stored history.
+ */
+async function compactHistory(
+    history: ChatMessage[],
+    systemPrompt: string,
+    options: AgentQueryOptions,
+    model: LanguageModelV2,
+    price: ModelPrice | undefined,
+    contextWindow: number,
+    abortSignal: AbortSignal
+): Promise<{ history: ChatMessage[]; summary: string | undefined; messages: ChatMessage[] }> {
+    const { logger } = options;
+    const { summary, summaryIndex, messages } = splitAtSummary(history);
+    const modelMessages = elideToolPayloads(messages);
+    const estimate =
+        estimateTokens(systemPrompt) +
+        estimateTokens(summary ?? '') +
+        estimateMessagesTokens(modelMessages);
+    const threshold = (contextWindow * options.context.compactAtPercent) / 100;
+    if (estimate < threshold) {
+        return { history, summary, messages: modelMessages };
+    }
+
+    const split = findCompactionSplit(modelMessages, contextWindow);
+    if (split === 0) {
+        logger.warn('Context is nearly full but the latest turn cannot be summarised', {
+            estimate,
+            contextWindow,
+        });
+        return { history, summary, messages: modelMessages };
+    }
+
+    logger.info(`Summarising ${split} messages to free context`, {
+        estimate,
+        contextWindow,
+    });
+    try {
+        const previous = summary !== undefined ? `PREVIOUS SUMMARY: ${summary}\n\n` : '';
+        const result = await generateText({
+            model,
+            system: SUMMARY_SYSTEM_PROMPT,
+            prompt: previous + renderTranscript(modelMessages.slice(0, split)),
+            abortSignal,
+        });
+        const usage = {
+            inputTokens: result.usage.inputTokens ?? 0,
+            outputTokens: result.usage.outputTokens ?? 0,
+            cachedInputTokens: result.usage.cachedInputTokens ?? 0,
+        };
+        const summaryMessage = createSummaryMessage(result.text.trim(), split);
+        summaryMessage.metadata = {
+            ...summaryMessage.metadata,
+            model_id: model.modelId,
+            input_tokens: usage.inputTokens,
+            output_tokens: usage.outputTokens,
+            cached_input_tokens: usage.cachedInputTokens,
+            total_cost_usd: price !== undefined ? computeCost(usage, price) : undefined,
+        };
+
+        const insertAt = summaryIndex + 1 + split;
+        return {
+            history: [...history.slice(0, insertAt), summaryMessage, ...history.slice(insertAt)],
+            summary: result.text.trim(),
+            messages: modelMessages.slice(split),
+        };
+    } catch (error) {
+        if (abortSignal.aborted) {
+            throw error;
+        }
+        logger.error('Failed to summarise conversation; sending it in full', { error });
+        return { history, summary, messages: modelMessages };
+    }
+}
+
+async function writeRecording(
+    recording: AgentRecording,
+    folder: string,
+    logger: ILogger
+): Promise<void> {
+    try {
+        const filePath = await saveRecording(recording, folder);
+        logger.info(`Recorded ${recording.steps.length} model calls to ${filePath}`);
+    } catch (error) {
+        logger.warn('Failed to save session recording', { error });
+    }
+}
+
+/**
+ * Run one agent request: build the tools and system prompt, compact the history, then keep
+ * calling the model with tool results until it stops asking for tools. Every change to the
+ * conversation is reported through onMessage.
+ */
+export async function runAgentQuery(
+    conversationHistory: ChatMessage[],
+    abortController: AbortController,
+    onMessage: (prev: ChatMessage[]) => void,
+    options: AgentQueryOptions
+): Promise<ChatMessage[]> {
+    const { logger, sessionId, workflow, local } = options;
+    let updatedMessages: ChatMessage[] = conversationHistory;
+    const recorder =
+        options.recordingsFolder !== undefined ? recordModel(options.model) : undefined;
+    const model = recorder?.model ?? options.model;
+
+    try {
+        logger.info('Starting AI SDK streamText...');
+
+        // Create execution context for tools
+        const executionContext: ExecutionContext = {
+            workingDirectory: options.workingDirectory,
+            sessionId,
+            logger,
+            abortController,
+            bashPolicy: options.bashPolicy,
+            designSystem: options.designSystem,
+        };
+
+        // Create tools with context, then apply the user's permission settings, the
+        // selected profile's tool list and the current workflow step's tools
+        const allowedTools = options.applyPermissions(
+            createAgentTools(executionContext),
+            executionContext
+        );
+        const profileTools = filterProfileTools(allowedTools, options.profile);
+        // Local models without tool calling can still answer, but only in text
+        const tools =
+            local?.supportsTools === false
+                ? {}
+                : workflow
+                  ? filterWorkflowTools(profileTools, workflow)
+                  : profileTools;
+        logger.info(`Using agent profile ${options.profile.id} with model ${model.modelId}`, {
+            local,
+        });
+        const price = findModelPrice(model.modelId, options.modelPrices);
+        if (price === undefined) {
+            logger.warn(`No price known for model ${model.modelId}; cost not recorded`);
+        }
+        const contextWindow = resolveContextWindow(model.modelId, options.context.maxTokens);
+        const systemPrompt = getSystemPrompt(options, Object.keys(tools));
+        const context = await compactHistory(
+            conversationHistory,
+            systemPrompt,
+            options,
+            model,
+            price,
+            contextWindow,
+            abortController.signal
+        );
+        if (context.history !== conversationHistory) {
+            updatedMessages = context.history;
+            onMessage(updatedMessages);
+        }
+
+        const assembler = new AgentStreamAssembler(updatedMessages, {
+            sessionId,
+            modelId: model.modelId,
+            price,
+            contextWindow,
+            now: options.now,
+        });
+
+        const requestStartTime = Date.now();
+        const result = streamText({
+            model,
+            system:
+                context.summary !== undefined
+                    ? `${systemPrompt}\n# Earlier conversation summary\nOlder messages were summarised to save context:\n${context.summary}\n`
+                    : systemPrompt,
+            messages:
+                local?.supportsVision === false
+                    ? dropImageParts(context.messages)
+                    : context.messages,
+            tools: tools,
+            stopWhen: buildStopConditions(options.loop, requestStartTime),
+            abortSignal: abortController.signal,
+            // Stream errors are logged below and become error messages
+            onError: () => undefined,
+        });
+
+        logger.info('AI SDK streamText created, starting to process chunks...');
+
+        for await (const chunk of result.fullStream) {
+            // Check for abort signal
+            if (abortController.signal.aborted) {
+                logger.info('Operation aborted by user');
+                break;
+            }
+
+            if (!chunk.type.includes('delta')) {
+                logger.debug(`Received chunk type: ${chunk.type}`);
+            }
+            if (chunk.type === 'error') {
+                logger.error(`Stream error: ${extractErrorMessage(chunk.error)}`, { chunk });
+            } else if (chunk.type === 'finish') {
+                logger.info(`===Stream finished with reason: ${chunk.finishReason}`, chunk);
+            }
+            updatedMessages = assembler.apply(chunk);
+            onMessage(updatedMessages);
+        }
+
+        if (abortController.signal.aborted) {
+            updatedMessages = markInterrupted(updatedMessages);
+            onMessage(updatedMessages);
+            return updatedMessages;
+        }
+
+        // A final step that still asked for tools means a limit ended the loop early
+        if (assembler.finishReason === 'tool-calls') {
+            const limit = assembler.steps >= options.loop.maxSteps ? 'steps' : 'time';
+            logger.warn(`Agent loop stopped at the ${limit} limit`, {
+                stepCount: assembler.steps,
+            });
+            const lastMessage = updatedMessages[updatedMessages.length - 1];
+            updatedMessages = [
+                ...updatedMessages.slice(0, -1),
+                {
+                    ...lastMessage,
+                    metadata: { ...lastMessage.metadata, step_limit: limit },
+                } as ChatMessage,
+            ];
+            onMessage(updatedMessages);
+        }
+
+        logger.info(
+            `Query completed in ${assembler.steps} steps. New messages: ${updatedMessages.length - conversationHistory.length}`
+        );
+
+        return updatedMessages;
+    } catch (error) {
+        // Aborting rejects the stream; keep what was generated instead of reporting an error
+        if (abortController.signal.aborted) {
+            logger.info('Query interrupted by user');
+            updatedMessages = markInterrupted(updatedMessages);
+            onMessage(updatedMessages);
+            return updatedMessages;
+        }
+
+        logger.error(`Custom Agent query failed`, { error });
+        updatedMessages = [...updatedMessages, createQueryErrorMessage(error, sessionId)];
+        onMessage(updatedMessages);
+
+        throw error;
+    } finally {
+        if (
+            recorder !== undefined &&
+            options.recordingsFolder !== undefined &&
+            recorder.recording.steps.length > 0
+        ) {
+            await writeRecording(recorder.recording, options.recordingsFolder, logger);
+        }
+    }
+}
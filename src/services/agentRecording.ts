@@ -0,0 +1,172 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { wrapLanguageModel } from 'ai';
+import type { LanguageModelV2, LanguageModelV2StreamPart } from '@ai-sdk/provider';
+import type { AgentRecording, AgentRecordingStreamStep } from '../types/agentRecording';
+
+// Folder under .superdesign that recorded sessions are saved to
+export const RECORDINGS_FOLDER = 'recordings';
+
+/**
+ * Wrap a model so every call it makes is added to the returned recording: the stream parts of
+ * streamed calls and the result of generate calls
+ */
+export function recordModel(
+    model: LanguageModelV2,
+    recordedAt: number = Date.now()
+): { model: LanguageModelV2; recording: AgentRecording } {
+    const recording: AgentRecording = {
+        version: 1,
+        provider: model.provider,
+        modelId: model.modelId,
+        recordedAt,
+        steps: [],
+    };
+    const recorded = wrapLanguageModel({
+        model,
+        middleware: {
+            wrapGenerate: async ({ doGenerate }) => {
+                const result = await doGenerate();
+                recording.steps.push({
+                    generated: {
+                        content: result.content,
+                        finishReason: result.finishReason,
+                        usage: result.usage,
+                        providerMetadata: result.providerMetadata,
+                        warnings: result.warnings,
+                    },
+                });
+                return result;
+            },
+            wrapStream: async ({ doStream }) => {
+                const result = await doStream();
+                const step: AgentRecordingStreamStep = { parts: [] };
+                recording.steps.push(step);
+                return {
+                    ...result,
+                    stream: result.stream.pipeThrough(
+                        new TransformStream<LanguageModelV2StreamPart, LanguageModelV2StreamPart>({
+                            transform(part, controller) {
+                                if (part.type !== 'raw') {
+                                    step.parts.push(part);
+                                }
+                                controller.enqueue(part);
+                            },
+                        })
+                    ),
+                };
+            },
+        },
+    });
+    return { model: recorded, recording };
+}
+
+/**
+ * A model that answers each call with the next recorded step, so a session runs the same way
+ * every time without a provider. Running out of steps, or a call of the other kind than the one
+ * recorded, is an error: the session under test called the model differently.
+ */
+export function createReplayModel(recording: AgentRecording): LanguageModelV2 {
+    let nextStep = 0;
+    const takeStep = () => {
+        const step = recording.steps.at(nextStep);
+        if (step === undefined) {
+            throw new Error(
+                `Model call ${nextStep + 1} was not recorded; the recording has ${recording.steps.length}`
+            );
+        }
+        nextStep++;
+        return step;
+    };
+    return {
+        specificationVersion: 'v2',
+        provider: `replay:${recording.provider}`,
+        modelId: recording.modelId,
+        supportedUrls: {},
+        doGenerate: () => {
+            const step = takeStep();
+            if (!('generated' in step)) {
+                throw new Error(`Model call ${nextStep} was recorded as a stream`);
+            }
+            return Promise.resolve(step.generated);
+        },
+        doStream: () => {
+            const step = takeStep();
+            if (!('parts' in step)) {
+                throw new Error(`Model call ${nextStep} was recorded as a generate call`);
+            }
+            return Promise.resolve({
+                stream: new ReadableStream<LanguageModelV2StreamPart>({
+                    start(controller) {
+                        for (const part of step.parts) {
+                            controller.enqueue(part);
+                        }
+                        controller.close();
+                    },
+                }),
+            });
+        },
+    };
+}
+
+export function serializeRecording(recording: AgentRecording): string {
+    return JSON.stringify(
+        recording,
+        (_key, value: unknown) => {
+            if (value instanceof Error) {
+                return { name: value.name, message: value.message };
+            }
+            if (value instanceof Uint8Array) {
+                return Buffer.from(value).toString('base64');
+            }
+            return value;
+        },
+        2
+    );
+}
+
+/**
+ * Read a recording saved by serializeRecording, restoring the dates and errors JSON loses
+ */
+export function parseRecording(text: string): AgentRecording {
+    const recording = JSON.parse(text) as AgentRecording;
+    if (recording.version !== 1 || !Array.isArray(recording.steps)) {
+        throw new Error(`Unsupported recording version: ${String(recording.version)}`);
+    }
+    return {
+        ...recording,
+        steps: recording.steps.map(step =>
+            'generated' in step
+                ? step
+                : {
+                      parts: step.parts.map(part => {
+                          if (part.type === 'response-metadata' && part.timestamp !== undefined) {
+                              return { ...part, timestamp: new Date(part.timestamp) };
+                          }
+                          if (part.type === 'error') {
+                              const { name, message } = part.error as {
+                                  name?: string;
+                                  message?: string;
+                              };
+                              const error = new Error(message);
+                              error.name = name ?? 'Error';
+                              return { ...part, error };
+                          }
+                          return part;
+                      }),
+                  }
+        ),
+    };
+}
+
+/**
+ * Save a recording as `<folder>/<time>-<model>.json` and return its path
+ */
+export async function saveRecording(recording: AgentRecording, folder: string): Promise<string> {
+    const time = new Date(recording.recordedAt).toISOString().replace(/[:.]/g, '-');
+    const model = recording.modelId.replace(/[^\w.-]+/g, '_');
+    const filePath = path.join(folder, `${time}-${model}.json`);
+    await fs.promises.mkdir(folder, { recursive: true });
+    await fs.promises.writeFile(filePath, serializeRecording(recording), 'utf8');
+    return filePath;
+}
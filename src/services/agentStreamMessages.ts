@@ -0,0 +1,273 @@
+import type { TextStreamPart, ToolSet } from 'ai';
+import type { ChatMessage } from '../types/chatMessage';
+import { guessToolResultOutput } from './chunkToolOutputToMessageToolOutput';
+import { createReasoningMessage, updateReasoningMessage } from './reasoningMessages';
+import { attachStepUsage, type ModelPrice } from './usageCost';
+
+export const extractErrorMessage = (error: unknown): string => {
+    if (error === null || error === undefined) {
+        return 'Unknown error occurred';
+    }
+    if (typeof error === 'string') {
+        return error;
+    }
+    if (error instanceof Error) {
+        return error.message;
+    }
+    if (typeof error === 'object') {
+        if ('message' in error && typeof error.message === 'string') {
+            if ('type' in error && typeof error.type === 'string') {
+                return `${error.type}: ${error.message}`;
+            }
+            return error.message;
+        }
+        return JSON.stringify(error);
+    }
+    // eslint-disable-next-line @typescript-eslint/no-base-to-string
+    return String(error);
+};
+
+export interface AgentStreamContext {
+    sessionId: string;
+    modelId: string;
+    price: ModelPrice | undefined;
+    contextWindow: number;
+    // Clock for step and reasoning timings, replaceable so replays are deterministic
+    now?: () => number;
+}
+
+/**
+ * Turns the parts of a streamText full stream into chat messages appended to the history:
+ * text and reasoning are accumulated, tool calls are shown as soon as their input starts
+ * streaming and completed when it arrives, and each step's usage is attached to its last
+ * assistant message.
+ */
+export class AgentStreamAssembler {
+    private current: ChatMessage[];
+    private stepStartIndex: number;
+    private stepStartTime: number;
+    private stepCount = 0;
+    private lastFinishReason: string | undefined;
+    // Reasoning blocks by chunk id: where their message is and when they started
+    private readonly reasoningBlocks = new Map<string, { index: number; startTime: number }>();
+    private readonly now: () => number;
+
+    constructor(
+        history: ChatMessage[],
+        private readonly context: AgentStreamContext
+    ) {
+        this.current = history;
+        this.now = context.now ?? Date.now;
+        this.stepStartIndex = history.length;
+        this.stepStartTime = this.now();
+    }
+
+    get messages(): ChatMessage[] {
+        return this.current;
+    }
+
+    get steps(): number {
+        return this.stepCount;
+    }
+
+    get finishReason(): string | undefined {
+        return this.lastFinishReason;
+    }
+
+    apply(chunk: TextStreamPart<ToolSet>): ChatMessage[] {
+        switch (chunk.type) {
+            case 'text-delta': {
+                this.appendText(chunk.text);
+                break;
+            }
+            case 'start-step': {
+                this.stepStartIndex = this.current.length;
+                this.stepStartTime = this.now();
+                break;
+            }
+            case 'finish-step': {
+                this.stepCount++;
+                this.lastFinishReason = chunk.finishReason;
+                this.current = attachStepUsage(
+                    this.current,
+                    this.stepStartIndex,
+                    {
+                        inputTokens: chunk.usage.inputTokens ?? 0,
+                        outputTokens: chunk.usage.outputTokens ?? 0,
+                        cachedInputTokens: chunk.usage.cachedInputTokens ?? 0,
+                    },
+                    {
+                        step: this.stepCount,
+                        finishReason: chunk.finishReason,
+                        contextWindow: this.context.contextWindow,
+                        modelId: this.context.modelId,
+                        price: this.context.price,
+                        startTime: this.stepStartTime,
+                        endTime: this.now(),
+                    }
+                );
+                break;
+            }
+            case 'error': {
+                this.current = [
+                    ...this.current,
+                    {
+                        role: 'assistant',
+                        content: extractErrorMessage(chunk.error),
+                        metadata: {
+                            is_error: true,
+                            timestamp: this.now(),
+                            session_id: this.context.sessionId,
+                        },
+                    },
+                ];
+                break;
+            }
+            case 'tool-input-start': {
+                // Input is filled in when the complete tool call arrives
+                this.current = [
+                    ...this.current,
+                    {
+                        role: 'assistant',
+                        content: [
+                            {
+                                type: 'tool-call',
+                                toolCallId: chunk.id,
+                                toolName: chunk.toolName,
+                                input: {},
+                            },
+                        ],
+                    },
+                ];
+                break;
+            }
+            case 'tool-call': {
+                this.completeToolCall(chunk.toolCallId, chunk.toolName, chunk.input);
+                break;
+            }
+            case 'tool-result': {
+                this.current = [
+                    ...this.current,
+                    {
+                        role: 'tool',
+                        content: [
+                            {
+                                type: 'tool-result',
+                                toolCallId: chunk.toolCallId,
+                                toolName: chunk.toolName,
+                                output: guessToolResultOutput(chunk.output),
+                            },
+                        ],
+                    },
+                ];
+                break;
+            }
+            case 'tool-error': {
+                this.current = [
+                    ...this.current,
+                    {
+                        role: 'tool',
+                        content: [
+                            {
+                                type: 'tool-result',
+                                toolCallId: chunk.toolCallId,
+                                toolName: chunk.toolName,
+                                output: guessToolResultOutput(chunk.error),
+                            },
+                        ],
+                        metadata: {
+                            is_error: true,
+                        },
+                    },
+                ];
+                break;
+            }
+            case 'reasoning-start': {
+                this.reasoningBlocks.set(chunk.id, {
+                    index: this.current.length,
+                    startTime: this.now(),
+                });
+                this.current = [...this.current, createReasoningMessage(chunk.providerMetadata)];
+                break;
+            }
+            case 'reasoning-delta': {
+                const block = this.reasoningBlocks.get(chunk.id);
+                if (block !== undefined) {
+                    this.current = updateReasoningMessage(this.current, block.index, {
+                        text: chunk.text,
+                        providerMetadata: chunk.providerMetadata,
+                    });
+                }
+                break;
+            }
+            case 'reasoning-end': {
+                const block = this.reasoningBlocks.get(chunk.id);
+                if (block !== undefined) {
+                    this.current = updateReasoningMessage(this.current, block.index, {
+                        providerMetadata: chunk.providerMetadata,
+                        durationMs: this.now() - block.startTime,
+                    });
+                    this.reasoningBlocks.delete(chunk.id);
+                }
+                break;
+            }
+            case 'start':
+            case 'text-start':
+            case 'text-end':
+            case 'tool-input-delta':
+            case 'tool-input-end':
+            case 'file':
+            case 'source':
+            case 'abort':
+            case 'finish':
+            case 'raw':
+                break;
+        }
+        return this.current;
+    }
+
+    private appendText(text: string): void {
+        const lastMessage = this.current[this.current.length - 1];
+        if (
+            lastMessage !== undefined &&
+            lastMessage.role === 'assistant' &&
+            typeof lastMessage.content === 'string' &&
+            lastMessage.metadata?.is_error !== true
+        ) {
+            this.current = [
+                ...this.current.slice(0, -1),
+                { ...lastMessage, content: lastMessage.content + text },
+            ];
+        } else {
+            this.current = [...this.current, { role: 'assistant', content: text }];
+        }
+    }
+
+    /**
+     * Fill in the input of the tool call shown when its input started streaming, or add the
+     * call if the provider sent it without streaming its input
+     */
+    private completeToolCall(toolCallId: string, toolName: string, input: unknown): void {
+        const toolCall = { type: 'tool-call' as const, toolCallId, toolName, input };
+        for (let i = this.current.length - 1; i >= 0; i--) {
+            const message = this.current[i];
+            if (message.role !== 'assistant' || !Array.isArray(message.content)) {
+                continue;
+            }
+            const partIndex = message.content.findIndex(
+                part => part.type === 'tool-call' && part.toolCallId === toolCallId
+            );
+            if (partIndex !== -1) {
+                const content = [...message.content];
+                content[partIndex] = toolCall;
+                this.current = [
+                    ...this.current.slice(0, i),
+                    { ...message, content },
+                    ...this.current.slice(i + 1),
+                ];
+                return;
+            }
+        }
+        this.current = [...this.current, { role: 'assistant', content: [toolCall] }];
+    }
+}
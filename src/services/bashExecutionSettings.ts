@@ -0,0 +1,30 @@
+import * as vscode from 'vscode';
+import {
+    DEFAULT_ENV_ALLOWLIST,
+    STANDARD_POLICY,
+    type BashExecutionPolicy,
+    type BashProfile,
+} from '../tools/bash-sandbox';
+
+const BASH_SECTION = 'securedesign.bash';
+
+/**
+ * Read the bash execution profile for the current workspace. Limits are only applied in
+ * the sandboxed profile; the standard profile ignores every other setting.
+ */
+export function readBashExecutionPolicy(): BashExecutionPolicy {
+    const config = vscode.workspace.getConfiguration(BASH_SECTION);
+    const profile = config.get<BashProfile>('profile') ?? 'standard';
+    if (profile !== 'sandboxed') {
+        return STANDARD_POLICY;
+    }
+    return {
+        profile,
+        envAllowlist: config.get<string[]>('envAllowlist') ?? DEFAULT_ENV_ALLOWLIST,
+        allowedCommands: config.get<string[]>('allowedCommands') ?? [],
+        disableNetwork: config.get<boolean>('disableNetwork') ?? true,
+        maxOutputBytes: config.get<number>('maxOutputBytes') ?? 1048576,
+        maxMemoryMb: config.get<number>('maxMemoryMb') ?? 1024,
+        maxCpuSeconds: config.get<number>('maxCpuSeconds') ?? 60,
+    };
+}
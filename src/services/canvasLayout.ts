@@ -0,0 +1,135 @@
+import type { CanvasLayout, CanvasViewport } from '../types/canvasLayout';
+import { BASE_VIEWPORT_IDS, DEFAULT_STRIP_DEVICES } from '../types/devicePresets';
+
+// File under .superdesign the canvas layout is saved to
+export const CANVAS_LAYOUT_FILE = 'canvas-layout.json';
+
+export const DEFAULT_CANVAS_LAYOUT: CanvasLayout = {
+    version: 1,
+    layoutMode: 'grid',
+    globalViewport: 'tablet',
+    useGlobalViewport: true,
+    showConnections: true,
+    positions: {},
+    viewports: {},
+    rotated: false,
+    stripDevices: [...DEFAULT_STRIP_DEVICES],
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Read a saved layout. Hand edits and merge leftovers are tolerated: invalid fields fall back
+ * to their defaults and invalid frame entries are dropped, so a bad file never breaks the
+ * canvas. Viewports must be one of `deviceIds`, so frames on a device that was removed from
+ * the catalogue fall back too. Files from a newer version are ignored.
+ */
+export function parseCanvasLayout(
+    text: string,
+    deviceIds: readonly string[] = BASE_VIEWPORT_IDS
+): CanvasLayout {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        return DEFAULT_CANVAS_LAYOUT;
+    }
+    if (!isRecord(data) || data.version !== 1) {
+        return DEFAULT_CANVAS_LAYOUT;
+    }
+    const isViewport = (value: unknown): value is CanvasViewport =>
+        typeof value === 'string' && deviceIds.includes(value);
+
+    const positions: CanvasLayout['positions'] = {};
+    if (isRecord(data.positions)) {
+        for (const [name, position] of Object.entries(data.positions)) {
+            if (isRecord(position) && isFiniteNumber(position.x) && isFiniteNumber(position.y)) {
+                positions[name] = { x: position.x, y: position.y };
+            }
+        }
+    }
+    const viewports: CanvasLayout['viewports'] = {};
+    if (isRecord(data.viewports)) {
+        for (const [name, viewport] of Object.entries(data.viewports)) {
+            if (isViewport(viewport)) {
+                viewports[name] = viewport;
+            }
+        }
+    }
+    const stripDevices = Array.isArray(data.stripDevices)
+        ? data.stripDevices.filter(isViewport)
+        : DEFAULT_CANVAS_LAYOUT.stripDevices;
+    const transform = isRecord(data.transform) ? data.transform : undefined;
+
+    return {
+        version: 1,
+        layoutMode: data.layoutMode === 'hierarchy' ? 'hierarchy' : 'grid',
+        globalViewport: isViewport(data.globalViewport)
+            ? data.globalViewport
+            : DEFAULT_CANVAS_LAYOUT.globalViewport,
+        useGlobalViewport:
+            typeof data.useGlobalViewport === 'boolean' ? data.useGlobalViewport : true,
+        showConnections: typeof data.showConnections === 'boolean' ? data.showConnections : true,
+        positions,
+        viewports,
+        rotated: data.rotated === true,
+        stripDevices,
+        ...(transform !== undefined &&
+            isFiniteNumber(transform.scale) &&
+            transform.scale > 0 &&
+            isFiniteNumber(transform.x) &&
+            isFiniteNumber(transform.y) && {
+                transform: { scale: transform.scale, x: transform.x, y: transform.y },
+            }),
+    };
+}
+
+function sortKeys<T>(record: Record<string, T>): Record<string, T> {
+    return Object.fromEntries(
+        Object.entries(record).sort(([a], [b]) => a.localeCompare(b))
+    ) as Record<string, T>;
+}
+
+/**
+ * JSON for the layout file. Frames are sorted by name so that moving one frame changes one
+ * line, which keeps diffs of the committed file readable.
+ */
+export function serializeCanvasLayout(layout: CanvasLayout): string {
+    return `${JSON.stringify(
+        {
+            ...layout,
+            positions: sortKeys(layout.positions),
+            viewports: sortKeys(layout.viewports),
+        },
+        null,
+        2
+    )}\n`;
+}
+
+/**
+ * Drop frames whose designs no longer exist. New designs need no entry: they are placed by
+ * the layout mode until they are moved. Returns the same layout when nothing was dropped.
+ */
+export function reconcileCanvasLayout(
+    layout: CanvasLayout,
+    designNames: readonly string[]
+): CanvasLayout {
+    const names = new Set(designNames);
+    const keep = <T>(record: Record<string, T>): Record<string, T> =>
+        Object.fromEntries(Object.entries(record).filter(([name]) => names.has(name)));
+    const positions = keep(layout.positions);
+    const viewports = keep(layout.viewports);
+    if (
+        Object.keys(positions).length === Object.keys(layout.positions).length &&
+        Object.keys(viewports).length === Object.keys(layout.viewports).length
+    ) {
+        return layout;
+    }
+    return { ...layout, positions, viewports };
+}
@@ -0,0 +1,104 @@
+import type { UserContent } from '@ai-sdk/provider-utils';
+import type { ChatFork, ChatForks, ChatMessage } from '../types/chatMessage';
+
+/**
+ * Position of the message at `index` among the user messages, which is how forks are keyed
+ */
+export function userTurnOf(messages: readonly ChatMessage[], index: number): number {
+    return messages.slice(0, index).filter(message => message.role === 'user').length;
+}
+
+function withBranchInfo(message: ChatMessage, fork: ChatFork): ChatMessage {
+    return {
+        ...message,
+        metadata: {
+            ...message.metadata,
+            branch: { index: fork.active, count: fork.branches.length },
+        },
+    } as ChatMessage;
+}
+
+/**
+ * Split forks at a turn into those before it, the one at it and those inside its tail
+ */
+function splitForks(
+    forks: ChatForks,
+    turn: number
+): { outer: ChatForks; fork: ChatFork | undefined; nested: ChatForks } {
+    const outer: ChatForks = {};
+    const nested: ChatForks = {};
+    for (const [key, fork] of Object.entries(forks)) {
+        const forkTurn = Number(key);
+        if (forkTurn < turn) {
+            outer[forkTurn] = fork;
+        } else if (forkTurn > turn) {
+            nested[forkTurn] = fork;
+        }
+    }
+    return { outer, fork: forks[turn], nested };
+}
+
+/**
+ * Replace the user message at `index` with `message`, dropping the messages after it. The
+ * replaced message and everything after it, including forks within it, become a branch that
+ * can be switched back to.
+ */
+export function forkConversation(
+    messages: readonly ChatMessage[],
+    forks: ChatForks,
+    index: number,
+    message: ChatMessage
+): { messages: ChatMessage[]; forks: ChatForks } {
+    if (messages[index]?.role !== 'user' || message.role !== 'user') {
+        throw new Error(`Message ${index} is not a user message`);
+    }
+    const turn = userTurnOf(messages, index);
+    const { outer, fork, nested } = splitForks(forks, turn);
+    const branches = [...(fork?.branches ?? [null])];
+    branches[fork?.active ?? 0] = { messages: messages.slice(index), forks: nested };
+    const updated: ChatFork = { branches: [...branches, null], active: branches.length };
+
+    return {
+        messages: [...messages.slice(0, index), withBranchInfo(message, updated)],
+        forks: { ...outer, [turn]: updated },
+    };
+}
+
+/**
+ * Show another branch at the user message at `index`. The shown branch is stored in its slot
+ * and the target branch, with its own forks, takes its place.
+ */
+export function switchBranch(
+    messages: readonly ChatMessage[],
+    forks: ChatForks,
+    index: number,
+    target: number
+): { messages: ChatMessage[]; forks: ChatForks } {
+    const turn = userTurnOf(messages, index);
+    const { outer, fork, nested } = splitForks(forks, turn);
+    const stored = fork?.branches[target];
+    if (fork === undefined || messages[index]?.role !== 'user' || !stored) {
+        return { messages: [...messages], forks };
+    }
+
+    const branches = [...fork.branches];
+    branches[fork.active] = { messages: messages.slice(index), forks: nested };
+    branches[target] = null;
+    const updated: ChatFork = { branches, active: target };
+    const [first, ...rest] = stored.messages;
+
+    return {
+        messages: [...messages.slice(0, index), withBranchInfo(first, updated), ...rest],
+        forks: { ...outer, [turn]: updated, ...stored.forks },
+    };
+}
+
+/**
+ * User message content with its text replaced. Images and files attached to it are kept.
+ */
+export function replaceUserText(content: UserContent, text: string): UserContent {
+    if (typeof content === 'string') {
+        return text;
+    }
+    return [{ type: 'text', text }, ...content.filter(part => part.type !== 'text')];
+}
@@ -0,0 +1,22 @@
+import * as os from 'os';
+import * as vscode from 'vscode';
+
+export const COMMENTS_SECTION = 'securedesign.comments';
+
+/**
+ * Name put on review comments written here: the `author` setting, else the OS user name
+ */
+export function readCommentAuthor(): string {
+    const configured = vscode.workspace
+        .getConfiguration(COMMENTS_SECTION)
+        .get<string>('author')
+        ?.trim();
+    if (configured !== undefined && configured.length > 0) {
+        return configured;
+    }
+    try {
+        return os.userInfo().username;
+    } catch {
+        return 'Anonymous';
+    }
+}
@@ -0,0 +1,567 @@
+import {
+    findElement,
+    findElements,
+    getAttribute,
+    parseHtml,
+    VOID_ELEMENTS,
+    type HtmlElement,
+    type HtmlNode,
+} from './htmlParser';
+
+export type ComponentFramework = 'react' | 'vue' | 'svelte';
+
+export interface GeneratedFile {
+    // Relative to the component's output folder
+    path: string;
+    content: string;
+}
+
+export interface GeneratedComponent {
+    files: GeneratedFile[];
+    // Things the user has to finish by hand, e.g. removed scripts or CDN dependencies
+    warnings: string[];
+}
+
+export interface ComponentGenerationOptions {
+    name: string;
+    framework: ComponentFramework;
+    // Contents of local stylesheets linked from the design, keyed by href
+    stylesheets?: Record<string, string>;
+}
+
+const INDENT = '  ';
+
+// Landmark elements that become sub-components when a page has two or more of them
+const SECTION_TAGS = new Set(['header', 'nav', 'main', 'section', 'footer', 'aside', 'article']);
+
+const SECTION_NAMES: Record<string, string> = {
+    header: 'Header',
+    nav: 'Navigation',
+    main: 'MainContent',
+    section: 'Section',
+    footer: 'Footer',
+    aside: 'Sidebar',
+    article: 'Article',
+    div: 'Block',
+};
+
+// HTML attribute names whose React prop differs by more than hyphen-to-camel case
+const JSX_ATTRIBUTE_NAMES: Record<string, string> = {
+    class: 'className',
+    for: 'htmlFor',
+    tabindex: 'tabIndex',
+    readonly: 'readOnly',
+    maxlength: 'maxLength',
+    minlength: 'minLength',
+    colspan: 'colSpan',
+    rowspan: 'rowSpan',
+    contenteditable: 'contentEditable',
+    crossorigin: 'crossOrigin',
+    autocomplete: 'autoComplete',
+    autofocus: 'autoFocus',
+    enctype: 'encType',
+    srcset: 'srcSet',
+    novalidate: 'noValidate',
+    frameborder: 'frameBorder',
+    allowfullscreen: 'allowFullScreen',
+    datetime: 'dateTime',
+    spellcheck: 'spellCheck',
+    cellpadding: 'cellPadding',
+    cellspacing: 'cellSpacing',
+    usemap: 'useMap',
+    charset: 'charSet',
+    referrerpolicy: 'referrerPolicy',
+    inputmode: 'inputMode',
+    playsinline: 'playsInline',
+};
+
+type Dialect = 'jsx' | 'vue' | 'svelte';
+
+const DIALECTS: Record<ComponentFramework, Dialect> = {
+    react: 'jsx',
+    vue: 'vue',
+    svelte: 'svelte',
+};
+
+const EXTENSIONS: Record<ComponentFramework, string> = {
+    react: 'tsx',
+    vue: 'vue',
+    svelte: 'svelte',
+};
+
+function toPascalCase(value: string): string {
+    return value
+        .split(/[^A-Za-z0-9]+/)
+        .filter(Boolean)
+        .map(part => part[0].toUpperCase() + part.slice(1))
+        .join('');
+}
+
+/**
+ * Component name for a design file, e.g. `login_screen_2.html` → `LoginScreen2`
+ */
+export function toComponentName(fileName: string): string {
+    const name = toPascalCase(fileName.replace(/\.[^.]+$/, ''));
+    return /^[A-Z]/.test(name) ? name : `Design${name}`;
+}
+
+function camelCase(name: string): string {
+    return name.replace(/[-:]([a-z])/g, (_, letter: string) => letter.toUpperCase());
+}
+
+function isWhitespace(node: HtmlNode): boolean {
+    return node.type === 'text' && node.text.trim() === '';
+}
+
+function isSectionCandidate(element: HtmlElement): boolean {
+    return (
+        SECTION_TAGS.has(element.tag) ||
+        (element.tag === 'div' && typeof getAttribute(element, 'id') === 'string')
+    );
+}
+
+/**
+ * Split :root custom properties out of the design's CSS. Returns the tokens and the CSS that
+ * is left once they are removed.
+ */
+export function extractThemeTokens(css: string): { tokens: Map<string, string>; css: string } {
+    const tokens = new Map<string, string>();
+    const remaining = css.replace(/:root\s*\{([^}]*)\}/g, (_block, body: string) => {
+        const kept: string[] = [];
+        for (const declaration of body.split(';')) {
+            const match = /^\s*(--[\w-]+)\s*:\s*([\s\S]+?)\s*$/.exec(declaration);
+            if (match) {
+                tokens.set(match[1], match[2]);
+            } else if (declaration.trim() !== '') {
+                kept.push(declaration.trim());
+            }
+        }
+        return kept.length > 0 ? `:root {\n${kept.map(d => `${INDENT}${d};`).join('\n')}\n}` : '';
+    });
+    return { tokens, css: remaining.replace(/\n{3,}/g, '\n\n').trim() };
+}
+
+/**
+ * Hrefs of stylesheets linked with relative paths, which the caller resolves and passes back
+ * in `stylesheets`
+ */
+export function getLocalStylesheetHrefs(html: string): string[] {
+    return findElements(parseHtml(html), 'link')
+        .filter(link => getAttribute(link, 'rel')?.toLowerCase() === 'stylesheet')
+        .map(link => getAttribute(link, 'href'))
+        .filter(
+            (href): href is string => typeof href === 'string' && !/^(https?:)?\/\//.test(href)
+        );
+}
+
+class MarkupWriter {
+    readonly warnings = new Set<string>();
+
+    constructor(
+        private readonly dialect: Dialect,
+        private readonly replacements: Map<HtmlElement, string>
+    ) {}
+
+    renderNodes(nodes: HtmlNode[], depth: number): string[] {
+        const lines: string[] = [];
+        for (const node of nodes) {
+            if (node.type === 'text') {
+                const text = node.text.replace(/\s+/g, ' ').trim();
+                if (text !== '') {
+                    lines.push(INDENT.repeat(depth) + this.escapeText(text));
+                }
+            } else if (node.type === 'comment') {
+                lines.push(INDENT.repeat(depth) + this.renderComment(node.text));
+            } else {
+                lines.push(...this.renderElement(node, depth));
+            }
+        }
+        return lines;
+    }
+
+    private renderElement(element: HtmlElement, depth: number): string[] {
+        const pad = INDENT.repeat(depth);
+        const replacement = this.replacements.get(element);
+        if (replacement !== undefined) {
+            return [`${pad}<${replacement} />`];
+        }
+
+        const open = `<${element.tag}${this.renderAttributes(element)}`;
+        if (VOID_ELEMENTS.has(element.tag)) {
+            return [`${pad}${open} />`];
+        }
+        const children = element.children.filter(child => !isWhitespace(child));
+        if (children.length === 0) {
+            return [`${pad}${open}></${element.tag}>`];
+        }
+
+        if (element.tag === 'pre' || element.tag === 'textarea') {
+            return [`${pad}${open}>${this.renderPreformatted(element)}</${element.tag}>`];
+        }
+
+        // Elements with text content keep their children on one line so the spacing between
+        // words and inline elements survives
+        if (element.children.some(child => child.type === 'text' && !isWhitespace(child))) {
+            return [`${pad}${open}>${this.renderInline(element.children)}</${element.tag}>`];
+        }
+
+        return [
+            `${pad}${open}>`,
+            ...this.renderNodes(element.children, depth + 1),
+            `${pad}</${element.tag}>`,
+        ];
+    }
+
+    private renderInline(nodes: HtmlNode[]): string {
+        const parts = nodes.map(node => {
+            if (node.type === 'text') {
+                return this.escapeText(node.text.replace(/\s+/g, ' '));
+            }
+            if (node.type === 'comment') {
+                return this.renderComment(node.text);
+            }
+            const replacement = this.replacements.get(node);
+            if (replacement !== undefined) {
+                return `<${replacement} />`;
+            }
+            const open = `<${node.tag}${this.renderAttributes(node)}`;
+            return VOID_ELEMENTS.has(node.tag)
+                ? `${open} />`
+                : `${open}>${this.renderInline(node.children)}</${node.tag}>`;
+        });
+        return parts.join('').trim();
+    }
+
+    private renderPreformatted(element: HtmlElement): string {
+        const text = element.children
+            .map(child => (child.type === 'text' ? child.text : ''))
+            .join('');
+        if (element.children.some(child => child.type !== 'text')) {
+            this.warnings.add(`Markup inside <${element.tag}> was flattened to text`);
+        }
+        return this.dialect === 'jsx' ? `{${JSON.stringify(text)}}` : this.escapeText(text);
+    }
+
+    private renderComment(text: string): string {
+        const body = text.trim();
+        return this.dialect === 'jsx'
+            ? `{/* ${body.replace(/\*\//g, '* /')} */}`
+            : `<!-- ${body} -->`;
+    }
+
+    private escapeText(text: string): string {
+        switch (this.dialect) {
+            case 'jsx':
+                return text.replace(/[{}]/g, brace => `{'${brace}'}`);
+            case 'svelte':
+                return text.replace(/\{/g, '&#123;').replace(/\}/g, '&#125;');
+            case 'vue':
+                return text.replace(/\{\{/g, '&#123;&#123;');
+        }
+    }
+
+    private renderAttributes(element: HtmlElement): string {
+        const rendered: string[] = [];
+        for (const [name, value] of element.attrs) {
+            if (/^on/i.test(name)) {
+                this.warnings.add(
+                    'Inline event handlers (onclick, …) were removed; wire up behaviour in the component'
+                );
+                continue;
+            }
+            rendered.push(
+                this.dialect === 'jsx'
+                    ? this.renderJsxAttribute(element, name, value)
+                    : this.renderTemplateAttribute(name, value)
+            );
+        }
+        return rendered.map(attribute => ` ${attribute}`).join('');
+    }
+
+    private renderTemplateAttribute(name: string, value: string | null): string {
+        if (value === null) {
+            return name;
+        }
+        const escaped = this.dialect === 'svelte' ? value.replace(/\{/g, '&#123;') : value;
+        return escaped.includes('"') ? `${name}='${escaped}'` : `${name}="${escaped}"`;
+    }
+
+    private renderJsxAttribute(element: HtmlElement, name: string, value: string | null): string {
+        const lower = name.toLowerCase();
+        let prop: string;
+        if (lower.startsWith('data-') || lower.startsWith('aria-')) {
+            prop = lower;
+        } else if (lower in JSX_ATTRIBUTE_NAMES) {
+            prop = JSX_ATTRIBUTE_NAMES[lower];
+        } else {
+            prop = camelCase(name);
+        }
+        // Initial values on form controls would otherwise make them read-only in React
+        if (element.tag === 'input' || element.tag === 'textarea' || element.tag === 'select') {
+            if (prop === 'value') {
+                prop = 'defaultValue';
+            } else if (prop === 'checked') {
+                prop = 'defaultChecked';
+            }
+        }
+
+        if (value === null) {
+            return prop;
+        }
+        if (prop === 'style') {
+            return `style={${this.renderStyleObject(value)}}`;
+        }
+        return value.includes('"') ? `${prop}={${JSON.stringify(value)}}` : `${prop}="${value}"`;
+    }
+
+    private renderStyleObject(style: string): string {
+        const entries = style
+            .split(';')
+            .map(declaration => {
+                const colon = declaration.indexOf(':');
+                if (colon === -1) {
+                    return undefined;
+                }
+                const property = declaration.slice(0, colon).trim();
+                const value = declaration.slice(colon + 1).trim();
+                if (property === '' || value === '') {
+                    return undefined;
+                }
+                const key = property.startsWith('--')
+                    ? JSON.stringify(property)
+                    : property
+                          .toLowerCase()
+                          .replace(/-([a-z])/g, (_, c: string) => c.toUpperCase());
+                return `${key}: ${JSON.stringify(value)}`;
+            })
+            .filter((entry): entry is string => entry !== undefined);
+        return `{ ${entries.join(', ')} }`;
+    }
+}
+
+interface ComponentPlan {
+    name: string;
+    nodes: HtmlNode[];
+}
+
+/**
+ * Find the landmark sections to split out. Single wrapper elements (e.g. a page container
+ * div) are looked through; splitting only happens when there are at least two sections.
+ */
+function planSubComponents(content: HtmlNode[], rootName: string): Map<HtmlElement, string> {
+    let nodes = content;
+    for (;;) {
+        const meaningful = nodes.filter(node => !isWhitespace(node) && node.type !== 'comment');
+        const only = meaningful.length === 1 ? meaningful[0] : undefined;
+        if (only?.type === 'element' && !isSectionCandidate(only)) {
+            nodes = only.children;
+        } else {
+            break;
+        }
+    }
+
+    const sections = nodes.filter(
+        (node): node is HtmlElement => node.type === 'element' && isSectionCandidate(node)
+    );
+    const replacements = new Map<HtmlElement, string>();
+    if (sections.length < 2) {
+        return replacements;
+    }
+
+    const used = new Set([rootName]);
+    for (const section of sections) {
+        const id = getAttribute(section, 'id');
+        const label = getAttribute(section, 'aria-label');
+        const base =
+            (typeof id === 'string' && toPascalCase(id)) ||
+            (typeof label === 'string' && toPascalCase(label)) ||
+            SECTION_NAMES[section.tag];
+        const safeBase = /^[A-Z]/.test(base) ? base : `Section${base}`;
+        let name = safeBase;
+        for (let suffix = 2; used.has(name); suffix++) {
+            name = `${safeBase}${suffix}`;
+        }
+        used.add(name);
+        replacements.set(section, name);
+    }
+    return replacements;
+}
+
+function collectAssets(
+    nodes: HtmlNode[],
+    stylesheets: Record<string, string>,
+    warnings: Set<string>
+): string[] {
+    const css: string[] = [];
+    for (const style of findElements(nodes, 'style')) {
+        css.push(style.children.map(child => (child.type === 'text' ? child.text : '')).join(''));
+    }
+
+    for (const link of findElements(nodes, 'link')) {
+        const href = getAttribute(link, 'href');
+        if (getAttribute(link, 'rel')?.toLowerCase() !== 'stylesheet' || typeof href !== 'string') {
+            continue;
+        }
+        if (href in stylesheets) {
+            css.push(stylesheets[href]);
+        } else if (href.includes('flowbite')) {
+            warnings.add('The design uses Flowbite; install flowbite and include its stylesheet');
+        } else {
+            warnings.add(`Add this stylesheet to your app: ${href}`);
+        }
+    }
+
+    for (const script of findElements(nodes, 'script')) {
+        const src = getAttribute(script, 'src');
+        if (typeof src !== 'string') {
+            warnings.add('Inline scripts were removed; port their behaviour into the component');
+        } else if (src.includes('tailwindcss')) {
+            warnings.add(
+                'The design loads Tailwind CSS from a CDN; make sure Tailwind is configured in the target project'
+            );
+        } else if (src.includes('flowbite')) {
+            warnings.add('The design uses Flowbite; install flowbite and import its JavaScript');
+        } else {
+            warnings.add(`Removed script ${src}; add the dependency to your project if needed`);
+        }
+    }
+    return css;
+}
+
+const NON_VISUAL_TAGS = new Set(['script', 'style', 'link', 'meta', 'title', 'noscript', 'base']);
+
+function stripNonVisual(nodes: HtmlNode[]): HtmlNode[] {
+    return nodes
+        .filter(node => node.type !== 'element' || !NON_VISUAL_TAGS.has(node.tag))
+        .map(node =>
+            node.type === 'element' ? { ...node, children: stripNonVisual(node.children) } : node
+        );
+}
+
+function importLine(framework: ComponentFramework, name: string): string {
+    switch (framework) {
+        case 'react':
+            return `import ${name} from './components/${name}';`;
+        case 'vue':
+            return `import ${name} from './components/${name}.vue';`;
+        case 'svelte':
+            return `import ${name} from './components/${name}.svelte';`;
+    }
+}
+
+function renderComponent(
+    framework: ComponentFramework,
+    plan: ComponentPlan,
+    writer: MarkupWriter,
+    imports: string[]
+): string {
+    switch (framework) {
+        case 'react': {
+            const roots = plan.nodes.filter(node => !isWhitespace(node));
+            const useFragment = roots.length !== 1 || roots[0].type !== 'element';
+            const body = writer.renderNodes(plan.nodes, useFragment ? 3 : 2);
+            const markup = useFragment
+                ? [`${INDENT.repeat(2)}<>`, ...body, `${INDENT.repeat(2)}</>`]
+                : body;
+            return [
+                ...imports,
+                ...(imports.length > 0 ? [''] : []),
+                `export default function ${plan.name}() {`,
+                `${INDENT}return (`,
+                ...markup,
+                `${INDENT});`,
+                '}',
+                '',
+            ].join('\n');
+        }
+        case 'vue': {
+            const script =
+                imports.length > 0 ? ['<script setup lang="ts">', ...imports, '</script>', ''] : [];
+            return [
+                ...script,
+                '<template>',
+                ...writer.renderNodes(plan.nodes, 1),
+                '</template>',
+                '',
+            ].join('\n');
+        }
+        case 'svelte': {
+            const script =
+                imports.length > 0
+                    ? ['<script lang="ts">', ...imports.map(line => INDENT + line), '</script>', '']
+                    : [];
+            return [...script, ...writer.renderNodes(plan.nodes, 0), ''].join('\n');
+        }
+    }
+}
+
+/**
+ * Convert a design's HTML into a framework component, its sub-components and theme tokens.
+ * The conversion is purely structural: markup and classes are kept as they are, scripts are
+ * dropped and reported in `warnings`.
+ */
+export function generateComponent(
+    html: string,
+    options: ComponentGenerationOptions
+): GeneratedComponent {
+    const { name, framework } = options;
+    const document = parseHtml(html);
+    const warnings = new Set<string>();
+    const css = collectAssets(document, options.stylesheets ?? {}, warnings);
+
+    const body = findElement(document, 'body');
+    let content = stripNonVisual(body ? body.children : document);
+    // Keep the page background and typography set on <body>
+    if (body && body.attrs.length > 0) {
+        content = [{ type: 'element', tag: 'div', attrs: body.attrs, children: content }];
+    }
+
+    const replacements = planSubComponents(content, name);
+    const writer = new MarkupWriter(DIALECTS[framework], replacements);
+    const extension = EXTENSIONS[framework];
+    const files: GeneratedFile[] = [];
+
+    for (const [section, sectionName] of replacements) {
+        // Render the section itself, not its placeholder
+        const sectionWriter = new MarkupWriter(DIALECTS[framework], new Map());
+        files.push({
+            path: `components/${sectionName}.${extension}`,
+            content: renderComponent(
+                framework,
+                { name: sectionName, nodes: [section] },
+                sectionWriter,
+                []
+            ),
+        });
+        sectionWriter.warnings.forEach(warning => warnings.add(warning));
+    }
+
+    const { tokens, css: componentCss } = extractThemeTokens(css.join('\n\n'));
+    const styleImports: string[] = [];
+    if (tokens.size > 0) {
+        files.push({
+            path: 'tokens.css',
+            content: `:root {\n${Array.from(tokens, ([token, value]) => `${INDENT}${token}: ${value};`).join('\n')}\n}\n`,
+        });
+        styleImports.push(`import './tokens.css';`);
+    }
+    if (componentCss !== '') {
+        files.push({ path: `${name}.css`, content: `${componentCss}\n` });
+        if (framework !== 'vue') {
+            styleImports.push(`import './${name}.css';`);
+        }
+    }
+
+    const imports = [
+        ...Array.from(replacements.values(), sectionName => importLine(framework, sectionName)),
+        ...styleImports,
+    ];
+    let root = renderComponent(framework, { name, nodes: content }, writer, imports);
+    if (framework === 'vue' && componentCss !== '') {
+        root += `\n<style src="./${name}.css"></style>\n`;
+    }
+    files.unshift({ path: `${name}.${extension}`, content: root });
+    writer.warnings.forEach(warning => warnings.add(warning));
+
+    return { files, warnings: Array.from(warnings) };
+}
@@ -0,0 +1,261 @@
+import type { ChatMessage } from '../types/chatMessage';
+import { findModelEntry } from './usageCost';
+
+/**
+ * Context window sizes in tokens, keyed by ModelConfig id like the price table
+ */
+export const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+    claude: 200_000,
+    'gpt-5': 400_000,
+    'gpt-4.1': 1_047_576,
+    'gpt-4o': 128_000,
+    o3: 200_000,
+    'o4-mini': 200_000,
+    'gemini-2.5': 1_048_576,
+    'kimi-k2': 131_072,
+};
+
+// Used for models that aren't in the table and have no configured size
+export const DEFAULT_CONTEXT_WINDOW = 128_000;
+
+// Rough size of an image or file attachment once the provider has encoded it
+const ATTACHMENT_TOKENS = 1600;
+
+// Tool payloads larger than this in older turns are replaced by a short reference
+export const ELIDE_THRESHOLD_CHARS = 2000;
+
+// Recent turns kept verbatim when older ones are summarised, as a share of the window
+const KEEP_RECENT_RATIO = 0.4;
+
+const SUMMARY_TRANSCRIPT_PART_CHARS = 600;
+
+export function resolveContextWindow(modelId: string, configured = 0): number {
+    if (configured > 0) {
+        return configured;
+    }
+    return findModelEntry(MODEL_CONTEXT_WINDOWS, modelId) ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Estimate tokens at roughly four characters each. Attachments are counted at a fixed size
+ * because their base64 data says little about what the provider charges for them.
+ */
+export function estimateTokens(value: unknown): number {
+    if (typeof value === 'string') {
+        return Math.ceil(value.length / 4);
+    }
+    if (Array.isArray(value)) {
+        return value.reduce<number>((total, item) => total + estimateTokens(item), 0);
+    }
+    if (value !== null && typeof value === 'object') {
+        if ('type' in value && (value.type === 'image' || value.type === 'file')) {
+            return ATTACHMENT_TOKENS;
+        }
+        return Math.ceil((JSON.stringify(value)?.length ?? 0) / 4);
+    }
+    return 0;
+}
+
+export function estimateMessagesTokens(messages: readonly ChatMessage[]): number {
+    // A few tokens of framing per message on top of its content
+    return messages.reduce((total, message) => total + 4 + estimateTokens(message.content), 0);
+}
+
+export function isSummaryMessage(message: ChatMessage): boolean {
+    return message.role === 'system' && message.metadata?.is_summary === true;
+}
+
+/**
+ * Split the history at the most recent summary: the model sees the summary text in its system
+ * prompt and only the messages after it.
+ */
+export function splitAtSummary(messages: readonly ChatMessage[]): {
+    summary: string | undefined;
+    summaryIndex: number;
+    messages: ChatMessage[];
+} {
+    for (let i = messages.length - 1; i >= 0; i--) {
+        const message = messages[i];
+        if (isSummaryMessage(message) && typeof message.content === 'string') {
+            return { summary: message.content, summaryIndex: i, messages: messages.slice(i + 1) };
+        }
+    }
+    return { summary: undefined, summaryIndex: -1, messages: [...messages] };
+}
+
+function lastUserIndex(messages: readonly ChatMessage[]): number {
+    for (let i = messages.length - 1; i >= 0; i--) {
+        if (messages[i].role === 'user') {
+            return i;
+        }
+    }
+    return 0;
+}
+
+function elideString(value: string): string {
+    return value.length > ELIDE_THRESHOLD_CHARS
+        ? `[${value.length} characters elided from context]`
+        : value;
+}
+
+function elideInput(input: unknown): unknown {
+    if (input === null || typeof input !== 'object' || Array.isArray(input)) {
+        return input;
+    }
+    return Object.fromEntries(
+        Object.entries(input).map(([key, value]) => [
+            key,
+            typeof value === 'string' ? elideString(value) : value,
+        ])
+    );
+}
+
+function referencedPath(input: unknown): string | undefined {
+    if (input === null || typeof input !== 'object') {
+        return undefined;
+    }
+    const record = input as Record<string, unknown>;
+    const candidate = record.file_path ?? record.path ?? record.cssFilePath;
+    return typeof candidate === 'string' ? candidate : undefined;
+}
+
+/**
+ * Replace large tool inputs and outputs in turns before the latest user message with short
+ * references, so full HTML files written or read earlier don't ride along on every request.
+ * The current turn is left intact because the model is still working with it.
+ */
+export function elideToolPayloads(messages: readonly ChatMessage[]): ChatMessage[] {
+    const cutoff = lastUserIndex(messages);
+    const paths = new Map<string, string>();
+    for (const message of messages) {
+        if (message.role === 'assistant' && Array.isArray(message.content)) {
+            for (const part of message.content) {
+                const filePath = part.type === 'tool-call' ? referencedPath(part.input) : undefined;
+                if (part.type === 'tool-call' && filePath !== undefined) {
+                    paths.set(part.toolCallId, filePath);
+                }
+            }
+        }
+    }
+
+    return messages.map((message, index): ChatMessage => {
+        if (index >= cutoff) {
+            return message;
+        }
+        if (message.role === 'assistant' && Array.isArray(message.content)) {
+            return {
+                ...message,
+                content: message.content.map(part =>
+                    part.type === 'tool-call' ? { ...part, input: elideInput(part.input) } : part
+                ),
+            };
+        }
+        if (message.role === 'tool') {
+            return {
+                ...message,
+                content: message.content.map(part => {
+                    const size = JSON.stringify(part.output.value)?.length ?? 0;
+                    if (size <= ELIDE_THRESHOLD_CHARS) {
+                        return part;
+                    }
+                    const filePath = paths.get(part.toolCallId);
+                    const reference =
+                        filePath !== undefined ? `; read ${filePath} again if it is needed` : '';
+                    return {
+                        ...part,
+                        output: {
+                            type: 'text' as const,
+                            value: `[${part.toolName} output of ${size} characters elided from context${reference}]`,
+                        },
+                    };
+                }),
+            };
+        }
+        return message;
+    });
+}
+
+/**
+ * Choose where to cut the history so the kept tail fits in the recent-turn budget. Cuts only
+ * land on user messages, so tool calls are never separated from their results, and the
+ * latest turn is always kept. Returns 0 when nothing can be summarised.
+ */
+export function findCompactionSplit(
+    messages: readonly ChatMessage[],
+    contextWindow: number
+): number {
+    const budget = contextWindow * KEEP_RECENT_RATIO;
+    const latest = lastUserIndex(messages);
+    let split = latest;
+    for (let i = latest - 1; i > 0; i--) {
+        if (messages[i].role !== 'user') {
+            continue;
+        }
+        if (estimateMessagesTokens(messages.slice(i)) > budget) {
+            break;
+        }
+        split = i;
+    }
+    return split;
+}
+
+function describePart(part: unknown): string {
+    if (part === null || typeof part !== 'object' || !('type' in part)) {
+        return '';
+    }
+    const record = part as Record<string, unknown>;
+    switch (record.type) {
+        case 'text':
+        case 'reasoning':
+            return typeof record.text === 'string' ? record.text : '';
+        case 'tool-call':
+            return `[called ${String(record.toolName)} ${JSON.stringify(elideInput(record.input))}]`;
+        case 'tool-result':
+            return `[${String(record.toolName)} result: ${JSON.stringify((record.output as { value?: unknown } | undefined)?.value)}]`;
+        default:
+            return `[${String(record.type)}]`;
+    }
+}
+
+/**
+ * Plain-text transcript of the messages for the summariser, with long parts truncated
+ */
+export function renderTranscript(messages: readonly ChatMessage[]): string {
+    return messages
+        .map(message => {
+            const parts =
+                typeof message.content === 'string'
+                    ? [message.content]
+                    : message.content.map(describePart);
+            const text = parts
+                .filter(part => part.length > 0)
+                .map(part =>
+                    part.length > SUMMARY_TRANSCRIPT_PART_CHARS
+                        ? `${part.slice(0, SUMMARY_TRANSCRIPT_PART_CHARS)}…`
+                        : part
+                )
+                .join('\n');
+            return `${message.role.toUpperCase()}: ${text}`;
+        })
+        .join('\n\n');
+}
+
+export const SUMMARY_SYSTEM_PROMPT = `You compress design conversations between a user and a design agent so the agent can continue without the full history.
+Write a concise summary that keeps:
+- what the user asked for and every decision or preference they stated (layout, theme, fonts, colours, animations)
+- which steps of the design workflow are done and which are pending
+- the files created or edited, with their paths and what each contains
+- open questions and the user's latest feedback
+Leave out pleasantries, tool output details and full file contents. Reply with the summary only.`;
+
+export function createSummaryMessage(summary: string, summarizedMessages: number): ChatMessage {
+    return {
+        role: 'system',
+        content: summary,
+        metadata: {
+            is_summary: true,
+            summarized_messages: summarizedMessages,
+            timestamp: Date.now(),
+        },
+    };
+}
@@ -0,0 +1,17 @@
+import * as vscode from 'vscode';
+
+const CONTEXT_SECTION = 'securedesign.context';
+
+export interface ContextSettings {
+    // 0 uses the selected model's known context window
+    maxTokens: number;
+    compactAtPercent: number;
+}
+
+export function readContextSettings(): ContextSettings {
+    const config = vscode.workspace.getConfiguration(CONTEXT_SECTION);
+    return {
+        maxTokens: config.get<number>('maxTokens') ?? 0,
+        compactAtPercent: Math.min(100, Math.max(10, config.get<number>('compactAtPercent') ?? 80)),
+    };
+}
@@ -0,0 +1,193 @@
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type {
+    DesignComment,
+    DesignCommentAction,
+    DesignCommentThread,
+} from '../types/designComments';
+import { getDesignHistoryKey } from './designHistory';
+
+// Folder under .superdesign with one comments file per design, meant to be committed
+export const COMMENTS_DIR = 'comments';
+
+interface CommentContext {
+    author: string;
+    now: Date;
+    newId: () => string;
+}
+
+export function getCommentsPath(workingDirectory: string, key: string): string {
+    return path.join(workingDirectory, COMMENTS_DIR, `${encodeURIComponent(key)}.json`);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isComment(value: unknown): value is DesignComment {
+    return (
+        isRecord(value) &&
+        typeof value.id === 'string' &&
+        typeof value.author === 'string' &&
+        typeof value.body === 'string' &&
+        typeof value.createdAt === 'string'
+    );
+}
+
+function isThread(value: unknown): value is DesignCommentThread {
+    if (!isRecord(value) || typeof value.id !== 'string' || !isRecord(value.anchor)) {
+        return false;
+    }
+    const { selector, x, y } = value.anchor;
+    return (
+        typeof selector === 'string' &&
+        typeof x === 'number' &&
+        typeof y === 'number' &&
+        Array.isArray(value.comments) &&
+        value.comments.length > 0 &&
+        value.comments.every(isComment) &&
+        typeof value.resolved === 'boolean'
+    );
+}
+
+/**
+ * Read a comments file. Threads that don't have the expected shape, e.g. after a bad merge,
+ * are skipped rather than failing the whole file.
+ */
+export function parseDesignComments(text: string): DesignCommentThread[] {
+    try {
+        const parsed: unknown = JSON.parse(text);
+        if (!isRecord(parsed) || parsed.version !== 1 || !Array.isArray(parsed.threads)) {
+            return [];
+        }
+        return parsed.threads.filter(isThread);
+    } catch {
+        return [];
+    }
+}
+
+export function serializeDesignComments(design: string, threads: DesignCommentThread[]): string {
+    return `${JSON.stringify({ version: 1, design, threads }, null, 2)}\n`;
+}
+
+function updateThread(
+    threads: DesignCommentThread[],
+    threadId: string,
+    update: (thread: DesignCommentThread) => DesignCommentThread
+): DesignCommentThread[] {
+    if (!threads.some(thread => thread.id === threadId)) {
+        throw new Error(`Comment thread not found: ${threadId}`);
+    }
+    return threads.map(thread => (thread.id === threadId ? update(thread) : thread));
+}
+
+export function applyCommentAction(
+    threads: DesignCommentThread[],
+    action: DesignCommentAction,
+    { author, now, newId }: CommentContext
+): DesignCommentThread[] {
+    const comment = (body: string): DesignComment => {
+        const text = body.trim();
+        if (text.length === 0) {
+            throw new Error('Comment is empty');
+        }
+        return { id: newId(), author, body: text, createdAt: now.toISOString() };
+    };
+
+    switch (action.type) {
+        case 'add':
+            return [
+                ...threads,
+                {
+                    id: newId(),
+                    anchor: action.anchor,
+                    comments: [comment(action.body)],
+                    resolved: false,
+                },
+            ];
+        case 'reply':
+            return updateThread(threads, action.threadId, thread => ({
+                ...thread,
+                comments: [...thread.comments, comment(action.body)],
+            }));
+        case 'resolve':
+            return updateThread(threads, action.threadId, thread => ({
+                ...thread,
+                resolved: action.resolved,
+            }));
+        case 'delete':
+            return updateThread(threads, action.threadId, thread => thread).filter(
+                thread => thread.id !== action.threadId
+            );
+    }
+}
+
+/**
+ * Comment threads on a design file, or none for files outside design_iterations
+ */
+export function readDesignComments(
+    workingDirectory: string,
+    absolutePath: string
+): DesignCommentThread[] {
+    const key = getDesignHistoryKey(workingDirectory, absolutePath);
+    if (key === undefined) {
+        return [];
+    }
+    try {
+        return parseDesignComments(fs.readFileSync(getCommentsPath(workingDirectory, key), 'utf8'));
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Apply an action to a design's comments and save them. The file is removed once the last
+ * thread is deleted.
+ */
+export function updateDesignComments(
+    workingDirectory: string,
+    absolutePath: string,
+    action: DesignCommentAction,
+    author: string
+): DesignCommentThread[] {
+    const key = getDesignHistoryKey(workingDirectory, absolutePath);
+    if (key === undefined) {
+        throw new Error(`Comments are only kept for designs in design_iterations: ${absolutePath}`);
+    }
+    const threads = applyCommentAction(readDesignComments(workingDirectory, absolutePath), action, {
+        author,
+        now: new Date(),
+        newId: randomUUID,
+    });
+
+    const commentsPath = getCommentsPath(workingDirectory, key);
+    if (threads.length === 0) {
+        fs.rmSync(commentsPath, { force: true });
+    } else {
+        fs.mkdirSync(path.dirname(commentsPath), { recursive: true });
+        fs.writeFileSync(commentsPath, serializeDesignComments(key, threads), 'utf8');
+    }
+    return threads;
+}
+
+/**
+ * Chat prompt asking the agent to address the open threads, or undefined when none are open
+ */
+export function formatRevisionRequest(threads: DesignCommentThread[]): string | undefined {
+    const open = threads.filter(thread => !thread.resolved);
+    if (open.length === 0) {
+        return undefined;
+    }
+    const lines = ['Please revise this design to address these review comments:'];
+    open.forEach((thread, index) => {
+        const [first, ...replies] = thread.comments;
+        lines.push(
+            `${index + 1}. On \`${thread.anchor.selector}\`: ${first.body} (${first.author})`
+        );
+        for (const reply of replies) {
+            lines.push(`   - ${reply.author}: ${reply.body}`);
+        }
+    });
+    return lines.join('\n');
+}
@@ -0,0 +1,140 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { DesignExportItem } from '../types/designExport';
+
+export const EXPORTS_DIR = 'exports';
+
+// CSS pixels are 1/96 inch, PDF points 1/72 inch
+const POINTS_PER_PIXEL = 0.75;
+
+/**
+ * Wrap a JPEG in a single-page PDF sized to the rendered viewport. The image is embedded
+ * as-is with DCTDecode, so no image codec is needed here.
+ */
+export function buildImagePdf(
+    jpeg: Buffer,
+    imageWidth: number,
+    imageHeight: number,
+    pageWidthPx: number,
+    pageHeightPx: number
+): Buffer {
+    const pageWidth = (pageWidthPx * POINTS_PER_PIXEL).toFixed(2);
+    const pageHeight = (pageHeightPx * POINTS_PER_PIXEL).toFixed(2);
+    const contents = `q ${pageWidth} 0 0 ${pageHeight} 0 0 cm /Im0 Do Q`;
+
+    const objects: Buffer[] = [
+        Buffer.from('<< /Type /Catalog /Pages 2 0 R >>'),
+        Buffer.from('<< /Type /Pages /Kids [3 0 R] /Count 1 >>'),
+        Buffer.from(
+            `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] ` +
+                '/Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>'
+        ),
+        Buffer.concat([
+            Buffer.from(
+                `<< /Type /XObject /Subtype /Image /Width ${imageWidth} /Height ${imageHeight} ` +
+                    `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`
+            ),
+            jpeg,
+            Buffer.from('\nendstream'),
+        ]),
+        Buffer.from(`<< /Length ${contents.length} >>\nstream\n${contents}\nendstream`),
+    ];
+
+    const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n', 'latin1')];
+    let offset = chunks[0].length;
+    const offsets: number[] = [];
+    objects.forEach((body, index) => {
+        offsets.push(offset);
+        const chunk = Buffer.concat([
+            Buffer.from(`${index + 1} 0 obj\n`),
+            body,
+            Buffer.from('\nendobj\n'),
+        ]);
+        chunks.push(chunk);
+        offset += chunk.length;
+    });
+
+    const xref = [
+        'xref',
+        `0 ${objects.length + 1}`,
+        '0000000000 65535 f ',
+        ...offsets.map(value => `${String(value).padStart(10, '0')} 00000 n `),
+        'trailer',
+        `<< /Size ${objects.length + 1} /Root 1 0 R >>`,
+        'startxref',
+        String(offset),
+        '%%EOF',
+    ].join('\n');
+    chunks.push(Buffer.from(`${xref}\n`));
+    return Buffer.concat(chunks);
+}
+
+/**
+ * Read the pixel size from a baseline or progressive JPEG's start-of-frame marker
+ */
+export function readJpegSize(jpeg: Buffer): { width: number; height: number } | undefined {
+    let offset = 2;
+    while (offset + 9 < jpeg.length) {
+        if (jpeg[offset] !== 0xff) {
+            return undefined;
+        }
+        const marker = jpeg[offset + 1];
+        const length = jpeg.readUInt16BE(offset + 2);
+        if (marker >= 0xc0 && marker <= 0xc3) {
+            return { height: jpeg.readUInt16BE(offset + 5), width: jpeg.readUInt16BE(offset + 7) };
+        }
+        offset += 2 + length;
+    }
+    return undefined;
+}
+
+/**
+ * Output file name such as `ui_1-mobile-20250101-120000.png`
+ */
+export function getExportFileName(item: DesignExportItem, timestamp: Date): string {
+    const base = path.parse(item.designName).name.replace(/[^A-Za-z0-9_.-]/g, '_');
+    const stamp = timestamp
+        .toISOString()
+        .replace(/[-:]/g, '')
+        .replace('T', '-')
+        .replace(/\..*$/, '');
+    return `${base}-${item.viewport}-${stamp}.${item.format}`;
+}
+
+/**
+ * Write rendered designs to `<workingDirectory>/exports` and return the created file paths
+ */
+export async function writeDesignExports(
+    workingDirectory: string,
+    items: DesignExportItem[],
+    timestamp: Date = new Date()
+): Promise<string[]> {
+    const exportsDir = path.join(workingDirectory, EXPORTS_DIR);
+    await fs.promises.mkdir(exportsDir, { recursive: true });
+
+    const written: string[] = [];
+    for (const item of items) {
+        let content: Buffer;
+        switch (item.format) {
+            case 'svg':
+                content = Buffer.from(item.data, 'utf8');
+                break;
+            case 'png':
+                content = Buffer.from(item.data, 'base64');
+                break;
+            case 'pdf': {
+                const jpeg = Buffer.from(item.data, 'base64');
+                const size = readJpegSize(jpeg);
+                if (size === undefined) {
+                    throw new Error(`Rendered image for ${item.designName} is not a JPEG`);
+                }
+                content = buildImagePdf(jpeg, size.width, size.height, item.width, item.height);
+                break;
+            }
+        }
+        const filePath = path.join(exportsDir, getExportFileName(item, timestamp));
+        await fs.promises.writeFile(filePath, content);
+        written.push(filePath);
+    }
+    return written;
+}
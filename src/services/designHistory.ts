@@ -0,0 +1,153 @@
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { DesignVersion, DesignVersionSource } from '../types/designHistory';
+
+export const DESIGN_ITERATIONS_DIR = 'design_iterations';
+const HISTORY_DIR = 'history';
+const MANIFEST_FILE = 'versions.json';
+export const MAX_VERSIONS_PER_FILE = 50;
+
+const VERSION_ID_PATTERN = /^[A-Za-z0-9-]+$/;
+
+/**
+ * Key a design file by its path inside design_iterations. Returns undefined for files
+ * elsewhere, which are not versioned.
+ */
+export function getDesignHistoryKey(
+    workingDirectory: string,
+    absolutePath: string
+): string | undefined {
+    const relative = path.relative(
+        path.join(workingDirectory, DESIGN_ITERATIONS_DIR),
+        path.resolve(absolutePath)
+    );
+    if (relative === '' || relative.startsWith('..') || path.isAbsolute(relative)) {
+        return undefined;
+    }
+    return relative.split(path.sep).join('/');
+}
+
+function getHistoryDir(workingDirectory: string, key: string): string {
+    return path.join(workingDirectory, HISTORY_DIR, encodeURIComponent(key));
+}
+
+function readManifest(historyDir: string): DesignVersion[] {
+    try {
+        const parsed: unknown = JSON.parse(
+            fs.readFileSync(path.join(historyDir, MANIFEST_FILE), 'utf8')
+        );
+        return Array.isArray(parsed) ? (parsed as DesignVersion[]) : [];
+    } catch {
+        return [];
+    }
+}
+
+function writeManifest(historyDir: string, versions: DesignVersion[]): void {
+    fs.writeFileSync(
+        path.join(historyDir, MANIFEST_FILE),
+        JSON.stringify(versions, null, 2),
+        'utf8'
+    );
+}
+
+function getSnapshotPath(historyDir: string, versionId: string): string {
+    if (!VERSION_ID_PATTERN.test(versionId)) {
+        throw new Error(`Invalid design version id: ${versionId}`);
+    }
+    return path.join(historyDir, `${versionId}.snapshot`);
+}
+
+/**
+ * Copy the current content of a design file into its history before it is overwritten.
+ * Does nothing for new files, files outside design_iterations, or content identical to
+ * the latest snapshot.
+ */
+export function snapshotDesignVersion(
+    workingDirectory: string,
+    absolutePath: string,
+    source: DesignVersionSource,
+    sessionId?: string
+): DesignVersion | undefined {
+    const key = getDesignHistoryKey(workingDirectory, absolutePath);
+    if (key === undefined || !fs.existsSync(absolutePath)) {
+        return undefined;
+    }
+
+    const content = fs.readFileSync(absolutePath, 'utf8');
+    const historyDir = getHistoryDir(workingDirectory, key);
+    const versions = readManifest(historyDir);
+
+    const latest = versions.length > 0 ? versions[versions.length - 1] : undefined;
+    if (latest !== undefined) {
+        try {
+            if (fs.readFileSync(getSnapshotPath(historyDir, latest.id), 'utf8') === content) {
+                return undefined;
+            }
+        } catch {
+            // Missing snapshot file; take a fresh one
+        }
+    }
+
+    fs.mkdirSync(historyDir, { recursive: true });
+    const version: DesignVersion = {
+        id: `${Date.now()}-${randomUUID().slice(0, 8)}`,
+        createdAt: new Date().toISOString(),
+        source,
+        size: Buffer.byteLength(content, 'utf8'),
+        sessionId,
+    };
+    fs.writeFileSync(getSnapshotPath(historyDir, version.id), content, 'utf8');
+    versions.push(version);
+
+    // Drop the oldest snapshots once the per-file limit is reached
+    const pruned = versions.splice(0, Math.max(0, versions.length - MAX_VERSIONS_PER_FILE));
+    for (const old of pruned) {
+        fs.rmSync(getSnapshotPath(historyDir, old.id), { force: true });
+    }
+    writeManifest(historyDir, versions);
+    return version;
+}
+
+/**
+ * List saved versions of a design file, newest first
+ */
+export function listDesignVersions(
+    workingDirectory: string,
+    absolutePath: string
+): DesignVersion[] {
+    const key = getDesignHistoryKey(workingDirectory, absolutePath);
+    if (key === undefined) {
+        return [];
+    }
+    return readManifest(getHistoryDir(workingDirectory, key)).reverse();
+}
+
+export function readDesignVersion(
+    workingDirectory: string,
+    absolutePath: string,
+    versionId: string
+): string {
+    const key = getDesignHistoryKey(workingDirectory, absolutePath);
+    if (key === undefined) {
+        throw new Error(`Not a design file: ${absolutePath}`);
+    }
+    return fs.readFileSync(
+        getSnapshotPath(getHistoryDir(workingDirectory, key), versionId),
+        'utf8'
+    );
+}
+
+/**
+ * Replace a design file with one of its saved versions. The content being replaced is
+ * snapshotted first so a restore can itself be undone.
+ */
+export function restoreDesignVersion(
+    workingDirectory: string,
+    absolutePath: string,
+    versionId: string
+): void {
+    const content = readDesignVersion(workingDirectory, absolutePath, versionId);
+    snapshotDesignVersion(workingDirectory, absolutePath, 'restore');
+    fs.writeFileSync(absolutePath, content, 'utf8');
+}
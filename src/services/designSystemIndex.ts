@@ -0,0 +1,334 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { DesignSystemComponent, DesignSystemIndex, DesignToken } from '../types/designSystem';
+
+const MAX_FILE_BYTES = 256 * 1024;
+const MAX_SOURCE_FILES = 500;
+const MAX_CONFIG_EXCERPT = 3000;
+
+const COMPONENT_EXTENSIONS = new Set(['.tsx', '.jsx', '.vue', '.svelte']);
+const STYLE_EXTENSIONS = new Set(['.css', '.scss', '.sass', '.less']);
+const TAILWIND_CONFIG = /^tailwind\.config\.(js|cjs|mjs|ts)$/;
+const SKIPPED_DIRECTORIES = new Set(['node_modules', 'dist', 'build', 'coverage']);
+const SKIPPED_FILES = /\.(test|spec|stories)\.[^.]+$/;
+// JSON files in a scanned directory that configure tools rather than hold tokens
+const SKIPPED_JSON = /^(package(-lock)?|tsconfig.*|jsconfig.*|composer)\.json$/;
+
+function toRelative(root: string, absolutePath: string): string {
+    return path.relative(root, absolutePath).split(path.sep).join('/');
+}
+
+async function readSmallFile(absolutePath: string): Promise<string | undefined> {
+    const stats = await fs.stat(absolutePath);
+    return stats.size > MAX_FILE_BYTES ? undefined : fs.readFile(absolutePath, 'utf8');
+}
+
+export function parseStyleTokens(css: string, source: string): DesignToken[] {
+    const tokens: DesignToken[] = [];
+    for (const match of css.matchAll(/(--[\w-]+)\s*:\s*([^;{}]+);/g)) {
+        tokens.push({ name: match[1], value: match[2].trim(), source });
+    }
+    // Sass and Less variables
+    for (const match of css.matchAll(/^\s*([$@][\w-]+)\s*:\s*([^;{}]+);/gm)) {
+        tokens.push({ name: match[1], value: match[2].trim(), source });
+    }
+    return tokens;
+}
+
+/**
+ * Flatten a tokens JSON file. Understands the W3C design tokens format (`$value`),
+ * Style Dictionary (`value`) and plain nested objects of strings and numbers.
+ */
+export function parseJsonTokens(
+    json: unknown,
+    source: string,
+    prefix: string[] = []
+): DesignToken[] {
+    const name = prefix.join('.');
+    if (typeof json === 'string' || typeof json === 'number') {
+        return prefix.length > 0 ? [{ name, value: String(json), source }] : [];
+    }
+    if (json === null || typeof json !== 'object' || Array.isArray(json)) {
+        return [];
+    }
+
+    const record = json as Record<string, unknown>;
+    for (const key of ['$value', 'value']) {
+        const value = record[key];
+        if (value !== undefined && (key === '$value' || typeof value !== 'object')) {
+            return [
+                {
+                    name,
+                    value: typeof value === 'string' ? value : JSON.stringify(value),
+                    source,
+                },
+            ];
+        }
+    }
+    return Object.entries(record)
+        .filter(([key]) => !key.startsWith('$'))
+        .flatMap(([key, value]) => parseJsonTokens(value, source, [...prefix, key]));
+}
+
+/**
+ * The `theme: { ... }` block of a Tailwind config, found by brace matching
+ */
+export function extractTailwindTheme(config: string): string {
+    const start = /\btheme\s*:\s*\{/.exec(config);
+    if (!start) {
+        return config.slice(0, MAX_CONFIG_EXCERPT);
+    }
+    let depth = 0;
+    let end = config.length;
+    for (let i = start.index + start[0].length - 1; i < config.length; i++) {
+        if (config[i] === '{') {
+            depth++;
+        } else if (config[i] === '}') {
+            depth--;
+            if (depth === 0) {
+                end = i + 1;
+                break;
+            }
+        }
+    }
+    return config.slice(start.index, Math.min(end, start.index + MAX_CONFIG_EXCERPT));
+}
+
+function propNames(body: string): string[] {
+    return Array.from(
+        body.matchAll(/^\s*(?:readonly\s+)?([A-Za-z_$][\w$]*)\??\s*:/gm),
+        match => match[1]
+    );
+}
+
+export function parseComponents(source: string, relativePath: string): DesignSystemComponent[] {
+    const extension = path.extname(relativePath);
+    const fileName = path.basename(relativePath, extension);
+
+    if (extension === '.vue') {
+        const props = /defineProps<\{([\s\S]*?)\}>/.exec(source);
+        return [{ name: fileName, path: relativePath, props: props ? propNames(props[1]) : [] }];
+    }
+    if (extension === '.svelte') {
+        const props = Array.from(source.matchAll(/export\s+let\s+([A-Za-z_$][\w$]*)/g), m => m[1]);
+        return [{ name: fileName, path: relativePath, props }];
+    }
+
+    const names = new Set<string>();
+    for (const match of source.matchAll(
+        /export\s+(?:default\s+)?(?:function|const|class)\s+([A-Z][\w$]*)/g
+    )) {
+        names.add(match[1]);
+    }
+    if (names.size === 0 && /export\s+default\b/.test(source) && /^[A-Z]/.test(fileName)) {
+        names.add(fileName);
+    }
+    return Array.from(names, name => {
+        const props = new RegExp(
+            `(?:interface|type)\\s+${name}Props\\s*=?\\s*\\{([\\s\\S]*?)\\n\\}`
+        ).exec(source);
+        return { name, path: relativePath, props: props ? propNames(props[1]) : [] };
+    });
+}
+
+function isIndexedFile(fileName: string): boolean {
+    const extension = path.extname(fileName);
+    if (SKIPPED_FILES.test(fileName)) {
+        return false;
+    }
+    return (
+        COMPONENT_EXTENSIONS.has(extension) ||
+        STYLE_EXTENSIONS.has(extension) ||
+        TAILWIND_CONFIG.test(fileName) ||
+        (extension === '.json' && !SKIPPED_JSON.test(fileName))
+    );
+}
+
+async function collectSourceFiles(directory: string, files: string[]): Promise<void> {
+    for (const entry of await fs.readdir(directory, { withFileTypes: true })) {
+        if (files.length >= MAX_SOURCE_FILES) {
+            return;
+        }
+        if (entry.name.startsWith('.')) {
+            continue;
+        }
+        const fullPath = path.join(directory, entry.name);
+        if (entry.isDirectory()) {
+            if (!SKIPPED_DIRECTORIES.has(entry.name)) {
+                await collectSourceFiles(fullPath, files);
+            }
+        } else if (isIndexedFile(entry.name)) {
+            files.push(fullPath);
+        }
+    }
+}
+
+/**
+ * Index the configured design system sources. Each source is a workspace-relative file or
+ * directory: stylesheets and JSON files contribute tokens, Tailwind configs their theme and
+ * component files their components, and directories are scanned for all of them. Sources
+ * outside the workspace are ignored, and a file that can't be read or parsed is reported on
+ * its own.
+ */
+export async function indexDesignSystem(
+    root: string,
+    sources: string[]
+): Promise<DesignSystemIndex> {
+    const index: DesignSystemIndex = { root, tokens: [], components: [], configs: [], missing: [] };
+    const seenTokens = new Set<string>();
+    const addTokens = (tokens: DesignToken[]) => {
+        for (const token of tokens) {
+            if (!seenTokens.has(token.name)) {
+                seenTokens.add(token.name);
+                index.tokens.push(token);
+            }
+        }
+    };
+
+    const indexFile = async (absolutePath: string) => {
+        const relativePath = toRelative(root, absolutePath);
+        const content = await readSmallFile(absolutePath);
+        if (content === undefined) {
+            index.missing.push(`${relativePath} (too large)`);
+            return;
+        }
+        const fileName = path.basename(absolutePath);
+        const extension = path.extname(fileName);
+        if (TAILWIND_CONFIG.test(fileName)) {
+            index.configs.push({ path: relativePath, excerpt: extractTailwindTheme(content) });
+        } else if (STYLE_EXTENSIONS.has(extension)) {
+            addTokens(parseStyleTokens(content, relativePath));
+        } else if (extension === '.json') {
+            addTokens(parseJsonTokens(JSON.parse(content), relativePath));
+        } else if (COMPONENT_EXTENSIONS.has(extension)) {
+            index.components.push(...parseComponents(content, relativePath));
+        } else {
+            index.missing.push(`${relativePath} (unsupported file type)`);
+        }
+    };
+
+    for (const source of sources) {
+        const absolutePath = path.resolve(root, source);
+        const relative = path.relative(root, absolutePath);
+        if (relative.startsWith('..') || path.isAbsolute(relative)) {
+            index.missing.push(`${source} (outside the workspace)`);
+            continue;
+        }
+        const files: string[] = [];
+        try {
+            if ((await fs.stat(absolutePath)).isDirectory()) {
+                await collectSourceFiles(absolutePath, files);
+            } else {
+                files.push(absolutePath);
+            }
+        } catch {
+            index.missing.push(source);
+            continue;
+        }
+        for (const file of files) {
+            try {
+                await indexFile(file);
+            } catch {
+                index.missing.push(toRelative(root, file));
+            }
+        }
+    }
+    return index;
+}
+
+export function isDesignSystemEmpty(index: DesignSystemIndex): boolean {
+    return index.tokens.length === 0 && index.components.length === 0 && index.configs.length === 0;
+}
+
+/**
+ * Markdown summary of the index for the system prompt, cut to `maxChars`. The agent can
+ * fetch anything that was cut with the lookupDesignSystem tool.
+ */
+export function summarizeDesignSystem(index: DesignSystemIndex, maxChars: number): string {
+    const sections: string[] = [];
+    if (index.tokens.length > 0) {
+        sections.push(
+            `## Tokens (${index.tokens.length})\n` +
+                index.tokens
+                    .map(token => `- ${token.name}: ${token.value} (${token.source})`)
+                    .join('\n')
+        );
+    }
+    if (index.components.length > 0) {
+        sections.push(
+            `## Components (${index.components.length})\n` +
+                index.components
+                    .map(
+                        component =>
+                            `- ${component.name} (${component.path})` +
+                            (component.props.length > 0
+                                ? ` props: ${component.props.join(', ')}`
+                                : '')
+                    )
+                    .join('\n')
+        );
+    }
+    for (const config of index.configs) {
+        sections.push(`## Tailwind theme (${config.path})\n\`\`\`js\n${config.excerpt}\n\`\`\``);
+    }
+
+    const summary = sections.join('\n\n');
+    if (summary.length <= maxChars) {
+        return summary;
+    }
+    const cut = summary.lastIndexOf('\n', maxChars);
+    return `${summary.slice(0, cut > 0 ? cut : maxChars)}\n… (truncated; use lookupDesignSystem for the rest)`;
+}
+
+export type DesignSystemLookupKind = 'token' | 'component' | 'config' | 'all';
+
+/**
+ * Case-insensitive substring search over token names and values, component names and paths,
+ * and Tailwind config excerpts
+ */
+export function searchDesignSystem(
+    index: DesignSystemIndex,
+    query: string,
+    kind: DesignSystemLookupKind,
+    limit: number
+): Pick<DesignSystemIndex, 'tokens' | 'components' | 'configs'> {
+    const needle = query.trim().toLowerCase();
+    const matches = (...values: string[]) =>
+        needle === '' || values.some(value => value.toLowerCase().includes(needle));
+
+    return {
+        tokens:
+            kind === 'token' || kind === 'all'
+                ? index.tokens.filter(token => matches(token.name, token.value)).slice(0, limit)
+                : [],
+        components:
+            kind === 'component' || kind === 'all'
+                ? index.components
+                      .filter(component => matches(component.name, component.path))
+                      .slice(0, limit)
+                : [],
+        configs:
+            kind === 'config' || kind === 'all'
+                ? index.configs.filter(config => matches(config.path, config.excerpt))
+                : [],
+    };
+}
+
+/**
+ * Source of an indexed component. Only files found while indexing can be read.
+ */
+export async function readComponentSource(
+    index: DesignSystemIndex,
+    name: string
+): Promise<{ path: string; source: string } | undefined> {
+    const component =
+        index.components.find(candidate => candidate.name === name) ??
+        index.components.find(candidate => candidate.name.toLowerCase() === name.toLowerCase());
+    if (!component) {
+        return undefined;
+    }
+    return {
+        path: component.path,
+        source: await fs.readFile(path.join(index.root, component.path), 'utf8'),
+    };
+}
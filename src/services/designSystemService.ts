@@ -0,0 +1,91 @@
+import * as vscode from 'vscode';
+import { getLogger } from 'react-vscode-webview-ipc/host';
+import type { DesignSystemIndex } from '../types/designSystem';
+import { indexDesignSystem } from './designSystemIndex';
+import { DESIGN_SYSTEM_SECTION, readDesignSystemSettings } from './designSystemSettings';
+
+/**
+ * The design system index of the first workspace folder. It is built on first use and kept
+ * until a source file or the designSystem settings change, so requests don't re-read every
+ * component file.
+ */
+export class DesignSystemService implements vscode.Disposable {
+    private readonly logger = getLogger('DesignSystemService');
+    private readonly configurationListener: vscode.Disposable;
+    private watcher: vscode.FileSystemWatcher | undefined;
+    private cached: { root: string; index: Promise<DesignSystemIndex> } | undefined;
+
+    constructor() {
+        this.configurationListener = vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration(DESIGN_SYSTEM_SECTION)) {
+                this.watchSources();
+            }
+        });
+        this.watchSources();
+    }
+
+    /**
+     * The index of the configured sources. Undefined when no sources are configured, so
+     * callers can keep the default design guidance.
+     */
+    public async getIndex(): Promise<DesignSystemIndex | undefined> {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        const { sources } = readDesignSystemSettings();
+        if (!workspaceFolder || sources.length === 0) {
+            return undefined;
+        }
+        const root = workspaceFolder.uri.fsPath;
+        if (this.cached?.root !== root) {
+            const index = indexDesignSystem(root, sources);
+            this.cached = { root, index };
+            // A failed build is retried by the next request
+            index.catch(() => {
+                if (this.cached?.index === index) {
+                    this.cached = undefined;
+                }
+            });
+        }
+        const index = await this.cached.index;
+        if (index.missing.length > 0) {
+            this.logger.warn('Some design system sources could not be indexed', {
+                missing: index.missing,
+            });
+        }
+        return index;
+    }
+
+    public dispose(): void {
+        this.configurationListener.dispose();
+        this.watcher?.dispose();
+    }
+
+    private invalidate(): void {
+        this.cached = undefined;
+    }
+
+    /**
+     * Rebuild the index when anything under the configured sources changes
+     */
+    private watchSources(): void {
+        this.invalidate();
+        this.watcher?.dispose();
+        this.watcher = undefined;
+
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        const sources = readDesignSystemSettings()
+            .sources.map(source => source.replace(/^\.\//, '').replace(/\/+$/, ''))
+            .filter(source => source.length > 0);
+        if (!workspaceFolder || sources.length === 0) {
+            return;
+        }
+        // Each source is a file or a directory; match both the path and anything below it
+        const pattern = `{${sources.flatMap(source => [source, `${source}/**`]).join(',')}}`;
+        this.watcher = vscode.workspace.createFileSystemWatcher(
+            new vscode.RelativePattern(workspaceFolder, pattern)
+        );
+        const invalidate = () => this.invalidate();
+        this.watcher.onDidCreate(invalidate);
+        this.watcher.onDidChange(invalidate);
+        this.watcher.onDidDelete(invalidate);
+    }
+}
@@ -0,0 +1,16 @@
+import * as vscode from 'vscode';
+
+export const DESIGN_SYSTEM_SECTION = 'securedesign.designSystem';
+
+export interface DesignSystemSettings {
+    sources: string[];
+    maxPromptChars: number;
+}
+
+export function readDesignSystemSettings(): DesignSystemSettings {
+    const config = vscode.workspace.getConfiguration(DESIGN_SYSTEM_SECTION);
+    return {
+        sources: config.get<string[]>('sources') ?? [],
+        maxPromptChars: config.get<number>('maxPromptChars') ?? 8000,
+    };
+}
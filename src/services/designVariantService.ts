@@ -0,0 +1,229 @@
+import * as vscode from 'vscode';
+import { generateText } from 'ai';
+import type { LanguageModelV2 } from '@ai-sdk/provider';
+import { getLogger } from 'react-vscode-webview-ipc/host';
+import { getSdkLanguageModel } from 'ai-sdk-react-model-picker';
+import type { VariantManifest, VariantManifestEntry, VariantSpec } from '../types/designVariants';
+import {
+    buildVariantPrompt,
+    extractHtmlDocument,
+    planVariants,
+    uniqueVariantBaseName,
+    VARIANT_MANIFEST_SUFFIX,
+    VARIANT_SYSTEM_PROMPT,
+    variantFileName,
+    variantLabel,
+} from './designVariants';
+import { readVariantSettings } from './variantSettings';
+import { createProviderModel, type ModelProvider } from './providerModels';
+import { confirmRemoteEndpoint, readLocalProviderSettings } from './localProviderSettings';
+import { SecureStorageService } from './secureStorageService';
+import type { WorkspaceStateService } from './workspaceStateService';
+import { WorkspaceSpendTracker } from './workspaceSpend';
+import { computeCost, findModelPrice } from './usageCost';
+import { readUsageSettings } from './usageSettings';
+import { readDesignSystemSettings } from './designSystemSettings';
+import type { DesignSystemService } from './designSystemService';
+import { isDesignSystemEmpty, summarizeDesignSystem } from './designSystemIndex';
+
+export interface VariantRunResult {
+    manifest: VariantManifest;
+    failures: Array<{ label: string; error: string }>;
+    costUsd: number;
+}
+
+/**
+ * Fans one design brief out to several models or sampling settings at once and writes each
+ * result as a sibling file in design_iterations, plus a manifest the canvas uses to group them.
+ */
+export class DesignVariantService {
+    private readonly logger = getLogger('DesignVariantService');
+    private readonly storage: SecureStorageService;
+    private readonly spendTracker: WorkspaceSpendTracker;
+
+    constructor(
+        workspaceState: WorkspaceStateService,
+        private readonly designSystemService: DesignSystemService
+    ) {
+        this.storage = new SecureStorageService(workspaceState.secrets());
+        this.spendTracker = new WorkspaceSpendTracker(workspaceState);
+    }
+
+    checkSpendCap(): string | undefined {
+        return this.spendTracker.getCapMessage(readUsageSettings().monthlySpendCapUsd);
+    }
+
+    async generate(
+        brief: string,
+        baseName: string,
+        designFolder: vscode.Uri,
+        abortSignal: AbortSignal,
+        onVariantDone: (label: string, error?: string) => void
+    ): Promise<VariantRunResult> {
+        const settings = readVariantSettings();
+        const specs = planVariants(settings.count, settings.models);
+        const localSettings = readLocalProviderSettings();
+        if (
+            specs.some(spec =>
+                spec.provider === undefined
+                    ? localSettings.model !== undefined
+                    : spec.provider === 'local'
+            )
+        ) {
+            await confirmRemoteEndpoint(localSettings.baseUrl);
+        }
+        // Variants without a model of their own use the local model when one is set
+        const selectedModel = !specs.some(spec => spec.provider === undefined)
+            ? undefined
+            : localSettings.model !== undefined
+              ? createProviderModel('local', localSettings.model, {
+                    localBaseUrl: localSettings.baseUrl,
+                })
+              : await getSdkLanguageModel(this.storage);
+
+        await vscode.workspace.fs.createDirectory(designFolder);
+        const existing = (await vscode.workspace.fs.readDirectory(designFolder)).map(
+            ([name]) => name
+        );
+        const name = uniqueVariantBaseName(baseName, existing);
+
+        const designSystemSettings = readDesignSystemSettings();
+        const designSystem = await this.designSystemService.getIndex();
+        const prompt = buildVariantPrompt(
+            brief,
+            designSystem && !isDesignSystemEmpty(designSystem)
+                ? summarizeDesignSystem(designSystem, designSystemSettings.maxPromptChars)
+                : undefined
+        );
+
+        this.logger.info(`Generating ${specs.length} variants of ${name}`, {
+            models: settings.models,
+        });
+        const models = await Promise.all(
+            specs.map(async spec =>
+                spec.provider !== undefined && spec.modelId !== undefined
+                    ? createProviderModel(spec.provider as ModelProvider, spec.modelId, {
+                          localBaseUrl: localSettings.baseUrl,
+                          apiKey: await this.storage.getApiKey(spec.provider),
+                      })
+                    : selectedModel!
+            )
+        );
+        const labels = specs.map((spec, i) => variantLabel(models[i].modelId, spec));
+        const run = { costUsd: 0 };
+        const results = await Promise.allSettled(
+            specs.map(async (spec, i) => {
+                try {
+                    const entry = await this.generateVariant(spec, models[i], labels[i], {
+                        prompt,
+                        fileName: variantFileName(name, spec.index),
+                        designFolder,
+                        abortSignal,
+                        run,
+                    });
+                    onVariantDone(labels[i]);
+                    return entry;
+                } catch (error) {
+                    onVariantDone(
+                        labels[i],
+                        error instanceof Error ? error.message : String(error)
+                    );
+                    throw error;
+                }
+            })
+        );
+
+        const manifest: VariantManifest = {
+            name,
+            brief,
+            createdAt: new Date().toISOString(),
+            variants: results.flatMap(result =>
+                result.status === 'fulfilled' ? [result.value] : []
+            ),
+        };
+        const failures = results.flatMap((result, i) =>
+            result.status === 'rejected'
+                ? [
+                      {
+                          label: labels[i],
+                          error:
+                              result.reason instanceof Error
+                                  ? result.reason.message
+                                  : String(result.reason),
+                      },
+                  ]
+                : []
+        );
+
+        try {
+            await this.spendTracker.record(run.costUsd);
+        } catch (error) {
+            this.logger.error('Failed to record workspace spend', { error });
+        }
+        if (manifest.variants.length > 0) {
+            await vscode.workspace.fs.writeFile(
+                vscode.Uri.joinPath(designFolder, `${name}${VARIANT_MANIFEST_SUFFIX}`),
+                Buffer.from(JSON.stringify(manifest, null, 2), 'utf8')
+            );
+        }
+        this.logger.info(`Variant run ${name} finished`, {
+            succeeded: manifest.variants.length,
+            failed: failures.length,
+            costUsd: run.costUsd,
+        });
+        return { manifest, failures, costUsd: run.costUsd };
+    }
+
+    private async generateVariant(
+        spec: VariantSpec,
+        model: LanguageModelV2,
+        label: string,
+        options: {
+            prompt: string;
+            fileName: string;
+            designFolder: vscode.Uri;
+            abortSignal: AbortSignal;
+            run: { costUsd: number };
+        }
+    ): Promise<VariantManifestEntry> {
+        const result = await generateText({
+            model,
+            system: VARIANT_SYSTEM_PROMPT,
+            prompt: options.prompt,
+            temperature: spec.temperature,
+            seed: spec.seed,
+            abortSignal: options.abortSignal,
+        });
+
+        const price = findModelPrice(model.modelId, readUsageSettings().modelPrices);
+        const costUsd =
+            price !== undefined
+                ? computeCost(
+                      {
+                          inputTokens: result.usage.inputTokens ?? 0,
+                          outputTokens: result.usage.outputTokens ?? 0,
+                          cachedInputTokens: result.usage.cachedInputTokens ?? 0,
+                      },
+                      price
+                  )
+                : undefined;
+        options.run.costUsd += costUsd ?? 0;
+
+        const html = extractHtmlDocument(result.text);
+        if (html === undefined) {
+            throw new Error('The model did not reply with an HTML document');
+        }
+        await vscode.workspace.fs.writeFile(
+            vscode.Uri.joinPath(options.designFolder, options.fileName),
+            Buffer.from(html, 'utf8')
+        );
+        return {
+            file: options.fileName,
+            label,
+            modelId: model.modelId,
+            temperature: spec.temperature,
+            seed: spec.seed,
+            costUsd,
+        };
+    }
+}
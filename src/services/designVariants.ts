@@ -0,0 +1,135 @@
+import type { VariantManifest, VariantSpec } from '../types/designVariants';
+import { parseModelEntry } from './providerModels';
+
+export const VARIANT_MANIFEST_SUFFIX = '.variants.json';
+
+// Temperatures used when one model produces several variants of the same brief
+const MIN_TEMPERATURE = 0.4;
+const MAX_TEMPERATURE = 1;
+
+const MAX_BASE_NAME_LENGTH = 40;
+
+function spreadTemperatures(count: number): number[] {
+    return Array.from(
+        { length: count },
+        (_, i) =>
+            Math.round(
+                (MIN_TEMPERATURE + ((MAX_TEMPERATURE - MIN_TEMPERATURE) * i) / (count - 1)) * 10
+            ) / 10
+    );
+}
+
+/**
+ * Plan a run of `count` variants. Configured models are used in turn; with none, every variant
+ * uses the selected model. Variants that share a model get spread temperatures and distinct
+ * seeds so they don't all converge on the same layout.
+ */
+export function planVariants(count: number, models: readonly string[] = []): VariantSpec[] {
+    const parsed = models.flatMap(entry => parseModelEntry(entry) ?? []);
+    const specs: VariantSpec[] = Array.from({ length: Math.max(1, count) }, (_, i) => {
+        const model = parsed.length > 0 ? parsed[i % parsed.length] : undefined;
+        return { index: i + 1, provider: model?.provider, modelId: model?.modelId };
+    });
+
+    const groups = new Map<string, VariantSpec[]>();
+    for (const spec of specs) {
+        const key = `${spec.provider ?? ''}:${spec.modelId ?? ''}`;
+        groups.set(key, [...(groups.get(key) ?? []), spec]);
+    }
+    for (const group of groups.values()) {
+        if (group.length < 2) {
+            continue;
+        }
+        const temperatures = spreadTemperatures(group.length);
+        group.forEach((spec, i) => {
+            spec.temperature = temperatures[i];
+            spec.seed = spec.index;
+        });
+    }
+    return specs;
+}
+
+export function variantLabel(modelId: string, spec: VariantSpec): string {
+    return spec.temperature !== undefined ? `${modelId} · t=${spec.temperature}` : modelId;
+}
+
+/**
+ * Turn a brief into a file name stem. Underscores are avoided because the canvas reads
+ * "name_1_2" as a child of "name_1".
+ */
+export function toVariantBaseName(text: string): string {
+    const slug = text
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .slice(0, MAX_BASE_NAME_LENGTH)
+        .replace(/^-+|-+$/g, '');
+    return slug.length > 0 ? slug : 'design';
+}
+
+/**
+ * Pick a stem whose sibling files and manifest don't exist yet, so a second run for the same
+ * brief becomes its own group instead of overwriting the first
+ */
+export function uniqueVariantBaseName(baseName: string, existingFiles: readonly string[]): string {
+    const taken = (stem: string) =>
+        existingFiles.some(
+            file =>
+                file === `${stem}.html` ||
+                file === `${stem}${VARIANT_MANIFEST_SUFFIX}` ||
+                file.startsWith(`${stem}_`)
+        );
+    let candidate = baseName;
+    for (let suffix = 2; taken(candidate); suffix++) {
+        candidate = `${baseName}-${suffix}`;
+    }
+    return candidate;
+}
+
+export function variantFileName(baseName: string, index: number): string {
+    return `${baseName}_${index}.html`;
+}
+
+/**
+ * Pull the HTML document out of a model reply, which may wrap it in a code fence or add a
+ * sentence before or after it. Returns undefined when the reply has no document.
+ */
+export function extractHtmlDocument(text: string): string | undefined {
+    const fenced = /```(?:html)?\s*\n([\s\S]*?)```/i.exec(text);
+    const source = fenced?.[1] ?? text;
+    const start = source.search(/<!doctype html|<html[\s>]/i);
+    if (start === -1) {
+        return undefined;
+    }
+    const end = source.toLowerCase().lastIndexOf('</html>');
+    return end > start ? source.slice(start, end + '</html>'.length) : source.slice(start).trim();
+}
+
+export const VARIANT_SYSTEM_PROMPT = `You are a senior product designer producing one variant of a UI design for a design critique.
+Reply with a single complete, self-contained HTML document and nothing else:
+- Use Tailwind via <script src="https://cdn.tailwindcss.com"></script> and Google Fonts; inline any other CSS in a <style> tag
+- Use lucide icons from https://unpkg.com/lucide@latest/dist/umd/lucide.min.js and real placeholder image URLs (placehold.co, unsplash); don't make up URLs
+- Make the page responsive and fill it with realistic content
+- Commit to a distinct visual direction (layout, type, colour) rather than a safe average; other variants of the same brief are produced in parallel`;
+
+export function buildVariantPrompt(brief: string, designSystemSummary?: string): string {
+    const designSystem =
+        designSystemSummary !== undefined && designSystemSummary.length > 0
+            ? `\n\nFollow the user's design system:\n${designSystemSummary}`
+            : '';
+    return `Design brief:\n${brief}${designSystem}`;
+}
+
+/**
+ * Index manifests by design file name so the canvas can label frames and group siblings
+ */
+export function indexVariantManifests(
+    manifests: readonly VariantManifest[]
+): Map<string, { group: string; label: string }> {
+    const index = new Map<string, { group: string; label: string }>();
+    for (const manifest of manifests) {
+        for (const variant of manifest.variants) {
+            index.set(variant.file, { group: manifest.name, label: variant.label });
+        }
+    }
+    return index;
+}
@@ -0,0 +1,241 @@
+import type { ChatMessage } from '../types/chatMessage';
+import type { DesignWorkflow, WorkflowStepId } from '../types/designWorkflow';
+
+// Text artifacts are saved under .superdesign/workflows/<session id>/
+export const WORKFLOW_FOLDER = 'workflows';
+
+// Tools that only look at the workspace, allowed in every step
+const READ_TOOLS = ['read', 'ls', 'glob', 'grep', 'lookupDesignSystem'];
+
+interface WorkflowStepDefinition {
+    id: WorkflowStepId;
+    label: string;
+    // What the agent is asked to produce, sent as part of the system prompt
+    goal: string;
+    // Tools the agent may use during the step; all tools when undefined
+    tools?: readonly string[];
+    // Tool whose output file is the step's artifact; the final reply is saved otherwise
+    artifactTool?: string;
+}
+
+export const WORKFLOW_STEPS: readonly WorkflowStepDefinition[] = [
+    {
+        id: 'layout',
+        label: 'Layout',
+        goal: 'Propose the layout as an ASCII wireframe in a code block, with a short note on each section and how it adapts to small screens. Do not write any files.',
+        tools: READ_TOOLS,
+    },
+    {
+        id: 'theme',
+        label: 'Theme',
+        goal: 'Create the theme (colours, fonts, spacing, radius, shadows) for the approved layout with the generateTheme tool, then summarise the choices.',
+        tools: [...READ_TOOLS, 'generateTheme'],
+        artifactTool: 'generateTheme',
+    },
+    {
+        id: 'animation',
+        label: 'Animation',
+        goal: 'Describe the animations and micro-interactions as a spec: element, trigger, property, duration and easing for each. Do not write any files.',
+        tools: READ_TOOLS,
+    },
+    {
+        id: 'build',
+        label: 'Build',
+        goal: 'Build the single-page HTML design from the approved layout, theme and animations and write it with the write tool.',
+        artifactTool: 'write',
+    },
+];
+
+export function getWorkflowStep(stepId: WorkflowStepId): WorkflowStepDefinition {
+    return WORKFLOW_STEPS.find(step => step.id === stepId) ?? WORKFLOW_STEPS[0];
+}
+
+export function startWorkflow(now = Date.now()): DesignWorkflow {
+    return {
+        currentStep: WORKFLOW_STEPS[0].id,
+        steps: {
+            layout: { status: 'active' },
+            theme: { status: 'pending' },
+            animation: { status: 'pending' },
+            build: { status: 'pending' },
+        },
+        startedAt: now,
+    };
+}
+
+/**
+ * The agent finished a turn on the current step: hold the step for review with its artifact
+ */
+export function submitStep(workflow: DesignWorkflow, artifact?: string): DesignWorkflow {
+    const step = workflow.steps[workflow.currentStep];
+    return {
+        ...workflow,
+        steps: {
+            ...workflow.steps,
+            [workflow.currentStep]: {
+                ...step,
+                status: 'review',
+                artifact: artifact ?? step.artifact,
+            },
+        },
+    };
+}
+
+/**
+ * Approve the current step and make the next one current. Approving the last step completes
+ * the workflow.
+ */
+export function approveStep(workflow: DesignWorkflow, now = Date.now()): DesignWorkflow {
+    const index = WORKFLOW_STEPS.findIndex(step => step.id === workflow.currentStep);
+    const next = WORKFLOW_STEPS[index + 1] as WorkflowStepDefinition | undefined;
+    const steps: DesignWorkflow['steps'] = {
+        ...workflow.steps,
+        [workflow.currentStep]: { ...workflow.steps[workflow.currentStep], status: 'approved' },
+    };
+    if (next === undefined) {
+        return { ...workflow, steps, completedAt: now };
+    }
+    return {
+        ...workflow,
+        currentStep: next.id,
+        steps: { ...steps, [next.id]: { ...steps[next.id], status: 'active' } },
+    };
+}
+
+/**
+ * Send the current step back to the agent with the user's feedback
+ */
+export function reviseStep(workflow: DesignWorkflow, feedback: string): DesignWorkflow {
+    const step = workflow.steps[workflow.currentStep];
+    return {
+        ...workflow,
+        steps: {
+            ...workflow.steps,
+            [workflow.currentStep]: {
+                ...step,
+                status: 'active',
+                revisions: [...(step.revisions ?? []), feedback],
+            },
+        },
+    };
+}
+
+export function isWorkflowComplete(workflow: DesignWorkflow): boolean {
+    return workflow.completedAt !== undefined;
+}
+
+function artifactPath(input: unknown, toolName: string): string | undefined {
+    if (input === null || typeof input !== 'object') {
+        return undefined;
+    }
+    const record = input as Record<string, unknown>;
+    const candidate = toolName === 'generateTheme' ? record.cssFilePath : record.file_path;
+    return typeof candidate === 'string' ? candidate : undefined;
+}
+
+function messageText(message: ChatMessage): string {
+    if (typeof message.content === 'string') {
+        return message.content;
+    }
+    return message.content
+        .map(part => (part.type === 'text' ? part.text : ''))
+        .join('')
+        .trim();
+}
+
+/**
+ * Find a step's output in the agent's latest turn: the file written by the step's artifact tool
+ * (HTML files for the build step) or, for text steps, the agent's final reply
+ */
+export function findStepArtifact(
+    stepId: WorkflowStepId,
+    messages: readonly ChatMessage[]
+): { path: string } | { text: string } | undefined {
+    const turn: ChatMessage[] = [];
+    for (let i = messages.length - 1; i >= 0 && messages[i].role !== 'user'; i--) {
+        // The provider's error ends a failed turn; it is no output of the step
+        if (messages[i].metadata?.is_error !== true) {
+            turn.push(messages[i]);
+        }
+    }
+    const { artifactTool } = getWorkflowStep(stepId);
+    if (artifactTool !== undefined) {
+        for (const message of turn) {
+            if (message.role !== 'assistant' || typeof message.content === 'string') {
+                continue;
+            }
+            for (const part of [...message.content].reverse()) {
+                if (part.type !== 'tool-call' || part.toolName !== artifactTool) {
+                    continue;
+                }
+                const path = artifactPath(part.input, artifactTool);
+                if (path !== undefined && (stepId !== 'build' || /\.(html|svg)$/i.test(path))) {
+                    return { path };
+                }
+            }
+        }
+    }
+
+    const reply = turn.find(
+        message => message.role === 'assistant' && messageText(message).length > 0
+    );
+    return reply !== undefined ? { text: messageText(reply) } : undefined;
+}
+
+export function workflowArtifactPath(sessionId: string, stepId: WorkflowStepId): string {
+    const index = WORKFLOW_STEPS.findIndex(step => step.id === stepId);
+    return `${WORKFLOW_FOLDER}/${sessionId}/${index + 1}-${stepId}.md`;
+}
+
+/**
+ * Keep only the tools the current step allows, so e.g. the layout step can't jump ahead and
+ * write the HTML
+ */
+export function filterWorkflowTools<T>(
+    tools: Record<string, T>,
+    workflow: DesignWorkflow
+): Record<string, T> {
+    const allowed = getWorkflowStep(workflow.currentStep).tools;
+    if (allowed === undefined || isWorkflowComplete(workflow)) {
+        return tools;
+    }
+    return Object.fromEntries(Object.entries(tools).filter(([name]) => allowed.includes(name)));
+}
+
+/**
+ * System prompt section telling the agent where the session is in the workflow
+ */
+export function buildWorkflowPrompt(workflow: DesignWorkflow): string {
+    if (isWorkflowComplete(workflow)) {
+        return `
+# Guided workflow
+The user completed the guided workflow; all steps are approved. Help with follow-up changes as usual.
+`;
+    }
+    const index = WORKFLOW_STEPS.findIndex(step => step.id === workflow.currentStep);
+    const current = WORKFLOW_STEPS[index];
+    const steps = WORKFLOW_STEPS.map(step => {
+        const state = workflow.steps[step.id];
+        const artifact =
+            state.status === 'approved' && state.artifact !== undefined
+                ? ` (output: ${state.artifact})`
+                : '';
+        return `- ${step.label}: ${state.status}${artifact}`;
+    }).join('\n');
+    const revisions = workflow.steps[current.id].revisions ?? [];
+    const revisionList =
+        revisions.length > 0
+            ? `\nThe user asked for these changes to this step:\n${revisions.map(r => `- ${r}`).join('\n')}\n`
+            : '';
+
+    return `
+# Guided workflow
+The user is following the guided workflow (layout → theme → animation → build). This overrides the workflow above: work only on the current step, then stop and ask the user to approve it or request changes. Don't start the next step; the extension moves on when the user approves. Build on the outputs of approved steps and read them when you need their details.
+
+Current step (${index + 1} of ${WORKFLOW_STEPS.length}): ${current.label}
+${current.goal}
+${revisionList}
+Steps:
+${steps}
+`;
+}
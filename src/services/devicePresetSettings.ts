@@ -0,0 +1,13 @@
+import * as vscode from 'vscode';
+import type { DevicePreset } from '../types/devicePresets';
+import { mergeDevicePresets, parseDevicePresets } from './devicePresets';
+
+export const CANVAS_SECTION = 'securedesign.canvas';
+
+/**
+ * The built-in device presets merged with the `devicePresets` setting
+ */
+export function readDevicePresets(): DevicePreset[] {
+    const configured = vscode.workspace.getConfiguration(CANVAS_SECTION).get('devicePresets');
+    return mergeDevicePresets(parseDevicePresets(configured));
+}
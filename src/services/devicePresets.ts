@@ -0,0 +1,108 @@
+import { BUILT_IN_DEVICE_PRESETS, type DevicePreset } from '../types/devicePresets';
+
+// CSS pixel bounds for a device side; beyond 8K a frame is no longer useful on the canvas
+export const MIN_DEVICE_SIZE = 100;
+export const MAX_DEVICE_SIZE = 7680;
+const MIN_PIXEL_RATIO = 0.5;
+const MAX_PIXEL_RATIO = 5;
+
+// `1080x1920` or `1080x1920@2`
+const SIZE_PATTERN = /^\s*(\d+)\s*[x×]\s*(\d+)\s*(?:@\s*(\d+(?:\.\d+)?)\s*x?)?\s*$/i;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isDeviceSize(value: unknown): value is number {
+    return (
+        typeof value === 'number' &&
+        Number.isInteger(value) &&
+        value >= MIN_DEVICE_SIZE &&
+        value <= MAX_DEVICE_SIZE
+    );
+}
+
+function isPixelRatio(value: unknown): value is number {
+    return typeof value === 'number' && value >= MIN_PIXEL_RATIO && value <= MAX_PIXEL_RATIO;
+}
+
+function slugify(name: string): string {
+    return name
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '');
+}
+
+function parseSize(text: string): DevicePreset | undefined {
+    const match = SIZE_PATTERN.exec(text);
+    if (!match) {
+        return undefined;
+    }
+    const width = Number(match[1]);
+    const height = Number(match[2]);
+    const pixelRatio = match[3] === undefined ? undefined : Number(match[3]);
+    if (!isDeviceSize(width) || !isDeviceSize(height)) {
+        return undefined;
+    }
+    if (pixelRatio !== undefined && !isPixelRatio(pixelRatio)) {
+        return undefined;
+    }
+    return {
+        id: `${width}x${height}${pixelRatio === undefined ? '' : `@${pixelRatio}`}`,
+        name: `${width}×${height}${pixelRatio === undefined ? '' : ` @${pixelRatio}x`}`,
+        width,
+        height,
+        ...(pixelRatio !== undefined && { pixelRatio }),
+    };
+}
+
+function parsePreset(value: unknown): DevicePreset | undefined {
+    if (typeof value === 'string') {
+        return parseSize(value);
+    }
+    if (!isRecord(value) || typeof value.name !== 'string' || value.name.trim().length === 0) {
+        return undefined;
+    }
+    const name = value.name.trim();
+    const id = typeof value.id === 'string' && value.id.trim() ? value.id.trim() : slugify(name);
+    if (!id || !isDeviceSize(value.width) || !isDeviceSize(value.height)) {
+        return undefined;
+    }
+    if (value.pixelRatio !== undefined && !isPixelRatio(value.pixelRatio)) {
+        return undefined;
+    }
+    return {
+        id,
+        name,
+        width: value.width,
+        height: value.height,
+        ...(value.pixelRatio !== undefined && { pixelRatio: value.pixelRatio }),
+    };
+}
+
+/**
+ * Read the user's device presets from settings. Entries are named sizes or plain `WxH`
+ * strings; invalid entries are skipped so one typo doesn't hide the rest.
+ */
+export function parseDevicePresets(value: unknown): DevicePreset[] {
+    if (!Array.isArray(value)) {
+        return [];
+    }
+    return value.map(parsePreset).filter((preset): preset is DevicePreset => !!preset);
+}
+
+/**
+ * The device catalogue: built-in presets, each replaced in place by a user preset with the
+ * same id, followed by the remaining user presets. The first preset with an id wins.
+ */
+export function mergeDevicePresets(custom: readonly DevicePreset[]): DevicePreset[] {
+    const byId = new Map<string, DevicePreset>();
+    for (const preset of custom) {
+        if (!byId.has(preset.id)) {
+            byId.set(preset.id, preset);
+        }
+    }
+    const builtIns = BUILT_IN_DEVICE_PRESETS.map(preset => byId.get(preset.id) ?? preset);
+    const builtInIds = new Set(BUILT_IN_DEVICE_PRESETS.map(preset => preset.id));
+    return [...builtIns, ...[...byId.values()].filter(preset => !builtInIds.has(preset.id))];
+}
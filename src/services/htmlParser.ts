@@ -0,0 +1,195 @@
+/**
+ * Minimal, forgiving HTML parser for the generated designs. It builds a tree good enough
+ * for code generation; it does not implement the full HTML5 tree-construction algorithm.
+ */
+
+export interface HtmlElement {
+    type: 'element';
+    tag: string;
+    // Attribute order and original name casing are kept; null marks a boolean attribute
+    attrs: Array<[string, string | null]>;
+    children: HtmlNode[];
+}
+
+export interface HtmlText {
+    type: 'text';
+    text: string;
+}
+
+export interface HtmlComment {
+    type: 'comment';
+    text: string;
+}
+
+export type HtmlNode = HtmlElement | HtmlText | HtmlComment;
+
+export const VOID_ELEMENTS = new Set([
+    'area',
+    'base',
+    'br',
+    'col',
+    'embed',
+    'hr',
+    'img',
+    'input',
+    'link',
+    'meta',
+    'source',
+    'track',
+    'wbr',
+]);
+
+// Content of these elements is not parsed as markup
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title']);
+
+// Opening one of these implicitly closes an open sibling, e.g. `<li>One<li>Two`
+const IMPLIED_END_TAGS: Record<string, string[]> = {
+    li: ['li'],
+    dt: ['dt', 'dd'],
+    dd: ['dt', 'dd'],
+    option: ['option'],
+    p: ['p'],
+    tr: ['tr', 'td', 'th'],
+    td: ['td', 'th'],
+    th: ['td', 'th'],
+};
+
+const ATTRIBUTE_PATTERN = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+function parseAttributes(source: string): Array<[string, string | null]> {
+    const attrs: Array<[string, string | null]> = [];
+    for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+        attrs.push([match[1], match[2] ?? match[3] ?? match[4] ?? null]);
+    }
+    return attrs;
+}
+
+export function parseHtml(html: string): HtmlNode[] {
+    const root: HtmlElement = { type: 'element', tag: '#root', attrs: [], children: [] };
+    const stack: HtmlElement[] = [root];
+    const current = () => stack[stack.length - 1];
+    const lowerHtml = html.toLowerCase();
+    let index = 0;
+
+    const pushText = (text: string) => {
+        if (text.length > 0) {
+            current().children.push({ type: 'text', text });
+        }
+    };
+
+    while (index < html.length) {
+        const lt = html.indexOf('<', index);
+        if (lt === -1) {
+            pushText(html.slice(index));
+            break;
+        }
+        pushText(html.slice(index, lt));
+
+        if (html.startsWith('<!--', lt)) {
+            const end = html.indexOf('-->', lt + 4);
+            const stop = end === -1 ? html.length : end;
+            current().children.push({ type: 'comment', text: html.slice(lt + 4, stop) });
+            index = end === -1 ? html.length : end + 3;
+            continue;
+        }
+
+        if (html.startsWith('<!', lt) || html.startsWith('<?', lt)) {
+            // Doctype or processing instruction
+            const end = html.indexOf('>', lt);
+            index = end === -1 ? html.length : end + 1;
+            continue;
+        }
+
+        const closing = /^<\/([A-Za-z][\w:-]*)\s*>/.exec(html.slice(lt));
+        if (closing) {
+            const tag = closing[1].toLowerCase();
+            // Close the nearest matching open element; stray closing tags are ignored
+            const openIndex = stack.map(element => element.tag).lastIndexOf(tag);
+            if (openIndex > 0) {
+                stack.length = openIndex;
+            }
+            index = lt + closing[0].length;
+            continue;
+        }
+
+        const opening = /^<([A-Za-z][\w:-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>/.exec(html.slice(lt));
+        if (!opening) {
+            pushText('<');
+            index = lt + 1;
+            continue;
+        }
+
+        const tag = opening[1].toLowerCase();
+        let attrSource = opening[2];
+        const selfClosing = attrSource.trimEnd().endsWith('/');
+        if (selfClosing) {
+            attrSource = attrSource.trimEnd().slice(0, -1);
+        }
+        if (IMPLIED_END_TAGS[tag]?.includes(current().tag) === true) {
+            stack.pop();
+            // A new row also closes the row that the open cell belongs to
+            if (tag === 'tr' && current().tag === 'tr') {
+                stack.pop();
+            }
+        }
+        const element: HtmlElement = {
+            type: 'element',
+            tag,
+            attrs: parseAttributes(attrSource),
+            children: [],
+        };
+        current().children.push(element);
+        index = lt + opening[0].length;
+
+        if (RAW_TEXT_ELEMENTS.has(tag) && !selfClosing) {
+            const end = lowerHtml.indexOf(`</${tag}`, index);
+            const stop = end === -1 ? html.length : end;
+            if (stop > index) {
+                element.children.push({ type: 'text', text: html.slice(index, stop) });
+            }
+            const close = end === -1 ? -1 : html.indexOf('>', end);
+            index = close === -1 ? html.length : close + 1;
+        } else if (!selfClosing && !VOID_ELEMENTS.has(tag)) {
+            stack.push(element);
+        }
+    }
+
+    return root.children;
+}
+
+export function getAttribute(element: HtmlElement, name: string): string | null | undefined {
+    const lower = name.toLowerCase();
+    return element.attrs.find(([attr]) => attr.toLowerCase() === lower)?.[1];
+}
+
+/**
+ * Depth-first search for the first element with the given tag
+ */
+export function findElement(nodes: HtmlNode[], tag: string): HtmlElement | undefined {
+    for (const node of nodes) {
+        if (node.type !== 'element') {
+            continue;
+        }
+        if (node.tag === tag) {
+            return node;
+        }
+        const found = findElement(node.children, tag);
+        if (found) {
+            return found;
+        }
+    }
+    return undefined;
+}
+
+export function findElements(nodes: HtmlNode[], tag: string): HtmlElement[] {
+    const found: HtmlElement[] = [];
+    for (const node of nodes) {
+        if (node.type === 'element') {
+            if (node.tag === tag) {
+                found.push(node);
+            }
+            found.push(...findElements(node.children, tag));
+        }
+    }
+    return found;
+}
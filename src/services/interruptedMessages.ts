@@ -0,0 +1,84 @@
+import type { ChatMessage } from '../types/chatMessage';
+
+export const INTERRUPTED_MESSAGE_TEXT = 'Generation stopped by user.';
+const INTERRUPTED_TOOL_OUTPUT = 'Tool execution was interrupted by the user.';
+
+/**
+ * Collect tool calls that never received a result, in the order they were issued
+ */
+function findPendingToolCalls(messages: ChatMessage[]): { toolCallId: string; toolName: string }[] {
+    const resolved = new Set<string>();
+    for (const msg of messages) {
+        if (msg.role === 'tool') {
+            for (const part of msg.content) {
+                if (part.type === 'tool-result') {
+                    resolved.add(part.toolCallId);
+                }
+            }
+        }
+    }
+
+    const pending: { toolCallId: string; toolName: string }[] = [];
+    for (const msg of messages) {
+        if (msg.role === 'assistant' && Array.isArray(msg.content)) {
+            for (const part of msg.content) {
+                if (part.type === 'tool-call' && !resolved.has(part.toolCallId)) {
+                    pending.push({ toolCallId: part.toolCallId, toolName: part.toolName });
+                }
+            }
+        }
+    }
+    return pending;
+}
+
+/**
+ * Close out a conversation whose generation was aborted. Tool calls left without a result get
+ * a synthetic error result so the history stays valid for the next request, and the partial
+ * assistant reply is flagged as interrupted (or a marker reply is appended if there is none).
+ */
+export function markInterrupted(messages: ChatMessage[]): ChatMessage[] {
+    const timestamp = Date.now();
+    let result = messages;
+
+    const pending = findPendingToolCalls(messages);
+    if (pending.length > 0) {
+        result = [
+            ...result,
+            {
+                role: 'tool',
+                content: pending.map(({ toolCallId, toolName }) => ({
+                    type: 'tool-result' as const,
+                    toolCallId,
+                    toolName,
+                    output: { type: 'error-text' as const, value: INTERRUPTED_TOOL_OUTPUT },
+                })),
+                metadata: { is_interrupted: true, timestamp },
+            },
+        ];
+    }
+
+    const lastMessage = result[result.length - 1];
+    if (
+        lastMessage !== undefined &&
+        lastMessage.role === 'assistant' &&
+        typeof lastMessage.content === 'string' &&
+        lastMessage.metadata?.is_error !== true
+    ) {
+        return [
+            ...result.slice(0, -1),
+            {
+                ...lastMessage,
+                metadata: { ...lastMessage.metadata, is_interrupted: true },
+            },
+        ];
+    }
+
+    return [
+        ...result,
+        {
+            role: 'assistant',
+            content: INTERRUPTED_MESSAGE_TEXT,
+            metadata: { is_interrupted: true, timestamp },
+        },
+    ];
+}
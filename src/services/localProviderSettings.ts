@@ -0,0 +1,57 @@
+import * as vscode from 'vscode';
+import {
+    DEFAULT_LOCAL_BASE_URL,
+    remoteEndpointWarning,
+    type LocalModelCapabilities,
+} from '../providers/openAICompatibleProvider';
+
+export const LOCAL_PROVIDER_SECTION = 'securedesign.localProvider';
+
+export interface LocalProviderSettings extends LocalModelCapabilities {
+    baseUrl: string;
+    // When set, requests go to this model on the local endpoint instead of the picked model
+    model: string | undefined;
+}
+
+export function readLocalProviderSettings(): LocalProviderSettings {
+    const config = vscode.workspace.getConfiguration(LOCAL_PROVIDER_SECTION);
+    const baseUrl = config.get<string>('baseUrl')?.trim();
+    const model = config.get<string>('model')?.trim();
+    return {
+        baseUrl: baseUrl !== undefined && baseUrl.length > 0 ? baseUrl : DEFAULT_LOCAL_BASE_URL,
+        model: model !== undefined && model.length > 0 ? model : undefined,
+        supportsTools: config.get<boolean>('supportsTools') ?? true,
+        supportsVision: config.get<boolean>('supportsVision') ?? false,
+    };
+}
+
+// Endpoints the user agreed to send requests to in this window
+const confirmedEndpoints = new Set<string>();
+
+/**
+ * Ask before the first request to a local model leaves this machine. The settings can come from
+ * the workspace, so a cloned repository can't quietly send prompts and designs elsewhere.
+ * Throws when the user doesn't confirm.
+ */
+export async function confirmRemoteEndpoint(baseUrl: string): Promise<void> {
+    const warning = remoteEndpointWarning(baseUrl);
+    if (warning === undefined || confirmedEndpoints.has(baseUrl)) {
+        return;
+    }
+    const send = 'Send';
+    const configure = 'Configure Local Model';
+    const choice = await vscode.window.showWarningMessage(
+        `${warning}. Send this request?`,
+        { modal: true },
+        send,
+        configure
+    );
+    if (choice === send) {
+        confirmedEndpoints.add(baseUrl);
+        return;
+    }
+    if (choice === configure) {
+        void vscode.commands.executeCommand('securedesign.configureLocalProvider');
+    }
+    throw new Error(`Not sent: requests to ${baseUrl} were not confirmed`);
+}
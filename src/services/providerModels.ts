@@ -0,0 +1,61 @@
+import type { LanguageModelV2 } from '@ai-sdk/provider';
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { createGoogleGenerativeAI } from '@ai-sdk/google';
+import { createOpenAI } from '@ai-sdk/openai';
+import { ollama } from 'ollama-ai-provider-v2';
+import { createLocalModel, DEFAULT_LOCAL_BASE_URL } from '../providers/openAICompatibleProvider';
+
+/**
+ * Providers that settings and profiles can name a model from, e.g. "openai:gpt-4.1". Keyed
+ * providers use the API key saved in the chat's model picker, and without one their SDK reads
+ * the provider's standard API key variable. "local" models are served by the OpenAI-compatible
+ * endpoint in the localProvider settings and need no key.
+ */
+export const MODEL_PROVIDERS = ['anthropic', 'openai', 'google', 'ollama', 'local'] as const;
+
+export type ModelProvider = (typeof MODEL_PROVIDERS)[number];
+
+const PROVIDER_MODELS: Record<
+    Exclude<ModelProvider, 'local'>,
+    (modelId: string, apiKey: string | undefined) => LanguageModelV2
+> = {
+    anthropic: (modelId, apiKey) => createAnthropic({ apiKey })(modelId),
+    openai: (modelId, apiKey) => createOpenAI({ apiKey })(modelId),
+    google: (modelId, apiKey) => createGoogleGenerativeAI({ apiKey })(modelId),
+    ollama: modelId => ollama(modelId),
+};
+
+/**
+ * Parse a "provider:model" entry. Only the first colon separates the provider, so Ollama tags
+ * such as "ollama:llama3.1:8b" keep theirs.
+ */
+export function parseModelEntry(
+    entry: string
+): { provider: ModelProvider; modelId: string } | undefined {
+    const separator = entry.indexOf(':');
+    if (separator <= 0) {
+        return undefined;
+    }
+    const provider = entry.slice(0, separator).trim().toLowerCase();
+    const modelId = entry.slice(separator + 1).trim();
+    if (modelId.length === 0 || !(MODEL_PROVIDERS as readonly string[]).includes(provider)) {
+        return undefined;
+    }
+    return { provider: provider as ModelProvider, modelId };
+}
+
+export interface ProviderModelOptions {
+    localBaseUrl?: string;
+    // The key saved in the model picker; the provider's environment variable when unset
+    apiKey?: string;
+}
+
+export function createProviderModel(
+    provider: ModelProvider,
+    modelId: string,
+    { localBaseUrl = DEFAULT_LOCAL_BASE_URL, apiKey }: ProviderModelOptions = {}
+): LanguageModelV2 {
+    return provider === 'local'
+        ? createLocalModel(modelId, localBaseUrl)
+        : PROVIDER_MODELS[provider](modelId, apiKey);
+}
@@ -0,0 +1,72 @@
+import type { ReasoningPart } from '@ai-sdk/provider-utils';
+import type { ChatMessage } from '../types/chatMessage';
+
+type ProviderMetadata = NonNullable<ReasoningPart['providerOptions']>;
+
+/**
+ * Merge provider metadata per provider. Anthropic sends the thinking signature at the end of
+ * the block, and it has to be sent back with the reasoning on the next request.
+ */
+function mergeProviderMetadata(
+    current: ProviderMetadata | undefined,
+    update: ProviderMetadata | undefined
+): ProviderMetadata | undefined {
+    if (update === undefined) {
+        return current;
+    }
+    const merged: ProviderMetadata = { ...current };
+    for (const [provider, values] of Object.entries(update)) {
+        merged[provider] = { ...merged[provider], ...values };
+    }
+    return merged;
+}
+
+export function createReasoningMessage(providerMetadata?: ProviderMetadata): ChatMessage {
+    return {
+        role: 'assistant',
+        content: [
+            {
+                type: 'reasoning',
+                text: '',
+                ...(providerMetadata !== undefined && { providerOptions: providerMetadata }),
+            },
+        ],
+        metadata: { timestamp: Date.now() },
+    };
+}
+
+/**
+ * Apply a reasoning delta or end chunk to the reasoning message at `index`. The duration is
+ * only known once the block ends.
+ */
+export function updateReasoningMessage(
+    messages: ChatMessage[],
+    index: number,
+    update: { text?: string; providerMetadata?: ProviderMetadata; durationMs?: number }
+): ChatMessage[] {
+    const message = messages.at(index);
+    if (message?.role !== 'assistant' || !Array.isArray(message.content)) {
+        return messages;
+    }
+    const [part] = message.content;
+    if (part?.type !== 'reasoning') {
+        return messages;
+    }
+
+    const providerOptions = mergeProviderMetadata(part.providerOptions, update.providerMetadata);
+    const updatedPart: ReasoningPart = {
+        ...part,
+        text: part.text + (update.text ?? ''),
+        ...(providerOptions !== undefined && { providerOptions }),
+    };
+    const updated = [...messages];
+    updated[index] = {
+        ...message,
+        content: [updatedPart],
+        metadata:
+            update.durationMs !== undefined
+                ? { ...message.metadata, reasoning_duration_ms: update.durationMs }
+                : message.metadata,
+    };
+    return updated;
+}
@@ -1,5 +1,10 @@
 import type * as vscode from 'vscode';
-import { assertRecordStringString, type StorageAdapter } from 'ai-sdk-react-model-picker';
+import {
+    assertRecordStringString,
+    getProviderConfiguration,
+    type ProviderId,
+    type StorageAdapter,
+} from 'ai-sdk-react-model-picker';
 
 export class SecureStorageService implements StorageAdapter {
     constructor(private readonly secrets: vscode.SecretStorage) {}
@@ -23,4 +28,12 @@ export class SecureStorageService implements StorageAdapter {
     remove(key: string): PromiseLike<void> {
         return this.secrets.delete(key);
     }
+    /**
+     * The API key saved for a provider through the model picker
+     */
+    async getApiKey(providerId: string): Promise<string | undefined> {
+        const config = await getProviderConfiguration(this, providerId as ProviderId);
+        const apiKey = config?.apiKey?.trim();
+        return apiKey !== undefined && apiKey.length > 0 ? apiKey : undefined;
+    }
 }
@@ -0,0 +1,430 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type TokenExportFormat = 'dtcg' | 'tailwind' | 'style-dictionary';
+
+export const TOKENS_DIR = 'tokens';
+
+type TokenGroup =
+    | 'color'
+    | 'fontFamily'
+    | 'radius'
+    | 'spacing'
+    | 'shadow'
+    | 'letterSpacing'
+    | 'other';
+
+interface ThemeToken {
+    group: TokenGroup;
+    key: string;
+    variable: string;
+    value: string;
+    darkValue?: string;
+}
+
+interface ShadowLayer {
+    color: string;
+    offsetX: string;
+    offsetY: string;
+    blur: string;
+    spread: string;
+    inset?: boolean;
+}
+
+// DTCG `$type` for each group; groups without one carry untyped string values
+const DTCG_TYPES: Partial<Record<TokenGroup, string>> = {
+    color: 'color',
+    fontFamily: 'fontFamily',
+    radius: 'dimension',
+    spacing: 'dimension',
+    shadow: 'shadow',
+    letterSpacing: 'dimension',
+};
+
+const TAILWIND_KEYS: Record<TokenGroup, string | undefined> = {
+    color: 'colors',
+    fontFamily: 'fontFamily',
+    radius: 'borderRadius',
+    spacing: 'spacing',
+    shadow: 'boxShadow',
+    letterSpacing: 'letterSpacing',
+    other: undefined,
+};
+
+// Tailwind's default spacing steps, generated from the theme's base `--spacing` unit
+const SPACING_STEPS = [
+    0.5, 1, 1.5, 2, 2.5, 3, 3.5, 4, 5, 6, 7, 8, 9, 10, 11, 12, 14, 16, 20, 24, 28, 32, 36, 40, 44,
+    48, 52, 56, 60, 64, 72, 80, 96,
+];
+
+const COLOR_VALUE = /^(#[0-9a-f]{3,8}\b|(rgba?|hsla?|oklch|oklab|lab|lch|hwb|color)\()/i;
+const SHADOW_SCALE = /^shadow(-(2xs|xs|sm|md|lg|xl|2xl))?$/;
+const DIMENSION = /^-?(\d+\.?\d*|\.\d+)(px|rem|em)$/;
+
+function readBlock(css: string, selector: RegExp): Record<string, string> {
+    const match = selector.exec(css);
+    const variables: Record<string, string> = {};
+    if (!match) {
+        return variables;
+    }
+    for (const declaration of match[1].matchAll(/(--[\w-]+)\s*:\s*([^;]+);/g)) {
+        variables[declaration[1]] = declaration[2].trim();
+    }
+    return variables;
+}
+
+function classify(variable: string, value: string): { group: TokenGroup; key: string } {
+    const name = variable.slice(2);
+    const suffix = (prefix: string) => name.slice(prefix.length + 1) || 'base';
+
+    if (name.startsWith('font-') && !DIMENSION.test(value) && !/^\d+$/.test(value)) {
+        return { group: 'fontFamily', key: suffix('font') };
+    }
+    if (name === 'radius' || name.startsWith('radius-')) {
+        return { group: 'radius', key: suffix('radius') };
+    }
+    if (name === 'spacing' || name.startsWith('spacing-')) {
+        return { group: 'spacing', key: suffix('spacing') };
+    }
+    if (SHADOW_SCALE.test(name)) {
+        return { group: 'shadow', key: suffix('shadow') };
+    }
+    if (name === 'letter-spacing' || name.startsWith('tracking-')) {
+        return {
+            group: 'letterSpacing',
+            key: name === 'letter-spacing' ? 'base' : suffix('tracking'),
+        };
+    }
+    if (COLOR_VALUE.test(value)) {
+        return { group: 'color', key: name };
+    }
+    return { group: 'other', key: name };
+}
+
+/**
+ * Read the custom properties of a generated theme. Light values come from `:root`; a `.dark`
+ * block, when present, supplies dark mode values for the same variables.
+ */
+export function parseThemeTokens(css: string): ThemeToken[] {
+    const light = readBlock(css, /:root\s*\{([^}]*)\}/);
+    const dark = readBlock(css, /\.dark\s*\{([^}]*)\}/);
+    if (Object.keys(light).length === 0) {
+        throw new Error('No :root custom properties found in theme CSS');
+    }
+    const tokens: ThemeToken[] = Object.entries(light).map(([variable, value]) => ({
+        ...classify(variable, value),
+        variable,
+        value,
+        darkValue: dark[variable],
+    }));
+    // A plain reference such as `--sidebar-primary: var(--primary)` takes the referenced colour's group
+    for (const token of tokens) {
+        const target = token.group === 'other' ? findAlias(token.value, tokens) : undefined;
+        if (target?.group === 'color') {
+            token.group = 'color';
+        }
+    }
+    return tokens;
+}
+
+function splitTopLevel(value: string, separator: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const char of value) {
+        if (char === '(') {
+            depth++;
+        } else if (char === ')') {
+            depth--;
+        }
+        if (char === separator && depth === 0) {
+            parts.push(current.trim());
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    if (current.trim() !== '') {
+        parts.push(current.trim());
+    }
+    return parts;
+}
+
+/**
+ * Parse a box-shadow into layers. Returns undefined when a layer isn't in the
+ * `[inset] x y [blur [spread]] color` form.
+ */
+export function parseShadow(value: string): ShadowLayer[] | undefined {
+    const layers: ShadowLayer[] = [];
+    for (const layer of splitTopLevel(value, ',')) {
+        const parts = splitTopLevel(layer, ' ');
+        const inset = parts[0] === 'inset';
+        const rest = inset ? parts.slice(1) : parts;
+        const lengths: string[] = [];
+        while (rest.length > 0 && /^-?(\d+\.?\d*|\.\d+)([a-z%]*)$/.test(rest[0])) {
+            lengths.push(rest.shift() as string);
+        }
+        if (lengths.length < 2 || lengths.length > 4 || rest.length !== 1) {
+            return undefined;
+        }
+        const [offsetX, offsetY, blur = '0px', spread = '0px'] = lengths.map(length =>
+            /^-?0$/.test(length) ? '0px' : length
+        );
+        layers.push({ color: rest[0], offsetX, offsetY, blur, spread, ...(inset && { inset }) });
+    }
+    return layers.length > 0 ? layers : undefined;
+}
+
+function fontStack(value: string): string[] {
+    return splitTopLevel(value, ',').map(font => font.replace(/^['"]|['"]$/g, ''));
+}
+
+/**
+ * Replace `var(--x)` references with the referenced values so the result stands alone
+ */
+function resolveVariables(value: string, variables: Map<string, string>, depth = 0): string {
+    if (depth > 10) {
+        return value;
+    }
+    return value.replace(
+        /var\((--[\w-]+)(?:\s*,\s*([^)]*))?\)/g,
+        (match, name: string, fallback?: string) => {
+            const resolved = variables.get(name) ?? fallback;
+            return resolved === undefined
+                ? match
+                : resolveVariables(resolved, variables, depth + 1);
+        }
+    );
+}
+
+function findAlias(value: string, tokens: ThemeToken[]): ThemeToken | undefined {
+    const match = /^var\((--[\w-]+)\)$/.exec(value);
+    return match ? tokens.find(token => token.variable === match[1]) : undefined;
+}
+
+function groupTokens(tokens: ThemeToken[]): Map<TokenGroup, ThemeToken[]> {
+    const groups = new Map<TokenGroup, ThemeToken[]>();
+    for (const token of tokens) {
+        groups.set(token.group, [...(groups.get(token.group) ?? []), token]);
+    }
+    return groups;
+}
+
+function dtcgValue(token: ThemeToken, value: string, tokens: ThemeToken[]): unknown {
+    const alias = findAlias(value, tokens);
+    if (alias) {
+        return `{${alias.group}.${alias.key}}`;
+    }
+    if (token.group === 'fontFamily') {
+        return fontStack(value);
+    }
+    if (token.group === 'shadow') {
+        const layers = parseShadow(value);
+        return layers?.length === 1 ? layers[0] : layers;
+    }
+    return value;
+}
+
+function isValidForType(token: ThemeToken, value: unknown): boolean {
+    if (typeof value === 'string' && value.startsWith('{')) {
+        return true;
+    }
+    const type = DTCG_TYPES[token.group];
+    if (type === 'dimension') {
+        return typeof value === 'string' && DIMENSION.test(value);
+    }
+    return type !== 'shadow' || value !== undefined;
+}
+
+/**
+ * W3C Design Tokens Community Group format. Values use the string forms of the draft
+ * format that Style Dictionary and Tokens Studio read; dark mode values go in `$extensions`.
+ */
+export function toDtcgTokens(tokens: ThemeToken[]): Record<string, unknown> {
+    const result: Record<string, Record<string, unknown>> = {};
+    for (const [group, members] of groupTokens(tokens)) {
+        const entries: Record<string, unknown> = {};
+        const type = DTCG_TYPES[group];
+        if (type !== undefined) {
+            entries.$type = type;
+        }
+        for (const token of members) {
+            const value = dtcgValue(token, token.value, tokens);
+            const entry: Record<string, unknown> = {
+                $value: value ?? token.value,
+            };
+            // Values the type can't describe (e.g. calc()) are kept as untyped strings
+            if (type !== undefined && !isValidForType(token, value)) {
+                entry.$type = 'string';
+            }
+            if (token.darkValue !== undefined && token.darkValue !== token.value) {
+                entry.$extensions = {
+                    'com.securedesign.modes': { dark: dtcgValue(token, token.darkValue, tokens) },
+                };
+            }
+            entry.$description = token.variable;
+            entries[token.key] = entry;
+        }
+        result[group] = entries;
+    }
+    return result;
+}
+
+function spacingScale(base: string): Record<string, string> {
+    const match = /^(\d+\.?\d*|\.\d+)(px|rem|em)$/.exec(base);
+    if (!match) {
+        return {};
+    }
+    const unit = Number(match[1]);
+    return Object.fromEntries(
+        SPACING_STEPS.map(step => [String(step), `${Number((unit * step).toFixed(4))}${match[2]}`])
+    );
+}
+
+/**
+ * Object for `theme.extend` in a Tailwind config. References are resolved to literal values
+ * and colours sharing a prefix are nested, e.g. `primary` and `primary-foreground` become
+ * `primary: { DEFAULT, foreground }`.
+ */
+export function toTailwindTheme(tokens: ThemeToken[]): Record<string, Record<string, unknown>> {
+    const variables = new Map(tokens.map(token => [token.variable, token.value]));
+    const theme: Record<string, Record<string, unknown>> = {};
+
+    for (const [group, members] of groupTokens(tokens)) {
+        const key = TAILWIND_KEYS[group];
+        if (key === undefined) {
+            continue;
+        }
+        const section: Record<string, unknown> = {};
+        // Shortest first, so `sidebar-primary-foreground` nests under `sidebar`
+        const names = members.map(token => token.key).sort((a, b) => a.length - b.length);
+        for (const token of members) {
+            const value = resolveVariables(token.value, variables);
+            const tailwindKey = token.key === 'base' ? 'DEFAULT' : token.key;
+            if (group === 'fontFamily') {
+                section[tailwindKey] = fontStack(value);
+            } else if (group === 'color') {
+                const parent = names.find(
+                    name => name !== token.key && token.key.startsWith(`${name}-`)
+                );
+                if (parent !== undefined) {
+                    const nested = (section[parent] ??= {}) as Record<string, string>;
+                    nested[token.key.slice(parent.length + 1)] = value;
+                } else if (names.some(name => name.startsWith(`${token.key}-`))) {
+                    const nested = (section[token.key] ??= {}) as Record<string, string>;
+                    nested.DEFAULT = value;
+                } else {
+                    section[tailwindKey] = value;
+                }
+            } else {
+                section[tailwindKey] = value;
+                if (group === 'spacing' && token.key === 'base') {
+                    Object.assign(section, spacingScale(value));
+                }
+            }
+        }
+        theme[key] = section;
+    }
+    return theme;
+}
+
+function toStyleDictionaryGroup(
+    tokens: ThemeToken[],
+    valueOf: (token: ThemeToken) => string | undefined
+): Record<string, Record<string, unknown>> {
+    const result: Record<string, Record<string, unknown>> = {};
+    for (const token of tokens) {
+        const raw = valueOf(token);
+        if (raw === undefined) {
+            continue;
+        }
+        const alias = findAlias(raw, tokens);
+        const value =
+            alias !== undefined
+                ? `{${alias.group}.${alias.key}.value}`
+                : token.group === 'shadow'
+                  ? (parseShadow(raw) ?? raw)
+                  : token.group === 'fontFamily'
+                    ? fontStack(raw)
+                    : raw;
+        (result[token.group] ??= {})[token.key] = {
+            value,
+            type: DTCG_TYPES[token.group] ?? 'other',
+            comment: token.variable,
+        };
+    }
+    return result;
+}
+
+/**
+ * Style Dictionary source files: one with the light values and, when the theme has a `.dark`
+ * block, an override file with the dark values to layer on top in a dark build
+ */
+export function toStyleDictionary(tokens: ThemeToken[]): {
+    light: Record<string, unknown>;
+    dark?: Record<string, unknown>;
+} {
+    const hasDark = tokens.some(token => token.darkValue !== undefined);
+    return {
+        light: toStyleDictionaryGroup(tokens, token => token.value),
+        ...(hasDark && {
+            dark: toStyleDictionaryGroup(tokens, token =>
+                token.darkValue !== token.value ? token.darkValue : undefined
+            ),
+        }),
+    };
+}
+
+/**
+ * Convert a theme CSS file into the requested formats and write them to
+ * `<workingDirectory>/tokens`. Returns the written paths.
+ */
+export async function writeTokenExports(
+    workingDirectory: string,
+    themeName: string,
+    css: string,
+    formats: TokenExportFormat[]
+): Promise<string[]> {
+    const tokens = parseThemeTokens(css);
+    const outputDir = path.join(workingDirectory, TOKENS_DIR);
+    await fs.promises.mkdir(outputDir, { recursive: true });
+
+    const files: Array<[string, string]> = [];
+    for (const format of formats) {
+        switch (format) {
+            case 'dtcg':
+                files.push([
+                    `${themeName}.tokens.json`,
+                    JSON.stringify(toDtcgTokens(tokens), null, 2),
+                ]);
+                break;
+            case 'tailwind':
+                files.push([
+                    `${themeName}.tailwind.js`,
+                    `// Tailwind theme extension generated from ${themeName}.css\n` +
+                        `// Usage in tailwind.config.js: theme: { extend: require('./${themeName}.tailwind.js') }\n` +
+                        `module.exports = ${JSON.stringify(toTailwindTheme(tokens), null, 2)};`,
+                ]);
+                break;
+            case 'style-dictionary': {
+                const { light, dark } = toStyleDictionary(tokens);
+                files.push([`${themeName}.style-dictionary.json`, JSON.stringify(light, null, 2)]);
+                if (dark !== undefined) {
+                    files.push([
+                        `${themeName}.style-dictionary.dark.json`,
+                        JSON.stringify(dark, null, 2),
+                    ]);
+                }
+                break;
+            }
+        }
+    }
+
+    const paths: string[] = [];
+    for (const [fileName, content] of files) {
+        const filePath = path.join(outputDir, fileName);
+        await fs.promises.writeFile(filePath, `${content}\n`, 'utf8');
+        paths.push(filePath);
+    }
+    return paths;
+}
@@ -0,0 +1,162 @@
+import { randomUUID } from 'crypto';
+import * as vscode from 'vscode';
+import type { ToolSet } from 'ai';
+import { getLogger } from 'react-vscode-webview-ipc/host';
+import type { EventTrigger } from '../chat/ChatController';
+import type { ExecutionContext } from '../types/agent';
+import {
+    GATED_TOOL_NAMES,
+    type GatedToolName,
+    type ToolApprovalRequest,
+    type ToolPermission,
+} from '../types/toolApproval';
+import { buildApprovalPreview } from '../tools/approval-preview';
+import { handleToolError } from '../tools/tool-utils';
+
+const PERMISSIONS_SECTION = 'securedesign.toolPermissions';
+
+// Stricter permissions rank higher
+const PERMISSION_RANK: Record<ToolPermission, number> = { allow: 0, ask: 1, deny: 2 };
+
+function isGatedTool(toolName: string): toolName is GatedToolName {
+    return (GATED_TOOL_NAMES as readonly string[]).includes(toolName);
+}
+
+interface PendingApproval {
+    request: ToolApprovalRequest;
+    resolve: (approved: boolean) => void;
+}
+
+/**
+ * Applies the per-tool permission settings to the agent's tools. Calls to tools set to "ask"
+ * wait until the user approves or rejects them in the chat view, which pauses the stream.
+ */
+export class ToolApprovalService {
+    private readonly pending = new Map<string, PendingApproval>();
+    private readonly logger = getLogger('ToolApprovalService');
+
+    constructor(private readonly eventTrigger: EventTrigger) {}
+
+    getPermission(toolName: string): ToolPermission {
+        if (!isGatedTool(toolName)) {
+            return 'allow';
+        }
+        const setting = vscode.workspace
+            .getConfiguration(PERMISSIONS_SECTION)
+            .inspect<ToolPermission>(toolName);
+        // A workspace's settings ship with the repository, so they can only tighten the user's
+        const userPermission = setting?.globalValue ?? setting?.defaultValue ?? 'ask';
+        return [setting?.workspaceValue, setting?.workspaceFolderValue].reduce<ToolPermission>(
+            (strictest, permission) =>
+                permission !== undefined && PERMISSION_RANK[permission] > PERMISSION_RANK[strictest]
+                    ? permission
+                    : strictest,
+            userPermission
+        );
+    }
+
+    /**
+     * Drop denied tools and wrap "ask" tools so they wait for the user's decision
+     */
+    applyPermissions(tools: ToolSet, context: ExecutionContext): ToolSet {
+        const gated: ToolSet = {};
+        for (const [toolName, tool] of Object.entries(tools)) {
+            const permission = this.getPermission(toolName);
+            if (permission === 'deny') {
+                this.logger.info(`Tool disabled by settings: ${toolName}`);
+                continue;
+            }
+            const { execute } = tool;
+            if (permission === 'allow' || execute === undefined || !isGatedTool(toolName)) {
+                gated[toolName] = tool;
+                continue;
+            }
+            gated[toolName] = {
+                ...tool,
+                execute: async (input, options) => {
+                    const approved = await this.requestApproval(
+                        toolName,
+                        options.toolCallId,
+                        input as Record<string, unknown>,
+                        context
+                    );
+                    if (!approved) {
+                        return handleToolError(
+                            `The user rejected this ${toolName} call. Do not retry it unchanged; ask the user how to proceed.`,
+                            'Tool approval',
+                            'permission'
+                        );
+                    }
+                    return execute(input, options);
+                },
+            };
+        }
+        return gated;
+    }
+
+    getPendingRequests(): ToolApprovalRequest[] {
+        return Array.from(this.pending.values(), ({ request }) => request);
+    }
+
+    respond(requestId: string, approved: boolean): void {
+        const entry = this.pending.get(requestId);
+        if (entry === undefined) {
+            this.logger.warn(`No pending tool approval with id ${requestId}`);
+            return;
+        }
+        this.logger.info(`Tool ${entry.request.toolName} ${approved ? 'approved' : 'rejected'}`);
+        this.settle(requestId, approved);
+    }
+
+    dispose(): void {
+        for (const requestId of Array.from(this.pending.keys())) {
+            this.settle(requestId, false);
+        }
+    }
+
+    private async requestApproval(
+        toolName: GatedToolName,
+        toolCallId: string,
+        input: Record<string, unknown>,
+        context: ExecutionContext
+    ): Promise<boolean> {
+        const signal = context.abortController?.signal;
+        if (signal?.aborted === true) {
+            return false;
+        }
+
+        const request: ToolApprovalRequest = {
+            id: randomUUID(),
+            toolCallId,
+            toolName,
+            preview: buildApprovalPreview(toolName, input, context),
+            createdAt: Date.now(),
+        };
+
+        return new Promise<boolean>(resolve => {
+            // Stopping the chat rejects anything still waiting for a decision
+            const onAbort = () => this.settle(request.id, false);
+            signal?.addEventListener('abort', onAbort, { once: true });
+
+            this.pending.set(request.id, {
+                request,
+                resolve: approved => {
+                    signal?.removeEventListener('abort', onAbort);
+                    resolve(approved);
+                },
+            });
+            this.logger.info(`Waiting for approval of ${toolName} call`, { id: request.id });
+            this.eventTrigger.triggerEvent('toolApprovalRequested', request);
+        });
+    }
+
+    private settle(requestId: string, approved: boolean): void {
+        const entry = this.pending.get(requestId);
+        if (entry === undefined) {
+            return;
+        }
+        this.pending.delete(requestId);
+        entry.resolve(approved);
+        this.eventTrigger.triggerEvent('toolApprovalResolved', requestId, approved);
+    }
+}
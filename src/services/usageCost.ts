@@ -0,0 +1,160 @@
+import type { ChatMessage, MessageMetadata } from '../types/chatMessage';
+
+/**
+ * Token prices in USD per million tokens. Cached input falls back to the input price for
+ * providers that don't discount prompt cache reads.
+ */
+export interface ModelPrice {
+    input: number;
+    output: number;
+    cachedInput?: number;
+}
+
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+    cachedInputTokens: number;
+}
+
+/**
+ * Published list prices, keyed by ModelConfig id. Dated or suffixed ids (e.g.
+ * claude-sonnet-4-20250514) resolve to the longest matching key.
+ */
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+    'claude-opus-4-1': { input: 15, output: 75, cachedInput: 1.5 },
+    'claude-opus-4': { input: 15, output: 75, cachedInput: 1.5 },
+    'claude-sonnet-4': { input: 3, output: 15, cachedInput: 0.3 },
+    'claude-3-7-sonnet': { input: 3, output: 15, cachedInput: 0.3 },
+    'claude-3-5-sonnet': { input: 3, output: 15, cachedInput: 0.3 },
+    'claude-3-5-haiku': { input: 0.8, output: 4, cachedInput: 0.08 },
+    'gpt-5': { input: 1.25, output: 10, cachedInput: 0.125 },
+    'gpt-5-mini': { input: 0.25, output: 2, cachedInput: 0.025 },
+    'gpt-5-nano': { input: 0.05, output: 0.4, cachedInput: 0.005 },
+    'gpt-4.1': { input: 2, output: 8, cachedInput: 0.5 },
+    'gpt-4.1-mini': { input: 0.4, output: 1.6, cachedInput: 0.1 },
+    'gpt-4o': { input: 2.5, output: 10, cachedInput: 1.25 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6, cachedInput: 0.075 },
+    o3: { input: 2, output: 8, cachedInput: 0.5 },
+    'o3-mini': { input: 1.1, output: 4.4, cachedInput: 0.55 },
+    'o4-mini': { input: 1.1, output: 4.4, cachedInput: 0.275 },
+    'gemini-2.5-pro': { input: 1.25, output: 10, cachedInput: 0.31 },
+    'gemini-2.5-flash': { input: 0.3, output: 2.5, cachedInput: 0.075 },
+    'kimi-k2': { input: 0.6, output: 2.5, cachedInput: 0.15 },
+};
+
+/**
+ * Strip routing prefixes so OpenRouter ids (anthropic/claude-sonnet-4) and Bedrock ids
+ * (us.anthropic.claude-sonnet-4-20250514-v1:0) match the plain model id
+ */
+function normalizeModelId(modelId: string): string {
+    const name = modelId.split('/').pop() ?? modelId;
+    return name.toLowerCase().replace(/^(?:[a-z]{2}\.)?[a-z]+\.(?=[a-z])/, '');
+}
+
+/**
+ * Find the entry for a model id in a table keyed by ModelConfig id. Exact matches win, then
+ * the longest key the id starts with, so dated and suffixed ids share their base entry.
+ */
+export function findModelEntry<T>(table: Record<string, T>, modelId: string): T | undefined {
+    if (table[modelId] !== undefined) {
+        return table[modelId];
+    }
+    const normalized = normalizeModelId(modelId);
+    let best: string | undefined;
+    for (const key of Object.keys(table)) {
+        const candidate = key.toLowerCase();
+        const matches =
+            normalized === candidate ||
+            (normalized.startsWith(candidate) && /^[-:@]/.test(normalized.slice(candidate.length)));
+        if (matches && (best === undefined || key.length > best.length)) {
+            best = key;
+        }
+    }
+    return best !== undefined ? table[best] : undefined;
+}
+
+/**
+ * Look up the price for a model, preferring user overrides. Returns undefined for models
+ * with no known price so callers can record tokens without inventing a cost.
+ */
+export function findModelPrice(
+    modelId: string,
+    overrides: Record<string, ModelPrice> = {}
+): ModelPrice | undefined {
+    return findModelEntry({ ...MODEL_PRICES, ...overrides }, modelId);
+}
+
+export function computeCost(usage: TokenUsage, price: ModelPrice): number {
+    const cached = Math.min(usage.cachedInputTokens, usage.inputTokens);
+    const uncached = usage.inputTokens - cached;
+    return (
+        (uncached * price.input +
+            cached * (price.cachedInput ?? price.input) +
+            usage.outputTokens * price.output) /
+        1_000_000
+    );
+}
+
+/**
+ * Record a finished agent step: every message it produced is tagged with the step number, and
+ * its usage goes on the last assistant message. Each step is attributed to exactly one message,
+ * so summing over a session never double counts.
+ */
+export function attachStepUsage(
+    messages: ChatMessage[],
+    fromIndex: number,
+    usage: TokenUsage,
+    details: {
+        step: number;
+        finishReason?: string;
+        contextWindow?: number;
+        modelId: string;
+        price?: ModelPrice;
+        startTime: number;
+        endTime: number;
+    }
+): ChatMessage[] {
+    let target = -1;
+    for (let i = messages.length - 1; i >= fromIndex; i--) {
+        if (messages[i].role === 'assistant') {
+            target = i;
+            break;
+        }
+    }
+    if (target === -1) {
+        return messages;
+    }
+
+    return messages.map((message, index) => {
+        if (index < fromIndex) {
+            return message;
+        }
+        const metadata: MessageMetadata =
+            index === target
+                ? {
+                      ...message.metadata,
+                      step: details.step,
+                      finish_reason: details.finishReason,
+                      context_window: details.contextWindow,
+                      model_id: details.modelId,
+                      start_time: details.startTime,
+                      end_time: details.endTime,
+                      input_tokens: usage.inputTokens,
+                      output_tokens: usage.outputTokens,
+                      cached_input_tokens: usage.cachedInputTokens,
+                      total_cost_usd:
+                          details.price !== undefined
+                              ? computeCost(usage, details.price)
+                              : undefined,
+                  }
+                : { ...message.metadata, step: details.step };
+        return { ...message, metadata } as ChatMessage;
+    });
+}
+
+/**
+ * Month bucket used for the workspace spend cap, e.g. "2025-07"
+ */
+export function spendMonth(date: Date = new Date()): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
@@ -0,0 +1,19 @@
+import * as vscode from 'vscode';
+import type { ModelPrice } from './usageCost';
+
+const USAGE_SECTION = 'securedesign.usage';
+
+export interface UsageSettings {
+    // Per-model price overrides, merged over the built-in table
+    modelPrices: Record<string, ModelPrice>;
+    // 0 disables the cap
+    monthlySpendCapUsd: number;
+}
+
+export function readUsageSettings(): UsageSettings {
+    const config = vscode.workspace.getConfiguration(USAGE_SECTION);
+    return {
+        modelPrices: config.get<Record<string, ModelPrice>>('modelPrices') ?? {},
+        monthlySpendCapUsd: config.get<number>('monthlySpendCapUsd') ?? 0,
+    };
+}
@@ -0,0 +1,20 @@
+import * as vscode from 'vscode';
+
+const VARIANTS_SECTION = 'securedesign.variants';
+
+// Each variant is a separate model request, so runs are kept small
+const MAX_VARIANTS = 8;
+
+export interface VariantSettings {
+    count: number;
+    // "provider:model" entries; empty uses the model selected in the chat
+    models: string[];
+}
+
+export function readVariantSettings(): VariantSettings {
+    const config = vscode.workspace.getConfiguration(VARIANTS_SECTION);
+    return {
+        count: Math.min(MAX_VARIANTS, Math.max(1, config.get<number>('count') ?? 4)),
+        models: config.get<string[]>('models') ?? [],
+    };
+}
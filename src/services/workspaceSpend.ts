@@ -0,0 +1,43 @@
+import type { WorkspaceStateService } from './workspaceStateService';
+import { spendMonth } from './usageCost';
+
+const SPEND_KEY = 'securedesign.usage.monthlySpend';
+
+/**
+ * Running model spend for the current workspace, bucketed by calendar month
+ */
+export class WorkspaceSpendTracker {
+    constructor(private readonly workspaceState: WorkspaceStateService) {}
+
+    getMonthlySpend(date: Date = new Date()): number {
+        return this.read()[spendMonth(date)] ?? 0;
+    }
+
+    /**
+     * Returns a message when this month's spend has reached the cap. A cap of 0 means no cap.
+     */
+    getCapMessage(cap: number, date: Date = new Date()): string | undefined {
+        if (cap <= 0) {
+            return undefined;
+        }
+        const spent = this.getMonthlySpend(date);
+        if (spent < cap) {
+            return undefined;
+        }
+        return `This workspace has spent $${spent.toFixed(2)} on model usage this month, reaching its $${cap.toFixed(2)} spend cap. Raise securedesign.usage.monthlySpendCapUsd to send more requests.`;
+    }
+
+    async record(costUsd: number, date: Date = new Date()): Promise<void> {
+        if (!(costUsd > 0)) {
+            return;
+        }
+        const spend = this.read();
+        const month = spendMonth(date);
+        spend[month] = (spend[month] ?? 0) + costUsd;
+        await this.workspaceState.update(SPEND_KEY, spend);
+    }
+
+    private read(): Record<string, number> {
+        return { ...this.workspaceState.get<Record<string, number>>(SPEND_KEY) };
+    }
+}
@@ -0,0 +1,130 @@
+import * as assert from 'assert';
+import {
+    createProfileTemplate,
+    DEFAULT_PROFILE,
+    filterProfileTools,
+    parseAgentProfile,
+    parseFrontMatter,
+    toProfileSummary,
+} from '../services/agentProfiles';
+import { buildDesignAgentPrompt, DEFAULT_STYLE_RULES } from '../templates/designAgentPrompt';
+
+function testFrontMatter(): void {
+    const { attributes, body } = parseFrontMatter(
+        [
+            '---',
+            'name: "Marketing site"',
+            '# a comment',
+            'tools: [read, write]',
+            'extra:',
+            '  - one',
+            "  - 'two'",
+            '---',
+            'Use the brand palette.',
+        ].join('\n')
+    );
+    assert.deepStrictEqual(attributes, {
+        name: 'Marketing site',
+        tools: ['read', 'write'],
+        extra: ['one', 'two'],
+    });
+    assert.strictEqual(body, 'Use the brand palette.');
+
+    const plain = parseFrontMatter('No front matter here');
+    assert.deepStrictEqual(plain.attributes, {});
+    assert.strictEqual(plain.body, 'No front matter here');
+    console.log('✓ front matter is split from the profile body');
+}
+
+function testParseProfile(): void {
+    const profile = parseAgentProfile(
+        'marketing',
+        [
+            '---',
+            'name: Marketing',
+            'description: Brand pages',
+            'model: openai:gpt-4.1',
+            'tools: [read, write, generateTheme]',
+            '---',
+            '## Styling',
+            'Use Inter and the brand green.',
+        ].join('\n'),
+        '.superdesign/profiles/marketing.md'
+    );
+    assert.strictEqual(profile.name, 'Marketing');
+    assert.strictEqual(profile.model, 'openai:gpt-4.1');
+    assert.deepStrictEqual(profile.tools, ['read', 'write', 'generateTheme']);
+    assert.strictEqual(profile.styleRules, '## Styling\nUse Inter and the brand green.');
+    assert.deepStrictEqual(profile.warnings, []);
+    assert.strictEqual('styleRules' in toProfileSummary(profile), false);
+    console.log('✓ profiles read model, tools and style rules');
+}
+
+function testProfileWarnings(): void {
+    const profile = parseAgentProfile(
+        'broken',
+        ['---', 'model: gpt-4.1', 'tools: [read, teleport]', 'colour: red', '---', ''].join('\n')
+    );
+    assert.strictEqual(profile.name, 'broken');
+    assert.strictEqual(profile.model, undefined);
+    assert.deepStrictEqual(profile.tools, ['read']);
+    assert.strictEqual(profile.styleRules, DEFAULT_STYLE_RULES, 'empty body keeps built-in rules');
+    assert.strictEqual(profile.warnings.length, 3);
+    assert.ok(profile.warnings.some(w => w.includes('teleport')));
+    assert.ok(profile.warnings.some(w => w.includes('colour')));
+
+    const singleTool = parseAgentProfile('single', '---\ntools: read\n---\nRules');
+    assert.strictEqual(singleTool.tools, undefined);
+    assert.strictEqual(singleTool.warnings.length, 1);
+
+    const template = parseAgentProfile('team', createProfileTemplate('team'));
+    assert.deepStrictEqual(template.warnings, [], 'the template parses cleanly');
+    assert.strictEqual(template.styleRules, DEFAULT_STYLE_RULES.trim());
+    console.log('✓ profile mistakes become warnings and fall back to defaults');
+}
+
+function testToolFilter(): void {
+    const tools = { read: 1, write: 2, bash: 3 };
+    assert.deepStrictEqual(filterProfileTools(tools, DEFAULT_PROFILE), tools);
+    assert.deepStrictEqual(filterProfileTools(tools, { ...DEFAULT_PROFILE, tools: ['read'] }), {
+        read: 1,
+    });
+    assert.deepStrictEqual(filterProfileTools(tools, { ...DEFAULT_PROFILE, tools: [] }), {});
+    console.log('✓ profiles limit the tools the agent is given');
+}
+
+function testPrompt(): void {
+    const prompt = buildDesignAgentPrompt({
+        designFolder: 'design_iterations',
+        styleRules: '## Styling\nHouse style goes here.',
+        workingDirectory: '/work/.superdesign',
+        tools: ['read', 'write', 'lookupDesignSystem'],
+    });
+    assert.ok(prompt.includes('House style goes here.'));
+    assert.ok(!prompt.includes('flowbite'), 'built-in style rules are replaced');
+    assert.ok(prompt.includes('- Working directory: /work/.superdesign'));
+    assert.ok(prompt.includes("write(file_path='design_iterations/chat_ui.html'"));
+    assert.ok(prompt.includes('- **read**:'));
+    assert.ok(!prompt.includes('- **bash**:'), 'tools the agent lacks are not advertised');
+
+    const rules = buildDesignAgentPrompt({
+        designFolder: '.superdesign/design_iterations',
+        styleRules: DEFAULT_STYLE_RULES,
+    });
+    assert.ok(rules.includes("'.superdesign/design_iterations' folder"));
+    assert.ok(rules.includes('flowbite'));
+    assert.ok(!rules.includes('# Current Context'));
+    console.log('✓ the design prompt is assembled from the profile');
+}
+
+function main(): void {
+    console.log('Running agent profile tests...');
+    testFrontMatter();
+    testParseProfile();
+    testProfileWarnings();
+    testToolFilter();
+    testPrompt();
+    console.log('All agent profile tests passed.');
+}
+
+main();
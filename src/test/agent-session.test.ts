@@ -0,0 +1,408 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { ILogger } from 'react-vscode-webview-ipc/host';
+import type { LanguageModelV2CallOptions } from '@ai-sdk/provider';
+import { stepCountIs, streamText } from 'ai';
+import {
+    createReplayModel,
+    parseRecording,
+    recordModel,
+    saveRecording,
+    serializeRecording,
+} from '../services/agentRecording';
+import { createAgentTools, runAgentQuery, type AgentQueryOptions } from '../services/agentQuery';
+import { DEFAULT_PROFILE } from '../services/agentProfiles';
+import { startWorkflow } from '../services/designWorkflow';
+import { STANDARD_POLICY } from '../tools/bash-sandbox';
+import type { AgentRecording } from '../types/agentRecording';
+import type { ChatMessage } from '../types/chatMessage';
+
+// Fixtures stay in the source tree; tests run from dist-test/test
+const FIXTURES = path.join(__dirname, '..', '..', 'src', 'test', 'fixtures', 'agent-sessions');
+
+const silentLogger: ILogger = {
+    debug: () => undefined,
+    info: () => undefined,
+    warn: () => undefined,
+    error: () => undefined,
+    dispose: () => undefined,
+};
+
+function loadFixture(name: string): AgentRecording {
+    return parseRecording(fs.readFileSync(path.join(FIXTURES, `${name}.json`), 'utf8'));
+}
+
+interface ReplayResult {
+    messages: ChatMessage[];
+    // What each model call was sent
+    calls: LanguageModelV2CallOptions[];
+    // The last history reported while the request ran, which is what the chat saves
+    saved: ChatMessage[] | undefined;
+}
+
+/**
+ * Run one agent request against a recording through the same pipeline as
+ * CustomAgentService.query: every built-in tool in a scratch workspace, the profile's system
+ * prompt and tools, and the configured stop conditions
+ */
+async function replaySession(
+    recording: AgentRecording,
+    workspace: string,
+    history: ChatMessage[],
+    overrides: Partial<AgentQueryOptions> = {}
+): Promise<ReplayResult> {
+    const replay = createReplayModel(recording);
+    const calls: LanguageModelV2CallOptions[] = [];
+    let saved: ChatMessage[] | undefined;
+    const messages = await runAgentQuery(
+        history,
+        new AbortController(),
+        updated => {
+            saved = updated;
+        },
+        {
+            model: {
+                ...replay,
+                doStream: options => {
+                    calls.push(options);
+                    return replay.doStream(options);
+                },
+            },
+            profile: DEFAULT_PROFILE,
+            workingDirectory: workspace,
+            sessionId: 'replay',
+            logger: silentLogger,
+            bashPolicy: STANDARD_POLICY,
+            maxDesignSystemChars: 0,
+            loop: { maxSteps: 10, maxDurationSeconds: 0 },
+            context: { maxTokens: 200_000, compactAtPercent: 80 },
+            modelPrices: { 'gpt-4.1': { input: 3, output: 15 } },
+            applyPermissions: tools => tools,
+            now: () => 1000,
+            ...overrides,
+        }
+    );
+    return { messages, calls, saved };
+}
+
+function withWorkspace<T>(run: (workspace: string) => Promise<T>): Promise<T> {
+    const workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-session-'));
+    return run(workspace).finally(() => fs.rmSync(workspace, { recursive: true, force: true }));
+}
+
+async function testToolCallSession(): Promise<void> {
+    await withWorkspace(async workspace => {
+        const prompt: ChatMessage = { role: 'user', content: 'Design a login page' };
+        const { messages, calls, saved } = await replaySession(
+            loadFixture('write-design'),
+            workspace,
+            [prompt]
+        );
+
+        assert.strictEqual(
+            fs.readFileSync(path.join(workspace, 'design_iterations', 'login_1.html'), 'utf8'),
+            '<form>Sign in</form>'
+        );
+        assert.deepStrictEqual(
+            messages.map(message =>
+                typeof message.content === 'string'
+                    ? `${message.role}: ${message.content}`
+                    : `${message.role}: ${message.content.map(part => part.type).join(', ')}`
+            ),
+            [
+                'user: Design a login page',
+                'assistant: reasoning',
+                'assistant: Creating the login page.',
+                'assistant: tool-call',
+                'tool: tool-result',
+                'assistant: tool-call',
+                'tool: tool-result',
+                'assistant: Saved design_iterations/login_1.html.',
+            ]
+        );
+        assert.deepStrictEqual(messages[1].content, [
+            {
+                type: 'reasoning',
+                text: "A login page needs a form. I'll write it, then check it.",
+                providerOptions: { anthropic: { signature: 'sig_1' } },
+            },
+        ]);
+        assert.strictEqual(messages[1].metadata?.reasoning_duration_ms, 0);
+        // The call shown while its input streamed is completed in place, not duplicated
+        assert.deepStrictEqual(messages[3].content, [
+            {
+                type: 'tool-call',
+                toolCallId: 'toolu_write',
+                toolName: 'write',
+                // Parsed against the tool's schema, so defaults are filled in
+                input: {
+                    file_path: 'design_iterations/login_1.html',
+                    content: '<form>Sign in</form>',
+                    create_dirs: true,
+                },
+            },
+        ]);
+        const readResult = messages[6].content[0];
+        assert.ok(typeof readResult !== 'string' && readResult.type === 'tool-result');
+        assert.ok(JSON.stringify(readResult.output).includes('Sign in'));
+
+        assert.strictEqual(calls.length, 3);
+        assert.deepStrictEqual(
+            messages.map(message => message.metadata?.step),
+            [undefined, 1, 1, 1, 1, 2, 2, 3]
+        );
+        assert.strictEqual(messages[3].metadata?.input_tokens, 1200);
+        assert.strictEqual(messages[5].metadata?.cached_input_tokens, 1200);
+        assert.strictEqual(messages[7].metadata?.finish_reason, 'stop');
+        assert.deepStrictEqual(saved, messages);
+
+        // The model gets the design agent's system prompt and every built-in tool
+        const [system] = calls[0].prompt;
+        assert.ok(system.role === 'system' && system.content.includes(workspace));
+        assert.deepStrictEqual(
+            calls[0].tools?.map(tool => tool.name),
+            ['read', 'write', 'edit', 'multiedit', 'glob', 'grep', 'ls', 'bash', 'generateTheme']
+        );
+    });
+    console.log('✓ a recorded tool-call session replays into the same chat messages');
+}
+
+async function testToolAndStreamErrors(): Promise<void> {
+    await withWorkspace(async workspace => {
+        const prompt: ChatMessage = { role: 'user', content: 'Fix the missing page' };
+        const { messages } = await replaySession(loadFixture('tool-errors'), workspace, [prompt]);
+
+        // Tools report failures as results; input the schema rejects becomes a tool error
+        const [missing, invalid] = messages.filter(message => message.role === 'tool');
+        assert.ok(JSON.stringify(missing.content).includes('missing.html'));
+        assert.strictEqual(missing.metadata?.is_error, undefined);
+        assert.strictEqual(invalid.metadata?.is_error, true);
+
+        const last = messages[messages.length - 1];
+        assert.strictEqual(last.content, 'Rate limit reached for gpt-4.1');
+        assert.deepStrictEqual(last.metadata, {
+            is_error: true,
+            timestamp: 1000,
+            session_id: 'replay',
+            step: 2,
+            finish_reason: 'error',
+            context_window: 200_000,
+            model_id: 'gpt-4.1',
+            start_time: 1000,
+            end_time: 1000,
+            input_tokens: 1000,
+            output_tokens: 4,
+            cached_input_tokens: 0,
+            total_cost_usd: 0.00306,
+        });
+        assert.strictEqual(messages[messages.length - 2].content, 'Let me try again');
+    });
+    console.log('✓ tool failures and stream errors become error messages');
+}
+
+async function testPersistedHistoryContinues(): Promise<void> {
+    await withWorkspace(async workspace => {
+        const first = await replaySession(loadFixture('write-design'), workspace, [
+            { role: 'user', content: 'Design a login page' },
+        ]);
+        // Workspace state stores history as JSON; the next request starts from what it stored
+        const stored = JSON.parse(JSON.stringify(first.messages)) as ChatMessage[];
+        const followUp: AgentRecording = {
+            version: 1,
+            provider: 'anthropic.messages',
+            modelId: 'claude-sonnet-4-20250514',
+            recordedAt: 0,
+            steps: [
+                {
+                    parts: [
+                        { type: 'text-start', id: '0' },
+                        { type: 'text-delta', id: '0', delta: 'Made it blue.' },
+                        { type: 'text-end', id: '0' },
+                        {
+                            type: 'finish',
+                            finishReason: 'stop',
+                            usage: { inputTokens: 10, outputTokens: 3, totalTokens: 13 },
+                        },
+                    ],
+                },
+            ],
+        };
+        const second = await replaySession(followUp, workspace, [
+            ...stored,
+            { role: 'user', content: 'Make it blue' },
+        ]);
+        assert.strictEqual(second.messages.length, stored.length + 2);
+        assert.strictEqual(second.messages[second.messages.length - 1].content, 'Made it blue.');
+    });
+    console.log('✓ a persisted session is a valid history for the next request');
+}
+
+async function testWorkflowLimitsAndRecording(): Promise<void> {
+    await withWorkspace(async workspace => {
+        const recordings = path.join(workspace, 'recordings');
+        const { messages, calls } = await replaySession(
+            loadFixture('write-design'),
+            workspace,
+            [{ role: 'user', content: 'Sketch a login page' }],
+            {
+                workflow: startWorkflow(),
+                loop: { maxSteps: 1, maxDurationSeconds: 0 },
+                // Denied in the user's permission settings
+                applyPermissions: ({ ls: _ls, ...tools }) => tools,
+                recordingsFolder: recordings,
+            }
+        );
+
+        // The layout step only reads, so the recorded write isn't available to the model
+        assert.deepStrictEqual(
+            calls[0].tools?.map(tool => tool.name),
+            ['read', 'glob', 'grep']
+        );
+        const [system] = calls[0].prompt;
+        assert.ok(
+            system.role === 'system' && system.content.includes('Current step (1 of 4): Layout')
+        );
+        assert.ok(!fs.existsSync(path.join(workspace, 'design_iterations')));
+        assert.strictEqual(calls.length, 1);
+        assert.strictEqual(messages[messages.length - 1].metadata?.step_limit, 'steps');
+
+        const [recorded] = fs.readdirSync(recordings);
+        const recording = parseRecording(fs.readFileSync(path.join(recordings, recorded), 'utf8'));
+        assert.strictEqual(recording.steps.length, 1);
+    });
+    console.log('✓ workflow steps, permissions, step limits and recording apply to a request');
+}
+
+async function testCompactionReplays(): Promise<void> {
+    const compacting: AgentRecording = {
+        version: 1,
+        provider: 'anthropic.messages',
+        modelId: 'claude-sonnet-4-20250514',
+        recordedAt: 0,
+        steps: [
+            {
+                generated: {
+                    content: [{ type: 'text', text: 'The user asked for a login page.' }],
+                    finishReason: 'stop',
+                    usage: { inputTokens: 900, outputTokens: 8, totalTokens: 908 },
+                    warnings: [],
+                },
+            },
+            {
+                parts: [
+                    { type: 'text-start', id: '0' },
+                    { type: 'text-delta', id: '0', delta: 'Made it blue.' },
+                    { type: 'text-end', id: '0' },
+                    {
+                        type: 'finish',
+                        finishReason: 'stop',
+                        usage: { inputTokens: 100, outputTokens: 3, totalTokens: 103 },
+                    },
+                ],
+            },
+        ],
+    };
+    const history: ChatMessage[] = [
+        { role: 'user', content: 'Design a login page' },
+        { role: 'assistant', content: 'Saved design_iterations/login_1.html.' },
+        { role: 'user', content: 'Make it blue' },
+    ];
+    // The system prompt alone is past 10% of this window, so the first turn is summarised
+    const context = { maxTokens: 20_000, compactAtPercent: 10 };
+
+    await withWorkspace(async workspace => {
+        const recordings = path.join(workspace, 'recordings');
+        const recorded = await replaySession(compacting, workspace, history, {
+            context,
+            recordingsFolder: recordings,
+        });
+        assert.deepStrictEqual(
+            recorded.messages.map(message => message.metadata?.is_summary === true),
+            [false, false, true, false, false]
+        );
+        assert.strictEqual(recorded.messages[2].content, 'The user asked for a login page.');
+        assert.strictEqual(recorded.messages[4].content, 'Made it blue.');
+        // Only the latest turn is sent, with the summary in the system prompt
+        assert.strictEqual(recorded.calls.length, 1);
+        const [system, ...prompt] = recorded.calls[0].prompt;
+        assert.ok(
+            system.role === 'system' && system.content.includes('The user asked for a login page.')
+        );
+        assert.deepStrictEqual(
+            prompt.map(message => message.role),
+            ['user']
+        );
+
+        // The saved recording holds the summary call too, so the session replays from it
+        const [file] = fs.readdirSync(recordings);
+        const saved = parseRecording(fs.readFileSync(path.join(recordings, file), 'utf8'));
+        assert.deepStrictEqual(saved.steps, compacting.steps);
+        const replayed = await replaySession(saved, workspace, history, { context });
+        assert.deepStrictEqual(
+            replayed.messages.map(message => message.content),
+            recorded.messages.map(message => message.content)
+        );
+    });
+
+    const streamOnly = createReplayModel(compacting);
+    assert.throws(() => streamOnly.doStream({ prompt: [] }), /recorded as a generate call/);
+    console.log('✓ sessions that compact their history record and replay the summary call');
+}
+
+async function testRecordAndReplay(): Promise<void> {
+    const fixture = loadFixture('write-design');
+    await withWorkspace(async workspace => {
+        const { model, recording } = recordModel(createReplayModel(fixture), 42);
+        const result = streamText({
+            model,
+            prompt: 'Design a login page',
+            tools: createAgentTools({
+                workingDirectory: workspace,
+                sessionId: 'record',
+                logger: silentLogger,
+            }),
+            stopWhen: stepCountIs(1),
+        });
+        await result.consumeStream();
+        assert.strictEqual(recording.modelId, fixture.modelId);
+        assert.strictEqual(recording.steps.length, 1);
+
+        const filePath = await saveRecording(recording, path.join(workspace, 'recordings'));
+        assert.strictEqual(
+            path.basename(filePath),
+            '1970-01-01T00-00-00-042Z-claude-sonnet-4-20250514.json'
+        );
+        const saved = parseRecording(fs.readFileSync(filePath, 'utf8'));
+        assert.deepStrictEqual(saved.steps, fixture.steps.slice(0, 1));
+    });
+
+    const errors = loadFixture('tool-errors');
+    const roundTrip = parseRecording(serializeRecording(errors));
+    const errorStep = roundTrip.steps[1];
+    assert.ok('parts' in errorStep);
+    const errorPart = errorStep.parts.find(part => part.type === 'error');
+    assert.ok(errorPart?.type === 'error' && errorPart.error instanceof Error);
+    assert.strictEqual(errorPart.error.name, 'APICallError');
+
+    const replay = createReplayModel(errors);
+    await replay.doStream({ prompt: [] });
+    await replay.doStream({ prompt: [] });
+    assert.throws(() => replay.doStream({ prompt: [] }), /Model call 3 was not recorded/);
+    assert.throws(() => parseRecording('{"version": 2, "steps": []}'), /Unsupported/);
+    console.log('✓ recordings capture every stream part and replay them in order');
+}
+
+async function main(): Promise<void> {
+    console.log('Running agent session replay tests...');
+    await testToolCallSession();
+    await testToolAndStreamErrors();
+    await testPersistedHistoryContinues();
+    await testWorkflowLimitsAndRecording();
+    await testCompactionReplays();
+    await testRecordAndReplay();
+    console.log('All agent session replay tests passed.');
+}
+
+void main();
@@ -0,0 +1,88 @@
+import * as assert from 'assert';
+import type { ChatMessage } from '../types/chatMessage';
+import { buildStepTimelines } from '../webview/utils/chatUtils';
+
+const toolCall = (toolCallId: string, toolName: string, step: number): ChatMessage => ({
+    role: 'assistant',
+    content: [{ type: 'tool-call', toolCallId, toolName, input: {} }],
+    metadata: { step },
+});
+
+const toolResult = (toolCallId: string, toolName: string, step: number): ChatMessage => ({
+    role: 'tool',
+    content: [{ type: 'tool-result', toolCallId, toolName, output: { type: 'text', value: 'ok' } }],
+    metadata: { step },
+});
+
+function testStepsAreGroupedPerTurn(): void {
+    const messages: ChatMessage[] = [
+        { role: 'user', content: 'design a pricing page' },
+        { role: 'assistant', content: 'Let me look around', metadata: { step: 1 } },
+        {
+            ...toolCall('a', 'ls', 1),
+            metadata: {
+                step: 1,
+                finish_reason: 'tool-calls',
+                start_time: 0,
+                end_time: 1200,
+                input_tokens: 1000,
+                output_tokens: 50,
+            },
+        },
+        toolResult('a', 'ls', 1),
+        toolCall('b', 'write', 2),
+        {
+            ...toolCall('c', 'generateTheme', 2),
+            metadata: {
+                step: 2,
+                finish_reason: 'tool-calls',
+                input_tokens: 1500,
+                output_tokens: 900,
+            },
+        },
+        toolResult('b', 'write', 2),
+        toolResult('c', 'generateTheme', 2),
+        {
+            role: 'assistant',
+            content: 'Done',
+            metadata: { step: 3, finish_reason: 'stop', input_tokens: 2600, output_tokens: 20 },
+        },
+        { role: 'user', content: 'thanks' },
+        { role: 'assistant', content: 'Anytime' },
+    ];
+
+    const timelines = buildStepTimelines(messages);
+    assert.strictEqual(timelines.length, 1, 'turns without step metadata have no timeline');
+    const [timeline] = timelines;
+    assert.strictEqual(timeline.endIndex, 8);
+    assert.strictEqual(timeline.stepLimit, undefined);
+    assert.deepStrictEqual(
+        timeline.steps.map(step => step.toolNames),
+        [['ls'], ['write', 'generateTheme'], []]
+    );
+    assert.strictEqual(timeline.steps[0].durationMs, 1200);
+    assert.strictEqual(timeline.steps[1].inputTokens, 1500);
+    assert.strictEqual(timeline.steps[2].finishReason, 'stop');
+    console.log('✓ steps are grouped per turn with their tool calls and usage');
+}
+
+function testStepLimitIsReported(): void {
+    const messages: ChatMessage[] = [
+        { role: 'user', content: 'iterate forever' },
+        toolCall('a', 'edit', 1),
+        { ...toolResult('a', 'edit', 1), metadata: { step: 1, step_limit: 'steps' } },
+    ];
+    const [timeline] = buildStepTimelines(messages);
+    assert.strictEqual(timeline.stepLimit, 'steps');
+    assert.strictEqual(timeline.endIndex, 2);
+    console.log('✓ a loop stopped at its limit is flagged');
+}
+
+function main(): void {
+    console.log('Running agent step timeline tests...');
+    testStepsAreGroupedPerTurn();
+    testStepLimitIsReported();
+    console.log('All agent step timeline tests passed.');
+}
+
+main();
@@ -0,0 +1,165 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { ILogger } from 'react-vscode-webview-ipc/host';
+import {
+    buildSandboxedInvocation,
+    findDisallowedCommand,
+    findDisallowedEnvironment,
+    scrubEnvironment,
+    type BashExecutionPolicy,
+} from '../tools/bash-sandbox';
+import { createBashTool } from '../tools/bash-tool';
+import type { ToolResponse } from '../tools/tool-utils';
+
+const silentLogger: ILogger = {
+    debug: () => undefined,
+    info: () => undefined,
+    warn: () => undefined,
+    error: () => undefined,
+    dispose: () => undefined,
+};
+
+const SANDBOXED: BashExecutionPolicy = {
+    profile: 'sandboxed',
+    envAllowlist: ['PATH'],
+    allowedCommands: [],
+    disableNetwork: true,
+    maxOutputBytes: 1024,
+    maxMemoryMb: 256,
+    maxCpuSeconds: 10,
+};
+
+function testScrubEnvironmentKeepsAllowlist(): void {
+    const env = scrubEnvironment(
+        { PATH: '/usr/bin', OPENAI_API_KEY: 'secret', HOME: '/home/me' },
+        ['PATH', 'TERM', 'NODE_ENV'],
+        { NODE_ENV: 'test', OPENAI_API_KEY: 'other', PATH: '/tmp/evil', BASH_ENV: '/tmp/x' }
+    );
+    assert.deepStrictEqual(env, { PATH: '/usr/bin', NODE_ENV: 'test' });
+    console.log('✓ scrubEnvironment keeps only allowlisted and permitted requested variables');
+}
+
+function testRequestedEnvironmentChecks(): void {
+    const allowlist = ['PATH', 'NODE_ENV', 'LD_LIBRARY_PATH'];
+    assert.strictEqual(findDisallowedEnvironment({ NODE_ENV: 'test' }, allowlist), null);
+    assert.match(findDisallowedEnvironment({ FOO: '1' }, allowlist) ?? '', /not in allowlist: FOO/);
+    for (const name of ['BASH_ENV', 'ENV', 'PATH', 'LD_PRELOAD', 'LD_LIBRARY_PATH']) {
+        assert.match(
+            findDisallowedEnvironment({ [name]: '/tmp/x' }, allowlist) ?? '',
+            /cannot be overridden/,
+            name
+        );
+    }
+    console.log('✓ requested variables must be allowlisted and never change what runs');
+}
+
+async function testBashToolRejectsEnvOverrides(): Promise<void> {
+    if (os.platform() === 'win32') {
+        console.log('- skipping bash tool test on Windows');
+        return;
+    }
+    const workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'bash-sandbox-'));
+    try {
+        const marker = path.join(workspace, 'ran');
+        const script = path.join(workspace, 'startup.sh');
+        fs.writeFileSync(script, `touch ${marker}\n`);
+        const bash = createBashTool({
+            workingDirectory: workspace,
+            sessionId: 'test',
+            logger: silentLogger,
+            bashPolicy: {
+                ...SANDBOXED,
+                allowedCommands: ['ls'],
+                disableNetwork: false,
+                maxMemoryMb: 0,
+                maxCpuSeconds: 0,
+            },
+        });
+        const run = async (input: { command: string; env?: Record<string, string> }) =>
+            (await bash.execute!(input, { toolCallId: 'call', messages: [] })) as ToolResponse;
+
+        const blocked = await run({ command: 'ls', env: { BASH_ENV: script } });
+        assert.strictEqual(blocked.success, false);
+        assert.ok(!fs.existsSync(marker), 'the BASH_ENV script must not run');
+
+        const listed = await run({ command: 'ls' });
+        assert.strictEqual(listed.success, true);
+        const records = fs
+            .readFileSync(path.join(workspace, 'audit', 'commands.jsonl'), 'utf8')
+            .trim()
+            .split('\n')
+            .map(line => JSON.parse(line) as { status: string; reason?: string });
+        assert.deepStrictEqual(
+            records.map(record => record.status),
+            ['blocked', 'started', 'completed']
+        );
+        assert.match(records[0].reason ?? '', /BASH_ENV/);
+    } finally {
+        fs.rmSync(workspace, { recursive: true, force: true });
+    }
+    console.log('✓ the bash tool blocks env overrides and logs commands before they run');
+}
+
+function testAllowlistAcceptsListedPrograms(): void {
+    const allowed = ['ls', 'cat', 'grep'];
+    assert.strictEqual(findDisallowedCommand('ls -la && cat a.txt | grep foo', allowed), null);
+    assert.strictEqual(findDisallowedCommand('FOO=1 /bin/ls', allowed), null);
+    assert.strictEqual(findDisallowedCommand('anything goes', []), null);
+    console.log('✓ allowlist accepts pipelines of listed programs');
+}
+
+function testAllowlistRejectsOthers(): void {
+    const allowed = ['ls'];
+    assert.match(findDisallowedCommand('ls; rm -rf x', allowed) ?? '', /rm/);
+    assert.match(findDisallowedCommand("r''m -rf x", allowed) ?? '', /rm/);
+    assert.match(findDisallowedCommand('ls $(curl x)', allowed) ?? '', /substitution/);
+    assert.match(findDisallowedCommand('ls `id`', allowed) ?? '', /substitution/);
+    assert.match(findDisallowedCommand('$CMD x', allowed) ?? '', /literal/);
+    console.log('✓ allowlist rejects unlisted, quoted and substituted programs');
+}
+
+function testInvocationAppliesLimitsAndIsolation(): void {
+    if (os.platform() === 'win32') {
+        console.log('- skipping invocation test on Windows');
+        return;
+    }
+    const plain = buildSandboxedInvocation('echo hi', '/w/sub', '/w', SANDBOXED, 'none');
+    assert.strictEqual(plain.file, 'bash');
+    assert.strictEqual(plain.args[1], 'ulimit -t 10 && ulimit -v 262144 || exit 126\necho hi');
+
+    const bwrap = buildSandboxedInvocation('echo hi', '/w/sub', '/w', SANDBOXED, 'bwrap');
+    assert.strictEqual(bwrap.file, 'bwrap');
+    assert.ok(bwrap.args.includes('--unshare-net'));
+    // The audit log is bound read-only on top of the writable root
+    const readOnlyAudit = bwrap.args.indexOf('--ro-bind-try');
+    assert.ok(readOnlyAudit > bwrap.args.indexOf('--bind'));
+    assert.deepStrictEqual(bwrap.args.slice(readOnlyAudit + 1, readOnlyAudit + 3), [
+        '/w/audit',
+        '/w/audit',
+    ]);
+    assert.deepStrictEqual(bwrap.args.slice(bwrap.args.indexOf('--chdir'), -3), [
+        '--chdir',
+        '/w/sub',
+        '--unshare-net',
+        '--die-with-parent',
+    ]);
+
+    const unshare = buildSandboxedInvocation('echo hi', '/w', '/w', SANDBOXED, 'unshare');
+    assert.deepStrictEqual(unshare.args.slice(0, 3), ['-rn', 'bash', '-c']);
+    console.log('✓ sandboxed invocation wraps the command with limits and isolation');
+}
+
+async function main(): Promise<void> {
+    console.log('Running bash sandbox tests...');
+    testScrubEnvironmentKeepsAllowlist();
+    testRequestedEnvironmentChecks();
+    testAllowlistAcceptsListedPrograms();
+    testAllowlistRejectsOthers();
+    testInvocationAppliesLimitsAndIsolation();
+    await testBashToolRejectsEnvOverrides();
+    console.log('All bash sandbox tests passed.');
+}
+
+void main();
@@ -0,0 +1,96 @@
+import * as assert from 'assert';
+import {
+    DEFAULT_CANVAS_LAYOUT,
+    parseCanvasLayout,
+    reconcileCanvasLayout,
+    serializeCanvasLayout,
+} from '../services/canvasLayout';
+import type { CanvasLayout } from '../types/canvasLayout';
+
+const LAYOUT: CanvasLayout = {
+    version: 1,
+    layoutMode: 'hierarchy',
+    globalViewport: 'desktop',
+    useGlobalViewport: false,
+    showConnections: false,
+    positions: { 'login_1.html': { x: 40, y: 80 }, 'dashboard.html': { x: 0, y: 0 } },
+    viewports: { 'login_1.html': 'mobile' },
+    rotated: true,
+    stripDevices: ['mobile', 'desktop'],
+    transform: { scale: 0.5, x: -120, y: 30 },
+};
+
+function testRoundTrip(): void {
+    const text = serializeCanvasLayout(LAYOUT);
+    assert.deepStrictEqual(parseCanvasLayout(text), LAYOUT);
+    assert.ok(text.endsWith('}\n'));
+    // Frames are written in name order so the committed file diffs cleanly
+    assert.ok(text.indexOf('dashboard.html') < text.indexOf('login_1.html'));
+    console.log('✓ layouts round-trip with frames sorted by name');
+}
+
+function testTolerantParse(): void {
+    assert.strictEqual(parseCanvasLayout('{ "version": 1, '), DEFAULT_CANVAS_LAYOUT);
+    assert.strictEqual(parseCanvasLayout('{ "version": 2 }'), DEFAULT_CANVAS_LAYOUT);
+    assert.deepStrictEqual(
+        parseCanvasLayout(
+            JSON.stringify({
+                version: 1,
+                layoutMode: 'spiral',
+                globalViewport: 'watch',
+                showConnections: false,
+                positions: { 'a.html': { x: 1, y: 2 }, 'b.html': { x: 'left' }, 'c.html': null },
+                viewports: { 'a.html': 'tablet', 'b.html': 'tv' },
+                transform: { scale: 0, x: 0, y: 0 },
+            })
+        ),
+        {
+            ...DEFAULT_CANVAS_LAYOUT,
+            showConnections: false,
+            positions: { 'a.html': { x: 1, y: 2 } },
+            viewports: { 'a.html': 'tablet' },
+        }
+    );
+    console.log('✓ invalid fields fall back to defaults and invalid frames are dropped');
+}
+
+function testDeviceIds(): void {
+    const text = JSON.stringify({
+        version: 1,
+        globalViewport: 'kiosk',
+        viewports: { 'a.html': 'kiosk', 'b.html': 'removed' },
+        rotated: 'yes',
+        stripDevices: ['kiosk', 'removed', 'mobile'],
+    });
+    const layout = parseCanvasLayout(text, ['desktop', 'tablet', 'mobile', 'kiosk']);
+    assert.strictEqual(layout.globalViewport, 'kiosk');
+    assert.deepStrictEqual(layout.viewports, { 'a.html': 'kiosk' });
+    assert.deepStrictEqual(layout.stripDevices, ['kiosk', 'mobile']);
+    assert.strictEqual(layout.rotated, false);
+    // Without the catalogue only the base viewports are known
+    assert.strictEqual(parseCanvasLayout(text).globalViewport, 'tablet');
+    console.log('✓ viewports must name a device in the catalogue');
+}
+
+function testReconcile(): void {
+    assert.strictEqual(
+        reconcileCanvasLayout(LAYOUT, ['dashboard.html', 'login_1.html', 'new.html']),
+        LAYOUT
+    );
+    const reconciled = reconcileCanvasLayout(LAYOUT, ['dashboard.html']);
+    assert.deepStrictEqual(reconciled.positions, { 'dashboard.html': { x: 0, y: 0 } });
+    assert.deepStrictEqual(reconciled.viewports, {});
+    assert.deepStrictEqual(reconciled.transform, LAYOUT.transform);
+    console.log('✓ frames of deleted designs are dropped');
+}
+
+function main(): void {
+    console.log('Running canvas layout tests...');
+    testRoundTrip();
+    testTolerantParse();
+    testDeviceIds();
+    testReconcile();
+    console.log('All canvas layout tests passed.');
+}
+
+main();
@@ -0,0 +1,111 @@
+import * as assert from 'assert';
+import {
+    forkConversation,
+    replaceUserText,
+    switchBranch,
+    userTurnOf,
+} from '../services/chatBranches';
+import type { ChatForks, ChatMessage } from '../types/chatMessage';
+
+const user = (text: string): ChatMessage => ({ role: 'user', content: text });
+const assistant = (text: string): ChatMessage => ({ role: 'assistant', content: text });
+
+function texts(messages: readonly ChatMessage[]): string[] {
+    return messages.map(message => (typeof message.content === 'string' ? message.content : ''));
+}
+
+const history: ChatMessage[] = [
+    user('Design a login page'),
+    assistant('Here is login_1.html'),
+    user('Make it blue'),
+    assistant('Done, it is blue'),
+];
+
+function testUserTurns(): void {
+    const withSummary: ChatMessage[] = [
+        { role: 'system', content: 'summary', metadata: { is_summary: true } },
+        ...history,
+    ];
+    assert.strictEqual(userTurnOf(history, 2), 1);
+    assert.strictEqual(userTurnOf(withSummary, 3), 1, 'summaries do not shift turns');
+    console.log('✓ forks are keyed by user turn');
+}
+
+function testForkAndSwitch(): void {
+    const forked = forkConversation(history, {}, 2, user('Make it green'));
+    assert.deepStrictEqual(texts(forked.messages), [
+        'Design a login page',
+        'Here is login_1.html',
+        'Make it green',
+    ]);
+    assert.deepStrictEqual(forked.messages[2].metadata?.branch, { index: 1, count: 2 });
+    assert.deepStrictEqual(texts(forked.forks[1].branches[0]?.messages ?? []), [
+        'Make it blue',
+        'Done, it is blue',
+    ]);
+    assert.strictEqual(forked.forks[1].branches[1], null);
+
+    const answered = [...forked.messages, assistant('Done, it is green')];
+    const back = switchBranch(answered, forked.forks, 2, 0);
+    assert.deepStrictEqual(texts(back.messages), texts(history));
+    assert.deepStrictEqual(back.messages[2].metadata?.branch, { index: 0, count: 2 });
+    assert.deepStrictEqual(texts(back.forks[1].branches[1]?.messages ?? []), [
+        'Make it green',
+        'Done, it is green',
+    ]);
+
+    const again = switchBranch(back.messages, back.forks, 2, 1);
+    assert.deepStrictEqual(texts(again.messages), texts(answered));
+
+    const third = forkConversation(again.messages, again.forks, 2, user('Make it red'));
+    assert.deepStrictEqual(third.messages[2].metadata?.branch, { index: 2, count: 3 });
+    assert.strictEqual(third.forks[1].branches.length, 3);
+    console.log('✓ editing a message forks the conversation and keeps the old branch');
+}
+
+function testNestedForks(): void {
+    // Edit the second message, then the first: the inner fork travels with its branch
+    const inner = forkConversation(history, {}, 2, user('Make it green'));
+    const outer = forkConversation(inner.messages, inner.forks, 0, user('Design a signup page'));
+    assert.deepStrictEqual(texts(outer.messages), ['Design a signup page']);
+    assert.deepStrictEqual(Object.keys(outer.forks), ['0']);
+    assert.deepStrictEqual(Object.keys(outer.forks[0].branches[0]?.forks ?? {}), ['1']);
+
+    const restored = switchBranch(outer.messages, outer.forks, 0, 0);
+    assert.deepStrictEqual(texts(restored.messages), texts(inner.messages));
+    assert.deepStrictEqual(Object.keys(restored.forks).sort(), ['0', '1']);
+    const innerBack = switchBranch(restored.messages, restored.forks, 2, 0);
+    assert.deepStrictEqual(texts(innerBack.messages), texts(history));
+    console.log('✓ forks inside a branch are restored with it');
+}
+
+function testInvalidRequests(): void {
+    assert.throws(() => forkConversation(history, {}, 1, user('x')), /not a user message/);
+    const forks: ChatForks = {};
+    const unchanged = switchBranch(history, forks, 2, 1);
+    assert.deepStrictEqual(unchanged.messages, history);
+    assert.strictEqual(unchanged.forks, forks);
+    console.log('✓ invalid edits and switches are rejected');
+}
+
+function testReplaceText(): void {
+    assert.strictEqual(replaceUserText('old', 'new'), 'new');
+    const image = { type: 'image' as const, image: 'data', mediaType: 'image/png' };
+    assert.deepStrictEqual(replaceUserText([{ type: 'text', text: 'old' }, image], 'new'), [
+        { type: 'text', text: 'new' },
+        image,
+    ]);
+    console.log('✓ edited messages keep their attachments');
+}
+
+function main(): void {
+    console.log('Running chat branch tests...');
+    testUserTurns();
+    testForkAndSwitch();
+    testNestedForks();
+    testInvalidRequests();
+    testReplaceText();
+    console.log('All chat branch tests passed.');
+}
+
+main();
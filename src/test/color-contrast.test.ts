@@ -0,0 +1,119 @@
+import * as assert from 'assert';
+import {
+    apcaContrast,
+    convertColor,
+    isInSrgbGamut,
+    parseColor,
+    wcagContrast,
+    type RgbaColor,
+} from '../webview/utils/color';
+import {
+    apcaLevel,
+    buildContrastReport,
+    oklchToHex,
+    parseThemeCSS,
+    wcagLevel,
+} from '../webview/utils/themeParser';
+
+function color(value: string): RgbaColor {
+    const parsed = parseColor(value);
+    assert.ok(parsed, `could not parse ${value}`);
+    return parsed;
+}
+
+function testConversions(): void {
+    assert.strictEqual(convertColor('#f00', 'hex'), '#ff0000');
+    assert.strictEqual(convertColor('rgb(255 0 0 / 50%)', 'hex'), '#ff000080');
+    assert.strictEqual(convertColor('rgba(0, 128, 255, 1)', 'hex'), '#0080ff');
+    assert.strictEqual(convertColor('hsl(120, 100%, 25%)', 'hex'), '#008000');
+    assert.strictEqual(convertColor('hsl(0.5turn 100% 50%)', 'hex'), '#00ffff');
+    assert.strictEqual(convertColor('#008000', 'hsl'), 'hsl(120 100% 25.1%)');
+    assert.strictEqual(convertColor('oklch(1 0 0)', 'hex'), '#ffffff');
+    assert.strictEqual(convertColor('oklch(0% 0 0)', 'hex'), '#000000');
+    // Reference values from the CSS Color 4 conversion code
+    assert.strictEqual(convertColor('oklch(0.628 0.2577 29.23)', 'hex'), '#ff0000');
+    assert.strictEqual(convertColor('#ff0000', 'oklch'), 'oklch(0.628 0.2577 29.23)');
+    assert.strictEqual(convertColor('oklab(0.628 0.2249 0.1258)', 'rgb'), 'rgb(255 0 0)');
+    assert.strictEqual(convertColor('var(--primary)', 'hex'), undefined);
+    assert.strictEqual(convertColor('rgb(1 2)', 'hex'), undefined);
+    assert.strictEqual(
+        oklchToHex('oklch(0.7 0.15 250)'),
+        convertColor('oklch(0.7 0.15 250)', 'hex')
+    );
+    assert.strictEqual(oklchToHex('not a colour'), 'not a colour');
+
+    assert.ok(isInSrgbGamut(color('oklch(0.7 0.1 250)')));
+    assert.ok(!isInSrgbGamut(color('oklch(0.7 0.35 150)')));
+    console.log('✓ colours convert between hex, rgb, hsl, oklch and oklab');
+}
+
+function testContrast(): void {
+    const black = color('#000');
+    const white = color('#fff');
+    assert.strictEqual(wcagContrast(black, white).toFixed(2), '21.00');
+    assert.strictEqual(wcagContrast(color('#777'), white).toFixed(2), '4.48');
+    // Translucent text is blended with the background first
+    assert.strictEqual(wcagContrast(color('rgb(0 0 0 / 0)'), white).toFixed(2), '1.00');
+
+    // Reference values from the APCA-W3 documentation
+    assert.strictEqual(apcaContrast(black, white).toFixed(1), '106.0');
+    assert.strictEqual(apcaContrast(white, black).toFixed(1), '-107.9');
+    assert.strictEqual(apcaContrast(color('#888'), white).toFixed(1), '63.1');
+    assert.strictEqual(apcaContrast(white, color('#888')).toFixed(1), '-68.5');
+    assert.strictEqual(apcaContrast(white, white), 0);
+
+    assert.strictEqual(wcagLevel(21), 'AAA');
+    assert.strictEqual(wcagLevel(4.48), 'AA Large');
+    assert.strictEqual(apcaLevel(-68.5), 'Content');
+    assert.strictEqual(apcaLevel(30), 'Fail');
+    console.log('✓ WCAG 2.x ratios and APCA Lc match reference values');
+}
+
+function testContrastReport(): void {
+    const theme = parseThemeCSS(`:root {
+  --background: #ffffff;
+  --foreground: #111111;
+  --muted-foreground: #999999;
+  --primary: oklch(0.5 0.2 260);
+  --primary-foreground: white;
+  --sidebar: #fafafa;
+  --sidebar-foreground: var(--foreground);
+  --card-foreground: #000;
+}
+.dark {
+  --background: #000000;
+  --foreground: #eeeeee;
+}`);
+    const report = buildContrastReport(theme);
+    const light = report.filter(check => check.mode === 'light');
+    assert.deepStrictEqual(
+        light.map(check => `${check.foreground}/${check.background}`),
+        [
+            'foreground/background',
+            'muted-foreground/background',
+            'primary-foreground/primary',
+            'sidebar-foreground/sidebar',
+        ]
+    );
+    const sidebar = light[3];
+    assert.strictEqual(sidebar.foregroundValue, '#111111');
+    assert.ok(sidebar.wcagRatio !== undefined && sidebar.wcagRatio > 15);
+    assert.strictEqual(wcagLevel(light[1].wcagRatio ?? 0), 'Fail');
+
+    const dark = report.filter(check => check.mode === 'dark');
+    assert.strictEqual(dark.length, 4);
+    // Dark mode muted text still uses the light value, on the dark background
+    assert.strictEqual(dark[1].backgroundValue, '#000000');
+    assert.ok((dark[0].apcaLc ?? 0) < 0);
+    console.log('✓ contrast report covers every foreground/background pair in both modes');
+}
+
+function main(): void {
+    console.log('Running colour and contrast tests...');
+    testConversions();
+    testContrast();
+    testContrastReport();
+    console.log('All colour and contrast tests passed.');
+}
+
+main();
@@ -0,0 +1,161 @@
+import * as assert from 'assert';
+import {
+    extractThemeTokens,
+    generateComponent,
+    getLocalStylesheetHrefs,
+    toComponentName,
+} from '../services/componentGenerator';
+import { findElement, getAttribute, parseHtml } from '../services/htmlParser';
+
+const PAGE = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <script src="https://cdn.tailwindcss.com"></script>
+  <link rel="stylesheet" href="theme_1.css">
+  <style>
+    :root { --primary: #2563eb; --radius: 8px; }
+    .card { border-radius: var(--radius); }
+  </style>
+</head>
+<body class="bg-gray-50">
+  <div class="page">
+    <header id="top-bar" class="flex"><a href="/">Home</a></header>
+    <main>
+      <label for="email">Email {required}</label>
+      <input id="email" type="email" value="a@b.c" style="margin-top: 4px; --gap: 2px">
+      <button onclick="submit()">Send <b>now</b></button>
+    </main>
+    <section><p>One</p></section>
+    <section><p>Two</p></section>
+  </div>
+  <script>console.log('hi')</script>
+</body>
+</html>`;
+
+function testParser(): void {
+    const nodes = parseHtml(
+        '<ul><li>One<li>Two</ul><br><p class=a data-x>Text</p></div><!-- note -->'
+    );
+    assert.strictEqual(nodes.length, 4);
+    const list = findElement(nodes, 'ul');
+    assert.strictEqual(list?.children.length, 2);
+    const paragraph = findElement(nodes, 'p');
+    assert.ok(paragraph);
+    assert.strictEqual(getAttribute(paragraph, 'class'), 'a');
+    assert.strictEqual(getAttribute(paragraph, 'data-x'), null);
+    assert.strictEqual(nodes[3].type, 'comment');
+
+    const script = findElement(parseHtml('<script>if (a < b) { x("</p>") }</script>'), 'script');
+    assert.deepStrictEqual(script?.children, [{ type: 'text', text: 'if (a < b) { x("</p>") }' }]);
+    console.log('✓ parser handles void, raw text and stray closing tags');
+}
+
+function testHelpers(): void {
+    assert.strictEqual(toComponentName('login_screen_2.html'), 'LoginScreen2');
+    assert.strictEqual(toComponentName('1-hero.html'), 'Design1Hero');
+    assert.deepStrictEqual(getLocalStylesheetHrefs(PAGE), ['theme_1.css']);
+
+    const { tokens, css } = extractThemeTokens(':root { --a: 1px; color: red; }\n.x { top: 0 }');
+    assert.deepStrictEqual(Array.from(tokens), [['--a', '1px']]);
+    assert.strictEqual(css, ':root {\n  color: red;\n}\n.x { top: 0 }');
+    console.log('✓ component names, stylesheet hrefs and tokens are extracted');
+}
+
+function testReactComponent(): void {
+    const result = generateComponent(PAGE, {
+        name: 'Landing',
+        framework: 'react',
+        stylesheets: { 'theme_1.css': ':root { --surface: white; }' },
+    });
+    const paths = result.files.map(file => file.path);
+    assert.deepStrictEqual(paths, [
+        'Landing.tsx',
+        'components/TopBar.tsx',
+        'components/MainContent.tsx',
+        'components/Section.tsx',
+        'components/Section2.tsx',
+        'tokens.css',
+        'Landing.css',
+    ]);
+
+    const root = result.files[0].content;
+    assert.ok(root.startsWith("import TopBar from './components/TopBar';"));
+    assert.ok(root.includes("import './tokens.css';"));
+    assert.ok(root.includes('export default function Landing() {'));
+    assert.ok(root.includes('<div className="bg-gray-50">'));
+    assert.ok(root.includes('<Section2 />'));
+    assert.ok(!root.includes('script'));
+
+    const main = result.files[2].content;
+    assert.ok(main.includes(`<label htmlFor="email">Email {'{'}required{'}'}</label>`));
+    assert.ok(
+        main.includes(
+            '<input id="email" type="email" defaultValue="a@b.c" style={{ marginTop: "4px", "--gap": "2px" }} />'
+        )
+    );
+    assert.ok(main.includes('<button>Send <b>now</b></button>'));
+
+    const tokens = result.files[5].content;
+    assert.ok(tokens.includes('--primary: #2563eb;'));
+    assert.ok(tokens.includes('--surface: white;'));
+    assert.strictEqual(result.files[6].content, '.card { border-radius: var(--radius); }\n');
+
+    assert.ok(result.warnings.some(warning => warning.includes('Tailwind')));
+    assert.ok(result.warnings.some(warning => warning.includes('Inline scripts')));
+    assert.ok(result.warnings.some(warning => warning.includes('event handlers')));
+    console.log('✓ React output splits landmarks into components');
+}
+
+function testVueAndSvelteComponents(): void {
+    const vue = generateComponent(PAGE, { name: 'Landing', framework: 'vue' }).files;
+    assert.ok(vue[0].content.startsWith('<script setup lang="ts">'));
+    assert.ok(vue[0].content.includes("import TopBar from './components/TopBar.vue';"));
+    assert.ok(vue[0].content.endsWith('<style src="./Landing.css"></style>\n'));
+    assert.ok(vue[2].content.startsWith('<template>\n  <main>'));
+    assert.ok(vue[2].content.includes('<label for="email">Email {required}</label>'));
+
+    const svelte = generateComponent(PAGE, { name: 'Landing', framework: 'svelte' }).files;
+    assert.ok(svelte[0].content.includes("  import './Landing.css';"));
+    assert.ok(svelte[2].content.includes('Email &#123;required&#125;'));
+    assert.ok(svelte[2].content.includes('style="margin-top: 4px; --gap: 2px"'));
+    console.log('✓ Vue and Svelte output keep the HTML template');
+}
+
+function testNoSplitForSimpleMarkup(): void {
+    const result = generateComponent('<div class="card"><h1>Hi</h1><p>There</p></div>', {
+        name: 'Card',
+        framework: 'react',
+    });
+    assert.deepStrictEqual(
+        result.files.map(file => file.path),
+        ['Card.tsx']
+    );
+    assert.strictEqual(
+        result.files[0].content,
+        [
+            'export default function Card() {',
+            '  return (',
+            '    <div className="card">',
+            '      <h1>Hi</h1>',
+            '      <p>There</p>',
+            '    </div>',
+            '  );',
+            '}',
+            '',
+        ].join('\n')
+    );
+    assert.deepStrictEqual(result.warnings, []);
+    console.log('✓ simple markup stays a single component');
+}
+
+function main(): void {
+    console.log('Running component generator tests...');
+    testParser();
+    testHelpers();
+    testReactComponent();
+    testVueAndSvelteComponents();
+    testNoSplitForSimpleMarkup();
+    console.log('All component generator tests passed.');
+}
+
+main();
@@ -0,0 +1,182 @@
+import * as assert from 'assert';
+import type { ChatMessage } from '../types/chatMessage';
+import {
+    createSummaryMessage,
+    DEFAULT_CONTEXT_WINDOW,
+    elideToolPayloads,
+    estimateMessagesTokens,
+    estimateTokens,
+    findCompactionSplit,
+    renderTranscript,
+    resolveContextWindow,
+    splitAtSummary,
+} from '../services/contextCompaction';
+import { getContextUsagePercent } from '../webview/utils/chatUtils';
+
+const BIG_HTML = `<html>${'<div class="card">content</div>'.repeat(200)}</html>`;
+
+function designTurn(id: string, prompt: string): ChatMessage[] {
+    return [
+        { role: 'user', content: prompt },
+        {
+            role: 'assistant',
+            content: [
+                {
+                    type: 'tool-call',
+                    toolCallId: `write-${id}`,
+                    toolName: 'write',
+                    input: { file_path: `design_iterations/${id}.html`, content: BIG_HTML },
+                },
+            ],
+        },
+        {
+            role: 'tool',
+            content: [
+                {
+                    type: 'tool-result',
+                    toolCallId: `write-${id}`,
+                    toolName: 'write',
+                    output: { type: 'text', value: 'ok' },
+                },
+            ],
+        },
+        {
+            role: 'assistant',
+            content: [
+                {
+                    type: 'tool-call',
+                    toolCallId: `read-${id}`,
+                    toolName: 'read',
+                    input: { file_path: `design_iterations/${id}.html` },
+                },
+            ],
+        },
+        {
+            role: 'tool',
+            content: [
+                {
+                    type: 'tool-result',
+                    toolCallId: `read-${id}`,
+                    toolName: 'read',
+                    output: { type: 'text', value: BIG_HTML },
+                },
+            ],
+        },
+        { role: 'assistant', content: `Created ${id}` },
+    ];
+}
+
+function testContextWindow(): void {
+    assert.strictEqual(resolveContextWindow('claude-sonnet-4-20250514'), 200_000);
+    assert.strictEqual(resolveContextWindow('gpt-4.1-mini'), 1_047_576);
+    assert.strictEqual(resolveContextWindow('gemini-2.5-flash'), 1_048_576);
+    assert.strictEqual(resolveContextWindow('my-local-model'), DEFAULT_CONTEXT_WINDOW);
+    assert.strictEqual(resolveContextWindow('claude-sonnet-4', 32_000), 32_000);
+    console.log('✓ context window comes from settings or the model id');
+}
+
+function testEstimates(): void {
+    assert.strictEqual(estimateTokens('abcdefgh'), 2);
+    const withImage = estimateTokens([
+        { type: 'text', text: 'look at this' },
+        { type: 'image', image: 'x'.repeat(500_000), mediaType: 'image/png' },
+    ]);
+    assert.ok(withImage < 2000, 'attachments are not counted by their base64 size');
+    assert.ok(estimateMessagesTokens(designTurn('a', 'hi')) > 3000);
+    console.log('✓ token estimates count text by length and attachments by a fixed size');
+}
+
+function testElision(): void {
+    const history = [
+        ...designTurn('login', 'design a login page'),
+        ...designTurn('signup', 'now signup'),
+    ];
+    const elided = elideToolPayloads(history);
+
+    const oldWrite = elided[1].content as Array<{ input: Record<string, string> }>;
+    assert.strictEqual(oldWrite[0].input.file_path, 'design_iterations/login.html');
+    assert.ok(oldWrite[0].input.content.startsWith('['));
+    assert.ok(oldWrite[0].input.content.includes('elided'));
+
+    const oldRead = elided[4].content as Array<{ output: { type: string; value: string } }>;
+    assert.strictEqual(oldRead[0].output.type, 'text');
+    assert.ok(oldRead[0].output.value.includes('read design_iterations/login.html again'));
+
+    // The current turn is untouched
+    assert.deepStrictEqual(elided.slice(6), history.slice(6));
+    assert.ok(estimateMessagesTokens(elided) < estimateMessagesTokens(history));
+    console.log('✓ large tool payloads in earlier turns become references');
+}
+
+function testCompactionSplit(): void {
+    const history = [
+        ...designTurn('a', 'one'),
+        ...designTurn('b', 'two'),
+        ...designTurn('c', 'three'),
+        ...designTurn('d', 'four'),
+    ];
+    const turnTokens = estimateMessagesTokens(designTurn('a', 'one'));
+
+    // Room for roughly two turns in the recent budget
+    const split = findCompactionSplit(history, Math.ceil((turnTokens * 2.5) / 0.4));
+    assert.strictEqual(history[split].role, 'user');
+    assert.strictEqual(split, 12);
+
+    // Even when the latest turn alone exceeds the budget it is kept
+    assert.strictEqual(findCompactionSplit(history, 100), 18);
+    assert.strictEqual(findCompactionSplit(designTurn('a', 'only'), 100), 0);
+    console.log('✓ compaction splits on turn boundaries and keeps the latest turn');
+}
+
+function testSummaryRoundTrip(): void {
+    const summary = createSummaryMessage('User wants a dark login page.', 6);
+    const history = [...designTurn('a', 'one'), summary, ...designTurn('b', 'two')];
+    const split = splitAtSummary(history);
+    assert.strictEqual(split.summary, 'User wants a dark login page.');
+    assert.strictEqual(split.summaryIndex, 6);
+    assert.strictEqual(split.messages.length, 6);
+    assert.strictEqual(split.messages[0].content, 'two');
+
+    const none = splitAtSummary(designTurn('a', 'one'));
+    assert.strictEqual(none.summary, undefined);
+    assert.strictEqual(none.messages.length, 6);
+    console.log('✓ the model sees only messages after the latest summary');
+}
+
+function testTranscript(): void {
+    const transcript = renderTranscript(designTurn('a', 'design a login page'));
+    assert.ok(transcript.startsWith('USER: design a login page'));
+    assert.ok(transcript.includes('[called write'));
+    assert.ok(transcript.includes('design_iterations/a.html'));
+    assert.ok(transcript.length < 4000, 'file contents are not copied into the transcript');
+    console.log('✓ transcripts for the summariser stay short');
+}
+
+function testContextUsagePercent(): void {
+    const measured: ChatMessage = {
+        role: 'assistant',
+        content: 'done',
+        metadata: { input_tokens: 45_000, output_tokens: 5_000, context_window: 200_000 },
+    };
+    assert.strictEqual(getContextUsagePercent([]), undefined);
+    assert.strictEqual(getContextUsagePercent([measured, { role: 'user', content: 'more' }]), 25);
+    assert.strictEqual(
+        getContextUsagePercent([measured, createSummaryMessage('summary', 3)]),
+        undefined
+    );
+    console.log('✓ context usage comes from the latest measured request');
+}
+
+function main(): void {
+    console.log('Running context compaction tests...');
+    testContextWindow();
+    testEstimates();
+    testElision();
+    testCompactionSplit();
+    testSummaryRoundTrip();
+    testTranscript();
+    testContextUsagePercent();
+    console.log('All context compaction tests passed.');
+}
+
+main();
@@ -0,0 +1,199 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    applyCommentAction,
+    COMMENTS_DIR,
+    formatRevisionRequest,
+    parseDesignComments,
+    readDesignComments,
+    serializeDesignComments,
+    updateDesignComments,
+} from '../services/designComments';
+import { DESIGN_ITERATIONS_DIR } from '../services/designHistory';
+import type { DesignCommentThread } from '../types/designComments';
+import { anchorAt, pinPoint } from '../webview/utils/commentPins';
+
+function context(ids: string[]) {
+    return {
+        author: 'ana',
+        now: new Date('2026-10-19T09:00:00Z'),
+        newId: () => ids.shift() ?? 'x',
+    };
+}
+
+function testActions(): void {
+    const anchor = { selector: 'body > main > button.btn', x: 0.5, y: 0.25 };
+    let threads: DesignCommentThread[] = applyCommentAction(
+        [],
+        { type: 'add', anchor, body: '  Make this the brand blue  ' },
+        context(['t1', 'c1'])
+    );
+    assert.deepStrictEqual(threads, [
+        {
+            id: 't1',
+            anchor,
+            comments: [
+                {
+                    id: 'c1',
+                    author: 'ana',
+                    body: 'Make this the brand blue',
+                    createdAt: '2026-10-19T09:00:00.000Z',
+                },
+            ],
+            resolved: false,
+        },
+    ]);
+
+    threads = applyCommentAction(
+        threads,
+        { type: 'reply', threadId: 't1', body: 'Which blue?' },
+        { ...context(['c2']), author: 'kai' }
+    );
+    assert.deepStrictEqual(
+        threads[0].comments.map(comment => `${comment.author}: ${comment.body}`),
+        ['ana: Make this the brand blue', 'kai: Which blue?']
+    );
+
+    const resolved = applyCommentAction(
+        threads,
+        { type: 'resolve', threadId: 't1', resolved: true },
+        context([])
+    );
+    assert.strictEqual(resolved[0].resolved, true);
+    assert.strictEqual(threads[0].resolved, false, 'threads are not mutated');
+
+    assert.deepStrictEqual(
+        applyCommentAction(threads, { type: 'delete', threadId: 't1' }, context([])),
+        []
+    );
+    assert.throws(
+        () =>
+            applyCommentAction(
+                threads,
+                { type: 'reply', threadId: 'nope', body: 'hi' },
+                context([])
+            ),
+        /not found/
+    );
+    assert.throws(
+        () => applyCommentAction([], { type: 'add', anchor, body: '   ' }, context([])),
+        /empty/
+    );
+    console.log('✓ comments are added, replied to, resolved and deleted');
+}
+
+function testRevisionRequest(): void {
+    const thread = (id: string, selector: string, resolved: boolean, ...bodies: string[]) => ({
+        id,
+        anchor: { selector, x: 0, y: 0 },
+        comments: bodies.map((body, index) => ({
+            id: `${id}-${index}`,
+            author: index === 0 ? 'ana' : 'kai',
+            body,
+            createdAt: '2026-10-19T09:00:00.000Z',
+        })),
+        resolved,
+    });
+    assert.strictEqual(
+        formatRevisionRequest([
+            thread('a', 'header > nav', false, 'Too crowded', 'Drop the search box'),
+            thread('b', '#hero', true, 'Done already'),
+            thread('c', 'footer', false, 'Add the legal links'),
+        ]),
+        [
+            'Please revise this design to address these review comments:',
+            '1. On `header > nav`: Too crowded (ana)',
+            '   - kai: Drop the search box',
+            '2. On `footer`: Add the legal links (ana)',
+        ].join('\n')
+    );
+    assert.strictEqual(formatRevisionRequest([thread('b', '#hero', true, 'Done')]), undefined);
+    console.log('✓ open comments become a revision request');
+}
+
+function testStorage(): void {
+    const workingDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'design-comments-'));
+    try {
+        const design = path.join(workingDirectory, DESIGN_ITERATIONS_DIR, 'app', 'login 1.html');
+        const anchor = { selector: 'form', x: 0, y: 1 };
+        const [thread] = updateDesignComments(
+            workingDirectory,
+            design,
+            { type: 'add', anchor, body: 'Tighter spacing' },
+            'ana'
+        );
+
+        const file = path.join(workingDirectory, COMMENTS_DIR, 'app%2Flogin%201.html.json');
+        const saved = JSON.parse(fs.readFileSync(file, 'utf8')) as Record<string, unknown>;
+        assert.strictEqual(saved.version, 1);
+        assert.strictEqual(saved.design, 'app/login 1.html');
+        assert.deepStrictEqual(readDesignComments(workingDirectory, design), [thread]);
+
+        updateDesignComments(
+            workingDirectory,
+            design,
+            { type: 'delete', threadId: thread.id },
+            'ana'
+        );
+        assert.ok(!fs.existsSync(file), 'the file goes away with the last thread');
+        assert.throws(
+            () =>
+                updateDesignComments(
+                    workingDirectory,
+                    path.join(workingDirectory, 'other.html'),
+                    { type: 'add', anchor, body: 'x' },
+                    'ana'
+                ),
+            /design_iterations/
+        );
+    } finally {
+        fs.rmSync(workingDirectory, { recursive: true, force: true });
+    }
+
+    const good = serializeDesignComments('a.html', [
+        {
+            id: 't1',
+            anchor: { selector: 'h1', x: 0.1, y: 0.2 },
+            comments: [{ id: 'c1', author: 'ana', body: 'Bigger', createdAt: 'now' }],
+            resolved: false,
+        },
+    ]);
+    const merged = JSON.parse(good) as { threads: unknown[] };
+    merged.threads.push({ id: 't2', anchor: { selector: 'p' }, comments: [], resolved: false });
+    assert.strictEqual(parseDesignComments(JSON.stringify(merged)).length, 1);
+    assert.deepStrictEqual(parseDesignComments('<<<<<<< HEAD'), []);
+    console.log('✓ comments are stored per design and bad entries are skipped');
+}
+
+function testPins(): void {
+    const box = { left: 100, top: 50, width: 200, height: 40 };
+    const anchor = anchorAt('button', box, { left: 150, top: 60 });
+    assert.deepStrictEqual(anchor, { selector: 'button', x: 0.25, y: 0.25 });
+    // The pin follows its element when the layout changes
+    assert.deepStrictEqual(pinPoint(anchor, { left: 0, top: 0, width: 400, height: 80 }), {
+        left: 100,
+        top: 20,
+    });
+    assert.deepStrictEqual(
+        anchorAt('i', { left: 0, top: 0, width: 0, height: 10 }, { left: 5, top: 20 }),
+        {
+            selector: 'i',
+            x: 0,
+            y: 1,
+        }
+    );
+    console.log('✓ pins are anchored relative to their element');
+}
+
+function main(): void {
+    console.log('Running design comments tests...');
+    testActions();
+    testRevisionRequest();
+    testStorage();
+    testPins();
+    console.log('All design comments tests passed.');
+}
+
+main();
@@ -0,0 +1,93 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    buildImagePdf,
+    getExportFileName,
+    readJpegSize,
+    writeDesignExports,
+} from '../services/designExport';
+import type { DesignExportItem } from '../types/designExport';
+
+// SOI, APP0 (empty payload), SOF0 for a 3x2 image, EOI
+const TINY_JPEG = Buffer.from([
+    0xff, 0xd8, 0xff, 0xe0, 0x00, 0x02, 0xff, 0xc0, 0x00, 0x11, 0x08, 0x00, 0x02, 0x00, 0x03, 0x03,
+    0x01, 0x22, 0x00, 0x02, 0x11, 0x01, 0x03, 0x11, 0x01, 0xff, 0xd9,
+]);
+
+function testReadJpegSize(): void {
+    assert.deepStrictEqual(readJpegSize(TINY_JPEG), { width: 3, height: 2 });
+    assert.strictEqual(readJpegSize(Buffer.from('not a jpeg')), undefined);
+    console.log('✓ JPEG size is read from the frame header');
+}
+
+function testPdfCrossReferenceOffsets(): void {
+    const pdf = buildImagePdf(TINY_JPEG, 3, 2, 400, 300);
+    const text = pdf.toString('latin1');
+    assert.ok(text.startsWith('%PDF-1.4'));
+    assert.ok(text.includes('/MediaBox [0 0 300.00 225.00]'));
+    assert.ok(text.includes('/Filter /DCTDecode'));
+
+    const startxref = Number(/startxref\n(\d+)/.exec(text)?.[1]);
+    assert.ok(text.slice(startxref).startsWith('xref'));
+    const entries = text
+        .slice(startxref)
+        .split('\n')
+        .filter(line => line.endsWith(' n '));
+    assert.strictEqual(entries.length, 5);
+    entries.forEach((entry, index) => {
+        const offset = Number(entry.slice(0, 10));
+        assert.ok(text.slice(offset).startsWith(`${index + 1} 0 obj`));
+    });
+    console.log('✓ PDF cross-reference table points at each object');
+}
+
+function testExportFileName(): void {
+    const item: DesignExportItem = {
+        designName: 'ui_1 copy.html',
+        viewport: 'mobile',
+        format: 'png',
+        data: '',
+        width: 320,
+        height: 550,
+    };
+    assert.strictEqual(
+        getExportFileName(item, new Date('2025-01-02T03:04:05.678Z')),
+        'ui_1_copy-mobile-20250102-030405.png'
+    );
+    console.log('✓ export file names include design, viewport and time');
+}
+
+async function testWriteExports(): Promise<void> {
+    const workingDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'design-export-'));
+    try {
+        const base = { designName: 'ui_1.html', viewport: 'desktop' as const, width: 4, height: 2 };
+        const paths = await writeDesignExports(workingDirectory, [
+            { ...base, format: 'svg', data: '<svg/>' },
+            { ...base, format: 'pdf', data: TINY_JPEG.toString('base64') },
+        ]);
+        assert.strictEqual(paths.length, 2);
+        assert.ok(paths.every(p => path.dirname(p) === path.join(workingDirectory, 'exports')));
+        assert.strictEqual(fs.readFileSync(paths[0], 'utf8'), '<svg/>');
+        assert.ok(fs.readFileSync(paths[1]).toString('latin1').startsWith('%PDF'));
+
+        await assert.rejects(
+            writeDesignExports(workingDirectory, [{ ...base, format: 'pdf', data: 'AAAA' }])
+        );
+    } finally {
+        fs.rmSync(workingDirectory, { recursive: true, force: true });
+    }
+    console.log('✓ exports are written under exports/');
+}
+
+async function main(): Promise<void> {
+    console.log('Running design export tests...');
+    testReadJpegSize();
+    testPdfCrossReferenceOffsets();
+    testExportFileName();
+    await testWriteExports();
+    console.log('All design export tests passed.');
+}
+
+void main();
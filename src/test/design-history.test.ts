@@ -0,0 +1,112 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    getDesignHistoryKey,
+    listDesignVersions,
+    MAX_VERSIONS_PER_FILE,
+    readDesignVersion,
+    restoreDesignVersion,
+    snapshotDesignVersion,
+} from '../services/designHistory';
+
+function withWorkingDirectory(run: (workingDirectory: string, designPath: string) => void): void {
+    const workingDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'design-history-'));
+    const designDir = path.join(workingDirectory, 'design_iterations');
+    fs.mkdirSync(designDir, { recursive: true });
+    try {
+        run(workingDirectory, path.join(designDir, 'ui_1.html'));
+    } finally {
+        fs.rmSync(workingDirectory, { recursive: true, force: true });
+    }
+}
+
+function testOnlyDesignIterationsAreVersioned(): void {
+    assert.strictEqual(getDesignHistoryKey('/w', '/w/design_iterations/ui_1.html'), 'ui_1.html');
+    assert.strictEqual(getDesignHistoryKey('/w', '/w/design_iterations/a/b.svg'), 'a/b.svg');
+    assert.strictEqual(getDesignHistoryKey('/w', '/w/moodboard/ref.png'), undefined);
+    assert.strictEqual(getDesignHistoryKey('/w', '/w/design_iterations'), undefined);
+    console.log('✓ only files under design_iterations are versioned');
+}
+
+function testSnapshotSkipsNewFiles(): void {
+    withWorkingDirectory((workingDirectory, designPath) => {
+        assert.strictEqual(snapshotDesignVersion(workingDirectory, designPath, 'write'), undefined);
+        assert.deepStrictEqual(listDesignVersions(workingDirectory, designPath), []);
+    });
+    console.log('✓ new files have nothing to snapshot');
+}
+
+function testSnapshotsAreListedNewestFirst(): void {
+    withWorkingDirectory((workingDirectory, designPath) => {
+        fs.writeFileSync(designPath, 'v1');
+        const first = snapshotDesignVersion(workingDirectory, designPath, 'write', 's1');
+        fs.writeFileSync(designPath, 'v2');
+        const second = snapshotDesignVersion(workingDirectory, designPath, 'edit');
+        // Unchanged content is not snapshotted twice
+        assert.strictEqual(snapshotDesignVersion(workingDirectory, designPath, 'edit'), undefined);
+        fs.writeFileSync(designPath, 'v3');
+
+        const versions = listDesignVersions(workingDirectory, designPath);
+        assert.deepStrictEqual(
+            versions.map(version => version.id),
+            [second?.id, first?.id]
+        );
+        assert.strictEqual(versions[1].sessionId, 's1');
+        assert.strictEqual(readDesignVersion(workingDirectory, designPath, versions[1].id), 'v1');
+    });
+    console.log('✓ snapshots are listed newest first and deduplicated');
+}
+
+function testRestoreKeepsReplacedContent(): void {
+    withWorkingDirectory((workingDirectory, designPath) => {
+        fs.writeFileSync(designPath, 'original');
+        const version = snapshotDesignVersion(workingDirectory, designPath, 'write');
+        fs.writeFileSync(designPath, 'rewritten');
+
+        restoreDesignVersion(workingDirectory, designPath, version?.id ?? '');
+        assert.strictEqual(fs.readFileSync(designPath, 'utf8'), 'original');
+
+        const [latest] = listDesignVersions(workingDirectory, designPath);
+        assert.strictEqual(latest.source, 'restore');
+        assert.strictEqual(readDesignVersion(workingDirectory, designPath, latest.id), 'rewritten');
+    });
+    console.log('✓ restoring snapshots the content it replaces');
+}
+
+function testOldVersionsArePruned(): void {
+    withWorkingDirectory((workingDirectory, designPath) => {
+        for (let i = 0; i <= MAX_VERSIONS_PER_FILE; i++) {
+            fs.writeFileSync(designPath, `v${i}`);
+            snapshotDesignVersion(workingDirectory, designPath, 'edit');
+        }
+        const versions = listDesignVersions(workingDirectory, designPath);
+        assert.strictEqual(versions.length, MAX_VERSIONS_PER_FILE);
+        assert.strictEqual(
+            readDesignVersion(workingDirectory, designPath, versions[versions.length - 1].id),
+            'v1'
+        );
+    });
+    console.log('✓ only the newest versions are kept');
+}
+
+function testVersionIdsCannotEscapeHistory(): void {
+    withWorkingDirectory((workingDirectory, designPath) => {
+        assert.throws(() => readDesignVersion(workingDirectory, designPath, '../../secret'));
+    });
+    console.log('✓ version ids are validated');
+}
+
+function main(): void {
+    console.log('Running design history tests...');
+    testOnlyDesignIterationsAreVersioned();
+    testSnapshotSkipsNewFiles();
+    testSnapshotsAreListedNewestFirst();
+    testRestoreKeepsReplacedContent();
+    testOldVersionsArePruned();
+    testVersionIdsCannotEscapeHistory();
+    console.log('All design history tests passed.');
+}
+
+main();
@@ -0,0 +1,177 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    extractTailwindTheme,
+    indexDesignSystem,
+    parseComponents,
+    parseJsonTokens,
+    readComponentSource,
+    searchDesignSystem,
+    summarizeDesignSystem,
+} from '../services/designSystemIndex';
+
+function testJsonTokens(): void {
+    const tokens = parseJsonTokens(
+        {
+            color: {
+                $type: 'color',
+                brand: { $value: '#ff5500' },
+                text: { value: '#111' },
+            },
+            space: { sm: 4 },
+        },
+        'tokens.json'
+    );
+    assert.deepStrictEqual(
+        tokens.map(token => [token.name, token.value]),
+        [
+            ['color.brand', '#ff5500'],
+            ['color.text', '#111'],
+            ['space.sm', '4'],
+        ]
+    );
+    console.log('✓ DTCG, Style Dictionary and plain JSON tokens are flattened');
+}
+
+function testTailwindTheme(): void {
+    const config = `module.exports = {
+  content: ['./src/**/*.tsx'],
+  theme: { extend: { colors: { brand: '#f50' } } },
+  plugins: [],
+};`;
+    assert.strictEqual(
+        extractTailwindTheme(config),
+        "theme: { extend: { colors: { brand: '#f50' } } }"
+    );
+    console.log('✓ Tailwind theme block is extracted');
+}
+
+function testComponents(): void {
+    const tsx = `export interface ButtonProps {
+  variant?: 'primary' | 'ghost';
+  readonly size: string;
+}
+export function Button(props: ButtonProps) { return null; }
+export const IconButton = () => null;`;
+    assert.deepStrictEqual(parseComponents(tsx, 'ui/Button.tsx'), [
+        { name: 'Button', path: 'ui/Button.tsx', props: ['variant', 'size'] },
+        { name: 'IconButton', path: 'ui/Button.tsx', props: [] },
+    ]);
+    assert.deepStrictEqual(
+        parseComponents(
+            '<script>export let label; export let open = false;</script>',
+            'Modal.svelte'
+        ),
+        [{ name: 'Modal', path: 'Modal.svelte', props: ['label', 'open'] }]
+    );
+    console.log('✓ components and props are detected');
+}
+
+async function testIndexWorkspace(): Promise<void> {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'design-system-'));
+    try {
+        fs.mkdirSync(path.join(root, 'src/components/node_modules'), { recursive: true });
+        fs.writeFileSync(
+            path.join(root, 'src/theme.css'),
+            ':root { --brand: #f50; --radius: 6px; }\n.dark { --brand: #fa0; }'
+        );
+        fs.writeFileSync(
+            path.join(root, 'src/components/Card.tsx'),
+            'export default function Card() {}'
+        );
+        fs.writeFileSync(
+            path.join(root, 'src/components/Card.test.tsx'),
+            'export function Skip() {}'
+        );
+        fs.writeFileSync(
+            path.join(root, 'src/components/node_modules/Dep.tsx'),
+            'export function Dep() {}'
+        );
+
+        const index = await indexDesignSystem(root, [
+            'src/theme.css',
+            'src/components',
+            'missing.json',
+            '../outside.css',
+        ]);
+        // The first definition of a token wins
+        assert.deepStrictEqual(
+            index.tokens.map(token => `${token.name}=${token.value}`),
+            ['--brand=#f50', '--radius=6px']
+        );
+        assert.deepStrictEqual(
+            index.components.map(component => component.name),
+            ['Card']
+        );
+        assert.deepStrictEqual(index.missing, [
+            'missing.json',
+            '../outside.css (outside the workspace)',
+        ]);
+
+        const found = searchDesignSystem(index, 'BRAND', 'all', 10);
+        assert.strictEqual(found.tokens.length, 1);
+        assert.strictEqual(found.components.length, 0);
+        assert.strictEqual(
+            (await readComponentSource(index, 'card'))?.path,
+            'src/components/Card.tsx'
+        );
+        assert.strictEqual(await readComponentSource(index, 'Dep'), undefined);
+
+        const summary = summarizeDesignSystem(index, 1000);
+        assert.ok(summary.includes('- --brand: #f50 (src/theme.css)'));
+        assert.ok(summary.includes('- Card (src/components/Card.tsx)'));
+        const truncated = summarizeDesignSystem(index, 40);
+        assert.ok(truncated.endsWith('(truncated; use lookupDesignSystem for the rest)'));
+    } finally {
+        fs.rmSync(root, { recursive: true, force: true });
+    }
+    console.log('✓ workspace sources are indexed, searched and summarised');
+}
+
+async function testIndexTokenDirectory(): Promise<void> {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'design-system-'));
+    try {
+        const tokens = path.join(root, 'tokens');
+        fs.mkdirSync(tokens);
+        fs.writeFileSync(
+            path.join(tokens, 'colors.json'),
+            '{"color": {"brand": {"$value": "#f50"}}}'
+        );
+        fs.writeFileSync(path.join(tokens, 'broken.json'), '{"color": ');
+        fs.writeFileSync(path.join(tokens, 'package.json'), '{"name": "tokens"}');
+        fs.writeFileSync(path.join(tokens, 'spacing.css'), ':root { --space-1: 4px; }');
+        fs.writeFileSync(
+            path.join(tokens, 'tailwind.config.js'),
+            'module.exports = { theme: { extend: {} } }'
+        );
+
+        const index = await indexDesignSystem(root, ['tokens']);
+        assert.deepStrictEqual(index.tokens.map(token => `${token.name}=${token.value}`).sort(), [
+            '--space-1=4px',
+            'color.brand=#f50',
+        ]);
+        assert.deepStrictEqual(
+            index.configs.map(config => config.path),
+            ['tokens/tailwind.config.js']
+        );
+        // Only the file that failed to parse is reported; the rest of the directory is indexed
+        assert.deepStrictEqual(index.missing, ['tokens/broken.json']);
+    } finally {
+        fs.rmSync(root, { recursive: true, force: true });
+    }
+    console.log('✓ token directories are indexed file by file');
+}
+
+async function main(): Promise<void> {
+    console.log('Running design system tests...');
+    testJsonTokens();
+    testTailwindTheme();
+    testComponents();
+    await testIndexWorkspace();
+    await testIndexTokenDirectory();
+    console.log('All design system tests passed.');
+}
+
+void main();
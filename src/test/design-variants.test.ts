@@ -0,0 +1,159 @@
+import * as assert from 'assert';
+import {
+    extractHtmlDocument,
+    indexVariantManifests,
+    planVariants,
+    toVariantBaseName,
+    uniqueVariantBaseName,
+    variantFileName,
+    variantLabel,
+} from '../services/designVariants';
+import { parseModelEntry } from '../services/providerModels';
+import { assignGridSlots } from '../webview/utils/gridLayout';
+import type { DesignFile } from '../webview/types/canvas.types';
+
+function testParseModelEntry(): void {
+    assert.deepStrictEqual(parseModelEntry('openai:gpt-4.1'), {
+        provider: 'openai',
+        modelId: 'gpt-4.1',
+    });
+    assert.deepStrictEqual(parseModelEntry('Ollama:llama3.1:8b'), {
+        provider: 'ollama',
+        modelId: 'llama3.1:8b',
+    });
+    assert.strictEqual(parseModelEntry('gpt-4.1'), undefined);
+    assert.strictEqual(parseModelEntry('mistral:large'), undefined);
+    assert.strictEqual(parseModelEntry('anthropic:'), undefined);
+    console.log('✓ variant models parse as provider:model');
+}
+
+function testPlanVariants(): void {
+    const sameModel = planVariants(4);
+    assert.deepStrictEqual(
+        sameModel.map(spec => spec.index),
+        [1, 2, 3, 4]
+    );
+    assert.ok(sameModel.every(spec => spec.provider === undefined));
+    assert.deepStrictEqual(
+        sameModel.map(spec => spec.temperature),
+        [0.4, 0.6, 0.8, 1]
+    );
+    assert.deepStrictEqual(
+        sameModel.map(spec => spec.seed),
+        [1, 2, 3, 4]
+    );
+
+    const mixed = planVariants(3, ['anthropic:claude-sonnet-4', 'openai:gpt-4.1', 'bogus']);
+    assert.deepStrictEqual(
+        mixed.map(spec => spec.modelId),
+        ['claude-sonnet-4', 'gpt-4.1', 'claude-sonnet-4']
+    );
+    // Only the model used twice needs sampling differences
+    assert.deepStrictEqual(
+        mixed.map(spec => spec.temperature),
+        [0.4, undefined, 1]
+    );
+    assert.strictEqual(planVariants(1)[0].temperature, undefined);
+    assert.strictEqual(planVariants(0).length, 1);
+    console.log('✓ variants cycle through models and spread sampling for repeats');
+}
+
+function testNaming(): void {
+    assert.strictEqual(toVariantBaseName('A Dashboard for my_shop!'), 'a-dashboard-for-my-shop');
+    assert.strictEqual(toVariantBaseName('???'), 'design');
+    assert.ok(toVariantBaseName('x'.repeat(100)).length <= 40);
+    assert.strictEqual(variantFileName('dashboard', 3), 'dashboard_3.html');
+
+    assert.strictEqual(uniqueVariantBaseName('dashboard', ['login_1.html']), 'dashboard');
+    assert.strictEqual(
+        uniqueVariantBaseName('dashboard', ['dashboard_1.html', 'dashboard-2.variants.json']),
+        'dashboard-3'
+    );
+    assert.strictEqual(variantLabel('gpt-4.1', { index: 1, temperature: 0.8 }), 'gpt-4.1 · t=0.8');
+    assert.strictEqual(variantLabel('gpt-4.1', { index: 1 }), 'gpt-4.1');
+    console.log('✓ variant runs get fresh sibling file names');
+}
+
+function testExtractHtml(): void {
+    const html = '<!DOCTYPE html>\n<html><body>Hi</body></html>';
+    assert.strictEqual(extractHtmlDocument(html), html);
+    assert.strictEqual(
+        extractHtmlDocument(`Here is the design:\n\`\`\`html\n${html}\n\`\`\`\nEnjoy!`),
+        html
+    );
+    assert.strictEqual(extractHtmlDocument(`Sure! ${html} Let me know.`), html);
+    assert.strictEqual(
+        extractHtmlDocument('<html><body>cut off'),
+        '<html><body>cut off',
+        'truncated replies keep what was generated'
+    );
+    assert.strictEqual(extractHtmlDocument('I cannot help with that.'), undefined);
+    console.log('✓ HTML documents are extracted from model replies');
+}
+
+function design(name: string, variantGroup?: string): DesignFile {
+    return {
+        name,
+        path: `/designs/${name}`,
+        content: '',
+        size: 0,
+        modified: '',
+        fileType: 'html',
+        variantGroup,
+    };
+}
+
+function testGridSlots(): void {
+    const slots = assignGridSlots(
+        [
+            design('about.html'),
+            design('dashboard_1.html', 'dashboard'),
+            design('dashboard_2.html', 'dashboard'),
+            design('home.html'),
+            design('dashboard_3.html', 'dashboard'),
+            design('pricing.html'),
+        ],
+        4
+    );
+    assert.deepStrictEqual(slots.get('about.html'), { col: 0, row: 0 });
+    // The group starts its own row and stays together
+    assert.deepStrictEqual(slots.get('dashboard_1.html'), { col: 0, row: 1 });
+    assert.deepStrictEqual(slots.get('dashboard_3.html'), { col: 2, row: 1 });
+    assert.deepStrictEqual(slots.get('home.html'), { col: 0, row: 2 });
+    assert.deepStrictEqual(slots.get('pricing.html'), { col: 1, row: 2 });
+
+    const plain = assignGridSlots([design('a.html'), design('b.html'), design('c.html')], 2);
+    assert.strictEqual(slots.size, 6);
+    assert.deepStrictEqual(plain.get('c.html'), { col: 0, row: 1 });
+    console.log('✓ variant groups are laid out side by side on the canvas');
+}
+
+function testManifestIndex(): void {
+    const index = indexVariantManifests([
+        {
+            name: 'dashboard',
+            brief: 'a dashboard',
+            createdAt: '2025-01-01T00:00:00.000Z',
+            variants: [
+                { file: 'dashboard_1.html', label: 'gpt-4.1', modelId: 'gpt-4.1' },
+                { file: 'dashboard_2.html', label: 'kimi-k2', modelId: 'kimi-k2' },
+            ],
+        },
+    ]);
+    assert.deepStrictEqual(index.get('dashboard_2.html'), { group: 'dashboard', label: 'kimi-k2' });
+    assert.strictEqual(index.get('dashboard.html'), undefined);
+    console.log('✓ manifests label each variant frame');
+}
+
+function main(): void {
+    console.log('Running design variant tests...');
+    testParseModelEntry();
+    testPlanVariants();
+    testNaming();
+    testExtractHtml();
+    testGridSlots();
+    testManifestIndex();
+    console.log('All design variant tests passed.');
+}
+
+main();
@@ -0,0 +1,158 @@
+import * as assert from 'assert';
+import {
+    approveStep,
+    buildWorkflowPrompt,
+    filterWorkflowTools,
+    findStepArtifact,
+    isWorkflowComplete,
+    reviseStep,
+    startWorkflow,
+    submitStep,
+    workflowArtifactPath,
+} from '../services/designWorkflow';
+import type { ChatMessage } from '../types/chatMessage';
+
+function testStepTransitions(): void {
+    let workflow = startWorkflow(1000);
+    assert.strictEqual(workflow.currentStep, 'layout');
+    assert.strictEqual(workflow.steps.layout.status, 'active');
+    assert.strictEqual(workflow.steps.theme.status, 'pending');
+
+    workflow = submitStep(workflow, 'workflows/s1/1-layout.md');
+    assert.strictEqual(workflow.steps.layout.status, 'review');
+    assert.strictEqual(workflow.steps.layout.artifact, 'workflows/s1/1-layout.md');
+
+    workflow = reviseStep(workflow, 'Move the sidebar to the right');
+    assert.strictEqual(workflow.steps.layout.status, 'active');
+    assert.deepStrictEqual(workflow.steps.layout.revisions, ['Move the sidebar to the right']);
+    // A turn without output keeps the previous artifact
+    workflow = submitStep(workflow);
+    assert.strictEqual(workflow.steps.layout.artifact, 'workflows/s1/1-layout.md');
+
+    workflow = approveStep(workflow, 2000);
+    assert.strictEqual(workflow.steps.layout.status, 'approved');
+    assert.strictEqual(workflow.currentStep, 'theme');
+    assert.strictEqual(workflow.steps.theme.status, 'active');
+
+    workflow = approveStep(approveStep(approveStep(workflow, 3000), 4000), 5000);
+    assert.strictEqual(workflow.currentStep, 'build');
+    assert.ok(isWorkflowComplete(workflow));
+    assert.strictEqual(workflow.completedAt, 5000);
+    assert.ok(Object.values(workflow.steps).every(step => step.status === 'approved'));
+    console.log('✓ workflow steps move through review, revision and approval');
+}
+
+function testFindArtifact(): void {
+    const messages: ChatMessage[] = [
+        { role: 'user', content: 'Design a pricing page' },
+        {
+            role: 'assistant',
+            content: [
+                {
+                    type: 'tool-call',
+                    toolCallId: 'old',
+                    toolName: 'write',
+                    input: { file_path: 'design_iterations/old_1.html', content: '' },
+                },
+            ],
+        },
+        { role: 'user', content: 'Build it' },
+        {
+            role: 'assistant',
+            content: [
+                {
+                    type: 'tool-call',
+                    toolCallId: 'css',
+                    toolName: 'write',
+                    input: { file_path: 'design_iterations/pricing.css', content: '' },
+                },
+                {
+                    type: 'tool-call',
+                    toolCallId: 'html',
+                    toolName: 'write',
+                    input: { file_path: 'design_iterations/pricing_1.html', content: '' },
+                },
+            ],
+        },
+        { role: 'assistant', content: [{ type: 'text', text: 'Here is the page.' }] },
+    ];
+    assert.deepStrictEqual(findStepArtifact('build', messages), {
+        path: 'design_iterations/pricing_1.html',
+    });
+    // Text steps keep the final reply of the latest turn
+    assert.deepStrictEqual(findStepArtifact('layout', messages), { text: 'Here is the page.' });
+    // Only the latest turn counts: an HTML file from an earlier turn isn't this step's output
+    assert.deepStrictEqual(findStepArtifact('build', messages.slice(0, 3)), undefined);
+
+    const theme: ChatMessage[] = [
+        { role: 'user', content: 'Continue with the theme step.' },
+        {
+            role: 'assistant',
+            content: [
+                {
+                    type: 'tool-call',
+                    toolCallId: 'theme',
+                    toolName: 'generateTheme',
+                    input: { cssFilePath: 'design_iterations/theme_1.css' },
+                },
+            ],
+        },
+    ];
+    assert.deepStrictEqual(findStepArtifact('theme', theme), {
+        path: 'design_iterations/theme_1.css',
+    });
+    assert.strictEqual(workflowArtifactPath('s1', 'animation'), 'workflows/s1/3-animation.md');
+
+    // A failed model call is no output: the step stays with the agent
+    const failed: ChatMessage[] = [
+        { role: 'user', content: 'Continue with the animation step.' },
+        {
+            role: 'assistant',
+            content: 'Error: 529 Overloaded',
+            metadata: { is_error: true },
+        },
+    ];
+    assert.strictEqual(findStepArtifact('animation', failed), undefined);
+    assert.deepStrictEqual(
+        findStepArtifact('animation', [
+            ...failed.slice(0, 1),
+            { role: 'assistant', content: [{ type: 'text', text: 'Hero fades in over 300ms.' }] },
+            ...failed.slice(1),
+        ]),
+        { text: 'Hero fades in over 300ms.' }
+    );
+    console.log('✓ step outputs are found in the latest turn');
+}
+
+function testToolsAndPrompt(): void {
+    const tools = { read: 1, write: 2, generateTheme: 3, bash: 4 };
+    let workflow = startWorkflow();
+    assert.deepStrictEqual(Object.keys(filterWorkflowTools(tools, workflow)), ['read']);
+
+    workflow = approveStep(submitStep(workflow, 'workflows/s1/1-layout.md'));
+    assert.deepStrictEqual(Object.keys(filterWorkflowTools(tools, workflow)), [
+        'read',
+        'generateTheme',
+    ]);
+    workflow = reviseStep(submitStep(workflow), 'Warmer colours');
+    const prompt = buildWorkflowPrompt(workflow);
+    assert.ok(prompt.includes('Current step (2 of 4): Theme'));
+    assert.ok(prompt.includes('- Layout: approved (output: workflows/s1/1-layout.md)'));
+    assert.ok(prompt.includes('- Warmer colours'));
+
+    workflow = approveStep(approveStep(workflow));
+    assert.deepStrictEqual(filterWorkflowTools(tools, workflow), tools, 'build uses every tool');
+    workflow = approveStep(workflow);
+    assert.ok(buildWorkflowPrompt(workflow).includes('completed the guided workflow'));
+    console.log('✓ the agent gets the current step and only its tools');
+}
+
+function main(): void {
+    console.log('Running design workflow tests...');
+    testStepTransitions();
+    testFindArtifact();
+    testToolsAndPrompt();
+    console.log('All design workflow tests passed.');
+}
+
+main();
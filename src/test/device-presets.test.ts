@@ -0,0 +1,118 @@
+import * as assert from 'assert';
+import { mergeDevicePresets, parseDevicePresets } from '../services/devicePresets';
+import { BASE_VIEWPORT_IDS, BUILT_IN_DEVICE_PRESETS } from '../types/devicePresets';
+import {
+    formatPreset,
+    viewportIconKind,
+    viewportsFromPresets,
+    withPixelRatio,
+} from '../webview/utils/viewports';
+
+function testParse(): void {
+    assert.deepStrictEqual(
+        parseDevicePresets([
+            { name: 'Lobby Kiosk', width: 1080, height: 1920 },
+            { id: 'fold', name: 'Fold open', width: 884, height: 1104, pixelRatio: 2.5 },
+            '1280x800',
+            ' 600 × 1024 @2x ',
+        ]),
+        [
+            { id: 'lobby-kiosk', name: 'Lobby Kiosk', width: 1080, height: 1920 },
+            { id: 'fold', name: 'Fold open', width: 884, height: 1104, pixelRatio: 2.5 },
+            { id: '1280x800', name: '1280×800', width: 1280, height: 800 },
+            { id: '600x1024@2', name: '600×1024 @2x', width: 600, height: 1024, pixelRatio: 2 },
+        ]
+    );
+    console.log('✓ named presets and WxH sizes are read from settings');
+}
+
+function testInvalidEntries(): void {
+    assert.deepStrictEqual(parseDevicePresets(undefined), []);
+    assert.deepStrictEqual(parseDevicePresets({ name: 'Watch', width: 200, height: 200 }), []);
+    assert.deepStrictEqual(
+        parseDevicePresets([
+            { name: '', width: 400, height: 800 },
+            { name: 'Tiny', width: 40, height: 80 },
+            { name: 'Wall', width: 20000, height: 1080 },
+            { name: 'Half pixel', width: 400.5, height: 800 },
+            { name: 'Odd ratio', width: 400, height: 800, pixelRatio: 9 },
+            '1080 by 1920',
+            '1080x1920@0',
+            42,
+            { name: 'Phone', width: 400, height: 800 },
+        ]).map(preset => preset.id),
+        ['phone']
+    );
+    console.log('✓ invalid presets are skipped without hiding the valid ones');
+}
+
+function testMerge(): void {
+    assert.deepStrictEqual(mergeDevicePresets([]), BUILT_IN_DEVICE_PRESETS);
+
+    const merged = mergeDevicePresets([
+        { id: 'desktop', name: 'Office screen', width: 1280, height: 720 },
+        { id: 'kiosk', name: 'Kiosk', width: 1080, height: 1920 },
+        { id: 'kiosk', name: 'Duplicate', width: 768, height: 1366 },
+    ]);
+    assert.deepStrictEqual(merged[0], {
+        id: 'desktop',
+        name: 'Office screen',
+        width: 1280,
+        height: 720,
+    });
+    assert.strictEqual(merged.length, BUILT_IN_DEVICE_PRESETS.length + 1);
+    assert.strictEqual(merged[merged.length - 1].name, 'Kiosk');
+    for (const id of BASE_VIEWPORT_IDS) {
+        assert.ok(merged.some(preset => preset.id === id));
+    }
+    console.log('✓ user presets replace built-ins with the same id and are added after them');
+}
+
+function testViewports(): void {
+    const phone = { id: 'phone', name: 'Phone', width: 390, height: 844, pixelRatio: 3 };
+    assert.deepStrictEqual(viewportsFromPresets([phone], false), {
+        phone: { width: 390, height: 844, pixelRatio: 3 },
+    });
+    assert.deepStrictEqual(viewportsFromPresets([phone], true), {
+        phone: { width: 844, height: 390, pixelRatio: 3 },
+    });
+    assert.strictEqual(formatPreset(phone), 'Phone · 390×844 @3x');
+    assert.strictEqual(formatPreset(BUILT_IN_DEVICE_PRESETS[0], true), 'Desktop · 600×1000');
+    assert.deepStrictEqual(BUILT_IN_DEVICE_PRESETS.slice(0, 3).map(viewportIconKind), [
+        'desktop',
+        'tablet',
+        'mobile',
+    ]);
+    console.log('✓ presets become viewports, swapped when the canvas is rotated');
+}
+
+function testPixelRatio(): void {
+    const script =
+        "<script>Object.defineProperty(window, 'devicePixelRatio', { get: () => 2, configurable: true });</script>";
+    assert.strictEqual(
+        withPixelRatio('<html><head></head></html>', undefined),
+        '<html><head></head></html>'
+    );
+    assert.strictEqual(
+        withPixelRatio('<!DOCTYPE html><html lang="en"><head><title>x</title></head></html>', 2),
+        `<!DOCTYPE html><html lang="en"><head>${script}<title>x</title></head></html>`
+    );
+    assert.strictEqual(
+        withPixelRatio('<!DOCTYPE html><body>x</body>', 2),
+        `<!DOCTYPE html>${script}<body>x</body>`
+    );
+    assert.strictEqual(withPixelRatio('<div>x</div>', 2), `${script}<div>x</div>`);
+    console.log('✓ the pixel ratio script runs before the design, after the doctype');
+}
+
+function main(): void {
+    console.log('Running device preset tests...');
+    testParse();
+    testInvalidEntries();
+    testMerge();
+    testViewports();
+    testPixelRatio();
+    console.log('All device preset tests passed.');
+}
+
+main();
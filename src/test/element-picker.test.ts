@@ -0,0 +1,129 @@
+import * as assert from 'assert';
+import {
+    collapseHtml,
+    cssSelectorFor,
+    formatChatContext,
+    parseChatContext,
+    pickStyles,
+    type SelectorNode,
+} from '../webview/utils/elementPicker';
+
+interface FakeNode {
+    tagName: string;
+    id: string;
+    classList: string[];
+    parentElement: FakeNode | null;
+    children: FakeNode[];
+}
+
+function node(tagName: string, attributes: { id?: string; classes?: string[] } = {}): FakeNode {
+    return {
+        tagName: tagName.toUpperCase(),
+        id: attributes.id ?? '',
+        classList: attributes.classes ?? [],
+        parentElement: null,
+        children: [],
+    };
+}
+
+function append(parent: FakeNode, ...children: FakeNode[]): FakeNode {
+    for (const child of children) {
+        child.parentElement = parent;
+        parent.children.push(child);
+    }
+    return parent;
+}
+
+function testSelectors(): void {
+    const body = node('body');
+    const main = node('main');
+    const cards = [1, 2, 3].map(() => node('div', { classes: ['card', 'shadow-md', 'md:p-4'] }));
+    const heading = node('h2');
+    const button = node('button', { classes: ['btn'] });
+    append(body, node('header'), main);
+    append(main, ...cards);
+    append(cards[1], heading, button);
+
+    const selector = (element: SelectorNode) => cssSelectorFor(element);
+    assert.strictEqual(
+        selector(button),
+        'body > main > div.card.shadow-md:nth-of-type(2) > button.btn'
+    );
+    assert.strictEqual(selector(heading), 'body > main > div.card.shadow-md:nth-of-type(2) > h2');
+
+    const form = node('form', { id: 'signup' });
+    const inputs = [node('input'), node('input')];
+    append(main, form);
+    append(form, ...inputs);
+    assert.strictEqual(selector(inputs[1]), '#signup > input:nth-of-type(2)');
+    // Ids that would need escaping are not used
+    const odd = node('section', { id: '1st' });
+    append(body, odd);
+    assert.strictEqual(selector(odd), 'body > section');
+    console.log('✓ selectors are unique paths pinned by position');
+}
+
+function testDescription(): void {
+    assert.strictEqual(collapseHtml('<a>\n    Sign   in\n</a>'), '<a> Sign in </a>');
+    const long = collapseHtml(`<p>${'x'.repeat(500)}</p>`);
+    assert.strictEqual(long.length, 401);
+    assert.ok(long.endsWith('…'));
+
+    const computed: Record<string, string> = {
+        display: 'flex',
+        color: 'rgb(255, 255, 255)',
+        'background-color': 'rgba(0, 0, 0, 0)',
+        'letter-spacing': 'normal',
+        border: '0px none rgb(255, 255, 255)',
+        'border-radius': '8px',
+    };
+    assert.deepStrictEqual(
+        pickStyles(property => computed[property] ?? ''),
+        { display: 'flex', color: 'rgb(255, 255, 255)', 'border-radius': '8px' }
+    );
+    console.log('✓ element HTML is collapsed and default styles are left out');
+}
+
+function testChatContext(): void {
+    const fileName = '/work/.superdesign/design_iterations/login_1.html';
+    assert.strictEqual(formatChatContext({ fileName, type: 'frame' }), fileName);
+
+    const text = formatChatContext({
+        fileName,
+        type: 'elements',
+        elements: [
+            {
+                selector: 'body > main > button.btn',
+                tagName: 'button',
+                html: '<button class="btn">Sign in</button>',
+                styles: { color: 'rgb(255, 255, 255)', 'font-size': '14px' },
+            },
+            { selector: '#logo', tagName: 'img', html: '<img id="logo">', styles: {} },
+        ],
+    });
+    assert.strictEqual(
+        text,
+        [
+            fileName,
+            'Selected elements (change only these unless asked otherwise):',
+            '- `body > main > button.btn`',
+            '  HTML: <button class="btn">Sign in</button>',
+            '  Styles: color: rgb(255, 255, 255); font-size: 14px',
+            '- `#logo`',
+            '  HTML: <img id="logo">',
+        ].join('\n')
+    );
+    assert.deepStrictEqual(parseChatContext(text), { fileName, elementCount: 2 });
+    assert.deepStrictEqual(parseChatContext(fileName), { fileName, elementCount: 0 });
+    console.log('✓ picked elements are spelled out in the chat context');
+}
+
+function main(): void {
+    console.log('Running element picker tests...');
+    testSelectors();
+    testDescription();
+    testChatContext();
+    console.log('All element picker tests passed.');
+}
+
+main();
@@ -0,0 +1,58 @@
+import * as assert from 'assert';
+import { diffLines, toHunks, countChanges } from '../webview/utils/lineDiff';
+
+function testIdenticalTextHasNoChanges(): void {
+    const diff = diffLines('a\nb\nc', 'a\nb\nc');
+    assert.ok(diff.every(line => line.type === 'context'));
+    assert.deepStrictEqual(toHunks(diff), []);
+    console.log('✓ identical text produces no hunks');
+}
+
+function testReplacedLine(): void {
+    const diff = diffLines('a\nb\nc', 'a\nB\nc');
+    assert.deepStrictEqual(
+        diff.map(line => `${line.type}:${line.text}`),
+        ['context:a', 'remove:b', 'add:B', 'context:c']
+    );
+    assert.deepStrictEqual(countChanges(diff), { added: 1, removed: 1 });
+    console.log('✓ replaced line is a remove followed by an add');
+}
+
+function testLineNumbersTrackBothSides(): void {
+    const diff = diffLines('a\nc', 'a\nb\nc');
+    const added = diff.find(line => line.type === 'add');
+    assert.strictEqual(added?.newLine, 2);
+    assert.strictEqual(added.oldLine, undefined);
+    const last = diff[diff.length - 1];
+    assert.strictEqual(last.oldLine, 2);
+    assert.strictEqual(last.newLine, 3);
+    console.log('✓ line numbers follow the old and new text');
+}
+
+function testNewFileIsAllAdditions(): void {
+    const diff = diffLines('', '<html>\n</html>');
+    assert.deepStrictEqual(countChanges(diff), { added: 2, removed: 0 });
+    console.log('✓ empty before text yields only additions');
+}
+
+function testHunksSkipDistantContext(): void {
+    const before = Array.from({ length: 20 }, (_, i) => `line ${i}`).join('\n');
+    const after = before.replace('line 10', 'changed');
+    const hunks = toHunks(diffLines(before, after), 2);
+    assert.strictEqual(hunks.length, 1);
+    assert.strictEqual(hunks[0].skippedBefore, 8);
+    assert.strictEqual(hunks[0].lines.length, 6);
+    console.log('✓ hunks keep only the requested context');
+}
+
+function main(): void {
+    console.log('Running line diff tests...');
+    testIdenticalTextHasNoChanges();
+    testReplacedLine();
+    testLineNumbersTrackBothSides();
+    testNewFileIsAllAdditions();
+    testHunksSkipDistantContext();
+    console.log('All line diff tests passed.');
+}
+
+main();
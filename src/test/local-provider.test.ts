@@ -0,0 +1,94 @@
+import * as assert from 'assert';
+import {
+    dropImageParts,
+    fetchLocalModels,
+    isLoopbackUrl,
+    normalizeBaseUrl,
+    parseModelList,
+    remoteEndpointWarning,
+} from '../providers/openAICompatibleProvider';
+import { parseModelEntry } from '../services/providerModels';
+import type { ChatMessage } from '../types/chatMessage';
+
+function testModelList(): void {
+    assert.deepStrictEqual(
+        parseModelList({ object: 'list', data: [{ id: 'qwen2.5-coder' }, { id: 'llama3.1:8b' }] }),
+        ['llama3.1:8b', 'qwen2.5-coder']
+    );
+    assert.deepStrictEqual(parseModelList({ models: [{ name: 'mistral' }, { name: 'mistral' }] }), [
+        'mistral',
+    ]);
+    assert.deepStrictEqual(parseModelList({ data: [{ id: '' }, 'x', null] }), []);
+    assert.deepStrictEqual(parseModelList('not json'), []);
+    console.log('✓ model lists from OpenAI-compatible and Ollama endpoints are parsed');
+}
+
+async function testFetchModels(): Promise<void> {
+    let requested = '';
+    const fakeFetch = (async (url: string) => {
+        requested = url;
+        return new Response(JSON.stringify({ data: [{ id: 'llava' }] }));
+    }) as typeof fetch;
+    const models = await fetchLocalModels('http://localhost:1234/v1/', fakeFetch);
+    assert.strictEqual(requested, 'http://localhost:1234/v1/models');
+    assert.deepStrictEqual(models, ['llava']);
+
+    const failingFetch = (async () =>
+        new Response('', { status: 404, statusText: 'Not Found' })) as typeof fetch;
+    await assert.rejects(fetchLocalModels('http://localhost:1234/v1', failingFetch), /404/);
+    console.log('✓ models are discovered from the endpoint');
+}
+
+function testEndpoints(): void {
+    assert.strictEqual(remoteEndpointWarning('http://localhost:11434/v1'), undefined);
+    assert.strictEqual(
+        remoteEndpointWarning('http://gpu-box.lan:8000/v1/'),
+        'http://gpu-box.lan:8000/v1 is not on this machine; prompts and designs are sent to it'
+    );
+    assert.match(remoteEndpointWarning('nope') ?? '', /not on this machine/);
+
+    assert.strictEqual(
+        normalizeBaseUrl(' http://localhost:11434/v1// '),
+        'http://localhost:11434/v1'
+    );
+    assert.ok(isLoopbackUrl('http://127.0.0.1:8000/v1'));
+    assert.ok(isLoopbackUrl('http://[::1]:1234/v1'));
+    assert.ok(!isLoopbackUrl('https://api.openai.com/v1'));
+    assert.deepStrictEqual(parseModelEntry('local:llama3.1:8b'), {
+        provider: 'local',
+        modelId: 'llama3.1:8b',
+    });
+    console.log('✓ endpoints off this machine are flagged');
+}
+
+function testDropImages(): void {
+    const messages: ChatMessage[] = [
+        {
+            role: 'user',
+            content: [
+                { type: 'text', text: 'Match this screenshot' },
+                { type: 'image', image: 'data', mediaType: 'image/png' },
+                { type: 'file', data: 'data', mediaType: 'image/jpeg' },
+            ],
+        },
+        { role: 'assistant', content: 'Sure' },
+    ];
+    const [user, assistant] = dropImageParts(messages);
+    assert.deepStrictEqual(user.content, [
+        { type: 'text', text: 'Match this screenshot' },
+        { type: 'text', text: '[2 images omitted: the local model does not support images]' },
+    ]);
+    assert.strictEqual(assistant, messages[1]);
+    console.log('✓ images are left out for models without vision');
+}
+
+async function main(): Promise<void> {
+    console.log('Running local provider tests...');
+    testModelList();
+    await testFetchModels();
+    testEndpoints();
+    testDropImages();
+    console.log('All local provider tests passed.');
+}
+
+void main();
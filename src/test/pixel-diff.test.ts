@@ -0,0 +1,49 @@
+import * as assert from 'assert';
+import { DEFAULT_DIFF_THRESHOLD, diffPixels } from '../webview/utils/pixelDiff';
+
+function image(...pixels: number[][]): Uint8ClampedArray {
+    return new Uint8ClampedArray(pixels.flat());
+}
+
+function testIdenticalImages(): void {
+    const page = image([255, 255, 255, 255], [0, 0, 0, 255]);
+    const diff = diffPixels(page, page, 2, 1);
+    assert.strictEqual(diff.changed, 0);
+    assert.strictEqual(diff.total, 2);
+    // Unchanged pixels are faded towards white so the highlights stand out
+    assert.deepStrictEqual(Array.from(diff.pixels), [255, 255, 255, 255, 178, 178, 178, 255]);
+    console.log('✓ identical images have no changed pixels');
+}
+
+function testThreshold(): void {
+    const first = image([100, 100, 100, 255], [100, 100, 100, 255], [100, 100, 100, 255]);
+    const second = image(
+        [100 + DEFAULT_DIFF_THRESHOLD, 100, 100, 255],
+        [100, 100 + DEFAULT_DIFF_THRESHOLD + 1, 100, 255],
+        [100, 100, 100, 0]
+    );
+    const diff = diffPixels(first, second, 3, 1);
+    assert.strictEqual(diff.changed, 2);
+    assert.deepStrictEqual(Array.from(diff.pixels.slice(4, 8)), [255, 0, 160, 255]);
+    assert.deepStrictEqual(Array.from(diff.pixels.slice(8, 12)), [255, 0, 160, 255]);
+    assert.strictEqual(diffPixels(first, second, 3, 1, 255).changed, 0);
+    console.log('✓ only differences above the threshold are highlighted');
+}
+
+function testSizeMismatch(): void {
+    assert.throws(
+        () => diffPixels(image([0, 0, 0, 255]), image([0, 0, 0, 255], [0, 0, 0, 255]), 1, 1),
+        /Expected two 1×1 RGBA images/
+    );
+    console.log('✓ images of different sizes are rejected');
+}
+
+function main(): void {
+    console.log('Running pixel diff tests...');
+    testIdenticalImages();
+    testThreshold();
+    testSizeMismatch();
+    console.log('All pixel diff tests passed.');
+}
+
+main();
@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import type { ChatMessage } from '../types/chatMessage';
+import { createReasoningMessage, updateReasoningMessage } from '../services/reasoningMessages';
+
+function reasoningPart(message: ChatMessage) {
+    assert.ok(Array.isArray(message.content));
+    const [part] = message.content;
+    assert.strictEqual(part.type, 'reasoning');
+    return part;
+}
+
+function testDeltasAccumulate(): void {
+    let messages: ChatMessage[] = [
+        { role: 'user', content: 'design a dashboard' },
+        createReasoningMessage(),
+    ];
+    messages = updateReasoningMessage(messages, 1, { text: 'A sidebar layout ' });
+    messages = updateReasoningMessage(messages, 1, { text: 'suits dense data.' });
+    assert.strictEqual(reasoningPart(messages[1]).text, 'A sidebar layout suits dense data.');
+    assert.strictEqual(messages[1].metadata?.reasoning_duration_ms, undefined);
+
+    messages = updateReasoningMessage(messages, 1, { durationMs: 4200 });
+    assert.strictEqual(messages[1].metadata?.reasoning_duration_ms, 4200);
+    assert.strictEqual(reasoningPart(messages[1]).text, 'A sidebar layout suits dense data.');
+    console.log('✓ reasoning deltas accumulate and the duration is set at the end');
+}
+
+function testProviderMetadataIsKept(): void {
+    let messages = [createReasoningMessage({ openai: { itemId: 'rs_1' } })];
+    messages = updateReasoningMessage(messages, 0, { text: 'thinking' });
+    messages = updateReasoningMessage(messages, 0, {
+        providerMetadata: { anthropic: { signature: 'sig' }, openai: { encrypted: 'abc' } },
+    });
+    assert.deepStrictEqual(reasoningPart(messages[0]).providerOptions, {
+        openai: { itemId: 'rs_1', encrypted: 'abc' },
+        anthropic: { signature: 'sig' },
+    });
+    console.log('✓ provider metadata such as signatures is merged into providerOptions');
+}
+
+function testOtherMessagesAreIgnored(): void {
+    const messages: ChatMessage[] = [{ role: 'assistant', content: 'plain text' }];
+    assert.strictEqual(updateReasoningMessage(messages, 0, { text: 'x' }), messages);
+    assert.strictEqual(updateReasoningMessage(messages, 5, { text: 'x' }), messages);
+    console.log('✓ updates that do not target a reasoning message are ignored');
+}
+
+function main(): void {
+    console.log('Running reasoning message tests...');
+    testDeltasAccumulate();
+    testProviderMetadataIsKept();
+    testOtherMessagesAreIgnored();
+    console.log('All reasoning message tests passed.');
+}
+
+main();
@@ -0,0 +1,150 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    parseShadow,
+    parseThemeTokens,
+    toDtcgTokens,
+    toStyleDictionary,
+    toTailwindTheme,
+    writeTokenExports,
+} from '../services/tokenExport';
+
+const THEME = `:root {
+  --background: oklch(1 0 0);
+  --primary: oklch(0.65 0.24 27);
+  --primary-foreground: #ffffff;
+  --sidebar: oklch(0.98 0 0);
+  --sidebar-primary: var(--primary);
+  --sidebar-primary-foreground: #fff;
+  --font-sans: 'Inter', sans-serif;
+  --radius: 0.5rem;
+  --radius-lg: calc(var(--radius) + 4px);
+  --spacing: 0.25rem;
+  --shadow-sm: 0 1px 2px 0 hsl(0 0% 0% / 0.05);
+  --shadow: 0 1px 3px 0px hsl(0 0% 0% / 0.1), 0 1px 2px -1px hsl(0 0% 0% / 0.1);
+  --shadow-color: hsl(0 0% 0%);
+  --ease: ease-in-out;
+}
+
+.dark {
+  --background: oklch(0.15 0 0);
+  --primary: oklch(0.65 0.24 27);
+}`;
+
+function testParseTokens(): void {
+    const tokens = parseThemeTokens(THEME);
+    const byVariable = new Map(tokens.map(token => [token.variable, token]));
+    assert.strictEqual(byVariable.get('--font-sans')?.group, 'fontFamily');
+    assert.strictEqual(byVariable.get('--radius')?.key, 'base');
+    assert.strictEqual(byVariable.get('--shadow-sm')?.group, 'shadow');
+    assert.strictEqual(byVariable.get('--shadow-color')?.group, 'color');
+    assert.strictEqual(byVariable.get('--ease')?.group, 'other');
+    assert.strictEqual(byVariable.get('--background')?.darkValue, 'oklch(0.15 0 0)');
+    assert.throws(() => parseThemeTokens('.x { color: red; }'), /No :root/);
+    console.log('✓ theme variables are grouped into token categories');
+}
+
+function testParseShadow(): void {
+    assert.deepStrictEqual(parseShadow('inset 0 1px 2px rgb(0 0 0 / 0.2)'), [
+        {
+            color: 'rgb(0 0 0 / 0.2)',
+            offsetX: '0px',
+            offsetY: '1px',
+            blur: '2px',
+            spread: '0px',
+            inset: true,
+        },
+    ]);
+    assert.strictEqual(parseShadow('none'), undefined);
+    console.log('✓ box shadows are parsed into layers');
+}
+
+function testDtcg(): void {
+    const dtcg = toDtcgTokens(parseThemeTokens(THEME)) as Record<string, Record<string, any>>;
+    assert.strictEqual(dtcg.color.$type, 'color');
+    assert.strictEqual(dtcg.color['sidebar-primary'].$value, '{color.primary}');
+    assert.deepStrictEqual(dtcg.color.background.$extensions, {
+        'com.securedesign.modes': { dark: 'oklch(0.15 0 0)' },
+    });
+    // Unchanged in dark mode, so no override
+    assert.strictEqual(dtcg.color.primary.$extensions, undefined);
+    assert.deepStrictEqual(dtcg.fontFamily.sans.$value, ['Inter', 'sans-serif']);
+    assert.strictEqual(dtcg.radius.base.$value, '0.5rem');
+    assert.strictEqual(dtcg.radius.lg.$type, 'string');
+    assert.strictEqual(dtcg.shadow.base.$value.length, 2);
+    assert.strictEqual(dtcg.shadow.sm.$value.offsetY, '1px');
+    assert.strictEqual(dtcg.other.$type, undefined);
+    console.log('✓ DTCG output has typed groups, aliases and dark mode values');
+}
+
+function testTailwind(): void {
+    const theme = toTailwindTheme(parseThemeTokens(THEME)) as Record<string, Record<string, any>>;
+    assert.deepStrictEqual(theme.colors.primary, {
+        DEFAULT: 'oklch(0.65 0.24 27)',
+        foreground: '#ffffff',
+    });
+    assert.deepStrictEqual(theme.colors.sidebar, {
+        DEFAULT: 'oklch(0.98 0 0)',
+        primary: 'oklch(0.65 0.24 27)',
+        'primary-foreground': '#fff',
+    });
+    assert.strictEqual(theme.borderRadius.lg, 'calc(0.5rem + 4px)');
+    assert.strictEqual(theme.spacing.DEFAULT, '0.25rem');
+    assert.strictEqual(theme.spacing['4'], '1rem');
+    assert.strictEqual(theme.spacing['0.5'], '0.125rem');
+    assert.strictEqual(theme.boxShadow.DEFAULT.startsWith('0 1px 3px'), true);
+    assert.deepStrictEqual(theme.fontFamily.sans, ['Inter', 'sans-serif']);
+    assert.strictEqual(theme.other, undefined);
+    console.log('✓ Tailwind extension resolves references and nests colours');
+}
+
+async function testStyleDictionaryAndFiles(): Promise<void> {
+    const { light, dark } = toStyleDictionary(parseThemeTokens(THEME)) as Record<
+        string,
+        Record<string, Record<string, any>>
+    >;
+    assert.strictEqual(light.color['sidebar-primary'].value, '{color.primary.value}');
+    assert.strictEqual(light.radius.base.type, 'dimension');
+    assert.deepStrictEqual(Object.keys(dark.color), ['background']);
+
+    const workingDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'token-export-'));
+    try {
+        const paths = await writeTokenExports(workingDirectory, 'theme_1', THEME, [
+            'dtcg',
+            'tailwind',
+            'style-dictionary',
+        ]);
+        assert.deepStrictEqual(
+            paths.map(p => path.basename(p)),
+            [
+                'theme_1.tokens.json',
+                'theme_1.tailwind.js',
+                'theme_1.style-dictionary.json',
+                'theme_1.style-dictionary.dark.json',
+            ]
+        );
+        assert.ok(paths.every(p => path.dirname(p) === path.join(workingDirectory, 'tokens')));
+        JSON.parse(fs.readFileSync(paths[0], 'utf8'));
+
+        const tailwind = /module\.exports = ([\s\S]*);\n$/.exec(fs.readFileSync(paths[1], 'utf8'));
+        assert.ok(tailwind);
+        assert.strictEqual(JSON.parse(tailwind[1]).colors.background, 'oklch(1 0 0)');
+    } finally {
+        fs.rmSync(workingDirectory, { recursive: true, force: true });
+    }
+    console.log('✓ Style Dictionary sources and token files are written');
+}
+
+async function main(): Promise<void> {
+    console.log('Running token export tests...');
+    testParseTokens();
+    testParseShadow();
+    testDtcg();
+    testTailwind();
+    await testStyleDictionaryAndFiles();
+    console.log('All token export tests passed.');
+}
+
+void main();
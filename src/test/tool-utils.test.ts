@@ -1,6 +1,10 @@
 import * as assert from 'assert';
 import * as path from 'path';
-import { validateWorkspacePath, resolveWorkspacePath } from '../tools/tool-utils';
+import {
+    validateWorkspacePath,
+    resolveWorkspacePath,
+    validateNotAborted,
+} from '../tools/tool-utils';
 import type { ExecutionContext } from '../types/agent';
 
 const WORKSPACE = path.resolve(path.sep, 'home', 'user', 'landpage');
@@ -68,6 +72,17 @@ function testTraversalIsRejected(): void {
     console.log('✓ ".." traversal is rejected');
 }
 
+function testAbortedRunIsCancelled(): void {
+    const abortController = new AbortController();
+    const running = { ...context, abortController };
+    assert.strictEqual(validateNotAborted(running, 'Grep search'), null);
+    abortController.abort();
+    const error = validateNotAborted(running, 'Grep search');
+    assert.ok(error !== null);
+    assert.strictEqual(error.error_type, 'cancelled');
+    console.log('✓ aborted runs report a cancelled error');
+}
+
 function main(): void {
     console.log('Running tool-utils workspace path tests...');
     testRelativePathIsAccepted();
@@ -76,6 +91,7 @@ function main(): void {
     testForeignAbsolutePathIsRejectedWithGuidance();
     testSiblingDirectoryPrefixIsRejected();
     testTraversalIsRejected();
+    testAbortedRunIsCancelled();
     console.log('All tool-utils tests passed.');
 }
 
@@ -0,0 +1,145 @@
+import * as assert from 'assert';
+import type { ChatMessage } from '../types/chatMessage';
+import {
+    attachStepUsage,
+    computeCost,
+    findModelPrice,
+    MODEL_PRICES,
+    spendMonth,
+} from '../services/usageCost';
+import { formatTokenCount, summarizeUsage } from '../webview/utils/chatUtils';
+
+function testFindModelPrice(): void {
+    assert.strictEqual(findModelPrice('gpt-4o'), MODEL_PRICES['gpt-4o']);
+    // Longest key wins, so the mini model doesn't get the full model's price
+    assert.strictEqual(findModelPrice('gpt-4o-mini'), MODEL_PRICES['gpt-4o-mini']);
+    assert.strictEqual(findModelPrice('claude-sonnet-4-20250514'), MODEL_PRICES['claude-sonnet-4']);
+    assert.strictEqual(
+        findModelPrice('anthropic/claude-3-5-haiku'),
+        MODEL_PRICES['claude-3-5-haiku']
+    );
+    assert.strictEqual(
+        findModelPrice('us.anthropic.claude-opus-4-1-20250805-v1:0'),
+        MODEL_PRICES['claude-opus-4-1']
+    );
+    assert.strictEqual(findModelPrice('o3-mini'), MODEL_PRICES['o3-mini']);
+    assert.strictEqual(findModelPrice('o30'), undefined);
+    assert.strictEqual(findModelPrice('my-local-model'), undefined);
+
+    const override = { input: 1, output: 2 };
+    assert.strictEqual(findModelPrice('gpt-4o', { 'gpt-4o': override }), override);
+    assert.strictEqual(findModelPrice('my-local-model', { 'my-local-model': override }), override);
+    console.log('✓ prices resolve by model id, prefix and overrides');
+}
+
+function testComputeCost(): void {
+    const price = { input: 3, output: 15, cachedInput: 0.3 };
+    const cost = computeCost(
+        { inputTokens: 1_000_000, outputTokens: 100_000, cachedInputTokens: 400_000 },
+        price
+    );
+    // 600k uncached at $3, 400k cached at $0.30, 100k output at $15
+    assert.ok(Math.abs(cost - (1.8 + 0.12 + 1.5)) < 1e-9);
+
+    const noCacheDiscount = computeCost(
+        { inputTokens: 1000, outputTokens: 0, cachedInputTokens: 1000 },
+        { input: 2, output: 8 }
+    );
+    assert.ok(Math.abs(noCacheDiscount - 0.002) < 1e-12);
+    console.log('✓ cost accounts for cached input');
+}
+
+function testAttachStepUsage(): void {
+    const messages: ChatMessage[] = [
+        { role: 'user', content: 'design a login page' },
+        { role: 'assistant', content: 'Sure' },
+        {
+            role: 'assistant',
+            content: [{ type: 'tool-call', toolCallId: 't1', toolName: 'write', input: {} }],
+        },
+        {
+            role: 'tool',
+            content: [
+                {
+                    type: 'tool-result',
+                    toolCallId: 't1',
+                    toolName: 'write',
+                    output: { type: 'text', value: 'ok' },
+                },
+            ],
+        },
+    ];
+    const usage = { inputTokens: 2000, outputTokens: 500, cachedInputTokens: 0 };
+    const details = {
+        step: 2,
+        finishReason: 'tool-calls',
+        modelId: 'gpt-4o',
+        price: MODEL_PRICES['gpt-4o'],
+        startTime: 100,
+        endTime: 350,
+    };
+
+    const updated = attachStepUsage(messages, 1, usage, details);
+    assert.notStrictEqual(updated, messages);
+    assert.strictEqual(updated[0].metadata, undefined);
+    assert.deepStrictEqual(updated[1].metadata, { step: 2 });
+    assert.deepStrictEqual(updated[3].metadata, { step: 2 });
+    assert.strictEqual(updated[2].metadata?.finish_reason, 'tool-calls');
+    assert.strictEqual(updated[2].metadata?.input_tokens, 2000);
+    assert.strictEqual(updated[2].metadata?.model_id, 'gpt-4o');
+    assert.strictEqual(updated[2].metadata?.end_time, 350);
+    assert.ok(Math.abs((updated[2].metadata?.total_cost_usd ?? 0) - 0.01) < 1e-12);
+
+    // A step with no assistant output leaves history untouched
+    assert.strictEqual(attachStepUsage(messages, 3, usage, details), messages);
+
+    const unpriced = attachStepUsage(messages, 1, usage, { ...details, price: undefined });
+    assert.strictEqual(unpriced[2].metadata?.total_cost_usd, undefined);
+    assert.strictEqual(unpriced[2].metadata?.output_tokens, 500);
+    console.log('✓ step messages are tagged and usage goes on the last assistant message');
+}
+
+function testSummarizeUsage(): void {
+    const summary = summarizeUsage([
+        { role: 'user', content: 'hi' },
+        {
+            role: 'assistant',
+            content: 'a',
+            metadata: { input_tokens: 1000, output_tokens: 200, total_cost_usd: 0.5 },
+        },
+        {
+            role: 'assistant',
+            content: 'b',
+            metadata: { input_tokens: 3000, output_tokens: 100, cached_input_tokens: 2000 },
+        },
+    ]);
+    assert.deepStrictEqual(summary, {
+        inputTokens: 4000,
+        outputTokens: 300,
+        cachedInputTokens: 2000,
+        costUsd: 0.5,
+        hasUnpricedSteps: true,
+    });
+    assert.strictEqual(formatTokenCount(950), '950');
+    assert.strictEqual(formatTokenCount(12_345), '12.3k');
+    assert.strictEqual(formatTokenCount(2_500_000), '2.50M');
+    console.log('✓ session usage sums every recorded step');
+}
+
+function testSpendMonth(): void {
+    assert.strictEqual(spendMonth(new Date(2025, 0, 31)), '2025-01');
+    assert.strictEqual(spendMonth(new Date(2025, 11, 1)), '2025-12');
+    console.log('✓ spend is bucketed by calendar month');
+}
+
+function main(): void {
+    console.log('Running usage cost tests...');
+    testFindModelPrice();
+    testComputeCost();
+    testAttachStepUsage();
+    testSummarizeUsage();
+    testSpendMonth();
+    console.log('All usage cost tests passed.');
+}
+
+main();
@@ -0,0 +1,104 @@
+import * as fs from 'fs';
+import type { ExecutionContext } from '../types/agent';
+import type { GatedToolName, ToolApprovalPreview } from '../types/toolApproval';
+import { DEFAULT_COMMAND_TIMEOUT_MS } from './bash-sandbox';
+import { resolveWorkspacePath } from './tool-utils';
+
+interface EditInput {
+    old_string: string;
+    new_string: string;
+}
+
+function readCurrentContent(absolutePath: string): string | undefined {
+    try {
+        return fs.readFileSync(absolutePath, 'utf8').replace(/\r\n/g, '\n');
+    } catch {
+        return undefined;
+    }
+}
+
+function applyEdits(content: string, edits: EditInput[]): string {
+    return edits.reduce(
+        (result, edit) =>
+            edit.old_string === ''
+                ? edit.new_string
+                : result.split(edit.old_string).join(edit.new_string),
+        content
+    );
+}
+
+function asString(value: unknown, fallback = ''): string {
+    return typeof value === 'string' ? value : fallback;
+}
+
+function asStringRecord(value: unknown): Record<string, string> | undefined {
+    if (value === null || typeof value !== 'object') {
+        return undefined;
+    }
+    const entries = Object.entries(value).map(([name, entry]) => [name, String(entry)]);
+    return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+/**
+ * Describe what a gated tool call is about to do, without performing it.
+ * File changes are previewed by applying the edit in memory; validation is left to the tool.
+ */
+export function buildApprovalPreview(
+    toolName: GatedToolName,
+    input: Record<string, unknown>,
+    context: ExecutionContext
+): ToolApprovalPreview {
+    if (toolName === 'bash') {
+        return {
+            kind: 'command',
+            command: asString(input.command),
+            directory: asString(input.directory, '.'),
+            description: typeof input.description === 'string' ? input.description : undefined,
+            env: asStringRecord(input.env),
+            timeoutMs:
+                typeof input.timeout === 'number' ? input.timeout : DEFAULT_COMMAND_TIMEOUT_MS,
+        };
+    }
+
+    const filePath = asString(input.file_path);
+    let before: string | undefined;
+    try {
+        before = readCurrentContent(resolveWorkspacePath(filePath, context));
+    } catch {
+        before = undefined;
+    }
+
+    let after: string;
+    switch (toolName) {
+        case 'write':
+            after = asString(input.content);
+            break;
+        case 'edit':
+            after = applyEdits(before ?? '', [
+                { old_string: asString(input.old_string), new_string: asString(input.new_string) },
+            ]);
+            break;
+        case 'multiedit':
+            after = applyEdits(
+                before ?? '',
+                Array.isArray(input.edits)
+                    ? (input.edits as unknown[]).map(edit => {
+                          const e = (edit ?? {}) as Record<string, unknown>;
+                          return {
+                              old_string: asString(e.old_string),
+                              new_string: asString(e.new_string),
+                          };
+                      })
+                    : []
+            );
+            break;
+    }
+
+    return {
+        kind: 'diff',
+        filePath,
+        before: before ?? '',
+        after,
+        isNewFile: before === undefined,
+    };
+}
@@ -0,0 +1,272 @@
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+export type BashProfile = 'standard' | 'sandboxed';
+export type IsolationMethod = 'bwrap' | 'unshare' | 'none';
+
+/**
+ * How the bash tool runs commands. The standard profile keeps the historical behaviour
+ * (inherited environment, no limits); the sandboxed profile applies every restriction below.
+ */
+export interface BashExecutionPolicy {
+    profile: BashProfile;
+    // Environment variables passed through to commands; everything else is dropped
+    envAllowlist: string[];
+    // When non-empty, every command in the script must be one of these programs
+    allowedCommands: string[];
+    disableNetwork: boolean;
+    maxOutputBytes: number;
+    maxMemoryMb: number;
+    maxCpuSeconds: number;
+}
+
+export const DEFAULT_ENV_ALLOWLIST = [
+    'PATH',
+    'HOME',
+    'USER',
+    'LANG',
+    'LC_ALL',
+    'TERM',
+    'TMPDIR',
+    'SHELL',
+];
+
+// How long a command may run when the tool call doesn't say
+export const DEFAULT_COMMAND_TIMEOUT_MS = 30_000;
+
+export const STANDARD_POLICY: BashExecutionPolicy = {
+    profile: 'standard',
+    envAllowlist: [],
+    allowedCommands: [],
+    disableNetwork: false,
+    maxOutputBytes: 0,
+    maxMemoryMb: 0,
+    maxCpuSeconds: 0,
+};
+
+// Variables that make bash or the dynamic linker run code the allowlist never sees
+const PROTECTED_ENV = /^(BASH_ENV|ENV|PATH|LD_.*)$/;
+
+/**
+ * Check the variables a tool call asks for. Returns a reason when one of them is not allowed:
+ * in the sandboxed profile only allowlisted variables can be set, and never those that change
+ * which programs run.
+ */
+export function findDisallowedEnvironment(
+    requested: Record<string, string>,
+    allowlist: string[]
+): string | null {
+    const names = Object.keys(requested);
+    const protectedNames = names.filter(name => PROTECTED_ENV.test(name));
+    if (protectedNames.length > 0) {
+        return `Environment variables cannot be overridden: ${protectedNames.join(', ')}`;
+    }
+    const unlisted = names.filter(name => !allowlist.includes(name));
+    if (unlisted.length > 0) {
+        return `Environment variables not in allowlist: ${unlisted.join(', ')}`;
+    }
+    return null;
+}
+
+/**
+ * Keep only allowlisted variables from the host environment; requested variables from the tool
+ * call are layered on top when findDisallowedEnvironment accepts them, and dropped otherwise.
+ */
+export function scrubEnvironment(
+    hostEnv: NodeJS.ProcessEnv,
+    allowlist: string[],
+    requested: Record<string, string> = {}
+): NodeJS.ProcessEnv {
+    const scrubbed: NodeJS.ProcessEnv = {};
+    for (const name of allowlist) {
+        const value = hostEnv[name];
+        if (value !== undefined) {
+            scrubbed[name] = value;
+        }
+    }
+    for (const [name, value] of Object.entries(requested)) {
+        if (findDisallowedEnvironment({ [name]: value }, allowlist) === null) {
+            scrubbed[name] = value;
+        }
+    }
+    return scrubbed;
+}
+
+/**
+ * Remove shell quoting so `r''m` and `"rm"` compare equal to `rm`
+ */
+function unquote(word: string): string {
+    return word.replace(/\\(.)/g, '$1').replace(/['"]/g, '');
+}
+
+/**
+ * Check a script against the command allowlist. Returns a reason when the script is rejected.
+ * Command and process substitution are rejected outright because their contents can't be
+ * checked reliably, as are program names built from variables.
+ */
+export function findDisallowedCommand(script: string, allowedCommands: string[]): string | null {
+    if (allowedCommands.length === 0) {
+        return null;
+    }
+    if (/\$\(|`|<\(|>\(/.test(script)) {
+        return 'Command substitution is not permitted in allowlist mode';
+    }
+
+    const allowed = new Set(allowedCommands);
+    const segments = script.split(/\|\||&&|[;|&\n(){}]/);
+    for (const segment of segments) {
+        const words = segment.trim().split(/\s+/).filter(Boolean);
+        // Skip leading variable assignments such as `NODE_ENV=production npm run build`
+        const program = words.find(word => !/^[A-Za-z_][A-Za-z0-9_]*=/.test(word));
+        if (program === undefined) {
+            continue;
+        }
+        if (program.includes('$')) {
+            return `Program name must be literal in allowlist mode: ${program}`;
+        }
+        const name = path.basename(unquote(program));
+        if (!allowed.has(name)) {
+            return `Command not in allowlist: ${name}`;
+        }
+    }
+    return null;
+}
+
+let cachedIsolation: IsolationMethod | undefined;
+
+function probe(file: string, args: string[]): boolean {
+    try {
+        const result = spawnSync(file, args, { stdio: 'ignore', timeout: 3000 });
+        return result.status === 0;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Find a working way to run commands without network access. Each candidate is probed once
+ * because user namespaces are often disabled even when the binaries exist.
+ */
+export function detectNetworkIsolation(): IsolationMethod {
+    if (cachedIsolation !== undefined) {
+        return cachedIsolation;
+    }
+    if (os.platform() !== 'linux') {
+        cachedIsolation = 'none';
+    } else if (probe('bwrap', ['--ro-bind', '/', '/', '--dev', '/dev', '--unshare-net', 'true'])) {
+        cachedIsolation = 'bwrap';
+    } else if (probe('unshare', ['-rn', 'true'])) {
+        cachedIsolation = 'unshare';
+    } else {
+        cachedIsolation = 'none';
+    }
+    return cachedIsolation;
+}
+
+// Folder under the agent's working directory that holds the command audit log
+export const COMMAND_AUDIT_FOLDER = 'audit';
+
+/**
+ * Build the process invocation for a command under the given policy. With bwrap the file
+ * system is read-only apart from `writableRoot` and a private /tmp, and the audit log under
+ * `writableRoot` stays read-only so commands can't rewrite their own records.
+ */
+export function buildSandboxedInvocation(
+    command: string,
+    cwd: string,
+    writableRoot: string,
+    policy: BashExecutionPolicy,
+    isolation: IsolationMethod
+): { file: string; args: string[] } {
+    if (os.platform() === 'win32') {
+        return { file: 'cmd.exe', args: ['/c', command] };
+    }
+
+    const limits: string[] = [];
+    if (policy.maxCpuSeconds > 0) {
+        limits.push(`ulimit -t ${Math.floor(policy.maxCpuSeconds)}`);
+    }
+    if (policy.maxMemoryMb > 0) {
+        limits.push(`ulimit -v ${Math.floor(policy.maxMemoryMb * 1024)}`);
+    }
+    const script = limits.length > 0 ? `${limits.join(' && ')} || exit 126\n${command}` : command;
+
+    if (!policy.disableNetwork || isolation === 'none') {
+        return { file: 'bash', args: ['-c', script] };
+    }
+    if (isolation === 'bwrap') {
+        return {
+            file: 'bwrap',
+            args: [
+                '--ro-bind',
+                '/',
+                '/',
+                '--dev',
+                '/dev',
+                '--proc',
+                '/proc',
+                '--tmpfs',
+                '/tmp',
+                '--bind',
+                writableRoot,
+                writableRoot,
+                '--ro-bind-try',
+                path.join(writableRoot, COMMAND_AUDIT_FOLDER),
+                path.join(writableRoot, COMMAND_AUDIT_FOLDER),
+                '--chdir',
+                cwd,
+                '--unshare-net',
+                '--die-with-parent',
+                'bash',
+                '-c',
+                script,
+            ],
+        };
+    }
+    return { file: 'unshare', args: ['-rn', 'bash', '-c', script] };
+}
+
+export interface CommandAuditRecord {
+    timestamp: string;
+    sessionId: string;
+    profile: BashProfile;
+    isolation: IsolationMethod;
+    command: string;
+    directory: string;
+    // Variables the tool call set for the command
+    env?: Record<string, string>;
+    status:
+        | 'blocked'
+        | 'started'
+        | 'completed'
+        | 'failed'
+        | 'timed_out'
+        | 'cancelled'
+        | 'output_limit';
+    reason?: string;
+    exitCode?: number | null;
+    signal?: string | null;
+    durationMs?: number;
+    stdoutBytes?: number;
+    stderrBytes?: number;
+}
+
+/**
+ * Append a record to the JSON Lines audit log under the agent's working directory
+ * (.superdesign/audit/commands.jsonl in a workspace). Commands get a "started" record before
+ * they run, so one that never finishes is still logged.
+ */
+export async function appendCommandAudit(
+    workingDirectory: string,
+    record: CommandAuditRecord
+): Promise<void> {
+    const auditDir = path.join(workingDirectory, COMMAND_AUDIT_FOLDER);
+    await fs.promises.mkdir(auditDir, { recursive: true });
+    await fs.promises.appendFile(
+        path.join(auditDir, 'commands.jsonl'),
+        `${JSON.stringify(record)}\n`,
+        'utf8'
+    );
+}
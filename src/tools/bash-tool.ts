@@ -10,9 +10,21 @@ import {
     resolveWorkspacePath,
     createSuccessResponse,
     validateDirectoryExists,
+    validateNotAborted,
     type ToolResponse,
 } from './tool-utils';
-import { getLogger } from 'react-vscode-webview-ipc/host';
+import {
+    appendCommandAudit,
+    buildSandboxedInvocation,
+    DEFAULT_COMMAND_TIMEOUT_MS,
+    detectNetworkIsolation,
+    findDisallowedCommand,
+    findDisallowedEnvironment,
+    scrubEnvironment,
+    STANDARD_POLICY,
+    type CommandAuditRecord,
+    type IsolationMethod,
+} from './bash-sandbox';
 
 const bashParametersSchema = z.object({
     command: z
@@ -51,6 +63,10 @@ interface CommandResult {
     signal: string | null;
     duration: number;
     timedOut: boolean;
+    aborted: boolean;
+    outputLimited: boolean;
+    stdoutBytes: number;
+    stderrBytes: number;
     processId?: number;
 }
 
@@ -92,14 +108,19 @@ async function executeCommand(
         env: NodeJS.ProcessEnv;
         timeout: number;
         captureOutput: boolean;
+        signal?: AbortSignal;
+        // Overrides the default shell invocation, e.g. to run inside a sandbox
+        invocation?: { file: string; args: string[] };
+        // Stop the command once combined output exceeds this many bytes (0 = unlimited)
+        maxOutputBytes?: number;
     }
 ): Promise<CommandResult> {
     const startTime = Date.now();
     const isWindows = os.platform() === 'win32';
 
     // Choose shell based on platform
-    const shell = isWindows ? 'cmd.exe' : 'bash';
-    const shellArgs = isWindows ? ['/c', command] : ['-c', command];
+    const shell = options.invocation?.file ?? (isWindows ? 'cmd.exe' : 'bash');
+    const shellArgs = options.invocation?.args ?? (isWindows ? ['/c', command] : ['-c', command]);
 
     const child: ChildProcess = spawn(shell, shellArgs, {
         cwd: options.cwd,
@@ -111,21 +132,42 @@ async function executeCommand(
     let stdout = '';
     let stderr = '';
     let timedOut = false;
+    let aborted = false;
+    let outputLimited = false;
+    let stdoutBytes = 0;
+    let stderrBytes = 0;
+    const maxOutputBytes = options.maxOutputBytes ?? 0;
+
+    const exceedsOutputLimit = (): boolean => {
+        if (maxOutputBytes <= 0 || stdoutBytes + stderrBytes <= maxOutputBytes) {
+            return false;
+        }
+        if (!outputLimited) {
+            outputLimited = true;
+            terminate();
+        }
+        return true;
+    };
 
     // Capture output if requested
     if (options.captureOutput && child.stdout && child.stderr) {
         child.stdout.on('data', (data: Buffer) => {
-            stdout += data.toString();
+            stdoutBytes += data.length;
+            if (!exceedsOutputLimit()) {
+                stdout += data.toString();
+            }
         });
 
         child.stderr.on('data', (data: Buffer) => {
-            stderr += data.toString();
+            stderrBytes += data.length;
+            if (!exceedsOutputLimit()) {
+                stderr += data.toString();
+            }
         });
     }
 
-    // Set up timeout
-    const timeoutHandle = setTimeout(() => {
-        timedOut = true;
+    // Terminate the whole process tree so child processes don't outlive the command
+    function terminate() {
         if (child.pid) {
             try {
                 if (isWindows) {
@@ -149,12 +191,29 @@ async function executeCommand(
                 // Process might already be dead
             }
         }
+    }
+
+    // Set up timeout
+    const timeoutHandle = setTimeout(() => {
+        timedOut = true;
+        terminate();
     }, options.timeout);
 
+    // Stop the command when the agent run is aborted
+    const onAbort = () => {
+        aborted = true;
+        terminate();
+    };
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    if (options.signal?.aborted === true) {
+        onAbort();
+    }
+
     // Wait for process to complete
     const exitPromise = new Promise<{ code: number | null; signal: string | null }>(resolve => {
         child.on('exit', (code, signal) => {
             clearTimeout(timeoutHandle);
+            options.signal?.removeEventListener('abort', onAbort);
             resolve({ code, signal });
         });
     });
@@ -171,12 +230,17 @@ async function executeCommand(
         signal: signal,
         duration,
         timedOut,
+        aborted,
+        outputLimited,
+        stdoutBytes,
+        stderrBytes,
         processId: child.pid,
     };
 }
 
 export function createBashTool(context: ExecutionContext) {
-    const logger = getLogger('bash tool');
+    const { logger } = context;
+    const policy = context.bashPolicy ?? STANDARD_POLICY;
     return tool({
         description:
             'Execute shell/bash commands within the workspace. Supports timeouts, output capture, and secure execution.',
@@ -185,13 +249,38 @@ export function createBashTool(context: ExecutionContext) {
             command,
             description,
             directory,
-            timeout = 30000,
+            timeout = DEFAULT_COMMAND_TIMEOUT_MS,
             capture_output = true,
             env,
         }): Promise<ToolResponse> => {
+            const isSandboxed = policy.profile === 'sandboxed';
+            const isolation: IsolationMethod =
+                isSandboxed && policy.disableNetwork ? detectNetworkIsolation() : 'none';
+            const audit = (
+                record: Omit<
+                    CommandAuditRecord,
+                    'timestamp' | 'sessionId' | 'profile' | 'isolation'
+                >
+            ) =>
+                appendCommandAudit(context.workingDirectory, {
+                    timestamp: new Date().toISOString(),
+                    sessionId: context.sessionId,
+                    profile: policy.profile,
+                    isolation,
+                    ...record,
+                }).catch((error: unknown) => {
+                    logger.warn('Failed to write command audit record', { error });
+                });
+
             try {
                 // Security checks
                 if (hasUnsafeCommand(command)) {
+                    void audit({
+                        command,
+                        directory: directory ?? '.',
+                        status: 'blocked',
+                        reason: 'unsafe pattern',
+                    });
                     return handleToolError(
                         'Command contains potentially unsafe operations',
                         'Security check',
@@ -199,6 +288,43 @@ export function createBashTool(context: ExecutionContext) {
                     );
                 }
 
+                if (isSandboxed) {
+                    const disallowed = findDisallowedCommand(command, policy.allowedCommands);
+                    if (disallowed !== null) {
+                        void audit({
+                            command,
+                            directory: directory ?? '.',
+                            status: 'blocked',
+                            reason: disallowed,
+                        });
+                        return handleToolError(disallowed, 'Command allowlist', 'security');
+                    }
+                    const disallowedEnv =
+                        env === undefined
+                            ? null
+                            : findDisallowedEnvironment(env, policy.envAllowlist);
+                    if (disallowedEnv !== null) {
+                        void audit({
+                            command,
+                            directory: directory ?? '.',
+                            env,
+                            status: 'blocked',
+                            reason: disallowedEnv,
+                        });
+                        return handleToolError(disallowedEnv, 'Environment allowlist', 'security');
+                    }
+                    if (policy.disableNetwork && isolation === 'none') {
+                        logger.warn(
+                            'Network isolation requested but neither bwrap nor unshare is usable; running with network access'
+                        );
+                    }
+                }
+
+                const abortError = validateNotAborted(context, 'Command execution');
+                if (abortError) {
+                    return abortError;
+                }
+
                 // Resolve execution directory
                 const workingDir = directory ?? '.';
 
@@ -222,10 +348,15 @@ export function createBashTool(context: ExecutionContext) {
                 logger.info(`Working directory: ${workingDir}`);
 
                 // Prepare environment
-                const processEnv = {
-                    ...process.env,
-                    ...env,
-                };
+                const processEnv = isSandboxed
+                    ? scrubEnvironment(process.env, policy.envAllowlist, env)
+                    : {
+                          ...process.env,
+                          ...env,
+                      };
+
+                // Logged before the command runs, so it can't keep itself out of the log
+                await audit({ command, directory: workingDir, env, status: 'started' });
 
                 // Execute the command
                 const result = await executeCommand(command, {
@@ -233,8 +364,55 @@ export function createBashTool(context: ExecutionContext) {
                     env: processEnv,
                     timeout,
                     captureOutput: capture_output,
+                    signal: context.abortController?.signal,
+                    invocation: isSandboxed
+                        ? buildSandboxedInvocation(
+                              command,
+                              absolutePath,
+                              context.workingDirectory,
+                              policy,
+                              isolation
+                          )
+                        : undefined,
+                    maxOutputBytes: policy.maxOutputBytes,
+                });
+
+                await audit({
+                    command,
+                    directory: workingDir,
+                    status: result.aborted
+                        ? 'cancelled'
+                        : result.outputLimited
+                          ? 'output_limit'
+                          : result.timedOut
+                            ? 'timed_out'
+                            : result.exitCode === 0
+                              ? 'completed'
+                              : 'failed',
+                    exitCode: result.exitCode,
+                    signal: result.signal,
+                    durationMs: result.duration,
+                    stdoutBytes: result.stdoutBytes,
+                    stderrBytes: result.stderrBytes,
                 });
 
+                if (result.aborted) {
+                    logger.info(`Command cancelled after ${result.duration}ms`);
+                    return handleToolError(
+                        'Command cancelled by user',
+                        'Command execution',
+                        'cancelled'
+                    );
+                }
+
+                if (result.outputLimited) {
+                    return handleToolError(
+                        `Command stopped after exceeding the ${policy.maxOutputBytes} byte output limit`,
+                        'Command execution',
+                        'execution'
+                    );
+                }
+
                 // Log results
                 if (result.timedOut) {
                     logger.info(`Command timed out after ${timeout}ms`);
@@ -0,0 +1,78 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+import type { ExecutionContext } from '../types/agent';
+import { readComponentSource, searchDesignSystem } from '../services/designSystemIndex';
+import {
+    handleToolError,
+    createSuccessResponse,
+    validateNotAborted,
+    type ToolResponse,
+} from './tool-utils';
+
+const MAX_RESULTS = 50;
+const MAX_SOURCE_CHARS = 20000;
+
+export function createDesignSystemTool(context: ExecutionContext) {
+    return tool({
+        description:
+            "Look up tokens, Tailwind theme values and components from the user's own design system (read-only). Use it before choosing colors, fonts, spacing or component markup.",
+        inputSchema: z.object({
+            query: z
+                .string()
+                .optional()
+                .describe('Text to search for in token names/values and component names/paths'),
+            kind: z
+                .enum(['token', 'component', 'config', 'all'])
+                .optional()
+                .default('all')
+                .describe('Restrict the search to tokens, components or Tailwind configs'),
+            component: z
+                .string()
+                .optional()
+                .describe('Name of a component whose source code should be returned'),
+        }),
+        execute: async ({ query = '', kind = 'all', component }): Promise<ToolResponse> => {
+            try {
+                const abortError = validateNotAborted(context, 'Design system lookup');
+                if (abortError) {
+                    return abortError;
+                }
+
+                const index = context.designSystem;
+                if (!index) {
+                    return handleToolError(
+                        'No design system sources are configured (securedesign.designSystem.sources)',
+                        'Design system lookup',
+                        'validation'
+                    );
+                }
+
+                if (component !== undefined) {
+                    const found = await readComponentSource(index, component);
+                    if (!found) {
+                        return handleToolError(
+                            `Component not found: ${component}`,
+                            'Design system lookup',
+                            'file_not_found'
+                        );
+                    }
+                    context.logger.info(`[designSystem] Read component ${component}`);
+                    return createSuccessResponse({
+                        component,
+                        path: found.path,
+                        source: found.source.slice(0, MAX_SOURCE_CHARS),
+                        truncated: found.source.length > MAX_SOURCE_CHARS,
+                    });
+                }
+
+                const results = searchDesignSystem(index, query, kind, MAX_RESULTS);
+                context.logger.info(
+                    `[designSystem] "${query}" matched ${results.tokens.length} tokens and ${results.components.length} components`
+                );
+                return createSuccessResponse({ query, kind, ...results });
+            } catch (error) {
+                return handleToolError(error, 'Design system lookup', 'execution');
+            }
+        },
+    });
+}
@@ -8,9 +8,10 @@ import {
     validateWorkspacePath,
     resolveWorkspacePath,
     createSuccessResponse,
+    validateNotAborted,
+    snapshotBeforeWrite,
     type ToolResponse,
 } from './tool-utils';
-import { getLogger } from 'react-vscode-webview-ipc/host';
 
 const editParametersSchema = z.object({
     file_path: z
@@ -152,7 +153,7 @@ function calculateEdit(
 }
 
 export function createEditTool(context: ExecutionContext) {
-    const logger = getLogger('edit tool');
+    const { logger } = context;
     return tool({
         description:
             'Replace text within a file using exact string matching. Accepts both relative and absolute file paths within the workspace.',
@@ -164,6 +165,11 @@ export function createEditTool(context: ExecutionContext) {
             expected_replacements = 1,
         }): Promise<ToolResponse> => {
             try {
+                const abortError = validateNotAborted(context, 'File edit');
+                if (abortError) {
+                    return abortError;
+                }
+
                 // Validate workspace path (handles both absolute and relative paths)
                 const pathError = validateWorkspacePath(file_path, context);
                 if (pathError) {
@@ -197,6 +203,7 @@ export function createEditTool(context: ExecutionContext) {
                 }
 
                 // Write the updated content
+                snapshotBeforeWrite(context, absolutePath, 'edit');
                 fs.writeFileSync(absolutePath, editResult.newContent, 'utf8');
 
                 const newLines = editResult.newContent.split('\n').length;
@@ -9,9 +9,9 @@ import {
     resolveWorkspacePath,
     createSuccessResponse,
     validateDirectoryExists,
+    validateNotAborted,
     type ToolResponse,
 } from './tool-utils';
-import { getLogger } from 'react-vscode-webview-ipc/host';
 
 const globParametersSchema = z.object({
     pattern: z
@@ -128,12 +128,14 @@ async function findMatches(
         includeDirs: boolean;
         showHidden: boolean;
         maxResults: number;
+        signal?: AbortSignal;
     }
 ): Promise<GlobFileEntry[]> {
     const results: GlobFileEntry[] = [];
+    const isAborted = (): boolean => options.signal?.aborted === true;
 
     const scanDirectory = async (currentDir: string): Promise<void> => {
-        if (results.length >= options.maxResults) {
+        if (results.length >= options.maxResults || isAborted()) {
             return;
         }
 
@@ -141,7 +143,7 @@ async function findMatches(
             const entries = await fs.promises.readdir(currentDir, { withFileTypes: true });
 
             for (const entry of entries) {
-                if (results.length >= options.maxResults) {
+                if (results.length >= options.maxResults || isAborted()) {
                     break;
                 }
 
@@ -234,7 +236,7 @@ function sortResults(results: GlobFileEntry[], sortByTime: boolean): GlobFileEnt
 }
 
 export function createGlobTool(context: ExecutionContext) {
-    const logger = getLogger('glob tool');
+    const { logger } = context;
     return tool({
         description:
             'Find files and directories matching glob patterns (e.g., "*.js", "src/**/*.ts"). Efficient for locating files by name or path structure.',
@@ -276,8 +278,14 @@ export function createGlobTool(context: ExecutionContext) {
                     includeDirs: include_dirs,
                     showHidden: show_hidden,
                     maxResults: max_results,
+                    signal: context.abortController?.signal,
                 });
 
+                const abortError = validateNotAborted(context, 'Glob search');
+                if (abortError) {
+                    return abortError;
+                }
+
                 // Sort results
                 const sortedMatches = sortResults(matches, sort_by_time);
 
@@ -9,9 +9,9 @@ import {
     resolveWorkspacePath,
     createSuccessResponse,
     validateDirectoryExists,
+    validateNotAborted,
     type ToolResponse,
 } from './tool-utils';
-import { getLogger } from 'react-vscode-webview-ipc/host';
 
 const grepParametersSchema = z.object({
     pattern: z
@@ -172,12 +172,14 @@ function isTextFile(filePath: string): boolean {
 async function findFilesToSearch(
     dirPath: string,
     includePattern?: string,
-    maxFiles: number = 1000
+    maxFiles: number = 1000,
+    signal?: AbortSignal
 ): Promise<string[]> {
     const files: string[] = [];
+    const isAborted = (): boolean => signal?.aborted === true;
 
     const scanDirectory = async (currentPath: string): Promise<void> => {
-        if (files.length >= maxFiles) {
+        if (files.length >= maxFiles || isAborted()) {
             return;
         }
 
@@ -185,7 +187,7 @@ async function findFilesToSearch(
             const entries = await fs.promises.readdir(currentPath, { withFileTypes: true });
 
             for (const entry of entries) {
-                if (files.length >= maxFiles) {
+                if (files.length >= maxFiles || isAborted()) {
                     break;
                 }
 
@@ -268,7 +270,7 @@ async function searchInFile(
 }
 
 export function createGrepTool(context: ExecutionContext) {
-    const logger = getLogger('grep tool');
+    const { logger } = context;
     return tool({
         description:
             'Search for text patterns within file contents using regular expressions. Can filter by file types and paths.',
@@ -316,8 +318,18 @@ export function createGrepTool(context: ExecutionContext) {
                 const regexFlags = case_sensitive ? 'g' : 'gi';
                 const regex = new RegExp(pattern, regexFlags);
 
-                // Find files to search
-                const filesToSearch = await findFilesToSearch(absolutePath, include, max_files);
+                // Find files to search (the walk stops early if the run is aborted)
+                const filesToSearch = await findFilesToSearch(
+                    absolutePath,
+                    include,
+                    max_files,
+                    context.abortController?.signal
+                );
+
+                const walkAbortError = validateNotAborted(context, 'Grep file scan');
+                if (walkAbortError) {
+                    return walkAbortError;
+                }
 
                 if (filesToSearch.length === 0) {
                     const message = `No files found to search in ${searchPath}${include ? ` matching ${include}` : ''}`;
@@ -341,6 +353,10 @@ export function createGrepTool(context: ExecutionContext) {
                     if (allMatches.length >= max_matches) {
                         break;
                     }
+                    const abortError = validateNotAborted(context, 'Grep search');
+                    if (abortError) {
+                        return abortError;
+                    }
 
                     const fileMatches = await searchInFile(
                         file,
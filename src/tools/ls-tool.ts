@@ -11,7 +11,6 @@ import {
     validateDirectoryExists,
     type ToolResponse,
 } from './tool-utils';
-import { getLogger } from 'react-vscode-webview-ipc/host';
 
 const lsParametersSchema = z.object({
     path: z
@@ -110,7 +109,7 @@ function formatModifiedTime(date: Date): string {
 }
 
 export function createLsTool(context: ExecutionContext) {
-    const logger = getLogger('ls tool');
+    const { logger } = context;
     return tool({
         description:
             'List the contents of a directory in the workspace. Shows files and subdirectories with optional filtering.',
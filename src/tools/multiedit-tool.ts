@@ -7,10 +7,11 @@ import {
     validateWorkspacePath,
     resolveWorkspacePath,
     createSuccessResponse,
+    validateNotAborted,
+    snapshotBeforeWrite,
     validateFileExists,
     type ToolResponse,
 } from './tool-utils';
-import { getLogger } from 'react-vscode-webview-ipc/host';
 
 const singleEditSchema = z.object({
     old_string: z
@@ -102,7 +103,7 @@ function applySingleEdit(content: string, edit: SingleEdit): EditResult {
 }
 
 export function createMultieditTool(context: ExecutionContext) {
-    const logger = getLogger('multiedit tool');
+    const { logger } = context;
     return tool({
         description:
             'Perform multiple find-and-replace operations on a single file in sequence. Each edit is applied to the result of the previous edit. Accepts both relative and absolute file paths within the workspace.',
@@ -111,6 +112,11 @@ export function createMultieditTool(context: ExecutionContext) {
             try {
                 const { file_path, edits, fail_fast = true } = params;
 
+                const abortError = validateNotAborted(context, 'Multi-edit');
+                if (abortError) {
+                    return abortError;
+                }
+
                 // Validate workspace path (handles both absolute and relative paths)
                 const pathError = validateWorkspacePath(file_path, context);
                 if (pathError) {
@@ -177,6 +183,7 @@ export function createMultieditTool(context: ExecutionContext) {
 
                 // Write the updated content if any edits were successful
                 if (successCount > 0) {
+                    snapshotBeforeWrite(context, absolutePath, 'multiedit');
                     fs.writeFileSync(absolutePath, currentContent, 'utf8');
                 }
 
@@ -8,6 +8,8 @@ import {
     validateWorkspacePath,
     resolveWorkspacePath,
     createSuccessResponse,
+    validateNotAborted,
+    snapshotBeforeWrite,
     type ToolResponse,
 } from './tool-utils';
 
@@ -63,6 +65,11 @@ export function createThemeTool(context: ExecutionContext) {
             create_dirs = true,
         }): Promise<ToolResponse> => {
             try {
+                const abortError = validateNotAborted(context, 'Theme generation');
+                if (abortError) {
+                    return abortError;
+                }
+
                 // Validate and resolve the CSS file path
                 const validationError = validateWorkspacePath(cssFilePath, context);
                 if (validationError) {
@@ -81,6 +88,7 @@ export function createThemeTool(context: ExecutionContext) {
                 }
 
                 // Write the CSS content to file
+                snapshotBeforeWrite(context, resolvedPath, 'generateTheme');
                 fs.writeFileSync(resolvedPath, cssSheet, 'utf8');
 
                 context.logger.info(
@@ -1,6 +1,8 @@
 import * as path from 'path';
 import * as fs from 'fs';
 import type { ExecutionContext } from '../types/agent';
+import type { DesignVersionSource } from '../types/designHistory';
+import { snapshotDesignVersion } from '../services/designHistory';
 
 /**
  * Standard error response structure for all tools
@@ -14,6 +16,7 @@ export interface ToolErrorResponse {
         | 'file_not_found'
         | 'permission'
         | 'execution'
+        | 'cancelled'
         | 'unknown';
     details?: any;
 }
@@ -146,15 +149,22 @@ export function validateWorkspacePath(
  * to the same location the validation approved.
  */
 export function resolveWorkspacePath(filePath: string, context: ExecutionContext): string {
+    return resolvePathInDirectory(filePath, context.workingDirectory);
+}
+
+/**
+ * resolveWorkspacePath against a given directory, for paths the agent used in an earlier request
+ */
+export function resolvePathInDirectory(filePath: string, directory: string): string {
     if (path.isAbsolute(filePath)) {
         const normalized = path.normalize(filePath);
-        const normalizedWorkspace = path.normalize(context.workingDirectory);
+        const normalizedWorkspace = path.normalize(directory);
         if (isWithinDirectory(normalized, normalizedWorkspace)) {
             return normalized;
         }
         return remapAbsolutePathIntoWorkspace(filePath, normalizedWorkspace) ?? normalized;
     } else {
-        return path.resolve(context.workingDirectory, filePath);
+        return path.resolve(directory, filePath);
     }
 }
 
@@ -233,3 +243,32 @@ export function validateDirectoryExists(
         return handleToolError(error, 'Directory validation', 'permission');
     }
 }
+
+/**
+ * Cancellation helper for long-running tools; returns an error once the agent run is aborted
+ */
+export function validateNotAborted(
+    context: ExecutionContext,
+    operation: string
+): ToolErrorResponse | null {
+    if (context.abortController?.signal.aborted !== true) {
+        return null;
+    }
+    return handleToolError('Operation cancelled by user', operation, 'cancelled');
+}
+
+/**
+ * Save the current content of a design file to its version history before a tool overwrites it.
+ * A failed snapshot is logged and never blocks the write.
+ */
+export function snapshotBeforeWrite(
+    context: ExecutionContext,
+    absolutePath: string,
+    source: DesignVersionSource
+): void {
+    try {
+        snapshotDesignVersion(context.workingDirectory, absolutePath, source, context.sessionId);
+    } catch (error) {
+        context.logger.warn(`Failed to snapshot design version of ${absolutePath}`, { error });
+    }
+}
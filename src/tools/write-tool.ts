@@ -8,6 +8,8 @@ import {
     validateWorkspacePath,
     resolveWorkspacePath,
     createSuccessResponse,
+    validateNotAborted,
+    snapshotBeforeWrite,
     type ToolResponse,
 } from './tool-utils';
 
@@ -47,6 +49,11 @@ export function createWriteTool(context: ExecutionContext) {
             const startTime = Date.now();
 
             try {
+                const abortError = validateNotAborted(context, 'File write');
+                if (abortError) {
+                    return abortError;
+                }
+
                 // Validate workspace path (handles both absolute and relative paths)
                 const pathError = validateWorkspacePath(file_path, context);
                 if (pathError) {
@@ -83,6 +90,7 @@ export function createWriteTool(context: ExecutionContext) {
                 const isNewFile = !fs.existsSync(absolutePath);
 
                 // Write the file
+                snapshotBeforeWrite(context, absolutePath, 'write');
                 fs.writeFileSync(absolutePath, content, 'utf8');
 
                 const duration = Date.now() - startTime;
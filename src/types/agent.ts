@@ -1,11 +1,16 @@
 import type { ILogger } from 'react-vscode-webview-ipc/host';
 import type { ChatMessage } from './chatMessage';
+import type { BashExecutionPolicy } from '../tools/bash-sandbox';
+import type { DesignSystemIndex } from './designSystem';
+import type { DesignWorkflow } from './designWorkflow';
 
 export interface AgentService {
     query(
         messages: ChatMessage[],
         abortController: AbortController,
-        onMessage: (prev: ChatMessage[]) => void
+        onMessage: (prev: ChatMessage[]) => void,
+        // Guided workflow of the session, whose current step limits the turn
+        workflow?: DesignWorkflow
     ): Promise<ChatMessage[]>;
 
     isApiKeyAuthError(errorMessage: string): boolean;
@@ -16,4 +21,7 @@ export interface ExecutionContext {
     sessionId: string;
     logger: ILogger;
     abortController?: AbortController;
+    bashPolicy?: BashExecutionPolicy;
+    // The user's design system, when design system sources are configured
+    designSystem?: DesignSystemIndex;
 }
@@ -0,0 +1,26 @@
+/**
+ * A prompt profile: the built-in default or a .superdesign/profiles/*.md file whose front
+ * matter sets the model and tools and whose body replaces the default style rules.
+ */
+export interface AgentProfile {
+    // File name without .md; "default" for the built-in profile
+    id: string;
+    name: string;
+    description?: string;
+    // "provider:model" used instead of the model selected in the chat
+    model?: string;
+    // Tools the agent may use; all tools when undefined
+    tools?: string[];
+    styleRules: string;
+    // Workspace-relative path of the profile file, undefined for the built-in profile
+    source?: string;
+    // Front matter problems, shown next to the profile in the picker
+    warnings: string[];
+}
+
+export type AgentProfileSummary = Omit<AgentProfile, 'styleRules'>;
+
+export interface AgentProfilesState {
+    profiles: AgentProfileSummary[];
+    selectedId: string;
+}
@@ -0,0 +1,35 @@
+import type {
+    LanguageModelV2CallWarning,
+    LanguageModelV2Content,
+    LanguageModelV2FinishReason,
+    LanguageModelV2StreamPart,
+    LanguageModelV2Usage,
+    SharedV2ProviderMetadata,
+} from '@ai-sdk/provider';
+
+// Stream parts one streamed model call returned, in order
+export interface AgentRecordingStreamStep {
+    parts: LanguageModelV2StreamPart[];
+}
+
+// What one non-streamed model call returned, such as the summary when history is compacted
+export interface AgentRecordingGenerateStep {
+    generated: {
+        content: LanguageModelV2Content[];
+        finishReason: LanguageModelV2FinishReason;
+        usage: LanguageModelV2Usage;
+        providerMetadata?: SharedV2ProviderMetadata;
+        warnings: LanguageModelV2CallWarning[];
+    };
+}
+
+export type AgentRecordingStep = AgentRecordingStreamStep | AgentRecordingGenerateStep;
+
+// Model calls of one agent request, saved to replay the session offline
+export interface AgentRecording {
+    version: 1;
+    provider: string;
+    modelId: string;
+    recordedAt: number;
+    steps: AgentRecordingStep[];
+}
@@ -0,0 +1,24 @@
+// Id of a device preset, see devicePresets.ts
+export type CanvasViewport = string;
+
+/**
+ * Arrangement of the design canvas, saved to .superdesign/canvas-layout.json so it survives
+ * reloads and can be committed with the designs. Frames are keyed by design file name.
+ */
+export interface CanvasLayout {
+    version: 1;
+    layoutMode: 'grid' | 'hierarchy';
+    globalViewport: CanvasViewport;
+    useGlobalViewport: boolean;
+    showConnections: boolean;
+    // Frames the user dragged; the others are placed by the layout mode
+    positions: Record<string, { x: number; y: number }>;
+    // Per-frame viewports, used while useGlobalViewport is off
+    viewports: Record<string, CanvasViewport>;
+    // Every frame is shown with width and height swapped, e.g. phones in landscape
+    rotated: boolean;
+    // Devices the responsive strip renders a design at, in order
+    stripDevices: CanvasViewport[];
+    // Zoom and pan; absent until the user moves the view
+    transform?: { scale: number; x: number; y: number };
+}
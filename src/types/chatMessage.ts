@@ -14,11 +14,48 @@ export interface MessageMetadata {
     end_time?: number;
     session_id?: string;
     total_cost_usd?: number;
+    // Agent loop step (1-based) within the request that produced this message
+    step?: number;
+    finish_reason?: string;
+    // Set on the last message when the loop stopped at a limit while the model wanted to continue
+    step_limit?: 'steps' | 'time';
+    // Token usage of the model step that produced this message
+    model_id?: string;
+    input_tokens?: number;
+    output_tokens?: number;
+    cached_input_tokens?: number;
+    // Context window of the model, for the "context X% full" indicator
+    context_window?: number;
+    // System message holding a summary of the messages before it, sent instead of them
+    is_summary?: boolean;
+    summarized_messages?: number;
+    // How long the model spent on a reasoning block, set when the block ends
+    reasoning_duration_ms?: number;
     actions?: Array<MessageAction>;
     is_error?: boolean;
+    is_interrupted?: boolean;
+    // On an edited user message: which of the alternatives at this point is shown (0-based)
+    branch?: { index: number; count: number };
 }
 
 // Message with metadata for UI - extends AI SDK's ModelMessage
 export type ChatMessage = ModelMessage & {
     metadata?: MessageMetadata;
 };
+
+// Conversation from an edited user message onwards that isn't the one currently shown
+export interface ChatBranch {
+    messages: ChatMessage[];
+    forks: ChatForks;
+}
+
+// Alternatives at one user message, in creation order. The shown one lives in the history
+// itself, so its slot is null.
+export interface ChatFork {
+    branches: Array<ChatBranch | null>;
+    active: number;
+}
+
+// Forks of a conversation keyed by user turn: the 0-based position of the user message among
+// the user messages. Turns stay stable when compaction inserts summary messages.
+export type ChatForks = Record<number, ChatFork>;
@@ -0,0 +1,18 @@
+import type { DesignWorkflow } from './designWorkflow';
+
+// A named chat thread within a workspace. Timestamps are epoch milliseconds
+export interface ChatSession {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    archived?: boolean;
+    // Guided design workflow, when the session follows one
+    workflow?: DesignWorkflow;
+}
+
+// Session index persisted per workspace; message histories are stored separately per session
+export interface ChatSessionsState {
+    sessions: ChatSession[];
+    activeSessionId: string;
+}
@@ -1,4 +1,7 @@
 import type { ChatMessage } from './chatMessage';
+import type { ChatSessionsState } from './chatSession';
+import type { AgentProfilesState } from './agentProfile';
+import type { WorkflowStepId } from './designWorkflow';
 import type { WebviewKey } from 'react-vscode-webview-ipc/client';
 import type { TextPart, ImagePart, FilePart } from '@ai-sdk/provider-utils';
 
@@ -10,9 +13,26 @@ export interface CssContent {
     content?: string;
 }
 
+// Chat display preferences from the securedesign.chat settings
+export interface ChatDisplaySettings {
+    showReasoning: boolean;
+    // The securedesign.localProvider model used in place of the model picker, when set
+    localModel?: {
+        model: string;
+        baseUrl: string;
+        supportsTools: boolean;
+        supportsVision: boolean;
+        // Set when the endpoint is not on this machine
+        remoteWarning?: string;
+    };
+}
+
 export interface ChatSidebarState {
     css: Record<string, CssContent>;
     messages: ChatMessage[] | undefined;
+    sessions: ChatSessionsState | undefined;
+    displaySettings: ChatDisplaySettings | undefined;
+    profiles: AgentProfilesState | undefined;
 }
 
 export interface ChatSidebarActions {
@@ -22,4 +42,20 @@ export interface ChatSidebarActions {
         filePath: string
     ): Promise<{ filePath: string; content?: string; error?: string }>;
     sendChatMessage(prompt: string | Array<TextPart | ImagePart | FilePart>): void;
+    editMessage(messageIndex: number, text: string): void;
+    switchBranch(messageIndex: number, branch: number): Promise<void>;
+    loadSessions(): ChatSessionsState;
+    createSession(name?: string): Promise<ChatSessionsState>;
+    switchSession(sessionId: string): Promise<ChatSessionsState>;
+    renameSession(sessionId: string, name: string): Promise<ChatSessionsState>;
+    archiveSession(sessionId: string, archived: boolean): Promise<ChatSessionsState>;
+    deleteSession(sessionId: string): Promise<ChatSessionsState>;
+    loadDisplaySettings(): ChatDisplaySettings;
+    loadProfiles(): AgentProfilesState;
+    selectProfile(profileId: string): Promise<AgentProfilesState>;
+    editProfile(profileId: string): Promise<void>;
+    startWorkflow(): Promise<ChatSessionsState>;
+    approveWorkflowStep(): Promise<ChatSessionsState>;
+    exitWorkflow(): Promise<ChatSessionsState>;
+    openWorkflowArtifact(stepId: WorkflowStepId): Promise<void>;
 }
@@ -0,0 +1,34 @@
+/**
+ * Where a comment pin sits on a design: the element it was dropped on and the point within
+ * that element's box as fractions of its width and height, so the pin follows the element
+ * when the layout or viewport changes
+ */
+export interface CommentAnchor {
+    selector: string;
+    x: number;
+    y: number;
+}
+
+export interface DesignComment {
+    id: string;
+    author: string;
+    body: string;
+    // ISO timestamp
+    createdAt: string;
+}
+
+/**
+ * A pin with its comments, oldest first; the first comment opened the thread
+ */
+export interface DesignCommentThread {
+    id: string;
+    anchor: CommentAnchor;
+    comments: DesignComment[];
+    resolved: boolean;
+}
+
+export type DesignCommentAction =
+    | { type: 'add'; anchor: CommentAnchor; body: string }
+    | { type: 'reply'; threadId: string; body: string }
+    | { type: 'resolve'; threadId: string; resolved: boolean }
+    | { type: 'delete'; threadId: string };
@@ -0,0 +1,17 @@
+export type DesignExportFormat = 'png' | 'pdf' | 'svg';
+
+/**
+ * A rendered design sent from the canvas to be written under .superdesign/exports.
+ * PNG and SVG data is the final file; PDF data is a JPEG that the extension wraps in a page.
+ */
+export interface DesignExportItem {
+    designName: string;
+    // Device preset id
+    viewport: string;
+    format: DesignExportFormat;
+    // Base64 for png/pdf, UTF-8 markup for svg
+    data: string;
+    // CSS pixel size of the rendered viewport
+    width: number;
+    height: number;
+}
@@ -22,4 +22,10 @@ export interface DesignFile {
 
     /** File type - either 'html' or 'svg' */
     fileType: 'html' | 'svg';
+
+    /** Comparison group when the design is one of several generated variants */
+    variantGroup?: string;
+
+    /** Model and sampling settings that produced the variant (e.g., "gpt-4.1 · t=0.7") */
+    variantLabel?: string;
 }
@@ -0,0 +1,14 @@
+/**
+ * What produced a design version snapshot. Agent tools snapshot before writing;
+ * "restore" marks the content that was replaced when the user restored an older version.
+ */
+export type DesignVersionSource = 'write' | 'edit' | 'multiedit' | 'generateTheme' | 'restore';
+
+export interface DesignVersion {
+    id: string;
+    // ISO timestamp of when the content was replaced
+    createdAt: string;
+    source: DesignVersionSource;
+    size: number;
+    sessionId?: string;
+}
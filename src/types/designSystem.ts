@@ -0,0 +1,32 @@
+/**
+ * Design tokens and components read from the user's project, as configured in
+ * `securedesign.designSystem.sources`. Paths are relative to the workspace root.
+ */
+export interface DesignToken {
+    // CSS custom property (`--primary`), Sass variable (`$primary`) or dotted JSON path
+    name: string;
+    value: string;
+    source: string;
+}
+
+export interface DesignSystemComponent {
+    name: string;
+    path: string;
+    // Prop names from a `<Name>Props` interface or type, when one is declared
+    props: string[];
+}
+
+export interface DesignSystemConfig {
+    path: string;
+    // The theme section of a Tailwind config, or the start of the file when none is found
+    excerpt: string;
+}
+
+export interface DesignSystemIndex {
+    root: string;
+    tokens: DesignToken[];
+    components: DesignSystemComponent[];
+    configs: DesignSystemConfig[];
+    // Sources that could not be read
+    missing: string[];
+}
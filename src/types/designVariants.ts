@@ -0,0 +1,34 @@
+/**
+ * One of the parallel requests in a variant run. Entries without a provider use the model
+ * selected in the chat; temperature and seed make repeated runs of one model diverge.
+ */
+export interface VariantSpec {
+    // 1-based position in the run, used in the sibling file name
+    index: number;
+    provider?: string;
+    modelId?: string;
+    temperature?: number;
+    seed?: number;
+}
+
+export interface VariantManifestEntry {
+    file: string;
+    // Shown on the frame, e.g. "claude-sonnet-4 · t=0.9"
+    label: string;
+    modelId: string;
+    temperature?: number;
+    seed?: number;
+    costUsd?: number;
+}
+
+/**
+ * Written next to the variants as <name>.variants.json so the canvas can show them as one
+ * comparison group
+ */
+export interface VariantManifest {
+    name: string;
+    brief: string;
+    // ISO timestamp of when the run started
+    createdAt: string;
+    variants: VariantManifestEntry[];
+}
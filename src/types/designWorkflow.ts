@@ -0,0 +1,20 @@
+export type WorkflowStepId = 'layout' | 'theme' | 'animation' | 'build';
+
+// active: the agent is working on the step; review: its output waits for approve or revise
+export type WorkflowStepStatus = 'pending' | 'active' | 'review' | 'approved';
+
+export interface WorkflowStepState {
+    status: WorkflowStepStatus;
+    // Path of the step's output relative to .superdesign, once the agent produced one
+    artifact?: string;
+    // Revision requests since the step started, oldest first
+    revisions?: string[];
+}
+
+// Guided layout → theme → animation → build workflow of one chat session
+export interface DesignWorkflow {
+    currentStep: WorkflowStepId;
+    steps: Record<WorkflowStepId, WorkflowStepState>;
+    startedAt: number;
+    completedAt?: number;
+}
@@ -0,0 +1,45 @@
+/**
+ * A screen size frames can be rendered at. Width and height are CSS pixels in the device's
+ * natural orientation; rotating the canvas swaps them.
+ */
+export interface DevicePreset {
+    id: string;
+    name: string;
+    width: number;
+    height: number;
+    // Device pixel ratio to emulate; frames keep the screen's own ratio when absent
+    pixelRatio?: number;
+}
+
+// Always in the catalogue; settings may resize them but not remove them
+export const BASE_VIEWPORT_IDS: readonly string[] = ['desktop', 'tablet', 'mobile'];
+
+export const BUILT_IN_DEVICE_PRESETS: readonly DevicePreset[] = [
+    // Compact sizes that keep the canvas dense
+    { id: 'desktop', name: 'Desktop', width: 1000, height: 600 },
+    { id: 'tablet', name: 'Tablet', width: 640, height: 800 },
+    { id: 'mobile', name: 'Mobile', width: 320, height: 550 },
+    { id: 'iphone-15', name: 'iPhone 15', width: 393, height: 852, pixelRatio: 3 },
+    { id: 'pixel-8', name: 'Pixel 8', width: 412, height: 915, pixelRatio: 2.625 },
+    {
+        id: 'galaxy-z-fold-5',
+        name: 'Galaxy Z Fold 5 (folded)',
+        width: 344,
+        height: 882,
+        pixelRatio: 2.625,
+    },
+    {
+        id: 'galaxy-z-fold-5-open',
+        name: 'Galaxy Z Fold 5 (open)',
+        width: 882,
+        height: 1104,
+        pixelRatio: 2.625,
+    },
+    { id: 'ipad-air', name: 'iPad Air', width: 820, height: 1180, pixelRatio: 2 },
+    { id: 'desktop-1440', name: '1440 desktop', width: 1440, height: 900, pixelRatio: 1 },
+    { id: 'desktop-4k', name: '4K display', width: 3840, height: 2160, pixelRatio: 1 },
+    { id: 'kiosk-1080p', name: 'Kiosk 1080p (portrait)', width: 1080, height: 1920, pixelRatio: 1 },
+];
+
+// Devices the responsive strip shows until the user picks others
+export const DEFAULT_STRIP_DEVICES: readonly string[] = ['mobile', 'tablet', 'desktop'];
@@ -0,0 +1,22 @@
+/**
+ * An element picked inside a rendered design, sent to the chat so the agent can edit exactly
+ * that element
+ */
+export interface PickedElement {
+    // CSS selector that matches only this element in the design
+    selector: string;
+    tagName: string;
+    // Outer HTML with whitespace collapsed, truncated for long elements
+    html: string;
+    // Computed values of the properties designers usually ask about, defaults left out
+    styles: Record<string, string>;
+}
+
+/**
+ * Chat context set from the canvas: a design file, or elements picked inside it
+ */
+export interface CanvasChatContext {
+    fileName: string;
+    type: string;
+    elements?: PickedElement[];
+}
@@ -1,2 +1,11 @@
 export type { DesignFile } from './designFile';
-export type { ChatMessage } from './chatMessage';
+export type { ChatBranch, ChatFork, ChatForks, ChatMessage } from './chatMessage';
+export type { ChatSession, ChatSessionsState } from './chatSession';
+export type { DesignVersion, DesignVersionSource } from './designHistory';
+export type { DesignExportFormat, DesignExportItem } from './designExport';
+export type {
+    DesignSystemComponent,
+    DesignSystemConfig,
+    DesignSystemIndex,
+    DesignToken,
+} from './designSystem';
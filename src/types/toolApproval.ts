@@ -0,0 +1,33 @@
+export type ToolPermission = 'allow' | 'ask' | 'deny';
+
+// Tools that modify the workspace or run commands and can therefore be gated by a permission
+export const GATED_TOOL_NAMES = ['write', 'edit', 'multiedit', 'bash'] as const;
+export type GatedToolName = (typeof GATED_TOOL_NAMES)[number];
+
+// What the user is shown before approving a tool call
+export type ToolApprovalPreview =
+    | {
+          kind: 'command';
+          command: string;
+          directory: string;
+          description?: string;
+          // Variables the command runs with, which can change what it does
+          env?: Record<string, string>;
+          timeoutMs: number;
+      }
+    | {
+          kind: 'diff';
+          filePath: string;
+          before: string;
+          after: string;
+          isNewFile: boolean;
+      };
+
+export interface ToolApprovalRequest {
+    id: string;
+    toolCallId: string;
+    toolName: GatedToolName;
+    preview: ToolApprovalPreview;
+    // Epoch milliseconds
+    createdAt: number;
+}
@@ -1,16 +1,21 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import {
     TransformWrapper,
     TransformComponent,
     type ReactZoomPanPinchRef,
 } from 'react-zoom-pan-pinch';
+import DesignCompareView from './DesignCompareView';
 import DesignFrame from './DesignFrame';
+import DesignHistoryPanel from './DesignHistoryPanel';
+import ExportDialog from './ExportDialog';
+import ResponsiveStrip from './ResponsiveStrip';
 import {
     generateResponsiveConfig,
     buildHierarchyTree,
     calculateHierarchyPositions,
     getHierarchicalPosition,
     detectDesignRelationships,
+    assignGridSlots,
 } from '../utils/gridLayout';
 import type {
     DesignFile,
@@ -39,9 +44,22 @@ import {
     DesktopIcon,
     TreeIcon,
     LinkIcon,
+    ExportIcon,
+    CompareIcon,
+    RotateIcon,
 } from './Icons';
 import { useLogger, useWebviewApi } from 'react-vscode-webview-ipc/client';
 import { CanvasContextKey } from '../context-keys';
+import type { CanvasLayout } from '../../types/canvasLayout';
+import type { PickedElement } from '../../types/elementPicker';
+import type { DesignCommentAction, DesignCommentThread } from '../../types/designComments';
+import {
+    BASE_VIEWPORT_IDS,
+    BUILT_IN_DEVICE_PRESETS,
+    DEFAULT_STRIP_DEVICES,
+    type DevicePreset,
+} from '../../types/devicePresets';
+import { formatPreset, viewportsFromPresets } from '../utils/viewports';
 
 interface CanvasViewProps {
     nonce: string | null;
@@ -59,11 +77,7 @@ const CANVAS_CONFIG: CanvasConfig = {
         maxFrameSize: { width: 400, height: 500 }, // Reduced maximum size
         scaleWithZoom: false,
     },
-    viewports: {
-        desktop: { width: 1000, height: 600 }, // More compact desktop view
-        tablet: { width: 640, height: 800 }, // Smaller tablet view
-        mobile: { width: 320, height: 550 }, // More compact mobile view
-    },
+    viewports: viewportsFromPresets(BUILT_IN_DEVICE_PRESETS, false),
     hierarchy: {
         horizontalSpacing: 180, // Reduced horizontal spacing for hierarchy
         verticalSpacing: 120, // Reduced vertical spacing for hierarchy
@@ -73,6 +87,20 @@ const CANVAS_CONFIG: CanvasConfig = {
     },
 };
 
+// Space around a variant comparison group, kept inside the grid spacing between rows
+const VARIANT_GROUP_PADDING = 16;
+const VARIANT_GROUP_TITLE_HEIGHT = 22;
+
+// Entry of the device menu that opens the device preset settings
+const EDIT_DEVICES_OPTION = '__edit-devices__';
+
+// Layout changes are written once the canvas has been still for this long
+const LAYOUT_SAVE_DELAY_MS = 500;
+
+function keepFrames<T>(frames: Record<string, T>, names: ReadonlySet<string>): Record<string, T> {
+    return Object.fromEntries(Object.entries(frames).filter(([name]) => names.has(name)));
+}
+
 const CanvasView: React.FC<CanvasViewProps> = ({ nonce }) => {
     const [designFiles, setDesignFiles] = useState<DesignFile[]>([]);
     const [selectedFrames, setSelectedFrames] = useState<string[]>([]);
@@ -94,7 +122,22 @@ const CanvasView: React.FC<CanvasViewProps> = ({ nonce }) => {
     const [layoutMode, setLayoutMode] = useState<LayoutMode>('grid');
     const [hierarchyTree, setHierarchyTree] = useState<HierarchyTree | null>(null);
     const [showConnections, setShowConnections] = useState(true);
+    const [historyFileName, setHistoryFileName] = useState<string | null>(null);
+    const [exportFileNames, setExportFileNames] = useState<string[] | null>(null);
+    const [compareFileNames, setCompareFileNames] = useState<[string, string] | null>(null);
+    const [stripFileName, setStripFileName] = useState<string | null>(null);
+    const [devicePresets, setDevicePresets] = useState<DevicePreset[]>([
+        ...BUILT_IN_DEVICE_PRESETS,
+    ]);
+    const [rotated, setRotated] = useState(false);
+    const [stripDevices, setStripDevices] = useState<string[]>([...DEFAULT_STRIP_DEVICES]);
+    // Review comment threads by design file path
+    const [designComments, setDesignComments] = useState<Record<string, DesignCommentThread[]>>({});
     const transformRef = useRef<ReactZoomPanPinchRef>(null);
+    // The saved layout is applied on the first file load; later loads keep the current one
+    const layoutRestored = useRef(false);
+    const viewTransform = useRef<CanvasLayout['transform']>(undefined);
+    const layoutSaveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
     const { vscode } = useWebviewApi(CanvasContextKey);
     const logger = useLogger('CanvasView');
 
@@ -127,12 +170,18 @@ const CanvasView: React.FC<CanvasViewProps> = ({ nonce }) => {
         };
     };
 
+    const viewports = useMemo(
+        () => viewportsFromPresets(devicePresets, rotated),
+        [devicePresets, rotated]
+    );
+
     // Viewport management functions
     const getFrameViewport = (fileName: string): ViewportMode => {
-        if (useGlobalViewport) {
-            return globalViewportMode;
-        }
-        return frameViewports[fileName] || 'desktop';
+        const viewport = useGlobalViewport
+            ? globalViewportMode
+            : frameViewports[fileName] || 'desktop';
+        // The preset may have been removed from the settings since it was chosen
+        return devicePresets.some(preset => preset.id === viewport) ? viewport : 'desktop';
     };
 
     const handleFrameViewportChange = (fileName: string, viewport: ViewportMode) => {
@@ -160,7 +209,7 @@ const CanvasView: React.FC<CanvasViewProps> = ({ nonce }) => {
                 let frameCount = 0;
 
                 designFiles.forEach(_file => {
-                    const viewportDimensions = currentConfig.viewports[viewport] ?? {
+                    const viewportDimensions = viewports[viewport] ?? {
                         width: currentConfig.frameSize.width,
                         height: currentConfig.frameSize.height,
                     };
@@ -187,6 +236,15 @@ const CanvasView: React.FC<CanvasViewProps> = ({ nonce }) => {
         }
     };
 
+    const handleDeviceSelect = (value: string) => {
+        if (value === EDIT_DEVICES_OPTION) {
+            const openSettings: WebviewMessage = { command: 'openDevicePresetSettings' };
+            vscode.postMessage(openSettings);
+        } else {
+            handleGlobalViewportChange(value);
+        }
+    };
+
     const toggleGlobalViewport = () => {
         const newUseGlobal = !useGlobalViewport;
         setUseGlobalViewport(newUseGlobal);
@@ -227,7 +285,28 @@ const CanvasView: React.FC<CanvasViewProps> = ({ nonce }) => {
             switch (message.command) {
                 case 'designFilesLoaded': {
                     // Files already have modified as ISO string, no conversion needed
-                    const { files } = message.data;
+                    const { files, layout, comments, devicePresets: presets } = message.data;
+                    setDesignComments(comments ?? {});
+                    if (presets) {
+                        setDevicePresets(presets);
+                    }
+                    const isFirstLoad = !layoutRestored.current;
+                    if (isFirstLoad && layout) {
+                        setLayoutMode(layout.layoutMode);
+                        setGlobalViewportMode(layout.globalViewport);
+                        setUseGlobalViewport(layout.useGlobalViewport);
+                        setShowConnections(layout.showConnections);
+                        setCustomPositions(layout.positions);
+                        setFrameViewports(layout.viewports);
+                        setRotated(layout.rotated);
+                        setStripDevices(layout.stripDevices);
+                        viewTransform.current = layout.transform;
+                    } else if (!isFirstLoad) {
+                        const names = new Set(files.map(file => file.name));
+                        setCustomPositions(prev => keepFrames(prev, names));
+                        setFrameViewports(prev => keepFrames(prev, names));
+                    }
+                    layoutRestored.current = true;
 
                     // Detect design relationships and build hierarchy
                     const filesWithRelationships = detectDesignRelationships(files);
@@ -243,7 +322,7 @@ const CanvasView: React.FC<CanvasViewProps> = ({ nonce }) => {
 
                     filesWithRelationships.forEach(file => {
                         const frameViewport = getFrameViewport(file.name);
-                        const viewportDimensions = currentConfig.viewports[frameViewport];
+                        const viewportDimensions = viewports[frameViewport];
                         totalWidth += viewportDimensions.width;
                         totalHeight += viewportDimensions.height + 50; // Add header space
                         frameCount++;
@@ -266,12 +345,30 @@ const CanvasView: React.FC<CanvasViewProps> = ({ nonce }) => {
 
                     setIsLoading(false);
 
-                    // Auto-center view after files are loaded
-                    setTimeout(() => {
-                        if (transformRef.current) {
-                            transformRef.current.resetTransform();
-                        }
-                    }, 100);
+                    // Restore the saved view, or center it, when the canvas opens
+                    if (isFirstLoad) {
+                        const transform = layout?.transform;
+                        setTimeout(() => {
+                            if (!transformRef.current) {
+                                return;
+                            }
+                            if (transform) {
+                                transformRef.current.setTransform(
+                                    transform.x,
+                                    transform.y,
+                                    transform.scale,
+                                    0
+                                );
+                            } else {
+                                transformRef.current.resetTransform();
+                            }
+                        }, 100);
+                    }
+                    break;
+                }
+                case 'designCommentsLoaded': {
+                    const { filePath, threads } = message.data;
+                    setDesignComments(prev => ({ ...prev, [filePath]: threads }));
                     break;
                 }
                 case 'error':
@@ -285,6 +382,17 @@ const CanvasView: React.FC<CanvasViewProps> = ({ nonce }) => {
                     // Re-request files when changes occur
                     vscode.postMessage({ command: 'loadDesignFiles' });
                     break;
+
+                case 'designHistoryLoaded':
+                case 'designVersionLoaded':
+                case 'designVersionRestored':
+                    // Handled by DesignHistoryPanel
+                    break;
+
+                case 'designExportsSaved':
+                case 'designExportFailed':
+                    // Handled by ExportDialog
+                    break;
             }
         };
 
@@ -293,8 +401,78 @@ const CanvasView: React.FC<CanvasViewProps> = ({ nonce }) => {
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [vscode]); // Removed currentConfig dependency to prevent constant re-renders
 
-    const handleFrameSelect = (fileName: string) => {
-        setSelectedFrames([fileName]); // Single selection for now
+    const canvasLayout = useMemo<CanvasLayout>(
+        () => ({
+            version: 1,
+            layoutMode,
+            globalViewport: globalViewportMode,
+            useGlobalViewport,
+            showConnections,
+            positions: customPositions,
+            viewports: frameViewports,
+            rotated,
+            stripDevices,
+        }),
+        [
+            layoutMode,
+            globalViewportMode,
+            useGlobalViewport,
+            showConnections,
+            customPositions,
+            frameViewports,
+            rotated,
+            stripDevices,
+        ]
+    );
+    const latestLayout = useRef(canvasLayout);
+    latestLayout.current = canvasLayout;
+
+    const saveLayout = useCallback(() => {
+        layoutSaveTimer.current = null;
+        const layout: CanvasLayout = {
+            ...latestLayout.current,
+            ...(viewTransform.current && { transform: viewTransform.current }),
+        };
+        const saveMessage: WebviewMessage = { command: 'saveCanvasLayout', data: { layout } };
+        vscode.postMessage(saveMessage);
+    }, [vscode]);
+
+    const scheduleLayoutSave = useCallback(() => {
+        // Nothing to save until the saved layout has been applied
+        if (!layoutRestored.current) {
+            return;
+        }
+        if (layoutSaveTimer.current) {
+            clearTimeout(layoutSaveTimer.current);
+        }
+        layoutSaveTimer.current = setTimeout(saveLayout, LAYOUT_SAVE_DELAY_MS);
+    }, [saveLayout]);
+
+    useEffect(() => {
+        scheduleLayoutSave();
+    }, [canvasLayout, scheduleLayoutSave]);
+
+    // Write a pending change when the canvas closes
+    useEffect(
+        () => () => {
+            if (layoutSaveTimer.current) {
+                clearTimeout(layoutSaveTimer.current);
+                saveLayout();
+            }
+        },
+        [saveLayout]
+    );
+
+    const handleFrameSelect = (fileName: string, additive: boolean = false) => {
+        if (additive) {
+            setSelectedFrames(prev =>
+                prev.includes(fileName)
+                    ? prev.filter(name => name !== fileName)
+                    : [...prev, fileName]
+            );
+        } else {
+            setSelectedFrames([fileName]);
+        }
 
         // Find the selected file to get its full path
         const selectedFile = designFiles.find(file => file.name === fileName);
@@ -334,6 +512,71 @@ const CanvasView: React.FC<CanvasViewProps> = ({ nonce }) => {
         vscode.postMessage(promptMessage);
     };
 
+    const handlePickElements = (fileName: string, elements: PickedElement[]) => {
+        const file = designFiles.find(designFile => designFile.name === fileName);
+        const contextMessage: WebviewMessage = {
+            command: 'setContextFromCanvas',
+            data: { fileName: file ? file.path : fileName, type: 'elements', elements },
+        };
+        vscode.postMessage(contextMessage);
+    };
+
+    const handleCommentAction = (fileName: string, action: DesignCommentAction) => {
+        const file = designFiles.find(designFile => designFile.name === fileName);
+        if (file) {
+            const updateMessage: WebviewMessage = {
+                command: 'updateDesignComments',
+                data: { filePath: file.path, action },
+            };
+            vscode.postMessage(updateMessage);
+        }
+    };
+
+    const handleSendComments = (fileName: string) => {
+        const file = designFiles.find(designFile => designFile.name === fileName);
+        if (file) {
+            const sendMessage: WebviewMessage = {
+                command: 'sendDesignCommentsToChat',
+                data: { filePath: file.path },
+            };
+            vscode.postMessage(sendMessage);
+        }
+    };
+
+    const handleGenerateComponent = (fileName: string) => {
+        const file = designFiles.find(designFile => designFile.name === fileName);
+        if (file) {
+            const generateMessage: WebviewMessage = {
+                command: 'generateComponent',
+                data: { filePath: file.path },
+            };
+            vscode.postMessage(generateMessage);
+        }
+    };
+
+    const historyFile = designFiles.find(file => file.name === historyFileName);
+    const handleCloseHistory = useCallback(() => setHistoryFileName(null), []);
+
+    const exportFiles = designFiles.filter(file => exportFileNames?.includes(file.name) === true);
+    const handleCloseExport = useCallback(() => setExportFileNames(null), []);
+    // Exporting from a frame covers the whole selection when that frame is part of it
+    const handleExportFrame = (fileName: string) => {
+        setExportFileNames(selectedFrames.includes(fileName) ? selectedFrames : [fileName]);
+    };
+
+    const stripFile = designFiles.find(file => file.name === stripFileName);
+    const handleCloseStrip = useCallback(() => setStripFileName(null), []);
+
+    const compareFiles = compareFileNames?.map(name =>
+        designFiles.find(file => file.name === name)
+    );
+    const handleCloseCompare = useCallback(() => setCompareFileNames(null), []);
+    const handleCompare = () => {
+        if (selectedFrames.length === 2) {
+            setCompareFileNames([selectedFrames[0], selectedFrames[1]]);
+        }
+    };
+
     // Canvas control functions
     const handleZoomIn = useCallback(() => {
         if (transformRef.current) {
@@ -439,8 +682,26 @@ const CanvasView: React.FC<CanvasViewProps> = ({ nonce }) => {
             previousScale: currentZoom,
         });
         setCurrentZoom(state.scale);
+        viewTransform.current = { scale: state.scale, x: state.positionX, y: state.positionY };
+        scheduleLayoutSave();
     };
 
+    const gridSlots = useMemo(
+        () => assignGridSlots(designFiles, currentConfig.framesPerRow),
+        [designFiles, currentConfig.framesPerRow]
+    );
+
+    // Variant comparison groups, in the order their first frame appears
+    const variantGroups = useMemo(() => {
+        const groups = new Map<string, DesignFile[]>();
+        designFiles.forEach(file => {
+            if (file.variantGroup !== undefined) {
+                groups.set(file.variantGroup, [...(groups.get(file.variantGroup) ?? []), file]);
+            }
+        });
+        return [...groups.entries()];
+    }, [designFiles]);
+
     // Get frame position (custom, hierarchy, or default grid position)
     const getFramePosition = (fileName: string, index: number): GridPosition => {
         if (customPositions[fileName]) {
@@ -454,12 +715,13 @@ const CanvasView: React.FC<CanvasViewProps> = ({ nonce }) => {
 
         // Default grid position calculation
         const viewportMode = getFrameViewport(fileName);
-        const viewportDimensions = currentConfig.viewports[viewportMode];
+        const viewportDimensions = viewports[viewportMode];
         const actualWidth = viewportDimensions.width;
         const actualHeight = viewportDimensions.height + 50;
 
-        const col = index % currentConfig.framesPerRow;
-        const row = Math.floor(index / currentConfig.framesPerRow);
+        const slot = gridSlots.get(fileName);
+        const col = slot?.col ?? index % currentConfig.framesPerRow;
+        const row = slot?.row ?? Math.floor(index / currentConfig.framesPerRow);
 
         const x =
             col *
@@ -576,8 +838,8 @@ const CanvasView: React.FC<CanvasViewProps> = ({ nonce }) => {
             // Get frame dimensions for connection point calculation
             const fromViewport = getFrameViewport(connection.fromFrame);
             const toViewport = getFrameViewport(connection.toFrame);
-            const fromDimensions = currentConfig.viewports[fromViewport];
-            const toDimensions = currentConfig.viewports[toViewport];
+            const fromDimensions = viewports[fromViewport];
+            const toDimensions = viewports[toViewport];
 
             // Calculate connection points (center-right of from frame to center-left of to frame)
             const fromConnectionPoint = {
@@ -763,6 +1025,31 @@ const CanvasView: React.FC<CanvasViewProps> = ({ nonce }) => {
                     </div>
                 </div>
 
+                {/* Export Section */}
+                <div className='toolbar-section'>
+                    <div className='control-group'>
+                        <button
+                            className='toolbar-btn'
+                            onClick={() => setExportFileNames(selectedFrames)}
+                            title='Export selected designs (Shift-click frames to select several)'
+                            disabled={selectedFrames.length === 0}
+                        >
+                            <ExportIcon />
+                            {selectedFrames.length > 1 && (
+                                <span className='toolbar-badge'>{selectedFrames.length}</span>
+                            )}
+                        </button>
+                        <button
+                            className='toolbar-btn'
+                            onClick={handleCompare}
+                            title='Compare two selected designs (Shift-click to select a second frame)'
+                            disabled={selectedFrames.length !== 2}
+                        >
+                            <CompareIcon />
+                        </button>
+                    </div>
+                </div>
+
                 {/* Viewport Section */}
                 <div className='toolbar-section'>
                     <div className='control-group'>
@@ -777,7 +1064,7 @@ const CanvasView: React.FC<CanvasViewProps> = ({ nonce }) => {
                             <button
                                 className={`viewport-btn ${globalViewportMode === 'mobile' && useGlobalViewport ? 'active' : ''}`}
                                 onClick={() => handleGlobalViewportChange('mobile')}
-                                title='Mobile View (375×667)'
+                                title={`Mobile View (${viewports.mobile.width}×${viewports.mobile.height})`}
                                 disabled={!useGlobalViewport}
                             >
                                 <MobileIcon />
@@ -785,7 +1072,7 @@ const CanvasView: React.FC<CanvasViewProps> = ({ nonce }) => {
                             <button
                                 className={`viewport-btn ${globalViewportMode === 'tablet' && useGlobalViewport ? 'active' : ''}`}
                                 onClick={() => handleGlobalViewportChange('tablet')}
-                                title='Tablet View (768×1024)'
+                                title={`Tablet View (${viewports.tablet.width}×${viewports.tablet.height})`}
                                 disabled={!useGlobalViewport}
                             >
                                 <TabletIcon />
@@ -793,12 +1080,42 @@ const CanvasView: React.FC<CanvasViewProps> = ({ nonce }) => {
                             <button
                                 className={`viewport-btn ${globalViewportMode === 'desktop' && useGlobalViewport ? 'active' : ''}`}
                                 onClick={() => handleGlobalViewportChange('desktop')}
-                                title='Desktop View (1200×800)'
+                                title={`Desktop View (${viewports.desktop.width}×${viewports.desktop.height})`}
                                 disabled={!useGlobalViewport}
                             >
                                 <DesktopIcon />
                             </button>
                         </div>
+                        <select
+                            className='viewport-device-select'
+                            value={
+                                useGlobalViewport && !BASE_VIEWPORT_IDS.includes(globalViewportMode)
+                                    ? globalViewportMode
+                                    : ''
+                            }
+                            onChange={e => handleDeviceSelect(e.target.value)}
+                            disabled={!useGlobalViewport}
+                            title='More devices'
+                        >
+                            <option value='' disabled>
+                                More devices…
+                            </option>
+                            {devicePresets
+                                .filter(preset => !BASE_VIEWPORT_IDS.includes(preset.id))
+                                .map(preset => (
+                                    <option key={preset.id} value={preset.id}>
+                                        {formatPreset(preset, rotated)}
+                                    </option>
+                                ))}
+                            <option value={EDIT_DEVICES_OPTION}>Edit devices…</option>
+                        </select>
+                        <button
+                            className={`toolbar-btn ${rotated ? 'active' : ''}`}
+                            onClick={() => setRotated(value => !value)}
+                            title='Rotate all frames between portrait and landscape'
+                        >
+                            <RotateIcon />
+                        </button>
                     </div>
                 </div>
             </div>
@@ -921,9 +1238,45 @@ const CanvasView: React.FC<CanvasViewProps> = ({ nonce }) => {
                                 zoomLevel={currentZoom}
                             />
                         )}
+                        {/* Variant comparison groups (render behind frames) */}
+                        {layoutMode === 'grid' &&
+                            variantGroups.map(([group, members]) => {
+                                const frames = members.map(member => {
+                                    const position = getFramePosition(
+                                        member.name,
+                                        designFiles.indexOf(member)
+                                    );
+                                    const viewportDimensions =
+                                        viewports[getFrameViewport(member.name)];
+                                    return {
+                                        ...position,
+                                        right: position.x + viewportDimensions.width,
+                                        bottom: position.y + viewportDimensions.height + 50,
+                                    };
+                                });
+                                const left = Math.min(...frames.map(frame => frame.x));
+                                const top = Math.min(...frames.map(frame => frame.y));
+                                return (
+                                    <div
+                                        key={group}
+                                        className='variant-group'
+                                        style={{
+                                            left: `${left - VARIANT_GROUP_PADDING}px`,
+                                            top: `${top - VARIANT_GROUP_PADDING - VARIANT_GROUP_TITLE_HEIGHT}px`,
+                                            width: `${Math.max(...frames.map(frame => frame.right)) - left + VARIANT_GROUP_PADDING * 2}px`,
+                                            height: `${Math.max(...frames.map(frame => frame.bottom)) - top + VARIANT_GROUP_PADDING * 2 + VARIANT_GROUP_TITLE_HEIGHT}px`,
+                                        }}
+                                    >
+                                        <span className='variant-group__title'>
+                                            {group} · {members.length} variant
+                                            {members.length === 1 ? '' : 's'}
+                                        </span>
+                                    </div>
+                                );
+                            })}
                         {designFiles.map((file, index) => {
                             const frameViewport = getFrameViewport(file.name);
-                            const viewportDimensions = currentConfig.viewports[frameViewport];
+                            const viewportDimensions = viewports[frameViewport];
 
                             // Use actual viewport dimensions (add frame border/header space)
                             const actualWidth = viewportDimensions.width;
@@ -950,6 +1303,7 @@ const CanvasView: React.FC<CanvasViewProps> = ({ nonce }) => {
                                     viewport={frameViewport}
                                     viewportDimensions={viewportDimensions}
                                     onViewportChange={handleFrameViewportChange}
+                                    devicePresets={devicePresets}
                                     useGlobalViewport={useGlobalViewport}
                                     onDragStart={handleDragStart}
                                     isDragging={
@@ -957,12 +1311,57 @@ const CanvasView: React.FC<CanvasViewProps> = ({ nonce }) => {
                                     }
                                     nonce={nonce}
                                     onSendToChat={handleSendToChat}
+                                    onShowHistory={setHistoryFileName}
+                                    onExport={handleExportFrame}
+                                    onShowResponsive={setStripFileName}
+                                    onGenerateComponent={handleGenerateComponent}
+                                    onPickElements={handlePickElements}
+                                    comments={designComments[file.path]}
+                                    onCommentAction={handleCommentAction}
+                                    onSendComments={handleSendComments}
                                 />
                             );
                         })}
                     </div>
                 </TransformComponent>
             </TransformWrapper>
+
+            {exportFiles.length > 0 && (
+                <ExportDialog
+                    files={exportFiles}
+                    viewports={viewports}
+                    getFrameViewport={getFrameViewport}
+                    nonce={nonce}
+                    onClose={handleCloseExport}
+                />
+            )}
+
+            {compareFiles?.[0] && compareFiles[1] && (
+                <DesignCompareView
+                    files={[compareFiles[0], compareFiles[1]]}
+                    viewports={viewports}
+                    devicePresets={devicePresets}
+                    initialViewport={getFrameViewport(compareFiles[0].name)}
+                    nonce={nonce}
+                    onClose={handleCloseCompare}
+                />
+            )}
+
+            {stripFile && (
+                <ResponsiveStrip
+                    file={stripFile}
+                    devicePresets={devicePresets}
+                    viewports={viewports}
+                    selected={stripDevices}
+                    onSelectedChange={setStripDevices}
+                    nonce={nonce}
+                    onClose={handleCloseStrip}
+                />
+            )}
+
+            {historyFile && (
+                <DesignHistoryPanel file={historyFile} nonce={nonce} onClose={handleCloseHistory} />
+            )}
         </div>
     );
 };
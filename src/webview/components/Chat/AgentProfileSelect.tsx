@@ -0,0 +1,68 @@
+import React from 'react';
+import type { AgentProfileSummary, AgentProfilesState } from '../../../types/agentProfile';
+
+interface AgentProfileSelectProps {
+    profiles: AgentProfilesState | undefined;
+    disabled?: boolean;
+    onSelect: (profileId: string) => void;
+    onEdit: (profileId: string) => void;
+}
+
+function describeProfile(profile: AgentProfileSummary): string {
+    return [
+        profile.description,
+        profile.model !== undefined ? `Model: ${profile.model}` : undefined,
+        profile.tools !== undefined ? `Tools: ${profile.tools.join(', ') || 'none'}` : undefined,
+        profile.source ?? 'Built-in profile',
+        ...profile.warnings.map(warning => `⚠ ${warning}`),
+    ]
+        .filter(line => line !== undefined)
+        .join('\n');
+}
+
+const AgentProfileSelect: React.FC<AgentProfileSelectProps> = ({
+    profiles,
+    disabled = false,
+    onSelect,
+    onEdit,
+}) => {
+    if (profiles === undefined) {
+        return null;
+    }
+    const selected =
+        profiles.profiles.find(p => p.id === profiles.selectedId) ?? profiles.profiles[0];
+    const hasWarnings = selected !== undefined && selected.warnings.length > 0;
+
+    return (
+        <div className='profile-select'>
+            <select
+                className={`profile-select__input ${hasWarnings ? 'profile-select__input--warning' : ''}`}
+                value={selected?.id}
+                onChange={e => onSelect(e.target.value)}
+                disabled={disabled}
+                title={selected !== undefined ? describeProfile(selected) : 'Agent profile'}
+            >
+                {profiles.profiles.map(profile => (
+                    <option key={profile.id} value={profile.id}>
+                        {profile.warnings.length > 0 ? `${profile.name} ⚠` : profile.name}
+                    </option>
+                ))}
+            </select>
+            {selected !== undefined && (
+                <button
+                    className='profile-select__edit'
+                    onClick={() => onEdit(selected.id)}
+                    title={
+                        selected.source !== undefined
+                            ? `Edit ${selected.source}`
+                            : 'Copy the built-in profile into the workspace to edit it'
+                    }
+                >
+                    ✎
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default AgentProfileSelect;
@@ -0,0 +1,43 @@
+import React from 'react';
+
+interface BranchNavigatorProps {
+    // 0-based index of the shown branch
+    index: number;
+    count: number;
+    disabled?: boolean;
+    onSwitch: (branch: number) => void;
+}
+
+/**
+ * "‹ 2/3 ›" switcher between the versions of an edited message
+ */
+const BranchNavigator: React.FC<BranchNavigatorProps> = ({
+    index,
+    count,
+    disabled = false,
+    onSwitch,
+}) => (
+    <span className='branch-nav'>
+        <button
+            className='branch-nav__button'
+            onClick={() => onSwitch(index - 1)}
+            disabled={disabled || index === 0}
+            title='Previous version'
+        >
+            ‹
+        </button>
+        <span className='branch-nav__position'>
+            {index + 1}/{count}
+        </span>
+        <button
+            className='branch-nav__button'
+            onClick={() => onSwitch(index + 1)}
+            disabled={disabled || index === count - 1}
+            title='Next version'
+        >
+            ›
+        </button>
+    </span>
+);
+
+export default BranchNavigator;
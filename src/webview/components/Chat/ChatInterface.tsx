@@ -1,14 +1,29 @@
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
-import type { ChatMessage, MessageAction } from '../../../types/chatMessage';
+import type { ChatMessage, MessageAction, MessageMetadata } from '../../../types/chatMessage';
+import type { ChatSessionsState } from '../../../types/chatSession';
+import type { AgentProfilesState } from '../../../types/agentProfile';
+import type { ToolApprovalRequest } from '../../../types/toolApproval';
+import type { CanvasChatContext } from '../../../types/elementPicker';
+import { formatChatContext, parseChatContext } from '../../utils/elementPicker';
 import { useFirstTimeUser } from '../../hooks/useFirstTimeUser';
 import MarkdownRenderer from '../MarkdownRenderer';
 import { TaskIcon, CheckIcon, LightBulbIcon } from '../Icons';
 import Welcome from '../Welcome';
 import ThemePreviewCard from './ThemePreviewCard';
+import ChatSessionList from './ChatSessionList';
+import AgentProfileSelect from './AgentProfileSelect';
+import WorkflowStepper from './WorkflowStepper';
+import WorkflowReview from './WorkflowReview';
+import BranchNavigator from './BranchNavigator';
+import MessageEditor from './MessageEditor';
+import ToolApprovalCard from './ToolApprovalCard';
+import StepTimeline from './StepTimeline';
+import ThinkingBlock from './ThinkingBlock';
 import chatStyles from './ChatInterface.css';
 import welcomeStyles from '../Welcome/Welcome.css';
 import {
     ChatSidebarKey,
+    type ChatDisplaySettings,
     type ChatSidebarActions,
     type ChatSidebarState,
 } from '../../../types/chatSidebarTypes';
@@ -19,7 +34,15 @@ import type {
     ToolCallPart,
     ToolResultPart,
 } from '@ai-sdk/provider-utils';
-import { isToolCallPart, isToolResultPart, normalizeToolInput } from '../../utils/chatUtils';
+import {
+    buildStepTimelines,
+    formatTokenCount,
+    getContextUsagePercent,
+    isToolCallPart,
+    isToolResultPart,
+    normalizeToolInput,
+    summarizeUsage,
+} from '../../utils/chatUtils';
 import {
     createDefaultRegistry,
     type ModelId,
@@ -73,10 +96,94 @@ const postReducer: StateReducer<ChatSidebarState, ChatSidebarActions> = {
     sendChatMessage: function (prevState: ChatSidebarState, _: void): ChatSidebarState {
         return prevState;
     },
+    editMessage: function (prevState: ChatSidebarState, _: void): ChatSidebarState {
+        return prevState;
+    },
+    switchBranch: function (prevState: ChatSidebarState, _: void): ChatSidebarState {
+        return prevState;
+    },
+    loadSessions: function (
+        prevState: ChatSidebarState,
+        patch: ChatSessionsState
+    ): ChatSidebarState {
+        return { ...prevState, sessions: patch };
+    },
+    createSession: function (
+        prevState: ChatSidebarState,
+        patch: ChatSessionsState
+    ): ChatSidebarState {
+        return { ...prevState, sessions: patch };
+    },
+    switchSession: function (
+        prevState: ChatSidebarState,
+        patch: ChatSessionsState
+    ): ChatSidebarState {
+        return { ...prevState, sessions: patch };
+    },
+    renameSession: function (
+        prevState: ChatSidebarState,
+        patch: ChatSessionsState
+    ): ChatSidebarState {
+        return { ...prevState, sessions: patch };
+    },
+    archiveSession: function (
+        prevState: ChatSidebarState,
+        patch: ChatSessionsState
+    ): ChatSidebarState {
+        return { ...prevState, sessions: patch };
+    },
+    deleteSession: function (
+        prevState: ChatSidebarState,
+        patch: ChatSessionsState
+    ): ChatSidebarState {
+        return { ...prevState, sessions: patch };
+    },
+    loadDisplaySettings: function (
+        prevState: ChatSidebarState,
+        patch: ChatDisplaySettings
+    ): ChatSidebarState {
+        return { ...prevState, displaySettings: patch };
+    },
+    loadProfiles: function (
+        prevState: ChatSidebarState,
+        patch: AgentProfilesState
+    ): ChatSidebarState {
+        return { ...prevState, profiles: patch };
+    },
+    selectProfile: function (
+        prevState: ChatSidebarState,
+        patch: AgentProfilesState
+    ): ChatSidebarState {
+        return { ...prevState, profiles: patch };
+    },
+    editProfile: function (prevState: ChatSidebarState, _patch: void): ChatSidebarState {
+        return prevState;
+    },
+    startWorkflow: function (
+        prevState: ChatSidebarState,
+        patch: ChatSessionsState
+    ): ChatSidebarState {
+        return { ...prevState, sessions: patch };
+    },
+    approveWorkflowStep: function (
+        prevState: ChatSidebarState,
+        patch: ChatSessionsState
+    ): ChatSidebarState {
+        return { ...prevState, sessions: patch };
+    },
+    exitWorkflow: function (
+        prevState: ChatSidebarState,
+        patch: ChatSessionsState
+    ): ChatSidebarState {
+        return { ...prevState, sessions: patch };
+    },
+    openWorkflowArtifact: function (prevState: ChatSidebarState, _patch: void): ChatSidebarState {
+        return prevState;
+    },
 };
 
 const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout }) => {
-    const { api, vscode } = useWebviewApi(ChatContextKey);
+    const { api, vscode, addListener, removeListener } = useWebviewApi(ChatContextKey);
     const logger = useLogger('ChatInterface');
     const [state, actor] = useVscodeState<ChatSidebarState, ChatSidebarActions>(
         vscode,
@@ -85,6 +192,9 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout }) => {
         {
             css: {},
             messages: undefined,
+            sessions: undefined,
+            displaySettings: undefined,
+            profiles: undefined,
         } satisfies ChatSidebarState
     );
 
@@ -95,11 +205,12 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout }) => {
         resetFirstTimeUser,
     } = useFirstTimeUser();
     const [inputMessage, setInputMessage] = useState('');
+    const [editingMessageIndex, setEditingMessageIndex] = useState<number | null>(null);
     const [expandedTools, setExpandedTools] = useState<Record<string, boolean>>({});
-    const [currentContext, setCurrentContext] = useState<{ fileName: string; type: string } | null>(
-        null
-    );
+    const [currentContext, setCurrentContext] = useState<CanvasChatContext | null>(null);
     const [showWelcome, setShowWelcome] = useState<boolean>(false);
+    const [isStreaming, setIsStreaming] = useState<boolean>(false);
+    const [pendingApprovals, setPendingApprovals] = useState<ToolApprovalRequest[]>([]);
     const storage = useRef({
         get: (key: string): PromiseLike<Record<string, string> | undefined> => api.get(key),
         set: (key: string, value: Record<string, string>) => api.set(key, value),
@@ -117,6 +228,19 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout }) => {
         () => [state.messages, (state.messages?.length ?? 0) > 0, state.messages === undefined],
         [state]
     );
+    const sessionUsage = useMemo(() => summarizeUsage(chatHistory ?? []), [chatHistory]);
+    const contextUsagePercent = useMemo(
+        () => getContextUsagePercent(chatHistory ?? []),
+        [chatHistory]
+    );
+    const localModel = state.displaySettings?.localModel;
+    const stepTimelines = useMemo(
+        () =>
+            new Map(
+                buildStepTimelines(chatHistory ?? []).map(timeline => [timeline.endIndex, timeline])
+            ),
+        [chatHistory]
+    );
     const providerRegistry = useRef(createDefaultRegistry());
     const msLogger = useLogger('ModelSelect');
     const modelSelectTelemetry = useMemo(() => {
@@ -152,20 +276,101 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout }) => {
 
         markAsReturningUser();
 
-        // Clear both UI and workspace state via the IPC action
+        // Start a fresh session; the previous conversation stays available in the session list
         try {
-            logger.debug('🗑️ Calling actor.clearChats...');
-            await actor.clearChats();
-            logger.debug('🗑️ actor.clearChats completed');
+            logger.debug('Calling actor.createSession...');
+            await actor.createSession();
         } catch (error) {
-            console.error('Failed to clear conversation:', error);
-            void api.showErrorMessage('Failed to clear chat history');
+            console.error('Failed to start new conversation:', error);
+            void api.showErrorMessage('Failed to start a new conversation');
         }
     }, [markAsReturningUser, api, logger, actor]);
 
-    // Load initial chat history when component mounts
+    const activeWorkflow = useMemo(
+        () =>
+            state.sessions?.sessions.find(s => s.id === state.sessions?.activeSessionId)?.workflow,
+        [state.sessions]
+    );
+
+    const runSessionAction = useCallback(
+        (action: () => Promise<unknown>, failureMessage: string) => {
+            void action().catch((error: unknown) => {
+                logger.error(failureMessage, { error });
+                void api.showErrorMessage(failureMessage);
+            });
+        },
+        [api, logger]
+    );
+
+    // An edit in progress belongs to the session it was started in
+    useEffect(() => {
+        setEditingMessageIndex(null);
+    }, [state.sessions?.activeSessionId]);
+
+    // Track whether a response is streaming so the stop button and cursor reflect it
+    useEffect(() => {
+        const onStart = () => setIsStreaming(true);
+        const onFinish = () => setIsStreaming(false);
+        addListener('chatStreamStart', onStart);
+        addListener('chatStreamEnd', onFinish);
+        addListener('chatError', onFinish);
+        addListener('chatStopped', onFinish);
+        return () => {
+            removeListener('chatStreamStart', onStart);
+            removeListener('chatStreamEnd', onFinish);
+            removeListener('chatError', onFinish);
+            removeListener('chatStopped', onFinish);
+        };
+    }, [addListener, removeListener]);
+
+    // Tool calls waiting for the user's approval; the host resolves them on stop as well
+    useEffect(() => {
+        const onRequested = (request: ToolApprovalRequest) =>
+            setPendingApprovals(prev => [...prev.filter(r => r.id !== request.id), request]);
+        const onResolved = (requestId: string) =>
+            setPendingApprovals(prev => prev.filter(r => r.id !== requestId));
+        addListener('toolApprovalRequested', onRequested);
+        addListener('toolApprovalResolved', onResolved);
+        void api
+            .getPendingToolApprovals()
+            .then(setPendingApprovals)
+            .catch((error: unknown) =>
+                logger.error('Failed to load pending tool approvals', { error })
+            );
+        return () => {
+            removeListener('toolApprovalRequested', onRequested);
+            removeListener('toolApprovalResolved', onResolved);
+        };
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [addListener, removeListener]);
+
+    const handleToolApproval = useCallback(
+        (requestId: string, approved: boolean) => {
+            setPendingApprovals(prev => prev.filter(r => r.id !== requestId));
+            void api.respondToToolApproval(requestId, approved).catch((error: unknown) => {
+                logger.error('Failed to respond to tool approval', { error });
+                void api.showErrorMessage('Failed to send tool approval');
+            });
+        },
+        [api, logger]
+    );
+
+    const handleStopChat = useCallback(async () => {
+        logger.debug('Stop requested');
+        try {
+            await api.stopChat();
+        } catch (error) {
+            logger.error('Failed to stop chat', { error });
+            setIsStreaming(false);
+        }
+    }, [api, logger]);
+
+    // Load initial chat history and sessions when component mounts
     useEffect(() => {
         actor.loadChats();
+        actor.loadSessions();
+        actor.loadDisplaySettings();
+        actor.loadProfiles();
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, []);
 
@@ -336,8 +541,8 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout }) => {
                             : `Context: ${currentContext.fileName}\n\nMessage: ${inputMessage}`;
                 }
             } else if (currentContext) {
-                // Non-image context - use simple text format
-                messageContent = `Context: ${currentContext.fileName}\n\nMessage: ${inputMessage}`;
+                // Non-image context - use simple text format, with any picked elements spelled out
+                messageContent = `Context: ${formatChatContext(currentContext)}\n\nMessage: ${inputMessage}`;
                 logger.debug('📤 Final message with non-image context:', { messageContent });
             } else {
                 // No context - just the message text
@@ -665,9 +870,57 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout }) => {
 
         const isLastMessage = index === (chatHistory?.length ?? 0) - 1;
         const isLastUserMessage = msg.role === 'user' && isLastMessage;
-        const isStreaming = (msg.role === 'assistant' || hasToolResults) && isLastMessage;
+        const isStreamingMessage =
+            isStreaming && (msg.role === 'assistant' || hasToolResults) && isLastMessage;
+        const isInterrupted = msg.metadata?.is_interrupted === true;
         const messageText = getMessageText(msg);
 
+        // Model reasoning is stored as its own message of reasoning parts
+        if (
+            msg.role === 'assistant' &&
+            Array.isArray(msg.content) &&
+            msg.content.length > 0 &&
+            msg.content.every(part => part.type === 'reasoning')
+        ) {
+            if (state.displaySettings?.showReasoning === false) {
+                return null;
+            }
+            return (
+                <div
+                    key={index}
+                    className={`chat-message chat-message--thinking chat-message--${layout}`}
+                >
+                    <ThinkingBlock
+                        text={msg.content.map(part => part.text).join('\n\n')}
+                        durationMs={msg.metadata?.reasoning_duration_ms}
+                        isStreaming={
+                            isStreamingMessage && msg.metadata?.reasoning_duration_ms === undefined
+                        }
+                    />
+                </div>
+            );
+        }
+
+        // Summaries of compacted turns replace those turns in the model's context
+        if (msg.role === 'system' && msg.metadata?.is_summary === true) {
+            return (
+                <details key={index} className={`chat-summary chat-summary--${layout}`}>
+                    <summary className='chat-summary__title'>
+                        📌 Earlier conversation summarized
+                        {msg.metadata.summarized_messages !== undefined &&
+                            ` (${msg.metadata.summarized_messages} messages)`}
+                    </summary>
+                    <div className='chat-summary__body'>
+                        <p className='chat-summary__note'>
+                            To stay within the model&apos;s context window, the agent now sees this
+                            summary instead of the messages above it.
+                        </p>
+                        <MarkdownRenderer content={messageText} />
+                    </div>
+                </details>
+            );
+        }
+
         // Handle tool call messages specially - but for mixed content, we need to show both text AND tools
         if (msg.role === 'assistant' && hasToolCalls) {
             // Check if there's also text content
@@ -683,28 +936,12 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout }) => {
                         {layout === 'panel' && (
                             <div className='chat-message__header'>
                                 <span className='chat-message__label'>AI</span>
-                                {msg.metadata && (
-                                    <span className='chat-message__metadata'>
-                                        {msg.metadata.start_time !== undefined &&
-                                            msg.metadata.end_time !== undefined && (
-                                                <span className='metadata-item'>
-                                                    {msg.metadata.end_time -
-                                                        msg.metadata.start_time}
-                                                    ms
-                                                </span>
-                                            )}
-                                        {msg.metadata.total_cost_usd && (
-                                            <span className='metadata-item'>
-                                                ${msg.metadata.total_cost_usd.toFixed(4)}
-                                            </span>
-                                        )}
-                                    </span>
-                                )}
+                                {msg.metadata && renderMessageMetadata(msg.metadata)}
                             </div>
                         )}
                         <div className='chat-message__content'>
                             <MarkdownRenderer content={messageText} />
-                            {isStreaming && <span className='streaming-cursor'>▋</span>}
+                            {isStreamingMessage && <span className='streaming-cursor'>▋</span>}
                         </div>
                         <div className='chat-message__tools'>{renderToolCalls(msg, index)}</div>
                     </div>
@@ -745,6 +982,33 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout }) => {
 
         const hasToolCall = hasToolCalls || hasToolResults;
 
+        if (msg.role === 'user' && editingMessageIndex === index) {
+            // Messages sent with a context file keep it; only the message part is edited
+            const contextMatch = /^Context: (.+)\n\nMessage: (.+)$/s.exec(messageText);
+            return (
+                <div
+                    key={index}
+                    className={`chat-message chat-message--user chat-message--${layout} chat-message--editing`}
+                >
+                    <MessageEditor
+                        initialText={contextMatch ? contextMatch[2] : messageText}
+                        onCancel={() => setEditingMessageIndex(null)}
+                        onSubmit={text => {
+                            setEditingMessageIndex(null);
+                            actor.editMessage(
+                                index,
+                                contextMatch
+                                    ? `Context: ${contextMatch[1]}\n\nMessage: ${text}`
+                                    : text
+                            );
+                        }}
+                    />
+                </div>
+            );
+        }
+
+        const branch = msg.metadata?.branch;
+
         return (
             <div
                 key={index}
@@ -753,21 +1017,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout }) => {
                 {layout === 'panel' && (
                     <div className='chat-message__header'>
                         <span className='chat-message__label'>{messageLabel}</span>
-                        {msg.metadata && (
-                            <span className='chat-message__metadata'>
-                                {msg.metadata.start_time !== undefined &&
-                                    msg.metadata.end_time !== undefined && (
-                                        <span className='metadata-item'>
-                                            {msg.metadata.end_time - msg.metadata.start_time}ms
-                                        </span>
-                                    )}
-                                {msg.metadata.total_cost_usd && (
-                                    <span className='metadata-item'>
-                                        ${msg.metadata.total_cost_usd.toFixed(4)}
-                                    </span>
-                                )}
-                            </span>
-                        )}
+                        {msg.metadata && renderMessageMetadata(msg.metadata)}
                     </div>
                 )}
                 <div className='chat-message__content'>
@@ -784,7 +1034,8 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout }) => {
                                     /^Context: (.+)\n\nMessage: (.+)$/s
                                 );
                                 if (contextMatch) {
-                                    const contextFile = contextMatch[1];
+                                    const { fileName: contextFile, elementCount } =
+                                        parseChatContext(contextMatch[1]);
                                     const actualMessage = contextMatch[2];
 
                                     // Handle display for multiple images or single image
@@ -808,6 +1059,8 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout }) => {
                                                 <span className='context-icon'>@</span>
                                                 <span className='context-text'>
                                                     {displayFileName}
+                                                    {elementCount > 0 &&
+                                                        ` · ${elementCount} element${elementCount === 1 ? '' : 's'}`}
                                                 </span>
                                             </div>
                                             <div className='message-text'>{actualMessage}</div>
@@ -818,9 +1071,36 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout }) => {
                             return messageText;
                         })()
                     )}
-                    {isStreaming && <span className='streaming-cursor'>▋</span>}
+                    {isStreamingMessage && <span className='streaming-cursor'>▋</span>}
+                    {isInterrupted && <span className='interrupted-badge'>Stopped</span>}
                 </div>
-                {isLastUserMessage && (
+                {msg.role === 'user' && (
+                    <div className='chat-message__user-actions'>
+                        {branch !== undefined && branch.count > 1 && (
+                            <BranchNavigator
+                                index={branch.index}
+                                count={branch.count}
+                                disabled={isStreaming}
+                                onSwitch={target =>
+                                    runSessionAction(
+                                        async () => actor.switchBranch(index, target),
+                                        'Failed to switch branch'
+                                    )
+                                }
+                            />
+                        )}
+                        {!isStreaming && (
+                            <button
+                                className='chat-message__edit'
+                                onClick={() => setEditingMessageIndex(index)}
+                                title='Edit and resend; the current reply is kept as a branch'
+                            >
+                                ✎ Edit
+                            </button>
+                        )}
+                    </div>
+                )}
+                {isLastUserMessage && isStreaming && (
                     <div className='generating-content'>
                         <span className='generating-text'>Generating</span>
                     </div>
@@ -830,6 +1110,26 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout }) => {
     };
 
     // New function to handle multiple tool calls in a single message
+    const renderMessageMetadata = (metadata: MessageMetadata) => (
+        <span className='chat-message__metadata'>
+            {metadata.start_time !== undefined && metadata.end_time !== undefined && (
+                <span className='metadata-item'>{metadata.end_time - metadata.start_time}ms</span>
+            )}
+            {metadata.input_tokens !== undefined && (
+                <span
+                    className='metadata-item'
+                    title={`${metadata.model_id ?? 'Model'}: ${metadata.input_tokens} input tokens (${metadata.cached_input_tokens ?? 0} cached), ${metadata.output_tokens ?? 0} output tokens`}
+                >
+                    {formatTokenCount(metadata.input_tokens)} in ·{' '}
+                    {formatTokenCount(metadata.output_tokens ?? 0)} out
+                </span>
+            )}
+            {metadata.total_cost_usd !== undefined && (
+                <span className='metadata-item'>${metadata.total_cost_usd.toFixed(4)}</span>
+            )}
+        </span>
+    );
+
     const renderToolCalls = (msg: ChatMessage, index: number) => {
         if (!Array.isArray(msg.content)) {
             return <div key={index}>Invalid tool message content</div>;
@@ -850,6 +1150,11 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout }) => {
                 {toolCallParts.map((toolCallPart, subIndex) =>
                     renderSingleToolCall(toolCallPart, index, subIndex)
                 )}
+                {layout === 'panel' && msg.metadata?.input_tokens !== undefined && (
+                    <div className='tool-calls-container__usage'>
+                        {renderMessageMetadata(msg.metadata)}
+                    </div>
+                )}
             </div>
         );
     };
@@ -948,6 +1253,11 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout }) => {
                     >
                         <ThemePreviewCard
                             themeName={themeName}
+                            reasoning={
+                                toolInput !== undefined && 'reasoning_reference' in toolInput
+                                    ? String(toolInput.reasoning_reference)
+                                    : undefined
+                            }
                             currentCssContent={cssContent}
                             isLoadingCss={!hasResult || isLoadingCss}
                             cssLoadError={cssLoadError}
@@ -1247,12 +1557,148 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout }) => {
                 </header>
             )}
 
+            <ChatSessionList
+                sessions={state.sessions}
+                disabled={isChatHistoryLoading}
+                onCreate={() => void handleNewConversation()}
+                onSwitch={sessionId =>
+                    runSessionAction(
+                        async () => actor.switchSession(sessionId),
+                        'Failed to switch chat'
+                    )
+                }
+                onRename={(sessionId, name) =>
+                    runSessionAction(
+                        async () => actor.renameSession(sessionId, name),
+                        'Failed to rename chat'
+                    )
+                }
+                onArchive={(sessionId, archived) =>
+                    runSessionAction(
+                        async () => actor.archiveSession(sessionId, archived),
+                        'Failed to archive chat'
+                    )
+                }
+                onDelete={sessionId =>
+                    runSessionAction(
+                        async () => actor.deleteSession(sessionId),
+                        'Failed to delete chat'
+                    )
+                }
+                actions={
+                    <>
+                        {activeWorkflow === undefined && (
+                            <button
+                                className='session-bar__workflow'
+                                onClick={() =>
+                                    runSessionAction(
+                                        async () => actor.startWorkflow(),
+                                        'Failed to start guided workflow'
+                                    )
+                                }
+                                disabled={isStreaming}
+                                title='Guided workflow: layout → theme → animation → build, with your approval at each step'
+                            >
+                                Guided
+                            </button>
+                        )}
+                        <AgentProfileSelect
+                            profiles={state.profiles}
+                            disabled={isStreaming}
+                            onSelect={profileId =>
+                                runSessionAction(
+                                    async () => actor.selectProfile(profileId),
+                                    'Failed to switch agent profile'
+                                )
+                            }
+                            onEdit={profileId =>
+                                runSessionAction(
+                                    async () => actor.editProfile(profileId),
+                                    'Failed to open agent profile'
+                                )
+                            }
+                        />
+                    </>
+                }
+            />
+
+            {activeWorkflow !== undefined && (
+                <WorkflowStepper
+                    workflow={activeWorkflow}
+                    disabled={isStreaming}
+                    onOpenArtifact={stepId =>
+                        runSessionAction(
+                            async () => actor.openWorkflowArtifact(stepId),
+                            'Failed to open workflow step output'
+                        )
+                    }
+                    onExit={() =>
+                        runSessionAction(
+                            async () => actor.exitWorkflow(),
+                            'Failed to leave guided workflow'
+                        )
+                    }
+                />
+            )}
+
             <div className='chat-container'>
                 <div className='chat-history'>
                     {showWelcome ? (
                         <Welcome onGetStarted={handleWelcomeGetStarted} />
                     ) : hasConversationMessages ? (
-                        <>{chatHistory?.map(renderChatMessage)}</>
+                        <>
+                            {chatHistory?.map((msg, index) => {
+                                const timeline = stepTimelines.get(index);
+                                return (
+                                    <React.Fragment key={index}>
+                                        {renderChatMessage(msg, index)}
+                                        {timeline && (
+                                            <StepTimeline
+                                                timeline={timeline}
+                                                isRunning={
+                                                    isStreaming && index === chatHistory.length - 1
+                                                }
+                                            />
+                                        )}
+                                    </React.Fragment>
+                                );
+                            })}
+                            {pendingApprovals.map(request => (
+                                <ToolApprovalCard
+                                    key={request.id}
+                                    request={request}
+                                    onRespond={handleToolApproval}
+                                />
+                            ))}
+                            {!isStreaming &&
+                                activeWorkflow?.steps[activeWorkflow.currentStep].status ===
+                                    'review' && (
+                                    <WorkflowReview
+                                        stepId={activeWorkflow.currentStep}
+                                        artifact={
+                                            activeWorkflow.steps[activeWorkflow.currentStep]
+                                                .artifact
+                                        }
+                                        isLastStep={activeWorkflow.currentStep === 'build'}
+                                        onApprove={() =>
+                                            runSessionAction(
+                                                async () => actor.approveWorkflowStep(),
+                                                'Failed to approve workflow step'
+                                            )
+                                        }
+                                        onRevise={feedback => actor.sendChatMessage(feedback)}
+                                        onOpenArtifact={() =>
+                                            runSessionAction(
+                                                async () =>
+                                                    actor.openWorkflowArtifact(
+                                                        activeWorkflow.currentStep
+                                                    ),
+                                                'Failed to open workflow step output'
+                                            )
+                                        }
+                                    />
+                                )}
+                        </>
                     ) : (
                         renderPlaceholder()
                     )}
@@ -1268,7 +1714,9 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout }) => {
                                         ? '🖼️'
                                         : currentContext.type === 'images'
                                           ? '🖼️'
-                                          : '📄'}
+                                          : currentContext.type === 'elements'
+                                            ? '🎯'
+                                            : '📄'}
                                 </span>
                                 <span className='context-text'>
                                     {currentContext.type === 'image'
@@ -1284,6 +1732,17 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout }) => {
                                             currentContext.fileName)
                                           : (currentContext.fileName.split('/').pop() ??
                                             currentContext.fileName)}
+                                    {currentContext.elements !== undefined &&
+                                        currentContext.elements.length > 0 && (
+                                            <span
+                                                className='context-elements'
+                                                title={currentContext.elements
+                                                    .map(element => element.selector)
+                                                    .join('\n')}
+                                            >
+                                                {` · ${currentContext.elements.length} element${currentContext.elements.length === 1 ? '' : 's'}`}
+                                            </span>
+                                        )}
                                 </span>
                                 <button
                                     className='context-clear-btn'
@@ -1345,15 +1804,59 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout }) => {
                             />
                         </div>
 
+                        {/* Running token and cost total for this chat */}
+                        {sessionUsage.inputTokens + sessionUsage.outputTokens > 0 && (
+                            <div
+                                className='session-usage'
+                                title={`${sessionUsage.inputTokens} input tokens (${sessionUsage.cachedInputTokens} cached), ${sessionUsage.outputTokens} output tokens`}
+                            >
+                                <span>
+                                    {formatTokenCount(sessionUsage.inputTokens)} in ·{' '}
+                                    {formatTokenCount(sessionUsage.outputTokens)} out
+                                </span>
+                                {contextUsagePercent !== undefined && (
+                                    <span
+                                        className={`session-usage__context ${contextUsagePercent >= 80 ? 'session-usage__context--high' : ''}`}
+                                        title='Share of the model context window used by the last request. Older turns are summarized automatically as it fills up.'
+                                    >
+                                        Context {contextUsagePercent}% full
+                                    </span>
+                                )}
+                                <span className='session-usage__cost'>
+                                    ${sessionUsage.costUsd.toFixed(4)}
+                                    {sessionUsage.hasUnpricedSteps && '+'}
+                                </span>
+                            </div>
+                        )}
+
                         {/* Agent and Model Selectors with Actions */}
                         <div className='input-controls'>
                             <div className='selectors-group'>
                                 <div className='selector-wrapper'>
-                                    <ModelSelect
-                                        storage={storage.current}
-                                        providerRegistry={providerRegistry.current}
-                                        telemetry={modelSelectTelemetry}
-                                    />
+                                    {localModel !== undefined ? (
+                                        <button
+                                            className={`local-model-badge ${localModel.remoteWarning !== undefined ? 'local-model-badge--remote' : ''}`}
+                                            onClick={() =>
+                                                void api.executeCommand(
+                                                    'securedesign.configureLocalProvider'
+                                                )
+                                            }
+                                            title={`${localModel.remoteWarning ?? `Requests go to ${localModel.baseUrl}`}. Tools ${localModel.supportsTools ? 'on' : 'off'}, images ${localModel.supportsVision ? 'on' : 'off'}. Click to change.`}
+                                        >
+                                            <span className='local-model-badge__label'>
+                                                {localModel.remoteWarning !== undefined
+                                                    ? 'Remote'
+                                                    : 'Local'}
+                                            </span>
+                                            {localModel.model}
+                                        </button>
+                                    ) : (
+                                        <ModelSelect
+                                            storage={storage.current}
+                                            providerRegistry={providerRegistry.current}
+                                            telemetry={modelSelectTelemetry}
+                                        />
+                                    )}
                                 </div>
                             </div>
                             <div className='input-actions'>
@@ -1397,13 +1900,9 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout }) => {
                                         <path d='M2.002 1a2 2 0 0 0-2 2v10a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V3a2 2 0 0 0-2-2h-12zm12 1a1 1 0 0 1 1 1v6.5l-3.777-1.947a.5.5 0 0 0-.577.093l-3.71 3.71-2.66-1.772a.5.5 0 0 0-.63.062L1.002 12V3a1 1 0 0 1 1-1h12z' />
                                     </svg>
                                 </button>
-                                {/* Todo: this should detect whether streaming is ongoing */}
-                                {isChatHistoryLoading ? (
+                                {isStreaming ? (
                                     <button
-                                        onClick={() => {
-                                            // TODO: Add Stop functionality
-                                            logger.debug('Stop requested');
-                                        }}
+                                        onClick={() => void handleStopChat()}
                                         className='send-btn stop-btn'
                                         title='Stop response'
                                     >
@@ -0,0 +1,167 @@
+import React, { useMemo, useState } from 'react';
+import type { ChatSession, ChatSessionsState } from '../../../types/chatSession';
+
+interface ChatSessionListProps {
+    sessions: ChatSessionsState | undefined;
+    disabled?: boolean;
+    onCreate: () => void;
+    onSwitch: (sessionId: string) => void;
+    onRename: (sessionId: string, name: string) => void;
+    onArchive: (sessionId: string, archived: boolean) => void;
+    onDelete: (sessionId: string) => void;
+    // Extra controls shown in the header next to the new chat button
+    actions?: React.ReactNode;
+}
+
+const byMostRecent = (a: ChatSession, b: ChatSession) => b.updatedAt - a.updatedAt;
+
+const ChatSessionList: React.FC<ChatSessionListProps> = ({
+    sessions,
+    disabled = false,
+    onCreate,
+    onSwitch,
+    onRename,
+    onArchive,
+    onDelete,
+    actions,
+}) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [showArchived, setShowArchived] = useState(false);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editingName, setEditingName] = useState('');
+
+    const [active, archived] = useMemo(() => {
+        const all = sessions?.sessions ?? [];
+        return [
+            all.filter(s => s.archived !== true).sort(byMostRecent),
+            all.filter(s => s.archived === true).sort(byMostRecent),
+        ];
+    }, [sessions]);
+
+    const activeSession = sessions?.sessions.find(s => s.id === sessions.activeSessionId);
+
+    const startRename = (session: ChatSession) => {
+        setEditingId(session.id);
+        setEditingName(session.name);
+    };
+
+    const commitRename = () => {
+        if (editingId !== null && editingName.trim().length > 0) {
+            onRename(editingId, editingName.trim());
+        }
+        setEditingId(null);
+    };
+
+    const renderSession = (session: ChatSession) => {
+        const isActive = session.id === sessions?.activeSessionId;
+        return (
+            <li
+                key={session.id}
+                className={`session-item ${isActive ? 'session-item--active' : ''}`}
+            >
+                {editingId === session.id ? (
+                    <input
+                        className='session-item__input'
+                        value={editingName}
+                        autoFocus
+                        onChange={e => setEditingName(e.target.value)}
+                        onBlur={commitRename}
+                        onKeyDown={e => {
+                            if (e.key === 'Enter') {
+                                commitRename();
+                            } else if (e.key === 'Escape') {
+                                setEditingId(null);
+                            }
+                        }}
+                    />
+                ) : (
+                    <button
+                        className='session-item__name'
+                        onClick={() => {
+                            onSwitch(session.id);
+                            setIsOpen(false);
+                        }}
+                        disabled={disabled || isActive}
+                        title={session.name}
+                    >
+                        {session.name}
+                    </button>
+                )}
+                <div className='session-item__actions'>
+                    <button
+                        className='session-item__action'
+                        onClick={() => startRename(session)}
+                        title='Rename chat'
+                    >
+                        ✎
+                    </button>
+                    <button
+                        className='session-item__action'
+                        onClick={() => onArchive(session.id, session.archived !== true)}
+                        disabled={disabled}
+                        title={session.archived === true ? 'Unarchive chat' : 'Archive chat'}
+                    >
+                        {session.archived === true ? '↺' : '⌫'}
+                    </button>
+                    <button
+                        className='session-item__action'
+                        onClick={() => onDelete(session.id)}
+                        disabled={disabled}
+                        title='Delete chat'
+                    >
+                        ✕
+                    </button>
+                </div>
+            </li>
+        );
+    };
+
+    return (
+        <div className='session-bar'>
+            <div className='session-bar__header'>
+                <button
+                    className='session-bar__toggle'
+                    onClick={() => setIsOpen(!isOpen)}
+                    title='Switch chat'
+                >
+                    <span className='session-bar__name'>{activeSession?.name ?? 'Chat'}</span>
+                    <span className='session-bar__chevron'>{isOpen ? '▴' : '▾'}</span>
+                </button>
+                {actions}
+                <button
+                    className='session-bar__new'
+                    onClick={() => {
+                        onCreate();
+                        setIsOpen(false);
+                    }}
+                    disabled={disabled}
+                    title='New chat'
+                >
+                    +
+                </button>
+            </div>
+            {isOpen && (
+                <div className='session-bar__dropdown'>
+                    <ul className='session-list'>{active.map(renderSession)}</ul>
+                    {archived.length > 0 && (
+                        <>
+                            <button
+                                className='session-list__archived-toggle'
+                                onClick={() => setShowArchived(!showArchived)}
+                            >
+                                {showArchived ? '▾' : '▸'} Archived ({archived.length})
+                            </button>
+                            {showArchived && (
+                                <ul className='session-list session-list--archived'>
+                                    {archived.map(renderSession)}
+                                </ul>
+                            )}
+                        </>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ChatSessionList;
@@ -1,5 +1,6 @@
 import React from 'react';
 import type { GroupedColors } from './types';
+import { oklchToHex } from '../../utils/themeParser';
 
 interface ColorPaletteProps {
     colors: GroupedColors;
@@ -19,20 +20,34 @@ const ColorPalette: React.FC<ColorPaletteProps> = ({ colors }) => {
             <div key={groupName} className='color-group'>
                 <h4 className='color-group-title'>{groupName}</h4>
                 <div className='color-grid'>
-                    {Object.entries(colorGroup).map(([name, color]) => (
-                        <div
-                            key={name}
-                            className='color-swatch'
-                            onClick={() => handleColorCopy(color)}
-                            title={`${name}: ${color}`}
-                        >
-                            <div className='color-preview' style={{ backgroundColor: color }} />
-                            <div className='color-info'>
-                                <span className='color-name'>{name}</span>
-                                <span className='color-value'>{color}</span>
+                    {Object.entries(colorGroup).map(([name, color]) => {
+                        const hex = oklchToHex(color);
+                        return (
+                            <div
+                                key={name}
+                                className='color-swatch'
+                                onClick={() => handleColorCopy(color)}
+                                title={`${name}: ${color}${hex !== color ? ` (${hex})` : ''}`}
+                            >
+                                <div className='color-preview' style={{ backgroundColor: color }} />
+                                <div className='color-info'>
+                                    <span className='color-name'>{name}</span>
+                                    <span className='color-value'>{color}</span>
+                                    {hex !== color && (
+                                        <span
+                                            className='color-value color-hex'
+                                            onClick={e => {
+                                                e.stopPropagation();
+                                                handleColorCopy(hex);
+                                            }}
+                                        >
+                                            {hex}
+                                        </span>
+                                    )}
+                                </div>
                             </div>
-                        </div>
-                    ))}
+                        );
+                    })}
                 </div>
             </div>
         );
@@ -117,6 +132,10 @@ const ColorPalette: React.FC<ColorPaletteProps> = ({ colors }) => {
             overflow: hidden;
             text-overflow: ellipsis;
           }
+
+          .color-hex:hover {
+            color: var(--vscode-textLink-foreground);
+          }
         `}
             </style>
             <div className='color-palette'>
@@ -0,0 +1,49 @@
+import React, { useState } from 'react';
+
+interface MessageEditorProps {
+    initialText: string;
+    onCancel: () => void;
+    onSubmit: (text: string) => void;
+}
+
+const MessageEditor: React.FC<MessageEditorProps> = ({ initialText, onCancel, onSubmit }) => {
+    const [text, setText] = useState(initialText);
+    const canSubmit = text.trim().length > 0 && text !== initialText;
+
+    return (
+        <div className='message-editor'>
+            <textarea
+                className='message-editor__input'
+                value={text}
+                autoFocus
+                rows={Math.min(8, Math.max(2, text.split('\n').length))}
+                onChange={e => setText(e.target.value)}
+                onKeyDown={e => {
+                    if (e.key === 'Enter' && !e.shiftKey && canSubmit) {
+                        e.preventDefault();
+                        onSubmit(text.trim());
+                    } else if (e.key === 'Escape') {
+                        onCancel();
+                    }
+                }}
+            />
+            <div className='message-editor__actions'>
+                <span className='message-editor__hint'>
+                    The current reply stays available as a branch
+                </span>
+                <button className='message-editor__button' onClick={onCancel}>
+                    Cancel
+                </button>
+                <button
+                    className='message-editor__button message-editor__button--primary'
+                    onClick={() => onSubmit(text.trim())}
+                    disabled={!canSubmit}
+                >
+                    Save &amp; resend
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default MessageEditor;
@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { formatTokenCount, type TurnTimeline } from '../../utils/chatUtils';
+
+interface StepTimelineProps {
+    timeline: TurnTimeline;
+    isRunning: boolean;
+}
+
+const formatDuration = (ms: number) => (ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`);
+
+const StepTimeline: React.FC<StepTimelineProps> = ({ timeline, isRunning }) => {
+    const [isExpanded, setIsExpanded] = useState(false);
+    const { steps, stepLimit } = timeline;
+
+    const totalMs = steps.reduce((total, step) => total + (step.durationMs ?? 0), 0);
+    const totalTokens = steps.reduce(
+        (total, step) => total + step.inputTokens + step.outputTokens,
+        0
+    );
+
+    return (
+        <div className='step-timeline'>
+            <button
+                className='step-timeline__toggle'
+                onClick={() => setIsExpanded(!isExpanded)}
+                aria-expanded={isExpanded}
+            >
+                <span className='step-timeline__chevron'>{isExpanded ? '▾' : '▸'}</span>
+                {steps.length} {steps.length === 1 ? 'step' : 'steps'}
+                {totalMs > 0 && ` · ${formatDuration(totalMs)}`}
+                {totalTokens > 0 && ` · ${formatTokenCount(totalTokens)} tokens`}
+                {isRunning && <span className='step-timeline__running'> · running</span>}
+            </button>
+
+            {stepLimit !== undefined && !isRunning && (
+                <div className='step-timeline__limit'>
+                    Stopped at the {stepLimit === 'steps' ? 'step' : 'time'} limit before the agent
+                    finished. Send “continue” to pick up where it left off.
+                </div>
+            )}
+
+            {isExpanded && (
+                <ol className='step-timeline__steps'>
+                    {steps.map(step => (
+                        <li key={step.step} className='step-timeline__step'>
+                            <span className='step-timeline__step-number'>Step {step.step}</span>
+                            <span className='step-timeline__step-tools'>
+                                {step.toolNames.length > 0 ? step.toolNames.join(', ') : 'response'}
+                            </span>
+                            <span className='step-timeline__step-stats'>
+                                {step.durationMs !== undefined && formatDuration(step.durationMs)}
+                                {step.inputTokens + step.outputTokens > 0 &&
+                                    ` · ${formatTokenCount(step.inputTokens)} in · ${formatTokenCount(step.outputTokens)} out`}
+                            </span>
+                        </li>
+                    ))}
+                </ol>
+            )}
+        </div>
+    );
+};
+
+export default StepTimeline;
@@ -1,5 +1,11 @@
-import React from 'react';
-import type { ParsedTheme } from '../../utils/themeParser';
+import React, { useMemo } from 'react';
+import {
+    apcaLevel,
+    buildContrastReport,
+    oklchToHex,
+    wcagLevel,
+    type ParsedTheme,
+} from '../../utils/themeParser';
 
 interface ThemeDetailsProps {
     reasoning: string;
@@ -7,6 +13,8 @@ interface ThemeDetailsProps {
 }
 
 const ThemeDetails: React.FC<ThemeDetailsProps> = ({ reasoning, theme }) => {
+    const contrastReport = useMemo(() => (theme ? buildContrastReport(theme) : []), [theme]);
+
     if (!theme) {
         return null;
     }
@@ -80,7 +88,60 @@ const ThemeDetails: React.FC<ThemeDetailsProps> = ({ reasoning, theme }) => {
             color: 'var(--muted-foreground)',
             minWidth: '4rem',
         },
+        contrastTable: {
+            width: '100%',
+            borderCollapse: 'collapse' as const,
+            fontSize: '12px',
+        },
+        contrastHeader: {
+            textAlign: 'left' as const,
+            fontWeight: '500' as const,
+            color: 'var(--muted-foreground)',
+            padding: '0.25rem 0.5rem',
+            borderBottom: '1px solid var(--border)',
+        },
+        contrastCell: {
+            padding: '0.375rem 0.5rem',
+            borderBottom: '1px solid var(--border)',
+            color: 'var(--foreground)',
+            verticalAlign: 'middle' as const,
+        },
+        contrastSample: {
+            display: 'inline-block',
+            padding: '0.125rem 0.5rem',
+            borderRadius: '0.25rem',
+            border: '1px solid var(--border)',
+            fontWeight: '600' as const,
+        },
+        contrastPair: {
+            fontFamily: 'var(--font-mono)',
+            display: 'block',
+        },
+        contrastValues: {
+            fontFamily: 'var(--font-mono)',
+            color: 'var(--muted-foreground)',
+            fontSize: '11px',
+        },
+        badge: {
+            display: 'inline-block',
+            marginLeft: '0.375rem',
+            padding: '0 0.375rem',
+            borderRadius: '999px',
+            fontSize: '10px',
+            fontWeight: '600' as const,
+            color: '#ffffff',
+        },
+    };
+
+    const badgeColor = (level: string) => {
+        if (level === 'Fail') {
+            return '#b42318';
+        }
+        return level === 'AA Large' || level === 'Headline' ? '#b54708' : '#067647';
     };
+    const failures = contrastReport.filter(
+        check => check.wcagRatio === undefined || wcagLevel(check.wcagRatio) === 'Fail'
+    ).length;
 
     const shadowEntries = Object.entries(theme.shadows).filter(
         ([_, value]) => value && value !== 'none'
@@ -136,6 +197,98 @@ const ThemeDetails: React.FC<ThemeDetailsProps> = ({ reasoning, theme }) => {
                 </div>
             </div>
 
+            {contrastReport.length > 0 && (
+                <div style={styles.section}>
+                    <h4 style={styles.sectionTitle}>
+                        <span>♿</span>
+                        <span>
+                            Contrast ({failures === 0 ? 'all pairs pass' : `${failures} failing`})
+                        </span>
+                    </h4>
+                    <table style={styles.contrastTable}>
+                        <thead>
+                            <tr>
+                                <th style={styles.contrastHeader}>Pair</th>
+                                <th style={styles.contrastHeader}>Sample</th>
+                                <th style={styles.contrastHeader}>WCAG 2.x</th>
+                                <th style={styles.contrastHeader}>APCA</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {contrastReport.map(check => {
+                                const wcag =
+                                    check.wcagRatio !== undefined
+                                        ? wcagLevel(check.wcagRatio)
+                                        : undefined;
+                                const apca =
+                                    check.apcaLc !== undefined
+                                        ? apcaLevel(check.apcaLc)
+                                        : undefined;
+                                return (
+                                    <tr key={`${check.mode}-${check.foreground}`}>
+                                        <td style={styles.contrastCell}>
+                                            <span style={styles.contrastPair}>
+                                                {check.foreground} / {check.background}
+                                                {theme.darkVariables && ` (${check.mode})`}
+                                            </span>
+                                            <span style={styles.contrastValues}>
+                                                {oklchToHex(check.foregroundValue)} on{' '}
+                                                {oklchToHex(check.backgroundValue)}
+                                            </span>
+                                        </td>
+                                        <td style={styles.contrastCell}>
+                                            <span
+                                                style={{
+                                                    ...styles.contrastSample,
+                                                    color: check.foregroundValue,
+                                                    backgroundColor: check.backgroundValue,
+                                                }}
+                                            >
+                                                Aa
+                                            </span>
+                                        </td>
+                                        <td style={styles.contrastCell}>
+                                            {wcag !== undefined && check.wcagRatio !== undefined ? (
+                                                <>
+                                                    {check.wcagRatio.toFixed(2)}:1
+                                                    <span
+                                                        style={{
+                                                            ...styles.badge,
+                                                            backgroundColor: badgeColor(wcag),
+                                                        }}
+                                                    >
+                                                        {wcag}
+                                                    </span>
+                                                </>
+                                            ) : (
+                                                'Unknown colour'
+                                            )}
+                                        </td>
+                                        <td style={styles.contrastCell}>
+                                            {apca !== undefined && check.apcaLc !== undefined ? (
+                                                <>
+                                                    Lc {check.apcaLc.toFixed(1)}
+                                                    <span
+                                                        style={{
+                                                            ...styles.badge,
+                                                            backgroundColor: badgeColor(apca),
+                                                        }}
+                                                    >
+                                                        {apca}
+                                                    </span>
+                                                </>
+                                            ) : (
+                                                'Unknown colour'
+                                            )}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
             {hasShadows && (
                 <div style={styles.section}>
                     <h4 style={styles.sectionTitle}>
@@ -3,11 +3,13 @@ import ThemePreviewHeader from './ThemePreviewHeader';
 import ColorPalette from './ColorPalette';
 import ThemePreview from './ThemePreview';
 import ModeToggle from './ModeToggle';
+import ThemeDetails from './ThemeDetails';
 import { parseThemeCSS, extractColorPalette, type ParsedTheme } from '../../utils/themeParser';
 import type { GroupedColors } from './types';
 
 interface ThemePreviewCardProps {
     themeName: string;
+    reasoning?: string;
     currentCssContent: string | undefined;
     isLoadingCss: boolean;
     cssLoadError?: string;
@@ -15,13 +17,14 @@ interface ThemePreviewCardProps {
 
 const ThemePreviewCard: React.FC<ThemePreviewCardProps> = ({
     themeName,
+    reasoning = '',
     currentCssContent,
     isLoadingCss,
     cssLoadError,
 }) => {
     const [isExpanded, setIsExpanded] = useState(false);
     const [parsedTheme, setParsedTheme] = useState<ParsedTheme | null>(null);
-    const [activeTab, setActiveTab] = useState<'theme' | 'components'>('theme');
+    const [activeTab, setActiveTab] = useState<'theme' | 'components' | 'details'>('theme');
     const [isDarkMode, setIsDarkMode] = useState(false);
     const [cssParseError, setCssParseError] = useState<undefined | string>(undefined);
 
@@ -257,6 +260,12 @@ const ThemePreviewCard: React.FC<ThemePreviewCardProps> = ({
                                         >
                                             UI Components
                                         </button>
+                                        <button
+                                            className={`theme-preview-tab ${activeTab === 'details' ? 'active' : ''}`}
+                                            onClick={() => setActiveTab('details')}
+                                        >
+                                            Details &amp; Contrast
+                                        </button>
                                     </div>
 
                                     <div className='theme-preview-content'>
@@ -386,6 +395,13 @@ const ThemePreviewCard: React.FC<ThemePreviewCardProps> = ({
                                                 />
                                             </div>
                                         )}
+
+                                        {activeTab === 'details' && (
+                                            <ThemeDetails
+                                                reasoning={reasoning}
+                                                theme={parsedTheme}
+                                            />
+                                        )}
                                     </div>
                                 </>
                             )}
@@ -0,0 +1,45 @@
+import React, { useState } from 'react';
+import MarkdownRenderer from '../MarkdownRenderer';
+
+interface ThinkingBlockProps {
+    text: string;
+    durationMs: number | undefined;
+    isStreaming: boolean;
+}
+
+const ThinkingBlock: React.FC<ThinkingBlockProps> = ({ text, durationMs, isStreaming }) => {
+    const [isExpanded, setIsExpanded] = useState(false);
+
+    let label = 'Thinking';
+    if (isStreaming) {
+        label = 'Thinking…';
+    } else if (durationMs !== undefined) {
+        label = `Thought for ${durationMs < 1000 ? `${durationMs}ms` : `${(durationMs / 1000).toFixed(1)}s`}`;
+    }
+
+    return (
+        <div className={`thinking-block ${isStreaming ? 'thinking-block--streaming' : ''}`}>
+            <button
+                className='thinking-block__toggle'
+                onClick={() => setIsExpanded(!isExpanded)}
+                aria-expanded={isExpanded}
+            >
+                <span className='thinking-block__chevron'>{isExpanded ? '▾' : '▸'}</span>
+                💭 {label}
+            </button>
+            {isExpanded && (
+                <div className='thinking-block__content'>
+                    {text.trim().length > 0 ? (
+                        <MarkdownRenderer content={text} />
+                    ) : (
+                        <span className='thinking-block__empty'>
+                            The provider did not share this reasoning.
+                        </span>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ThinkingBlock;
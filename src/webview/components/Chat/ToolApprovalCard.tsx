@@ -0,0 +1,89 @@
+import React, { useMemo } from 'react';
+import type { ToolApprovalRequest } from '../../../types/toolApproval';
+import { countChanges, diffLines } from '../../utils/lineDiff';
+import DiffView from '../DiffView';
+
+interface ToolApprovalCardProps {
+    request: ToolApprovalRequest;
+    onRespond: (requestId: string, approved: boolean) => void;
+}
+
+function formatTimeout(ms: number): string {
+    return ms >= 60_000 && ms % 60_000 === 0 ? `${ms / 60_000} min` : `${ms / 1000}s`;
+}
+
+const ToolApprovalCard: React.FC<ToolApprovalCardProps> = ({ request, onRespond }) => {
+    const { preview } = request;
+
+    const diff = useMemo(
+        () => (preview.kind === 'diff' ? diffLines(preview.before, preview.after) : []),
+        [preview]
+    );
+    const changes = useMemo(() => countChanges(diff), [diff]);
+
+    return (
+        <div className='tool-approval-card'>
+            <div className='tool-approval-card__header'>
+                <span className='tool-approval-card__title'>
+                    Allow <code>{request.toolName}</code>?
+                </span>
+                {preview.kind === 'diff' && (
+                    <span className='tool-approval-card__summary'>
+                        {preview.isNewFile ? 'new file' : preview.filePath}{' '}
+                        <span className='diff-added'>+{changes.added}</span>{' '}
+                        <span className='diff-removed'>-{changes.removed}</span>
+                    </span>
+                )}
+            </div>
+
+            {preview.kind === 'command' ? (
+                <div className='tool-approval-card__body'>
+                    {preview.description !== undefined && (
+                        <div className='tool-approval-card__description'>{preview.description}</div>
+                    )}
+                    <pre className='tool-approval-card__command'>
+                        <span className='tool-approval-card__cwd'>{preview.directory} $</span>{' '}
+                        {preview.command}
+                    </pre>
+                    {preview.env !== undefined && (
+                        <div className='tool-approval-card__env'>
+                            <div className='tool-approval-card__env-title'>
+                                With environment variables
+                            </div>
+                            <pre className='tool-approval-card__command'>
+                                {Object.entries(preview.env)
+                                    .map(([name, value]) => `${name}=${value}`)
+                                    .join('\n')}
+                            </pre>
+                        </div>
+                    )}
+                    <div className='tool-approval-card__timeout'>
+                        Times out after {formatTimeout(preview.timeoutMs)}
+                    </div>
+                </div>
+            ) : (
+                <div className='tool-approval-card__body'>
+                    <div className='tool-approval-card__file'>{preview.filePath}</div>
+                    <DiffView diff={diff} className='tool-approval-card__diff' />
+                </div>
+            )}
+
+            <div className='tool-approval-card__actions'>
+                <button
+                    className='tool-approval-card__btn tool-approval-card__btn--reject'
+                    onClick={() => onRespond(request.id, false)}
+                >
+                    Reject
+                </button>
+                <button
+                    className='tool-approval-card__btn tool-approval-card__btn--approve'
+                    onClick={() => onRespond(request.id, true)}
+                >
+                    Approve
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default ToolApprovalCard;
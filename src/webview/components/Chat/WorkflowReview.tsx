@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import type { WorkflowStepId } from '../../../types/designWorkflow';
+import { WORKFLOW_STEP_LABELS } from './WorkflowStepper';
+
+interface WorkflowReviewProps {
+    stepId: WorkflowStepId;
+    artifact?: string;
+    isLastStep: boolean;
+    onApprove: () => void;
+    onRevise: (feedback: string) => void;
+    onOpenArtifact: () => void;
+}
+
+/**
+ * Approve / revise controls shown under the agent's output for the step under review
+ */
+const WorkflowReview: React.FC<WorkflowReviewProps> = ({
+    stepId,
+    artifact,
+    isLastStep,
+    onApprove,
+    onRevise,
+    onOpenArtifact,
+}) => {
+    const [isRevising, setIsRevising] = useState(false);
+    const [feedback, setFeedback] = useState('');
+    const label = WORKFLOW_STEP_LABELS[stepId];
+
+    const submitRevision = () => {
+        if (feedback.trim().length === 0) {
+            return;
+        }
+        onRevise(feedback.trim());
+        setFeedback('');
+        setIsRevising(false);
+    };
+
+    return (
+        <div className='workflow-review'>
+            <div className='workflow-review__header'>
+                <span className='workflow-review__title'>{label} is ready for review</span>
+                {artifact !== undefined && (
+                    <button
+                        className='workflow-review__artifact'
+                        onClick={onOpenArtifact}
+                        title={`Open ${artifact}`}
+                    >
+                        {artifact.split('/').pop()}
+                    </button>
+                )}
+            </div>
+            {isRevising ? (
+                <div className='workflow-review__revise'>
+                    <textarea
+                        className='workflow-review__input'
+                        value={feedback}
+                        placeholder={`What should change in the ${label.toLowerCase()}?`}
+                        autoFocus
+                        rows={3}
+                        onChange={e => setFeedback(e.target.value)}
+                        onKeyDown={e => {
+                            if (e.key === 'Enter' && !e.shiftKey) {
+                                e.preventDefault();
+                                submitRevision();
+                            } else if (e.key === 'Escape') {
+                                setIsRevising(false);
+                            }
+                        }}
+                    />
+                    <div className='workflow-review__actions'>
+                        <button
+                            className='workflow-review__button'
+                            onClick={() => setIsRevising(false)}
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            className='workflow-review__button workflow-review__button--primary'
+                            onClick={submitRevision}
+                            disabled={feedback.trim().length === 0}
+                        >
+                            Send revision
+                        </button>
+                    </div>
+                </div>
+            ) : (
+                <div className='workflow-review__actions'>
+                    <button className='workflow-review__button' onClick={() => setIsRevising(true)}>
+                        Revise
+                    </button>
+                    <button
+                        className='workflow-review__button workflow-review__button--primary'
+                        onClick={onApprove}
+                    >
+                        {isLastStep ? 'Approve and finish' : 'Approve and continue'}
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default WorkflowReview;
@@ -0,0 +1,89 @@
+import React from 'react';
+import type {
+    DesignWorkflow,
+    WorkflowStepId,
+    WorkflowStepStatus,
+} from '../../../types/designWorkflow';
+
+interface WorkflowStepperProps {
+    workflow: DesignWorkflow;
+    disabled?: boolean;
+    onOpenArtifact: (stepId: WorkflowStepId) => void;
+    onExit: () => void;
+}
+
+export const WORKFLOW_STEP_LABELS: Record<WorkflowStepId, string> = {
+    layout: 'Layout',
+    theme: 'Theme',
+    animation: 'Animation',
+    build: 'Build',
+};
+
+const STATUS_ICONS: Record<WorkflowStepStatus, string> = {
+    pending: '○',
+    active: '◐',
+    review: '◉',
+    approved: '✓',
+};
+
+const STATUS_TITLES: Record<WorkflowStepStatus, string> = {
+    pending: 'Not started',
+    active: 'In progress',
+    review: 'Waiting for your review',
+    approved: 'Approved',
+};
+
+const WorkflowStepper: React.FC<WorkflowStepperProps> = ({
+    workflow,
+    disabled = false,
+    onOpenArtifact,
+    onExit,
+}) => {
+    const stepIds = Object.keys(WORKFLOW_STEP_LABELS) as WorkflowStepId[];
+
+    return (
+        <div className='workflow-stepper'>
+            <ol className='workflow-stepper__steps'>
+                {stepIds.map((stepId, index) => {
+                    const step = workflow.steps[stepId];
+                    const isCurrent =
+                        stepId === workflow.currentStep && workflow.completedAt === undefined;
+                    return (
+                        <li
+                            key={stepId}
+                            className={`workflow-step workflow-step--${step.status} ${isCurrent ? 'workflow-step--current' : ''}`}
+                        >
+                            <button
+                                className='workflow-step__button'
+                                onClick={() => onOpenArtifact(stepId)}
+                                disabled={step.artifact === undefined}
+                                title={
+                                    step.artifact !== undefined
+                                        ? `${STATUS_TITLES[step.status]} · open ${step.artifact}`
+                                        : STATUS_TITLES[step.status]
+                                }
+                            >
+                                <span className='workflow-step__icon'>
+                                    {STATUS_ICONS[step.status]}
+                                </span>
+                                <span className='workflow-step__label'>
+                                    {index + 1}. {WORKFLOW_STEP_LABELS[stepId]}
+                                </span>
+                            </button>
+                        </li>
+                    );
+                })}
+            </ol>
+            <button
+                className='workflow-stepper__exit'
+                onClick={onExit}
+                disabled={disabled}
+                title='Leave the guided workflow'
+            >
+                ✕
+            </button>
+        </div>
+    );
+};
+
+export default WorkflowStepper;
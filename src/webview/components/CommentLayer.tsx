@@ -0,0 +1,297 @@
+import React, { type RefObject, useEffect, useState } from 'react';
+import type {
+    CommentAnchor,
+    DesignCommentAction,
+    DesignCommentThread,
+} from '../../types/designComments';
+import { cssSelectorFor } from '../utils/elementPicker';
+import { anchorAt, pinPoint, type PinPoint } from '../utils/commentPins';
+
+interface CommentLayerProps {
+    iframeRef: RefObject<HTMLIFrameElement | null>;
+    // Changes every time the frame loads a document
+    documentKey: number;
+    threads: DesignCommentThread[];
+    isPlacing: boolean;
+    onPlaced: () => void;
+    onAction: (action: DesignCommentAction) => void;
+}
+
+const PLACING_STYLE_ID = 'securedesign-comment-placing';
+const POPOVER_WIDTH = 260;
+const POPOVER_HEIGHT = 220;
+// Pins whose element is gone are stacked in the top-left corner
+const DETACHED_PIN_SPACING = 28;
+
+function boxOf(element: Element) {
+    const { left, top, width, height } = element.getBoundingClientRect();
+    return { left, top, width, height };
+}
+
+function findElement(doc: Document, selector: string): Element | null {
+    try {
+        return doc.querySelector(selector);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Review comment pins over a rendered design. Pins are anchored to elements, so they are
+ * re-positioned whenever the frame scrolls, resizes or reloads.
+ */
+const CommentLayer: React.FC<CommentLayerProps> = ({
+    iframeRef,
+    documentKey,
+    threads,
+    isPlacing,
+    onPlaced,
+    onAction,
+}) => {
+    const [positions, setPositions] = useState<Record<string, PinPoint | null>>({});
+    const [draft, setDraft] = useState<{ anchor: CommentAnchor; point: PinPoint } | null>(null);
+    const [draftBody, setDraftBody] = useState('');
+    const [openThreadId, setOpenThreadId] = useState<string | null>(null);
+    const [replyBody, setReplyBody] = useState('');
+
+    useEffect(() => {
+        const doc = iframeRef.current?.contentDocument;
+        const view = doc?.defaultView;
+        if (!doc || !view) {
+            return undefined;
+        }
+        const update = () =>
+            setPositions(
+                Object.fromEntries(
+                    threads.map(thread => {
+                        const element = findElement(doc, thread.anchor.selector);
+                        return [
+                            thread.id,
+                            element ? pinPoint(thread.anchor, boxOf(element)) : null,
+                        ];
+                    })
+                )
+            );
+        update();
+        // Styles applied by scripts after load (e.g. the Tailwind CDN) move elements too
+        const resizeObserver = new view.ResizeObserver(update);
+        resizeObserver.observe(doc.documentElement);
+        view.addEventListener('scroll', update, true);
+        view.addEventListener('resize', update);
+        return () => {
+            resizeObserver.disconnect();
+            view.removeEventListener('scroll', update, true);
+            view.removeEventListener('resize', update);
+        };
+    }, [iframeRef, documentKey, threads]);
+
+    useEffect(() => {
+        const doc = isPlacing ? iframeRef.current?.contentDocument : null;
+        if (!doc?.body) {
+            return undefined;
+        }
+        const style = doc.createElement('style');
+        style.id = PLACING_STYLE_ID;
+        style.textContent = '* { cursor: crosshair !important; }';
+        doc.head.appendChild(style);
+
+        const handleClick = (event: MouseEvent) => {
+            const target = event.target as Node | null;
+            if (target?.nodeType !== Node.ELEMENT_NODE) {
+                return;
+            }
+            event.preventDefault();
+            event.stopPropagation();
+            const element = target as Element;
+            const point = { left: event.clientX, top: event.clientY };
+            setDraft({ anchor: anchorAt(cssSelectorFor(element), boxOf(element), point), point });
+            setDraftBody('');
+            setOpenThreadId(null);
+            onPlaced();
+        };
+        doc.addEventListener('click', handleClick, true);
+        return () => {
+            doc.removeEventListener('click', handleClick, true);
+            style.remove();
+        };
+    }, [iframeRef, documentKey, isPlacing, onPlaced]);
+
+    // Keep popovers inside the frame
+    const popoverStyle = (point: PinPoint): React.CSSProperties => {
+        const width = iframeRef.current?.clientWidth ?? POPOVER_WIDTH;
+        const height = iframeRef.current?.clientHeight ?? POPOVER_HEIGHT;
+        return {
+            left: Math.max(0, Math.min(point.left + 14, width - POPOVER_WIDTH - 8)),
+            top: Math.max(0, Math.min(point.top + 14, height - POPOVER_HEIGHT - 8)),
+            width: POPOVER_WIDTH,
+        };
+    };
+
+    const pinPointFor = (thread: DesignCommentThread, index: number): PinPoint =>
+        positions[thread.id] ?? { left: 12, top: 12 + index * DETACHED_PIN_SPACING };
+
+    const openIndex = threads.findIndex(thread => thread.id === openThreadId);
+    const openThread = openIndex === -1 ? undefined : threads[openIndex];
+
+    const submitDraft = () => {
+        if (draft && draftBody.trim()) {
+            onAction({ type: 'add', anchor: draft.anchor, body: draftBody });
+            setDraft(null);
+        }
+    };
+
+    const submitReply = () => {
+        if (openThread && replyBody.trim()) {
+            onAction({ type: 'reply', threadId: openThread.id, body: replyBody });
+            setReplyBody('');
+        }
+    };
+
+    const submitOnModEnter =
+        (submit: () => void) => (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+            if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+                e.preventDefault();
+                submit();
+            } else if (e.key === 'Escape') {
+                setDraft(null);
+                setOpenThreadId(null);
+            }
+        };
+
+    return (
+        <div
+            className='comment-layer'
+            onClick={e => e.stopPropagation()}
+            onMouseDown={e => e.stopPropagation()}
+        >
+            {threads.map((thread, index) => {
+                const point = pinPointFor(thread, index);
+                const [first] = thread.comments;
+                return (
+                    <button
+                        key={thread.id}
+                        className={`comment-pin ${thread.resolved ? 'resolved' : ''} ${positions[thread.id] ? '' : 'detached'} ${thread.id === openThreadId ? 'open' : ''}`}
+                        style={{ left: point.left, top: point.top }}
+                        onClick={() => {
+                            setDraft(null);
+                            setReplyBody('');
+                            setOpenThreadId(thread.id === openThreadId ? null : thread.id);
+                        }}
+                        title={`${first.author}: ${first.body}`}
+                    >
+                        {index + 1}
+                    </button>
+                );
+            })}
+
+            {openThread && (
+                <div
+                    className='comment-popover'
+                    style={popoverStyle(pinPointFor(openThread, openIndex))}
+                >
+                    <div className='comment-popover-header'>
+                        <span>
+                            #{openIndex + 1}
+                            {openThread.resolved && ' · Resolved'}
+                            {!positions[openThread.id] && ' · Element not found'}
+                        </span>
+                        <button
+                            className='comment-popover-close'
+                            onClick={() => setOpenThreadId(null)}
+                            title='Close'
+                        >
+                            ×
+                        </button>
+                    </div>
+                    <div className='comment-thread'>
+                        {openThread.comments.map(comment => (
+                            <div key={comment.id} className='comment-entry'>
+                                <div className='comment-meta'>
+                                    <span className='comment-author'>{comment.author}</span>
+                                    <span className='comment-date'>
+                                        {new Date(comment.createdAt).toLocaleString()}
+                                    </span>
+                                </div>
+                                <div className='comment-body'>{comment.body}</div>
+                            </div>
+                        ))}
+                    </div>
+                    <textarea
+                        className='comment-input'
+                        value={replyBody}
+                        onChange={e => setReplyBody(e.target.value)}
+                        onKeyDown={submitOnModEnter(submitReply)}
+                        placeholder='Reply…'
+                        rows={2}
+                    />
+                    <div className='comment-actions'>
+                        <button
+                            className='comment-btn'
+                            onClick={() => {
+                                onAction({ type: 'delete', threadId: openThread.id });
+                                setOpenThreadId(null);
+                            }}
+                        >
+                            Delete
+                        </button>
+                        <button
+                            className='comment-btn'
+                            onClick={() =>
+                                onAction({
+                                    type: 'resolve',
+                                    threadId: openThread.id,
+                                    resolved: !openThread.resolved,
+                                })
+                            }
+                        >
+                            {openThread.resolved ? 'Reopen' : 'Resolve'}
+                        </button>
+                        <button
+                            className='comment-btn primary'
+                            onClick={submitReply}
+                            disabled={!replyBody.trim()}
+                        >
+                            Reply
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {draft && (
+                <>
+                    <span
+                        className='comment-pin draft'
+                        style={{ left: draft.point.left, top: draft.point.top }}
+                    >
+                        +
+                    </span>
+                    <div className='comment-popover' style={popoverStyle(draft.point)}>
+                        <textarea
+                            className='comment-input'
+                            value={draftBody}
+                            onChange={e => setDraftBody(e.target.value)}
+                            onKeyDown={submitOnModEnter(submitDraft)}
+                            placeholder={`Comment on ${draft.anchor.selector}`}
+                            rows={3}
+                            autoFocus
+                        />
+                        <div className='comment-actions'>
+                            <button className='comment-btn' onClick={() => setDraft(null)}>
+                                Cancel
+                            </button>
+                            <button
+                                className='comment-btn primary'
+                                onClick={submitDraft}
+                                disabled={!draftBody.trim()}
+                            >
+                                Comment
+                            </button>
+                        </div>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default CommentLayer;
@@ -0,0 +1,274 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import type { DesignFile, ViewportConfig, ViewportMode } from '../types/canvas.types';
+import type { DevicePreset } from '../../types/devicePresets';
+import { useSyncedScroll } from '../hooks/useSyncedScroll';
+import { renderDesignPixels, toPreviewDocument } from '../utils/designSnapshot';
+import { diffPixels } from '../utils/pixelDiff';
+
+interface DesignCompareViewProps {
+    files: [DesignFile, DesignFile];
+    viewports: ViewportConfig;
+    devicePresets: readonly DevicePreset[];
+    initialViewport: ViewportMode;
+    nonce: string | null;
+    onClose: () => void;
+}
+
+type CompareMode = 'split' | 'onion' | 'diff';
+
+interface DiffResult {
+    image: ImageData;
+    changed: number;
+    total: number;
+}
+
+const MODE_LABELS: Record<CompareMode, string> = {
+    split: 'Side by side',
+    onion: 'Onion skin',
+    diff: 'Difference',
+};
+
+// Match the pane gap and pane title height in App.css
+const PANE_GAP = 12;
+const PANE_TITLE_HEIGHT = 24;
+
+/**
+ * Two designs compared at one viewport size: side by side with synced scrolling, overlaid with
+ * adjustable opacity, or as a highlight of the pixels that differ on the first screen
+ */
+const DesignCompareView: React.FC<DesignCompareViewProps> = ({
+    files,
+    viewports,
+    devicePresets,
+    initialViewport,
+    nonce,
+    onClose,
+}) => {
+    const [swapped, setSwapped] = useState(false);
+    const [mode, setMode] = useState<CompareMode>('split');
+    const [viewport, setViewport] = useState<ViewportMode>(initialViewport);
+    const [opacity, setOpacity] = useState(50);
+    const [stageSize, setStageSize] = useState({ width: 0, height: 0 });
+    const [documentKey, setDocumentKey] = useState(0);
+    const [diff, setDiff] = useState<DiffResult | null>(null);
+    const [diffError, setDiffError] = useState<string | null>(null);
+    const stageRef = useRef<HTMLDivElement>(null);
+    const firstFrameRef = useRef<HTMLIFrameElement>(null);
+    const secondFrameRef = useRef<HTMLIFrameElement>(null);
+    const diffCanvasRef = useRef<HTMLCanvasElement>(null);
+
+    const [first, second] = swapped ? [files[1], files[0]] : files;
+
+    useSyncedScroll(firstFrameRef, secondFrameRef, documentKey, mode !== 'diff');
+
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') {
+                onClose();
+            }
+        };
+        document.addEventListener('keydown', handleKeyDown);
+        return () => document.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    useLayoutEffect(() => {
+        const stage = stageRef.current;
+        if (!stage) {
+            return undefined;
+        }
+        const observer = new ResizeObserver(([entry]) =>
+            setStageSize({ width: entry.contentRect.width, height: entry.contentRect.height })
+        );
+        observer.observe(stage);
+        return () => observer.disconnect();
+    }, []);
+
+    const dimensions = viewports[viewport];
+
+    useEffect(() => {
+        if (mode !== 'diff') {
+            return undefined;
+        }
+        let cancelled = false;
+        setDiff(null);
+        setDiffError(null);
+        // One at a time: each render loads a full page in an off-screen iframe
+        const render = async () => {
+            const before = await renderDesignPixels(first, dimensions, nonce);
+            const after = await renderDesignPixels(second, dimensions, nonce);
+            const { pixels, changed, total } = diffPixels(
+                before.data,
+                after.data,
+                before.width,
+                before.height
+            );
+            return { image: new ImageData(pixels, before.width, before.height), changed, total };
+        };
+        render()
+            .then(result => !cancelled && setDiff(result))
+            .catch(
+                (error: unknown) =>
+                    !cancelled &&
+                    setDiffError(error instanceof Error ? error.message : String(error))
+            );
+        return () => {
+            cancelled = true;
+        };
+    }, [mode, first, second, dimensions, nonce]);
+
+    useEffect(() => {
+        const context = diffCanvasRef.current?.getContext('2d');
+        if (diff && context) {
+            context.putImageData(diff.image, 0, 0);
+        }
+    }, [diff]);
+
+    // Scale the viewport down to fit the stage, never up
+    const paneCount = mode === 'split' ? 2 : 1;
+    const availableWidth = (stageSize.width - PANE_GAP * (paneCount - 1)) / paneCount;
+    const availableHeight = stageSize.height - PANE_TITLE_HEIGHT;
+    const scale = Math.max(
+        0.05,
+        Math.min(1, availableWidth / dimensions.width, availableHeight / dimensions.height)
+    );
+    const boxStyle: React.CSSProperties = {
+        width: dimensions.width * scale,
+        height: dimensions.height * scale,
+    };
+    const frameStyle: React.CSSProperties = {
+        width: dimensions.width,
+        height: dimensions.height,
+        transform: `scale(${scale})`,
+    };
+
+    const handleLoad = () => setDocumentKey(key => key + 1);
+    const renderFrame = (
+        file: DesignFile,
+        ref: React.RefObject<HTMLIFrameElement | null>,
+        style: React.CSSProperties = frameStyle
+    ) => (
+        <iframe
+            ref={ref}
+            title={file.name}
+            srcDoc={toPreviewDocument(file, nonce, dimensions.pixelRatio)}
+            referrerPolicy='no-referrer'
+            style={style}
+            onLoad={handleLoad}
+        />
+    );
+
+    return (
+        <div className='design-history-overlay' onMouseDown={onClose}>
+            <div
+                className='design-history-panel design-compare-panel'
+                onMouseDown={e => e.stopPropagation()}
+            >
+                <div className='design-history-header'>
+                    <span className='design-history-title'>
+                        Compare · {first.name} ↔ {second.name}
+                    </span>
+                    <button
+                        className='design-history-mode-btn design-compare-swap'
+                        onClick={() => setSwapped(value => !value)}
+                        title='Swap designs'
+                    >
+                        ⇄ Swap
+                    </button>
+                    <div className='design-history-mode'>
+                        {(Object.keys(MODE_LABELS) as CompareMode[]).map(value => (
+                            <button
+                                key={value}
+                                className={`design-history-mode-btn ${mode === value ? 'active' : ''}`}
+                                onClick={() => setMode(value)}
+                            >
+                                {MODE_LABELS[value]}
+                            </button>
+                        ))}
+                    </div>
+                    <select
+                        className='design-compare-viewport'
+                        value={viewport}
+                        onChange={e => setViewport(e.target.value)}
+                        title='Viewport both designs are rendered at'
+                    >
+                        {devicePresets.map(preset => (
+                            <option key={preset.id} value={preset.id}>
+                                {`${preset.name} · ${viewports[preset.id].width}×${viewports[preset.id].height}`}
+                            </option>
+                        ))}
+                    </select>
+                    <button className='design-history-close' onClick={onClose} title='Close'>
+                        ×
+                    </button>
+                </div>
+
+                <div className='design-compare-stage' ref={stageRef}>
+                    {mode === 'split' && (
+                        <>
+                            <div className='design-compare-pane'>
+                                <div className='design-history-pane-title'>{first.name}</div>
+                                <div className='design-compare-box' style={boxStyle}>
+                                    {renderFrame(first, firstFrameRef)}
+                                </div>
+                            </div>
+                            <div className='design-compare-pane'>
+                                <div className='design-history-pane-title'>{second.name}</div>
+                                <div className='design-compare-box' style={boxStyle}>
+                                    {renderFrame(second, secondFrameRef)}
+                                </div>
+                            </div>
+                        </>
+                    )}
+
+                    {mode === 'onion' && (
+                        <div className='design-compare-pane'>
+                            <div className='design-history-pane-title design-compare-slider'>
+                                <span>{first.name}</span>
+                                <input
+                                    type='range'
+                                    min={0}
+                                    max={100}
+                                    value={opacity}
+                                    onChange={e => setOpacity(Number(e.target.value))}
+                                    title={`${second.name} opacity: ${opacity}%`}
+                                />
+                                <span>{second.name}</span>
+                            </div>
+                            <div className='design-compare-box' style={boxStyle}>
+                                {renderFrame(first, firstFrameRef)}
+                                {renderFrame(second, secondFrameRef, {
+                                    ...frameStyle,
+                                    opacity: opacity / 100,
+                                })}
+                            </div>
+                        </div>
+                    )}
+
+                    {mode === 'diff' && (
+                        <div className='design-compare-pane'>
+                            <div className='design-history-pane-title'>
+                                {diffError
+                                    ? `Comparison failed: ${diffError}`
+                                    : diff
+                                      ? `${((diff.changed / diff.total) * 100).toFixed(2)}% of pixels differ on the first screen`
+                                      : 'Rendering both designs...'}
+                            </div>
+                            <div className='design-compare-box' style={boxStyle}>
+                                {diff && (
+                                    <canvas
+                                        ref={diffCanvasRef}
+                                        width={diff.image.width}
+                                        height={diff.image.height}
+                                        style={boxStyle}
+                                    />
+                                )}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default DesignCompareView;
@@ -6,6 +6,16 @@ import type {
     ViewportMode,
 } from '../types/canvas.types';
 import { MobileIcon, TabletIcon, DesktopIcon, GlobeIcon } from './Icons';
+import type { PickedElement } from '../../types/elementPicker';
+import type { DesignCommentAction, DesignCommentThread } from '../../types/designComments';
+import {
+    BASE_VIEWPORT_IDS,
+    BUILT_IN_DEVICE_PRESETS,
+    type DevicePreset,
+} from '../../types/devicePresets';
+import { useElementPicker } from '../hooks/useElementPicker';
+import CommentLayer from './CommentLayer';
+import { formatPreset, viewportIconKind, withPixelRatio } from '../utils/viewports';
 
 // Import logo images
 
@@ -14,19 +24,30 @@ interface DesignFrameProps {
     position: GridPosition;
     dimensions: FrameDimensions;
     isSelected: boolean;
-    onSelect: (fileName: string) => void;
+    onSelect: (fileName: string, additive: boolean) => void;
     renderMode?: 'placeholder' | 'iframe' | 'html';
     showMetadata?: boolean;
     viewport?: ViewportMode;
     viewportDimensions?: FrameDimensions;
     onViewportChange?: (fileName: string, viewport: ViewportMode) => void;
+    devicePresets?: readonly DevicePreset[];
     useGlobalViewport?: boolean;
     onDragStart?: (fileName: string, startPos: GridPosition, mouseEvent: React.MouseEvent) => void;
     isDragging?: boolean;
     nonce?: string | null;
     onSendToChat?: (fileName: string, prompt: string) => void;
+    onShowHistory?: (fileName: string) => void;
+    onExport?: (fileName: string) => void;
+    onShowResponsive?: (fileName: string) => void;
+    onGenerateComponent?: (fileName: string) => void;
+    onPickElements?: (fileName: string, elements: PickedElement[]) => void;
+    comments?: DesignCommentThread[];
+    onCommentAction?: (fileName: string, action: DesignCommentAction) => void;
+    onSendComments?: (fileName: string) => void;
 }
 
+const NO_COMMENTS: DesignCommentThread[] = [];
+
 const DesignFrame: React.FC<DesignFrameProps> = ({
     file,
     position,
@@ -38,11 +59,20 @@ const DesignFrame: React.FC<DesignFrameProps> = ({
     viewport = 'desktop',
     viewportDimensions,
     onViewportChange,
+    devicePresets = BUILT_IN_DEVICE_PRESETS,
     useGlobalViewport = false,
     onDragStart,
     isDragging = false,
     nonce = null,
     onSendToChat,
+    onShowHistory,
+    onExport,
+    onShowResponsive,
+    onGenerateComponent,
+    onPickElements,
+    comments = NO_COMMENTS,
+    onCommentAction,
+    onSendComments,
 }) => {
     const [isLoading, setIsLoading] = React.useState(renderMode === 'iframe');
     const [hasError, setHasError] = React.useState(false);
@@ -56,9 +86,39 @@ const DesignFrame: React.FC<DesignFrameProps> = ({
         text: string;
         isSuccess: boolean;
     }>({ text: 'Copy design path', isSuccess: false });
+    const [isPicking, setIsPicking] = React.useState(false);
+    const [isCommenting, setIsCommenting] = React.useState(false);
+    // Bumped on every iframe load so overlays re-attach to the new document
+    const [documentKey, setDocumentKey] = React.useState(0);
+    const iframeRef = React.useRef<HTMLIFrameElement>(null);
+    const openCommentCount = comments.filter(thread => !thread.resolved).length;
+
+    const { pickedCount, sendPicked } = useElementPicker(iframeRef, {
+        active: isPicking && renderMode === 'iframe' && !isLoading,
+        onPick: elements => {
+            setIsPicking(false);
+            onPickElements?.(file.name, elements);
+        },
+        onCancel: () => setIsPicking(false),
+    });
+
+    const handleCommentPlaced = React.useCallback(() => setIsCommenting(false), []);
+
+    // Inspect and comment modes end when the frame is deselected or its document is replaced
+    React.useEffect(() => {
+        if (!isSelected) {
+            setIsPicking(false);
+            setIsCommenting(false);
+        }
+    }, [isSelected]);
+    React.useEffect(() => {
+        setIsPicking(false);
+        setIsCommenting(false);
+    }, [file.content, viewport]);
 
-    const handleClick = () => {
-        onSelect(file.name);
+    const handleClick = (e: React.MouseEvent) => {
+        // Shift/Cmd/Ctrl-click adds to the selection, e.g. for exporting several designs
+        onSelect(file.name, e.shiftKey || e.metaKey || e.ctrlKey);
     };
 
     const handleMouseDown = (e: React.MouseEvent) => {
@@ -232,31 +292,79 @@ const DesignFrame: React.FC<DesignFrameProps> = ({
         }
     };
 
-    const getViewportIcon = (mode: ViewportMode): React.ReactElement => {
-        switch (mode) {
+    const handleShowHistory = (e: React.MouseEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+
+        if (onShowHistory) {
+            onShowHistory(file.name);
+        }
+    };
+
+    const handleShowResponsive = (e: React.MouseEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+
+        if (onShowResponsive) {
+            onShowResponsive(file.name);
+        }
+    };
+
+    const handleExport = (e: React.MouseEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+
+        if (onExport) {
+            onExport(file.name);
+        }
+    };
+
+    const handleGenerateComponent = (e: React.MouseEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+
+        if (onGenerateComponent) {
+            onGenerateComponent(file.name);
+        }
+    };
+
+    const handleTogglePicking = (e: React.MouseEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setIsPicking(!isPicking);
+        setIsCommenting(false);
+    };
+
+    const handleToggleCommenting = (e: React.MouseEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setIsCommenting(!isCommenting);
+        setIsPicking(false);
+    };
+
+    const handleSendComments = (e: React.MouseEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+
+        if (onSendComments) {
+            onSendComments(file.name);
+        }
+    };
+
+    const viewportPreset = devicePresets.find(preset => preset.id === viewport);
+
+    const getViewportIcon = (): React.ReactElement => {
+        switch (viewportPreset ? viewportIconKind(viewportPreset) : 'desktop') {
             case 'mobile':
                 return <MobileIcon />;
             case 'tablet':
                 return <TabletIcon />;
             case 'desktop':
                 return <DesktopIcon />;
-            default:
-                return <DesktopIcon />;
         }
     };
 
-    const getViewportLabel = (mode: ViewportMode): string => {
-        switch (mode) {
-            case 'mobile':
-                return 'Mobile';
-            case 'tablet':
-                return 'Tablet';
-            case 'desktop':
-                return 'Desktop';
-            default:
-                return 'Desktop';
-        }
-    };
+    const getViewportLabel = (): string => viewportPreset?.name ?? 'Desktop';
 
     const renderContent = () => {
         switch (renderMode) {
@@ -316,6 +424,7 @@ const DesignFrame: React.FC<DesignFrameProps> = ({
 
                     return (
                         <iframe
+                            ref={iframeRef}
                             srcDoc={svgHtml}
                             title={`${file.name} - SVG`}
                             style={{
@@ -338,6 +447,7 @@ const DesignFrame: React.FC<DesignFrameProps> = ({
                             onLoad={() => {
                                 setIsLoading(false);
                                 setHasError(false);
+                                setDocumentKey(key => key + 1);
                                 console.log(`SVG Frame loaded: ${file.name}`);
                             }}
                             onError={e => {
@@ -516,12 +626,16 @@ const DesignFrame: React.FC<DesignFrameProps> = ({
                 }
 
                 // Inject nonce into all script tags
-                modifiedContent = injectNonce(modifiedContent, nonce);
+                modifiedContent = injectNonce(
+                    withPixelRatio(modifiedContent, viewportDimensions?.pixelRatio),
+                    nonce
+                );
 
                 return (
                     <iframe
+                        ref={iframeRef}
                         srcDoc={modifiedContent}
-                        title={`${file.name} - ${getViewportLabel(viewport)}`}
+                        title={`${file.name} - ${getViewportLabel()}`}
                         style={{
                             width: viewportDimensions ? `${viewportDimensions.width}px` : '100%',
                             height: viewportDimensions ? `${viewportDimensions.height}px` : '100%',
@@ -536,6 +650,7 @@ const DesignFrame: React.FC<DesignFrameProps> = ({
                         onLoad={() => {
                             setIsLoading(false);
                             setHasError(false);
+                            setDocumentKey(key => key + 1);
                             console.log(`Frame loaded: ${file.name} (${viewport})`);
                         }}
                         onError={e => {
@@ -637,6 +752,11 @@ const DesignFrame: React.FC<DesignFrameProps> = ({
         >
             <div className='frame-header'>
                 <span className='frame-title'>{file.name}</span>
+                {file.variantLabel !== undefined && (
+                    <span className='frame-variant-label' title={file.variantLabel}>
+                        {file.variantLabel}
+                    </span>
+                )}
 
                 {/* Viewport Controls */}
                 {onViewportChange && !useGlobalViewport && (
@@ -662,6 +782,25 @@ const DesignFrame: React.FC<DesignFrameProps> = ({
                         >
                             <DesktopIcon />
                         </button>
+                        <select
+                            className='frame-viewport-select'
+                            value={BASE_VIEWPORT_IDS.includes(viewport) ? '' : viewport}
+                            onChange={e => handleViewportToggle(e.target.value)}
+                            onClick={e => e.stopPropagation()}
+                            onMouseDown={e => e.stopPropagation()}
+                            title='More devices'
+                        >
+                            <option value='' disabled>
+                                More…
+                            </option>
+                            {devicePresets
+                                .filter(preset => !BASE_VIEWPORT_IDS.includes(preset.id))
+                                .map(preset => (
+                                    <option key={preset.id} value={preset.id}>
+                                        {formatPreset(preset)}
+                                    </option>
+                                ))}
+                        </select>
                     </div>
                 )}
 
@@ -671,10 +810,21 @@ const DesignFrame: React.FC<DesignFrameProps> = ({
                         <span className='global-indicator'>
                             <GlobeIcon />
                         </span>
-                        <span className='viewport-icon'>{getViewportIcon(viewport)}</span>
+                        <span className='viewport-icon' title={getViewportLabel()}>
+                            {getViewportIcon()}
+                        </span>
                     </div>
                 )}
 
+                {openCommentCount > 0 && (
+                    <span
+                        className='frame-comment-count'
+                        title={`${openCommentCount} open comment${openCommentCount === 1 ? '' : 's'}`}
+                    >
+                        💬 {openCommentCount}
+                    </span>
+                )}
+
                 {showMetadata && (
                     <div className='frame-meta'>
                         {isLoading && <span className='frame-status loading'>●</span>}
@@ -700,6 +850,54 @@ const DesignFrame: React.FC<DesignFrameProps> = ({
                     </div>
                 )}
 
+                {/* Review comment pins */}
+                {onCommentAction && renderMode === 'iframe' && !isLoading && (
+                    <CommentLayer
+                        iframeRef={iframeRef}
+                        documentKey={documentKey}
+                        threads={comments}
+                        isPlacing={isCommenting}
+                        onPlaced={handleCommentPlaced}
+                        onAction={action => onCommentAction(file.name, action)}
+                    />
+                )}
+
+                {isCommenting && !isDragging && (
+                    <div
+                        className='frame-picker-bar'
+                        onClick={e => e.stopPropagation()}
+                        onMouseDown={e => e.stopPropagation()}
+                    >
+                        <span className='frame-picker-hint'>Click where the comment belongs</span>
+                        <button className='frame-picker-btn' onClick={() => setIsCommenting(false)}>
+                            Cancel
+                        </button>
+                    </div>
+                )}
+
+                {/* Inspect mode instructions and actions */}
+                {isPicking && !isDragging && (
+                    <div
+                        className='frame-picker-bar'
+                        onClick={e => e.stopPropagation()}
+                        onMouseDown={e => e.stopPropagation()}
+                    >
+                        <span className='frame-picker-hint'>
+                            {pickedCount === 0
+                                ? 'Click an element to send it to chat, shift-click to pick several'
+                                : `${pickedCount} element${pickedCount === 1 ? '' : 's'} picked`}
+                        </span>
+                        {pickedCount > 0 && (
+                            <button className='frame-picker-btn primary' onClick={sendPicked}>
+                                Send to chat
+                            </button>
+                        )}
+                        <button className='frame-picker-btn' onClick={() => setIsPicking(false)}>
+                            Cancel
+                        </button>
+                    </div>
+                )}
+
                 {/* Loading overlay for iframe */}
                 {isLoading && renderMode === 'iframe' && (
                     <div className='frame-loading-overlay'>
@@ -765,6 +963,167 @@ const DesignFrame: React.FC<DesignFrameProps> = ({
                         <span className='btn-text'>Iterate with feedback</span>
                     </button>
 
+                    {onPickElements && renderMode === 'iframe' && (
+                        <button
+                            className={`floating-action-btn ${isPicking ? 'active' : ''}`}
+                            onClick={handleTogglePicking}
+                            title='Pick elements in the design to edit them from chat'
+                        >
+                            <svg
+                                className='btn-icon'
+                                viewBox='0 0 24 24'
+                                fill='none'
+                                stroke='currentColor'
+                                strokeWidth='2'
+                                strokeLinecap='round'
+                                strokeLinejoin='round'
+                            >
+                                <path d='M4 4l7.07 17 2.51-7.39L21 11.07z' />
+                                <path d='M14 14l6 6' />
+                            </svg>
+                            <span className='btn-text'>
+                                {isPicking ? 'Stop picking' : 'Pick elements'}
+                            </span>
+                        </button>
+                    )}
+
+                    {onCommentAction && renderMode === 'iframe' && (
+                        <button
+                            className={`floating-action-btn ${isCommenting ? 'active' : ''}`}
+                            onClick={handleToggleCommenting}
+                            title='Drop a review comment on the design'
+                        >
+                            <svg
+                                className='btn-icon'
+                                viewBox='0 0 24 24'
+                                fill='none'
+                                stroke='currentColor'
+                                strokeWidth='2'
+                                strokeLinecap='round'
+                                strokeLinejoin='round'
+                            >
+                                <path d='M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z' />
+                            </svg>
+                            <span className='btn-text'>Add comment</span>
+                        </button>
+                    )}
+
+                    {onSendComments && openCommentCount > 0 && (
+                        <button
+                            className='floating-action-btn'
+                            onClick={handleSendComments}
+                            title='Ask the agent to address the open comments'
+                        >
+                            <svg
+                                className='btn-icon'
+                                viewBox='0 0 24 24'
+                                fill='none'
+                                stroke='currentColor'
+                                strokeWidth='2'
+                                strokeLinecap='round'
+                                strokeLinejoin='round'
+                            >
+                                <path d='m22 2-7 20-4-9-9-4Z' />
+                                <path d='M22 2 11 13' />
+                            </svg>
+                            <span className='btn-text'>
+                                Send {openCommentCount} comment{openCommentCount === 1 ? '' : 's'}{' '}
+                                to chat
+                            </span>
+                        </button>
+                    )}
+
+                    {onShowHistory && (
+                        <button
+                            className='floating-action-btn'
+                            onClick={handleShowHistory}
+                            title='Browse, compare and restore earlier versions'
+                        >
+                            <svg
+                                className='btn-icon'
+                                viewBox='0 0 24 24'
+                                fill='none'
+                                stroke='currentColor'
+                                strokeWidth='2'
+                                strokeLinecap='round'
+                                strokeLinejoin='round'
+                            >
+                                <path d='M3 12a9 9 0 1 0 9-9 9.75 9.75 0 0 0-6.74 2.74L3 8' />
+                                <path d='M3 3v5h5' />
+                                <path d='M12 7v5l4 2' />
+                            </svg>
+                            <span className='btn-text'>Version history</span>
+                        </button>
+                    )}
+
+                    {onExport && (
+                        <button
+                            className='floating-action-btn'
+                            onClick={handleExport}
+                            title='Export as PNG, PDF or SVG'
+                        >
+                            <svg
+                                className='btn-icon'
+                                viewBox='0 0 24 24'
+                                fill='none'
+                                stroke='currentColor'
+                                strokeWidth='2'
+                                strokeLinecap='round'
+                                strokeLinejoin='round'
+                            >
+                                <path d='M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4' />
+                                <polyline points='7 10 12 15 17 10' />
+                                <line x1='12' x2='12' y1='15' y2='3' />
+                            </svg>
+                            <span className='btn-text'>Export image</span>
+                        </button>
+                    )}
+
+                    {onShowResponsive && (
+                        <button
+                            className='floating-action-btn'
+                            onClick={handleShowResponsive}
+                            title='Render this design at several devices side by side'
+                        >
+                            <svg
+                                className='btn-icon'
+                                viewBox='0 0 24 24'
+                                fill='none'
+                                stroke='currentColor'
+                                strokeWidth='2'
+                                strokeLinecap='round'
+                                strokeLinejoin='round'
+                            >
+                                <rect x='2' y='4' width='13' height='10' rx='1' />
+                                <rect x='17' y='8' width='5' height='12' rx='1' />
+                                <path d='M6 18h5' />
+                            </svg>
+                            <span className='btn-text'>Responsive strip</span>
+                        </button>
+                    )}
+
+                    {onGenerateComponent && file.fileType === 'html' && (
+                        <button
+                            className='floating-action-btn'
+                            onClick={handleGenerateComponent}
+                            title='Convert to a React, Vue or Svelte component'
+                        >
+                            <svg
+                                className='btn-icon'
+                                viewBox='0 0 24 24'
+                                fill='none'
+                                stroke='currentColor'
+                                strokeWidth='2'
+                                strokeLinecap='round'
+                                strokeLinejoin='round'
+                            >
+                                <polyline points='16 18 22 12 16 6' />
+                                <polyline points='8 6 2 12 8 18' />
+                            </svg>
+                            <span className='btn-text'>Generate component</span>
+                        </button>
+                    )}
+
                     {/* Copy Prompt Dropdown */}
                     <div className='copy-prompt-dropdown'>
                         <button
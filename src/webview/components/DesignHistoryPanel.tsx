@@ -0,0 +1,254 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useWebviewApi } from 'react-vscode-webview-ipc/client';
+import type { DesignVersion, DesignVersionSource } from '../../types/designHistory';
+import type { DesignFile, ExtensionToWebviewMessage, WebviewMessage } from '../types/canvas.types';
+import { CanvasContextKey } from '../context-keys';
+import { countChanges, diffLines } from '../utils/lineDiff';
+import DiffView from './DiffView';
+
+interface DesignHistoryPanelProps {
+    file: DesignFile;
+    nonce: string | null;
+    onClose: () => void;
+}
+
+interface LoadedVersion {
+    id: string;
+    content: string;
+    renderedContent: string;
+}
+
+const SOURCE_LABELS: Record<DesignVersionSource, string> = {
+    write: 'Before rewrite',
+    edit: 'Before edit',
+    multiedit: 'Before edits',
+    generateTheme: 'Before theme',
+    restore: 'Before restore',
+};
+
+function toPreviewDocument(
+    content: string,
+    fileType: DesignFile['fileType'],
+    nonce: string | null
+) {
+    const html =
+        fileType === 'svg'
+            ? `<!DOCTYPE html><html><body style="margin:0;display:flex;align-items:center;justify-content:center;min-height:100vh;background:white">${content}</body></html>`
+            : content;
+    return nonce ? html.replace(/<script/g, `<script nonce="${nonce}"`) : html;
+}
+
+const DesignHistoryPanel: React.FC<DesignHistoryPanelProps> = ({ file, nonce, onClose }) => {
+    const { vscode } = useWebviewApi(CanvasContextKey);
+    const [versions, setVersions] = useState<DesignVersion[] | null>(null);
+    const [current, setCurrent] = useState('');
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [selected, setSelected] = useState<LoadedVersion | null>(null);
+    const [mode, setMode] = useState<'rendered' | 'source'>('rendered');
+
+    useEffect(() => {
+        const messageHandler = (event: MessageEvent) => {
+            const message = event.data as ExtensionToWebviewMessage;
+            switch (message.command) {
+                case 'designHistoryLoaded':
+                    if (message.data.filePath === file.path) {
+                        setVersions(message.data.versions);
+                        setCurrent(message.data.current);
+                    }
+                    break;
+                case 'designVersionLoaded':
+                    if (message.data.filePath === file.path) {
+                        setSelected({
+                            id: message.data.versionId,
+                            content: message.data.content,
+                            renderedContent: message.data.renderedContent,
+                        });
+                    }
+                    break;
+                case 'designVersionRestored':
+                    if (message.data.filePath === file.path) {
+                        setSelectedId(null);
+                        setSelected(null);
+                    }
+                    break;
+                case 'designFilesLoaded':
+                case 'error':
+                case 'fileChanged':
+                case 'designExportsSaved':
+                case 'designExportFailed':
+                case 'designCommentsLoaded':
+                    // Handled by CanvasView and ExportDialog
+                    break;
+            }
+        };
+        window.addEventListener('message', messageHandler);
+
+        const request: WebviewMessage = {
+            command: 'getDesignHistory',
+            data: { filePath: file.path },
+        };
+        vscode.postMessage(request);
+
+        return () => window.removeEventListener('message', messageHandler);
+    }, [vscode, file.path]);
+
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') {
+                onClose();
+            }
+        };
+        document.addEventListener('keydown', handleKeyDown);
+        return () => document.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    const handleSelectVersion = (versionId: string) => {
+        setSelectedId(versionId);
+        setSelected(null);
+        const request: WebviewMessage = {
+            command: 'getDesignVersion',
+            data: { filePath: file.path, versionId },
+        };
+        vscode.postMessage(request);
+    };
+
+    const handleRestore = () => {
+        if (selectedId === null) {
+            return;
+        }
+        const request: WebviewMessage = {
+            command: 'restoreDesignVersion',
+            data: { filePath: file.path, versionId: selectedId },
+        };
+        vscode.postMessage(request);
+    };
+
+    const diff = useMemo(
+        () => (selected === null ? [] : diffLines(selected.content, current)),
+        [selected, current]
+    );
+    const changes = useMemo(() => countChanges(diff), [diff]);
+    const selectedVersion = versions?.find(version => version.id === selectedId);
+
+    return (
+        <div className='design-history-overlay' onMouseDown={onClose}>
+            <div className='design-history-panel' onMouseDown={e => e.stopPropagation()}>
+                <div className='design-history-header'>
+                    <span className='design-history-title'>Version history · {file.name}</span>
+                    <div className='design-history-mode'>
+                        <button
+                            className={`design-history-mode-btn ${mode === 'rendered' ? 'active' : ''}`}
+                            onClick={() => setMode('rendered')}
+                        >
+                            Rendered
+                        </button>
+                        <button
+                            className={`design-history-mode-btn ${mode === 'source' ? 'active' : ''}`}
+                            onClick={() => setMode('source')}
+                        >
+                            Source
+                        </button>
+                    </div>
+                    <button className='design-history-close' onClick={onClose} title='Close'>
+                        ×
+                    </button>
+                </div>
+
+                <div className='design-history-body'>
+                    <div className='design-history-list'>
+                        <div className='design-history-item current'>
+                            <span className='design-history-item-label'>Current</span>
+                        </div>
+                        {versions === null && (
+                            <div className='design-history-empty'>Loading versions...</div>
+                        )}
+                        {versions?.length === 0 && (
+                            <div className='design-history-empty'>
+                                No earlier versions yet. A version is saved each time the agent
+                                changes this design.
+                            </div>
+                        )}
+                        {versions?.map(version => (
+                            <button
+                                key={version.id}
+                                className={`design-history-item ${version.id === selectedId ? 'selected' : ''}`}
+                                onClick={() => handleSelectVersion(version.id)}
+                            >
+                                <span className='design-history-item-label'>
+                                    {new Date(version.createdAt).toLocaleString()}
+                                </span>
+                                <span className='design-history-item-meta'>
+                                    {SOURCE_LABELS[version.source]} ·{' '}
+                                    {(version.size / 1024).toFixed(1)} KB
+                                </span>
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className='design-history-compare'>
+                        {selectedId === null ? (
+                            <div className='design-history-empty'>
+                                Select a version to compare it with the current design.
+                            </div>
+                        ) : selected?.id !== selectedId ? (
+                            <div className='design-history-empty'>Loading version...</div>
+                        ) : mode === 'rendered' ? (
+                            <div className='design-history-side-by-side'>
+                                <div className='design-history-pane'>
+                                    <div className='design-history-pane-title'>
+                                        {selectedVersion
+                                            ? new Date(selectedVersion.createdAt).toLocaleString()
+                                            : 'Selected version'}
+                                    </div>
+                                    <iframe
+                                        title={`${file.name} - selected version`}
+                                        srcDoc={toPreviewDocument(
+                                            selected.renderedContent,
+                                            file.fileType,
+                                            nonce
+                                        )}
+                                        referrerPolicy='no-referrer'
+                                    />
+                                </div>
+                                <div className='design-history-pane'>
+                                    <div className='design-history-pane-title'>Current</div>
+                                    <iframe
+                                        title={`${file.name} - current`}
+                                        srcDoc={toPreviewDocument(
+                                            file.content,
+                                            file.fileType,
+                                            nonce
+                                        )}
+                                        referrerPolicy='no-referrer'
+                                    />
+                                </div>
+                            </div>
+                        ) : (
+                            <div className='design-history-source'>
+                                <div className='design-history-pane-title'>
+                                    Selected → current{' '}
+                                    <span className='diff-added'>+{changes.added}</span>{' '}
+                                    <span className='diff-removed'>-{changes.removed}</span>
+                                </div>
+                                <DiffView diff={diff} className='design-history-diff' />
+                            </div>
+                        )}
+                    </div>
+                </div>
+
+                <div className='design-history-footer'>
+                    <button
+                        className='design-history-restore'
+                        onClick={handleRestore}
+                        disabled={selectedId === null}
+                        title='The current design is saved to history before it is replaced'
+                    >
+                        Restore this version
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default DesignHistoryPanel;
@@ -0,0 +1,37 @@
+import React, { useMemo } from 'react';
+import { toHunks, type DiffLine } from '../utils/lineDiff';
+
+interface DiffViewProps {
+    diff: DiffLine[];
+    className?: string;
+}
+
+/**
+ * Unified line diff with unchanged regions collapsed
+ */
+const DiffView: React.FC<DiffViewProps> = ({ diff, className }) => {
+    const hunks = useMemo(() => toHunks(diff), [diff]);
+
+    return (
+        <div className={className}>
+            {hunks.length === 0 && <div className='diff-line diff-line--context'>No changes</div>}
+            {hunks.map((hunk, hunkIndex) => (
+                <React.Fragment key={hunkIndex}>
+                    {hunk.skippedBefore > 0 && (
+                        <div className='diff-skip'>⋯ {hunk.skippedBefore} unchanged line(s)</div>
+                    )}
+                    {hunk.lines.map((line, lineIndex) => (
+                        <div key={lineIndex} className={`diff-line diff-line--${line.type}`}>
+                            <span className='diff-line__marker'>
+                                {line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' '}
+                            </span>
+                            <span className='diff-line__text'>{line.text}</span>
+                        </div>
+                    ))}
+                </React.Fragment>
+            ))}
+        </div>
+    );
+};
+
+export default DiffView;
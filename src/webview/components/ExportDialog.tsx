@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from 'react';
+import { useWebviewApi } from 'react-vscode-webview-ipc/client';
+import type { DesignExportFormat, DesignExportItem } from '../../types/designExport';
+import type {
+    DesignFile,
+    ExtensionToWebviewMessage,
+    ViewportConfig,
+    ViewportMode,
+    WebviewMessage,
+} from '../types/canvas.types';
+import { CanvasContextKey } from '../context-keys';
+import { renderDesignSnapshot } from '../utils/designSnapshot';
+
+interface ExportDialogProps {
+    files: DesignFile[];
+    viewports: ViewportConfig;
+    getFrameViewport: (fileName: string) => ViewportMode;
+    nonce: string | null;
+    onClose: () => void;
+}
+
+const ALL_VIEWPORTS: ViewportMode[] = ['desktop', 'tablet', 'mobile'];
+
+const FORMAT_LABELS: Record<DesignExportFormat, string> = {
+    png: 'PNG',
+    pdf: 'PDF',
+    svg: 'SVG',
+};
+
+const ExportDialog: React.FC<ExportDialogProps> = ({
+    files,
+    viewports,
+    getFrameViewport,
+    nonce,
+    onClose,
+}) => {
+    const { vscode } = useWebviewApi(CanvasContextKey);
+    const [format, setFormat] = useState<DesignExportFormat>('png');
+    const [allViewports, setAllViewports] = useState(false);
+    const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const messageHandler = (event: MessageEvent) => {
+            const message = event.data as ExtensionToWebviewMessage;
+            if (message.command === 'designExportsSaved') {
+                onClose();
+            } else if (message.command === 'designExportFailed') {
+                setError(message.data.error);
+                setProgress(null);
+            }
+        };
+        window.addEventListener('message', messageHandler);
+        return () => window.removeEventListener('message', messageHandler);
+    }, [onClose]);
+
+    const handleExport = async () => {
+        const jobs = files.flatMap(file =>
+            (allViewports ? ALL_VIEWPORTS : [getFrameViewport(file.name)]).map(viewport => ({
+                file,
+                viewport,
+            }))
+        );
+        setError(null);
+        setProgress({ done: 0, total: jobs.length });
+
+        const items: DesignExportItem[] = [];
+        try {
+            // One at a time: each render loads a full page in an off-screen iframe
+            for (const { file, viewport } of jobs) {
+                const dimensions = viewports[viewport];
+                const data = await renderDesignSnapshot(file, dimensions, format, nonce);
+                items.push({
+                    designName: file.name,
+                    viewport,
+                    format,
+                    data,
+                    width: dimensions.width,
+                    height: dimensions.height,
+                });
+                setProgress({ done: items.length, total: jobs.length });
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+            setProgress(null);
+            return;
+        }
+
+        const message: WebviewMessage = { command: 'saveDesignExports', data: { items } };
+        vscode.postMessage(message);
+    };
+
+    const isExporting = progress !== null;
+    const total = files.length * (allViewports ? ALL_VIEWPORTS.length : 1);
+
+    return (
+        <div className='export-dialog-overlay' onMouseDown={isExporting ? undefined : onClose}>
+            <div className='export-dialog' onMouseDown={e => e.stopPropagation()}>
+                <div className='export-dialog-title'>
+                    Export {files.length === 1 ? files[0].name : `${files.length} designs`}
+                </div>
+
+                <div className='export-dialog-row'>
+                    <span className='export-dialog-label'>Format</span>
+                    <div className='export-dialog-options'>
+                        {(Object.keys(FORMAT_LABELS) as DesignExportFormat[]).map(option => (
+                            <button
+                                key={option}
+                                className={`export-dialog-option ${format === option ? 'active' : ''}`}
+                                onClick={() => setFormat(option)}
+                                disabled={isExporting}
+                            >
+                                {FORMAT_LABELS[option]}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <div className='export-dialog-row'>
+                    <span className='export-dialog-label'>Viewports</span>
+                    <div className='export-dialog-options'>
+                        <button
+                            className={`export-dialog-option ${allViewports ? '' : 'active'}`}
+                            onClick={() => setAllViewports(false)}
+                            disabled={isExporting}
+                        >
+                            {files.length === 1 ? getFrameViewport(files[0].name) : 'Current'}
+                        </button>
+                        <button
+                            className={`export-dialog-option ${allViewports ? 'active' : ''}`}
+                            onClick={() => setAllViewports(true)}
+                            disabled={isExporting}
+                        >
+                            Desktop + tablet + mobile
+                        </button>
+                    </div>
+                </div>
+
+                {error !== null && <div className='export-dialog-error'>{error}</div>}
+
+                <div className='export-dialog-footer'>
+                    <span className='export-dialog-hint'>
+                        {isExporting
+                            ? `Rendering ${progress.done}/${progress.total}...`
+                            : `${total} file(s) → .superdesign/exports`}
+                    </span>
+                    <button className='export-dialog-btn' onClick={onClose} disabled={isExporting}>
+                        Cancel
+                    </button>
+                    <button
+                        className='export-dialog-btn primary'
+                        onClick={() => void handleExport()}
+                        disabled={isExporting}
+                    >
+                        Export
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ExportDialog;
@@ -20,6 +20,9 @@ import {
     Link,
     Settings,
     Brain,
+    Download,
+    Columns2,
+    RotateCwSquare,
 } from 'lucide-react';
 
 const iconStyle: React.CSSProperties = {
@@ -50,10 +53,13 @@ export const GlobeIcon = () => <Globe style={iconStyle} />;
 export const MobileIcon = () => <Smartphone style={iconStyle} />;
 export const TabletIcon = () => <Tablet style={iconStyle} />;
 export const DesktopIcon = () => <Monitor style={iconStyle} />;
+export const RotateIcon = () => <RotateCwSquare style={iconStyle} />;
 
 // Layout Icons
 export const TreeIcon = () => <List style={iconStyle} />;
 export const LinkIcon = () => <Link style={iconStyle} />;
+export const ExportIcon = () => <Download style={iconStyle} />;
+export const CompareIcon = () => <Columns2 style={iconStyle} />;
 
 // Tool Icons (smaller size)
 export const ToolIcon = () => <Wrench style={toolIconStyle} />;
@@ -0,0 +1,144 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import type { DevicePreset } from '../../types/devicePresets';
+import type { DesignFile, ViewportConfig } from '../types/canvas.types';
+import { toPreviewDocument } from '../utils/designSnapshot';
+
+interface ResponsiveStripProps {
+    file: DesignFile;
+    devicePresets: readonly DevicePreset[];
+    viewports: ViewportConfig;
+    selected: string[];
+    onSelectedChange: (selected: string[]) => void;
+    nonce: string | null;
+    onClose: () => void;
+}
+
+// Matches the device label height in App.css
+const LABEL_HEIGHT = 24;
+
+/**
+ * One design rendered at several devices next to each other, all at the same scale so their
+ * sizes can be compared
+ */
+const ResponsiveStrip: React.FC<ResponsiveStripProps> = ({
+    file,
+    devicePresets,
+    viewports,
+    selected,
+    onSelectedChange,
+    nonce,
+    onClose,
+}) => {
+    const [stageHeight, setStageHeight] = useState(0);
+    const stageRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') {
+                onClose();
+            }
+        };
+        document.addEventListener('keydown', handleKeyDown);
+        return () => document.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    useLayoutEffect(() => {
+        const stage = stageRef.current;
+        if (!stage) {
+            return undefined;
+        }
+        const observer = new ResizeObserver(([entry]) => setStageHeight(entry.contentRect.height));
+        observer.observe(stage);
+        return () => observer.disconnect();
+    }, []);
+
+    // Catalogue order, so toggling a device never reshuffles the others
+    const shown = devicePresets.filter(preset => selected.includes(preset.id));
+    const handleToggle = (id: string) => {
+        const next = selected.includes(id)
+            ? selected.filter(selectedId => selectedId !== id)
+            : [...selected, id];
+        onSelectedChange(
+            devicePresets.map(preset => preset.id).filter(presetId => next.includes(presetId))
+        );
+    };
+
+    // Fit the tallest device, never scaling up
+    const tallest = Math.max(0, ...shown.map(preset => viewports[preset.id].height));
+    const scale =
+        tallest === 0 ? 1 : Math.max(0.05, Math.min(1, (stageHeight - LABEL_HEIGHT) / tallest));
+
+    return (
+        <div className='design-history-overlay' onMouseDown={onClose}>
+            <div
+                className='design-history-panel design-compare-panel'
+                onMouseDown={e => e.stopPropagation()}
+            >
+                <div className='design-history-header'>
+                    <span className='design-history-title'>Responsive · {file.name}</span>
+                    <span className='responsive-strip-scale'>{Math.round(scale * 100)}%</span>
+                    <button className='design-history-close' onClick={onClose} title='Close'>
+                        ×
+                    </button>
+                </div>
+
+                <div className='responsive-strip-devices'>
+                    {devicePresets.map(preset => (
+                        <button
+                            key={preset.id}
+                            className={`responsive-strip-device ${selected.includes(preset.id) ? 'active' : ''}`}
+                            onClick={() => handleToggle(preset.id)}
+                            title={`${viewports[preset.id].width}×${viewports[preset.id].height}${preset.pixelRatio === undefined ? '' : ` @${preset.pixelRatio}x`}`}
+                        >
+                            {preset.name}
+                        </button>
+                    ))}
+                </div>
+
+                <div className='responsive-strip-stage' ref={stageRef}>
+                    {shown.length === 0 && (
+                        <div className='design-history-empty'>
+                            Pick the devices to render this design at.
+                        </div>
+                    )}
+                    {shown.map(preset => {
+                        const dimensions = viewports[preset.id];
+                        return (
+                            <div key={preset.id} className='responsive-strip-item'>
+                                <div className='design-history-pane-title'>
+                                    {preset.name} · {dimensions.width}×{dimensions.height}
+                                    {preset.pixelRatio !== undefined && ` @${preset.pixelRatio}x`}
+                                </div>
+                                <div
+                                    className='design-compare-box'
+                                    style={{
+                                        width: dimensions.width * scale,
+                                        height: dimensions.height * scale,
+                                    }}
+                                >
+                                    <iframe
+                                        title={`${file.name} - ${preset.name}`}
+                                        srcDoc={toPreviewDocument(
+                                            file,
+                                            nonce,
+                                            dimensions.pixelRatio
+                                        )}
+                                        referrerPolicy='no-referrer'
+                                        loading='lazy'
+                                        style={{
+                                            width: dimensions.width,
+                                            height: dimensions.height,
+                                            transform: `scale(${scale})`,
+                                        }}
+                                    />
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ResponsiveStrip;
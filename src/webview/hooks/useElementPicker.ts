@@ -0,0 +1,134 @@
+import { type RefObject, useCallback, useEffect, useRef, useState } from 'react';
+import type { PickedElement } from '../../types/elementPicker';
+import { describeElement } from '../utils/elementPicker';
+
+const HOVER_ATTRIBUTE = 'data-securedesign-hover';
+const PICKED_ATTRIBUTE = 'data-securedesign-picked';
+const PICKER_STYLE_ID = 'securedesign-element-picker';
+const PICKER_CSS = `
+[${HOVER_ATTRIBUTE}] { outline: 2px dashed #3b82f6 !important; outline-offset: -2px !important; cursor: crosshair !important; }
+[${PICKED_ATTRIBUTE}] { outline: 2px solid #f59e0b !important; outline-offset: -2px !important; }
+`;
+
+interface UseElementPickerOptions {
+    /** Whether inspect mode is on and the frame has loaded */
+    active: boolean;
+    /** Called with the picked elements when a pick is completed */
+    onPick: (elements: PickedElement[]) => void;
+    /** Called when Escape is pressed inside the frame */
+    onCancel: () => void;
+}
+
+interface UseElementPickerResult {
+    /** Number of elements shift-clicked so far */
+    pickedCount: number;
+    /** Complete the pick with the shift-clicked elements */
+    sendPicked: () => void;
+}
+
+/**
+ * Inspect mode for a rendered design. Elements are highlighted on hover; a click completes the
+ * pick with that element, shift-click collects several. The design frame is a same-origin
+ * srcdoc iframe, so its document is instrumented directly and restored when inspect mode ends.
+ */
+export function useElementPicker(
+    iframeRef: RefObject<HTMLIFrameElement | null>,
+    { active, onPick, onCancel }: UseElementPickerOptions
+): UseElementPickerResult {
+    const [pickedCount, setPickedCount] = useState(0);
+    const pickedRef = useRef<Element[]>([]);
+    // Callbacks change every render; keep the latest without re-instrumenting the frame
+    const onPickRef = useRef(onPick);
+    onPickRef.current = onPick;
+    const onCancelRef = useRef(onCancel);
+    onCancelRef.current = onCancel;
+
+    const sendPicked = useCallback(() => {
+        if (pickedRef.current.length > 0) {
+            onPickRef.current(
+                pickedRef.current.map(element =>
+                    describeElement(element, [HOVER_ATTRIBUTE, PICKED_ATTRIBUTE])
+                )
+            );
+        }
+    }, []);
+
+    useEffect(() => {
+        const doc = active ? iframeRef.current?.contentDocument : null;
+        if (!doc?.body) {
+            return undefined;
+        }
+
+        const style = doc.createElement('style');
+        style.id = PICKER_STYLE_ID;
+        style.textContent = PICKER_CSS;
+        doc.head.appendChild(style);
+
+        let hovered: Element | null = null;
+        const setHovered = (element: Element | null) => {
+            hovered?.removeAttribute(HOVER_ATTRIBUTE);
+            hovered = element;
+            hovered?.setAttribute(HOVER_ATTRIBUTE, '');
+        };
+        // Elements of the frame belong to its own realm, so `instanceof Element` can't be used
+        const pickable = (target: EventTarget | null): Element | null =>
+            target !== null &&
+            (target as Node).nodeType === Node.ELEMENT_NODE &&
+            target !== doc.documentElement
+                ? (target as Element)
+                : null;
+
+        const handleMouseOver = (event: MouseEvent) => setHovered(pickable(event.target));
+        const handleMouseLeave = () => setHovered(null);
+        const handleClick = (event: MouseEvent) => {
+            const element = pickable(event.target);
+            if (!element) {
+                return;
+            }
+            // Keep links, buttons and forms in the design from reacting
+            event.preventDefault();
+            event.stopPropagation();
+
+            const picked = pickedRef.current;
+            if (event.shiftKey) {
+                if (picked.includes(element)) {
+                    element.removeAttribute(PICKED_ATTRIBUTE);
+                    pickedRef.current = picked.filter(other => other !== element);
+                } else {
+                    element.setAttribute(PICKED_ATTRIBUTE, '');
+                    pickedRef.current = [...picked, element];
+                }
+                setPickedCount(pickedRef.current.length);
+                return;
+            }
+            if (!picked.includes(element)) {
+                pickedRef.current = [...picked, element];
+            }
+            sendPicked();
+        };
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') {
+                onCancelRef.current();
+            }
+        };
+
+        doc.addEventListener('mouseover', handleMouseOver, true);
+        doc.documentElement.addEventListener('mouseleave', handleMouseLeave);
+        doc.addEventListener('click', handleClick, true);
+        doc.addEventListener('keydown', handleKeyDown, true);
+
+        return () => {
+            doc.removeEventListener('mouseover', handleMouseOver, true);
+            doc.documentElement.removeEventListener('mouseleave', handleMouseLeave);
+            doc.removeEventListener('click', handleClick, true);
+            doc.removeEventListener('keydown', handleKeyDown, true);
+            setHovered(null);
+            pickedRef.current.forEach(element => element.removeAttribute(PICKED_ATTRIBUTE));
+            pickedRef.current = [];
+            setPickedCount(0);
+            style.remove();
+        };
+    }, [active, iframeRef, sendPicked]);
+
+    return { pickedCount, sendPicked };
+}
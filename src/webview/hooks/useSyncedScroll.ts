@@ -0,0 +1,46 @@
+import { type RefObject, useEffect } from 'react';
+
+/**
+ * Keep the scroll position of two same-origin iframes in step. `documentKey` must change
+ * whenever either frame loads a document, since each load replaces its window.
+ */
+export function useSyncedScroll(
+    firstRef: RefObject<HTMLIFrameElement | null>,
+    secondRef: RefObject<HTMLIFrameElement | null>,
+    documentKey: number,
+    enabled: boolean
+): void {
+    useEffect(() => {
+        const first = firstRef.current?.contentWindow;
+        const second = secondRef.current?.contentWindow;
+        if (!enabled || !first || !second) {
+            return undefined;
+        }
+
+        // The window being scrolled by us; its own scroll event must not echo back, or a
+        // shorter page would clamp the other one
+        let following: Window | null = null;
+        let release = 0;
+        const follow = (source: Window, target: Window) => () => {
+            if (source === following) {
+                return;
+            }
+            following = target;
+            target.scrollTo(source.scrollX, source.scrollY);
+            cancelAnimationFrame(release);
+            release = requestAnimationFrame(() => {
+                following = null;
+            });
+        };
+
+        const fromFirst = follow(first, second);
+        const fromSecond = follow(second, first);
+        first.addEventListener('scroll', fromFirst);
+        second.addEventListener('scroll', fromSecond);
+        return () => {
+            cancelAnimationFrame(release);
+            first.removeEventListener('scroll', fromFirst);
+            second.removeEventListener('scroll', fromSecond);
+        };
+    }, [firstRef, secondRef, documentKey, enabled]);
+}
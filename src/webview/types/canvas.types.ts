@@ -1,5 +1,12 @@
 // Canvas view type definitions
 
+import type { DesignVersion } from '../../types/designHistory';
+import type { DesignExportItem } from '../../types/designExport';
+import type { CanvasLayout } from '../../types/canvasLayout';
+import type { PickedElement } from '../../types/elementPicker';
+import type { DesignCommentAction, DesignCommentThread } from '../../types/designComments';
+import type { DevicePreset } from '../../types/devicePresets';
+
 export interface DesignFile {
     name: string;
     path: string;
@@ -13,6 +20,9 @@ export interface DesignFile {
     children?: string[]; // Array of child design file names
     generation?: number; // 0 for root designs, 1 for first children, etc.
     branchIndex?: number; // Index within the same generation/branch
+    // Variant comparison properties
+    variantGroup?: string; // Name shared by variants generated from one brief
+    variantLabel?: string; // Model and sampling settings, shown on the frame
 }
 
 export interface CanvasState {
@@ -38,6 +48,12 @@ export interface DesignFilesLoadedMessage extends ExtensionMessage {
     command: 'designFilesLoaded';
     data: {
         files: DesignFile[];
+        // Saved canvas layout, already cleared of designs that no longer exist
+        layout?: CanvasLayout;
+        // Review comment threads by design file path; designs without comments are left out
+        comments?: Record<string, DesignCommentThread[]>;
+        // Built-in device presets merged with the user's
+        devicePresets?: DevicePreset[];
     };
 }
 
@@ -52,7 +68,8 @@ export interface SetContextFromCanvasMessage extends ExtensionMessage {
     command: 'setContextFromCanvas';
     data: {
         fileName: string;
-        type: 'frame' | 'clear';
+        type: 'frame' | 'elements' | 'clear';
+        elements?: PickedElement[];
     };
 }
 
@@ -78,13 +95,143 @@ export interface FileWatchMessage extends ExtensionMessage {
     };
 }
 
+export interface GetDesignHistoryMessage extends ExtensionMessage {
+    command: 'getDesignHistory';
+    data: {
+        filePath: string;
+    };
+}
+
+export interface GetDesignVersionMessage extends ExtensionMessage {
+    command: 'getDesignVersion';
+    data: {
+        filePath: string;
+        versionId: string;
+    };
+}
+
+export interface RestoreDesignVersionMessage extends ExtensionMessage {
+    command: 'restoreDesignVersion';
+    data: {
+        filePath: string;
+        versionId: string;
+    };
+}
+
+export interface DesignHistoryLoadedMessage extends ExtensionMessage {
+    command: 'designHistoryLoaded';
+    data: {
+        filePath: string;
+        versions: DesignVersion[]; // Newest first
+        current: string; // Raw source of the file on disk
+    };
+}
+
+export interface DesignVersionLoadedMessage extends ExtensionMessage {
+    command: 'designVersionLoaded';
+    data: {
+        filePath: string;
+        versionId: string;
+        content: string;
+        renderedContent: string; // Content with local stylesheets inlined
+    };
+}
+
+export interface DesignVersionRestoredMessage extends ExtensionMessage {
+    command: 'designVersionRestored';
+    data: {
+        filePath: string;
+        versionId: string;
+    };
+}
+
+export interface SaveDesignExportsMessage extends ExtensionMessage {
+    command: 'saveDesignExports';
+    data: {
+        items: DesignExportItem[];
+    };
+}
+
+export interface GenerateComponentMessage extends ExtensionMessage {
+    command: 'generateComponent';
+    data: {
+        filePath: string;
+    };
+}
+
+export interface SaveCanvasLayoutMessage extends ExtensionMessage {
+    command: 'saveCanvasLayout';
+    data: {
+        layout: CanvasLayout;
+    };
+}
+
+export interface OpenDevicePresetSettingsMessage extends ExtensionMessage {
+    command: 'openDevicePresetSettings';
+}
+
+export interface UpdateDesignCommentsMessage extends ExtensionMessage {
+    command: 'updateDesignComments';
+    data: {
+        filePath: string;
+        action: DesignCommentAction;
+    };
+}
+
+export interface SendDesignCommentsMessage extends ExtensionMessage {
+    command: 'sendDesignCommentsToChat';
+    data: {
+        filePath: string;
+    };
+}
+
+export interface DesignCommentsLoadedMessage extends ExtensionMessage {
+    command: 'designCommentsLoaded';
+    data: {
+        filePath: string;
+        threads: DesignCommentThread[];
+    };
+}
+
+export interface DesignExportsSavedMessage extends ExtensionMessage {
+    command: 'designExportsSaved';
+    data: {
+        paths: string[];
+    };
+}
+
+export interface DesignExportFailedMessage extends ExtensionMessage {
+    command: 'designExportFailed';
+    data: {
+        error: string;
+    };
+}
+
 export type WebviewMessage =
     | LoadDesignFilesMessage
     | SelectFrameMessage
     | SetContextFromCanvasMessage
-    | SetChatPromptMessage;
+    | SetChatPromptMessage
+    | GetDesignHistoryMessage
+    | GetDesignVersionMessage
+    | RestoreDesignVersionMessage
+    | SaveDesignExportsMessage
+    | GenerateComponentMessage
+    | SaveCanvasLayoutMessage
+    | OpenDevicePresetSettingsMessage
+    | UpdateDesignCommentsMessage
+    | SendDesignCommentsMessage;
 
-export type ExtensionToWebviewMessage = DesignFilesLoadedMessage | ErrorMessage | FileWatchMessage;
+export type ExtensionToWebviewMessage =
+    | DesignFilesLoadedMessage
+    | ErrorMessage
+    | FileWatchMessage
+    | DesignHistoryLoadedMessage
+    | DesignVersionLoadedMessage
+    | DesignVersionRestoredMessage
+    | DesignExportsSavedMessage
+    | DesignExportFailedMessage
+    | DesignCommentsLoadedMessage;
 
 // Canvas grid layout types
 export interface GridPosition {
@@ -95,15 +242,14 @@ export interface GridPosition {
 export interface FrameDimensions {
     width: number;
     height: number;
+    // Device pixel ratio emulated for a viewport, when its preset sets one
+    pixelRatio?: number;
 }
 
-export type ViewportMode = 'desktop' | 'mobile' | 'tablet';
+// Id of a device preset; desktop, tablet and mobile are always available
+export type ViewportMode = string;
 
-export interface ViewportConfig {
-    desktop: FrameDimensions;
-    mobile: FrameDimensions;
-    tablet: FrameDimensions;
-}
+export type ViewportConfig = Record<ViewportMode, FrameDimensions>;
 
 export interface FrameViewportState {
     [fileName: string]: ViewportMode;
@@ -1,4 +1,5 @@
 import type { ToolResultPart, ToolCallPart } from 'ai';
+import type { ChatMessage } from '../../types/chatMessage';
 
 export function isToolCallPart(value: unknown): value is ToolCallPart {
     if (value === null || typeof value !== 'object' || Array.isArray(value)) return false;
@@ -86,3 +87,140 @@ export function isToolResultPart(value: unknown): value is ToolResultPart {
 
     return true;
 }
+
+export interface SessionUsage {
+    readonly inputTokens: number;
+    readonly outputTokens: number;
+    readonly cachedInputTokens: number;
+    readonly costUsd: number;
+    /** True when some steps used a model without a known price, so costUsd is a lower bound */
+    readonly hasUnpricedSteps: boolean;
+}
+
+export function summarizeUsage(messages: readonly ChatMessage[]): SessionUsage {
+    let inputTokens = 0;
+    let outputTokens = 0;
+    let cachedInputTokens = 0;
+    let costUsd = 0;
+    let hasUnpricedSteps = false;
+    for (const { metadata } of messages) {
+        if (metadata?.input_tokens === undefined) {
+            continue;
+        }
+        inputTokens += metadata.input_tokens;
+        outputTokens += metadata.output_tokens ?? 0;
+        cachedInputTokens += metadata.cached_input_tokens ?? 0;
+        if (metadata.total_cost_usd === undefined) {
+            hasUnpricedSteps = true;
+        } else {
+            costUsd += metadata.total_cost_usd;
+        }
+    }
+    return { inputTokens, outputTokens, cachedInputTokens, costUsd, hasUnpricedSteps };
+}
+
+export function formatTokenCount(tokens: number): string {
+    if (tokens < 1000) {
+        return String(tokens);
+    }
+    if (tokens < 1_000_000) {
+        return `${(tokens / 1000).toFixed(1)}k`;
+    }
+    return `${(tokens / 1_000_000).toFixed(2)}M`;
+}
+
+export interface StepSummary {
+    readonly step: number;
+    readonly toolNames: string[];
+    readonly durationMs: number | undefined;
+    readonly inputTokens: number;
+    readonly outputTokens: number;
+    readonly finishReason: string | undefined;
+}
+
+export interface TurnTimeline {
+    /** Index of the last message of the turn, after which the timeline is shown */
+    readonly endIndex: number;
+    readonly steps: StepSummary[];
+    readonly stepLimit: 'steps' | 'time' | undefined;
+}
+
+/**
+ * Group the agent steps recorded on each turn's messages (everything between two user
+ * messages) into a timeline. Turns without step metadata are left out.
+ */
+export function buildStepTimelines(messages: readonly ChatMessage[]): TurnTimeline[] {
+    const timelines: TurnTimeline[] = [];
+    let steps = new Map<number, StepSummary>();
+    let stepLimit: TurnTimeline['stepLimit'];
+    let endIndex = -1;
+
+    const closeTurn = () => {
+        if (steps.size > 0) {
+            timelines.push({
+                endIndex,
+                steps: Array.from(steps.values()).sort((a, b) => a.step - b.step),
+                stepLimit,
+            });
+        }
+        steps = new Map();
+        stepLimit = undefined;
+    };
+
+    messages.forEach((message, index) => {
+        if (message.role === 'user') {
+            closeTurn();
+            return;
+        }
+        endIndex = index;
+        const { metadata } = message;
+        stepLimit = metadata?.step_limit ?? stepLimit;
+        if (metadata?.step === undefined) {
+            return;
+        }
+
+        const summary = steps.get(metadata.step) ?? {
+            step: metadata.step,
+            toolNames: [],
+            durationMs: undefined,
+            inputTokens: 0,
+            outputTokens: 0,
+            finishReason: undefined,
+        };
+        const toolNames =
+            message.role === 'assistant' && Array.isArray(message.content)
+                ? message.content.filter(isToolCallPart).map(part => part.toolName)
+                : [];
+        steps.set(metadata.step, {
+            ...summary,
+            toolNames: [...summary.toolNames, ...toolNames],
+            durationMs:
+                metadata.start_time !== undefined && metadata.end_time !== undefined
+                    ? metadata.end_time - metadata.start_time
+                    : summary.durationMs,
+            inputTokens: summary.inputTokens + (metadata.input_tokens ?? 0),
+            outputTokens: summary.outputTokens + (metadata.output_tokens ?? 0),
+            finishReason: metadata.finish_reason ?? summary.finishReason,
+        });
+    });
+    closeTurn();
+    return timelines;
+}
+
+/**
+ * How full the model's context was on the latest measured request, as a percentage. Unknown
+ * when there is no measurement yet or the conversation was summarised after it.
+ */
+export function getContextUsagePercent(messages: readonly ChatMessage[]): number | undefined {
+    for (let i = messages.length - 1; i >= 0; i--) {
+        const { metadata } = messages[i];
+        if (metadata?.is_summary === true) {
+            return undefined;
+        }
+        if (metadata?.context_window !== undefined && metadata.input_tokens !== undefined) {
+            const used = metadata.input_tokens + (metadata.output_tokens ?? 0);
+            return Math.min(100, Math.round((used / metadata.context_window) * 100));
+        }
+    }
+    return undefined;
+}
@@ -0,0 +1,376 @@
+/**
+ * A colour in gamma-encoded sRGB. Channels are nominally 0–1 but may fall outside that range
+ * for wide-gamut (e.g. oklch) colours until they are clipped for display.
+ */
+export interface RgbaColor {
+    r: number;
+    g: number;
+    b: number;
+    alpha: number;
+}
+
+export type ColorFormat = 'hex' | 'rgb' | 'hsl' | 'oklch' | 'oklab';
+
+// The named colours themeParser falls back to, plus the usual CSS keywords
+const NAMED_COLORS: Record<string, string> = {
+    black: '#000000',
+    white: '#ffffff',
+    red: '#ff0000',
+    green: '#008000',
+    blue: '#0000ff',
+    yellow: '#ffff00',
+    purple: '#800080',
+    orange: '#ffa500',
+    gray: '#808080',
+    grey: '#808080',
+    lightgray: '#d3d3d3',
+    lightgrey: '#d3d3d3',
+    darkgray: '#a9a9a9',
+    silver: '#c0c0c0',
+    transparent: '#00000000',
+};
+
+// OKLab chroma and a/b percentages are relative to 0.4 (CSS Color 4)
+const OKLAB_PERCENT_SCALE = 0.4;
+
+function clamp(value: number, min = 0, max = 1): number {
+    return Math.min(max, Math.max(min, value));
+}
+
+function toLinear(channel: number): number {
+    const abs = Math.abs(channel);
+    const linear = abs <= 0.04045 ? abs / 12.92 : Math.pow((abs + 0.055) / 1.055, 2.4);
+    return Math.sign(channel) * linear;
+}
+
+function fromLinear(channel: number): number {
+    const abs = Math.abs(channel);
+    const encoded = abs <= 0.0031308 ? abs * 12.92 : 1.055 * Math.pow(abs, 1 / 2.4) - 0.055;
+    return Math.sign(channel) * encoded;
+}
+
+function parseNumber(token: string, percentScale: number): number {
+    if (token === 'none') {
+        return 0;
+    }
+    const value = parseFloat(token);
+    if (Number.isNaN(value)) {
+        throw new Error(`Invalid colour component: ${token}`);
+    }
+    return token.endsWith('%') ? (value / 100) * percentScale : value;
+}
+
+function parseHue(token: string): number {
+    if (token === 'none') {
+        return 0;
+    }
+    const value = parseFloat(token);
+    if (Number.isNaN(value)) {
+        throw new Error(`Invalid hue: ${token}`);
+    }
+    if (token.endsWith('turn')) {
+        return value * 360;
+    }
+    if (token.endsWith('grad')) {
+        return value * 0.9;
+    }
+    if (token.endsWith('rad')) {
+        return (value * 180) / Math.PI;
+    }
+    return value;
+}
+
+/**
+ * Split the arguments of a colour function, accepting both the modern space-separated syntax
+ * with `/ alpha` and the legacy comma-separated one
+ */
+function splitArguments(args: string): { channels: string[]; alpha: number } {
+    const [channelPart, alphaPart] = args.split('/');
+    const parts = channelPart.split(/[\s,]+/).filter(Boolean);
+    let alphaToken: string | undefined = alphaPart?.trim();
+    if (alphaToken === undefined && parts.length === 4) {
+        alphaToken = parts.pop();
+    }
+    return {
+        channels: parts,
+        alpha: alphaToken === undefined ? 1 : clamp(parseNumber(alphaToken, 1)),
+    };
+}
+
+function parseHex(hex: string): RgbaColor | undefined {
+    const digits = hex.slice(1);
+    if (!/^([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(digits)) {
+        return undefined;
+    }
+    const full =
+        digits.length <= 4
+            ? digits
+                  .split('')
+                  .map(digit => digit + digit)
+                  .join('')
+            : digits;
+    const channel = (index: number) => parseInt(full.slice(index * 2, index * 2 + 2), 16) / 255;
+    return {
+        r: channel(0),
+        g: channel(1),
+        b: channel(2),
+        alpha: full.length === 8 ? channel(3) : 1,
+    };
+}
+
+function hslToRgb(hue: number, saturation: number, lightness: number): [number, number, number] {
+    const h = (((hue % 360) + 360) % 360) / 360;
+    const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation;
+    const channel = (offset: number) => {
+        const k = (offset + h * 12) % 12;
+        return lightness - (chroma / 2) * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    };
+    return [channel(0), channel(8), channel(4)];
+}
+
+function oklabToRgb(lightness: number, a: number, b: number): [number, number, number] {
+    const l = Math.pow(lightness + 0.3963377774 * a + 0.2158037573 * b, 3);
+    const m = Math.pow(lightness - 0.1055613458 * a - 0.0638541728 * b, 3);
+    const s = Math.pow(lightness - 0.0894841775 * a - 1.291485548 * b, 3);
+    return [
+        fromLinear(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s),
+        fromLinear(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s),
+        fromLinear(-0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s),
+    ];
+}
+
+function rgbToOklab(color: RgbaColor): [number, number, number] {
+    const r = toLinear(color.r);
+    const g = toLinear(color.g);
+    const b = toLinear(color.b);
+    const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+    const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+    const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+    return [
+        0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+        1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+        0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+    ];
+}
+
+/**
+ * Parse a CSS colour: hex, rgb(), hsl(), oklch(), oklab() or a common named colour.
+ * Returns undefined for anything else, including var() references.
+ */
+export function parseColor(value: string): RgbaColor | undefined {
+    const input = value.trim().toLowerCase();
+    if (input in NAMED_COLORS) {
+        return parseHex(NAMED_COLORS[input]);
+    }
+    if (input.startsWith('#')) {
+        return parseHex(input);
+    }
+
+    const match = /^(rgba?|hsla?|oklch|oklab)\(([^)]*)\)$/.exec(input);
+    if (!match) {
+        return undefined;
+    }
+    try {
+        const { channels, alpha } = splitArguments(match[2]);
+        if (channels.length !== 3) {
+            return undefined;
+        }
+        let rgb: [number, number, number];
+        switch (match[1]) {
+            case 'rgb':
+            case 'rgba':
+                rgb = [
+                    parseNumber(channels[0], 255) / 255,
+                    parseNumber(channels[1], 255) / 255,
+                    parseNumber(channels[2], 255) / 255,
+                ];
+                break;
+            case 'hsl':
+            case 'hsla':
+                rgb = hslToRgb(
+                    parseHue(channels[0]),
+                    clamp(parseNumber(channels[1], 100) / 100),
+                    clamp(parseNumber(channels[2], 100) / 100)
+                );
+                break;
+            case 'oklch': {
+                const chroma = Math.max(0, parseNumber(channels[1], OKLAB_PERCENT_SCALE));
+                const hue = (parseHue(channels[2]) * Math.PI) / 180;
+                rgb = oklabToRgb(
+                    parseNumber(channels[0], 1),
+                    chroma * Math.cos(hue),
+                    chroma * Math.sin(hue)
+                );
+                break;
+            }
+            default:
+                rgb = oklabToRgb(
+                    parseNumber(channels[0], 1),
+                    parseNumber(channels[1], OKLAB_PERCENT_SCALE),
+                    parseNumber(channels[2], OKLAB_PERCENT_SCALE)
+                );
+        }
+        return { r: rgb[0], g: rgb[1], b: rgb[2], alpha };
+    } catch {
+        return undefined;
+    }
+}
+
+export function isInSrgbGamut(color: RgbaColor, tolerance = 0.0001): boolean {
+    return [color.r, color.g, color.b].every(
+        channel => channel >= -tolerance && channel <= 1 + tolerance
+    );
+}
+
+function round(value: number, digits: number): number {
+    const factor = Math.pow(10, digits);
+    return Math.round(value * factor) / factor;
+}
+
+function alphaSuffix(alpha: number): string {
+    return alpha < 1 ? ` / ${round(alpha, 3)}` : '';
+}
+
+export function formatColor(color: RgbaColor, format: ColorFormat): string {
+    // Out-of-gamut colours are clipped for the sRGB-based formats
+    const r = clamp(color.r);
+    const g = clamp(color.g);
+    const b = clamp(color.b);
+
+    switch (format) {
+        case 'hex': {
+            const channels = [r, g, b, ...(color.alpha < 1 ? [color.alpha] : [])];
+            return `#${channels
+                .map(channel =>
+                    Math.round(channel * 255)
+                        .toString(16)
+                        .padStart(2, '0')
+                )
+                .join('')}`;
+        }
+        case 'rgb':
+            return `rgb(${Math.round(r * 255)} ${Math.round(g * 255)} ${Math.round(b * 255)}${alphaSuffix(color.alpha)})`;
+        case 'hsl': {
+            const max = Math.max(r, g, b);
+            const min = Math.min(r, g, b);
+            const lightness = (max + min) / 2;
+            const delta = max - min;
+            let hue = 0;
+            let saturation = 0;
+            if (delta > 0) {
+                saturation = delta / (1 - Math.abs(2 * lightness - 1));
+                if (max === r) {
+                    hue = ((g - b) / delta) % 6;
+                } else if (max === g) {
+                    hue = (b - r) / delta + 2;
+                } else {
+                    hue = (r - g) / delta + 4;
+                }
+                hue = (hue * 60 + 360) % 360;
+            }
+            return `hsl(${round(hue, 1)} ${round(saturation * 100, 1)}% ${round(lightness * 100, 1)}%${alphaSuffix(color.alpha)})`;
+        }
+        case 'oklab': {
+            const [lightness, a, bAxis] = rgbToOklab(color);
+            return `oklab(${round(lightness, 4)} ${round(a, 4)} ${round(bAxis, 4)}${alphaSuffix(color.alpha)})`;
+        }
+        case 'oklch': {
+            const [lightness, a, bAxis] = rgbToOklab(color);
+            const chroma = Math.sqrt(a * a + bAxis * bAxis);
+            // Hue is meaningless for greys
+            const hue = chroma < 0.0001 ? 0 : ((Math.atan2(bAxis, a) * 180) / Math.PI + 360) % 360;
+            return `oklch(${round(lightness, 4)} ${round(chroma, 4)} ${round(hue, 2)}${alphaSuffix(color.alpha)})`;
+        }
+    }
+}
+
+/**
+ * Convert a CSS colour string to another format, or undefined if it can't be parsed
+ */
+export function convertColor(value: string, format: ColorFormat): string | undefined {
+    const color = parseColor(value);
+    return color ? formatColor(color, format) : undefined;
+}
+
+/**
+ * Composite a translucent foreground over an opaque background
+ */
+function flatten(color: RgbaColor, background: RgbaColor): RgbaColor {
+    if (color.alpha >= 1) {
+        return color;
+    }
+    const mix = (fg: number, bg: number) => fg * color.alpha + bg * (1 - color.alpha);
+    return {
+        r: mix(color.r, background.r),
+        g: mix(color.g, background.g),
+        b: mix(color.b, background.b),
+        alpha: 1,
+    };
+}
+
+function relativeLuminance(color: RgbaColor): number {
+    return (
+        0.2126 * toLinear(clamp(color.r)) +
+        0.7152 * toLinear(clamp(color.g)) +
+        0.0722 * toLinear(clamp(color.b))
+    );
+}
+
+/**
+ * WCAG 2.x contrast ratio, from 1 to 21. A translucent background is assumed to sit on white.
+ */
+export function wcagContrast(foreground: RgbaColor, background: RgbaColor): number {
+    const white: RgbaColor = { r: 1, g: 1, b: 1, alpha: 1 };
+    const bg = flatten(background, white);
+    const fg = flatten(foreground, bg);
+    const lighter = Math.max(relativeLuminance(fg), relativeLuminance(bg));
+    const darker = Math.min(relativeLuminance(fg), relativeLuminance(bg));
+    return (lighter + 0.05) / (darker + 0.05);
+}
+
+// APCA-W3 0.0.98G-4g constants
+const APCA = {
+    mainTrc: 2.4,
+    rCo: 0.2126729,
+    gCo: 0.7151522,
+    bCo: 0.072175,
+    normBg: 0.56,
+    normTxt: 0.57,
+    revTxt: 0.62,
+    revBg: 0.65,
+    blkThrs: 0.022,
+    blkClmp: 1.414,
+    scale: 1.14,
+    loOffset: 0.027,
+    loClip: 0.1,
+    deltaYMin: 0.0005,
+};
+
+function apcaLuminance(color: RgbaColor): number {
+    const y =
+        APCA.rCo * Math.pow(clamp(color.r), APCA.mainTrc) +
+        APCA.gCo * Math.pow(clamp(color.g), APCA.mainTrc) +
+        APCA.bCo * Math.pow(clamp(color.b), APCA.mainTrc);
+    // Soft clamp near black
+    return y > APCA.blkThrs ? y : y + Math.pow(APCA.blkThrs - y, APCA.blkClmp);
+}
+
+/**
+ * APCA lightness contrast (Lc), roughly -108 to 106. Positive for dark text on a light
+ * background, negative for light text on a dark background.
+ */
+export function apcaContrast(text: RgbaColor, background: RgbaColor): number {
+    const white: RgbaColor = { r: 1, g: 1, b: 1, alpha: 1 };
+    const bg = flatten(background, white);
+    const yText = apcaLuminance(flatten(text, bg));
+    const yBg = apcaLuminance(bg);
+    if (Math.abs(yBg - yText) < APCA.deltaYMin) {
+        return 0;
+    }
+    if (yBg > yText) {
+        const sapc = (Math.pow(yBg, APCA.normBg) - Math.pow(yText, APCA.normTxt)) * APCA.scale;
+        return sapc < APCA.loClip ? 0 : (sapc - APCA.loOffset) * 100;
+    }
+    const sapc = (Math.pow(yBg, APCA.revBg) - Math.pow(yText, APCA.revTxt)) * APCA.scale;
+    return sapc > -APCA.loClip ? 0 : (sapc + APCA.loOffset) * 100;
+}
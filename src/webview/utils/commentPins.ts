@@ -0,0 +1,41 @@
+import type { CommentAnchor } from '../../types/designComments';
+
+export interface PinBox {
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+}
+
+export interface PinPoint {
+    left: number;
+    top: number;
+}
+
+function fraction(offset: number, size: number): number {
+    if (size <= 0) {
+        return 0;
+    }
+    return Math.round(Math.min(1, Math.max(0, offset / size)) * 10_000) / 10_000;
+}
+
+/**
+ * Anchor for a pin dropped at a point inside an element's box
+ */
+export function anchorAt(selector: string, box: PinBox, point: PinPoint): CommentAnchor {
+    return {
+        selector,
+        x: fraction(point.left - box.left, box.width),
+        y: fraction(point.top - box.top, box.height),
+    };
+}
+
+/**
+ * Where an anchored pin sits given the current box of its element
+ */
+export function pinPoint(anchor: CommentAnchor, box: PinBox): PinPoint {
+    return {
+        left: box.left + anchor.x * box.width,
+        top: box.top + anchor.y * box.height,
+    };
+}
@@ -0,0 +1,209 @@
+import type { DesignExportFormat } from '../../types/designExport';
+import type { DesignFile, FrameDimensions } from '../types/canvas.types';
+import { withPixelRatio } from './viewports';
+
+// Give CDN style generators (e.g. the Tailwind play script) time to apply after load
+const SETTLE_DELAY_MS = 800;
+const LOAD_TIMEOUT_MS = 10_000;
+// Render PNGs at 2x for crisp images on high-density screens, unless the device sets a ratio
+const PNG_SCALE = 2;
+
+function injectNonce(html: string, nonce: string | null): string {
+    return nonce ? html.replace(/<script/g, `<script nonce="${nonce}"`) : html;
+}
+
+function toDocument(file: DesignFile): string {
+    if (file.fileType === 'svg') {
+        return `<!DOCTYPE html><html><head><style>body{margin:0;display:flex;align-items:center;justify-content:center;min-height:100vh;background:white}</style></head><body>${file.content}</body></html>`;
+    }
+    return file.content;
+}
+
+/**
+ * Standalone document for showing a design in an iframe
+ */
+export function toPreviewDocument(
+    file: DesignFile,
+    nonce: string | null,
+    pixelRatio?: number
+): string {
+    return injectNonce(withPixelRatio(toDocument(file), pixelRatio), nonce);
+}
+
+/**
+ * Load a design into an off-screen iframe of the given size and wait for it to settle
+ */
+async function loadOffscreen(
+    file: DesignFile,
+    dimensions: FrameDimensions,
+    nonce: string | null
+): Promise<HTMLIFrameElement> {
+    const iframe = document.createElement('iframe');
+    iframe.style.position = 'fixed';
+    iframe.style.left = '-100000px';
+    iframe.style.top = '0';
+    iframe.style.width = `${dimensions.width}px`;
+    iframe.style.height = `${dimensions.height}px`;
+    iframe.style.border = 'none';
+    iframe.style.background = 'white';
+
+    const loaded = new Promise<void>((resolve, reject) => {
+        const timeout = setTimeout(
+            () => reject(new Error(`Timed out rendering ${file.name}`)),
+            LOAD_TIMEOUT_MS
+        );
+        iframe.onload = () => {
+            clearTimeout(timeout);
+            resolve();
+        };
+    });
+    iframe.srcdoc = toPreviewDocument(file, nonce, dimensions.pixelRatio);
+    document.body.appendChild(iframe);
+
+    try {
+        await loaded;
+        await new Promise(resolve => setTimeout(resolve, SETTLE_DELAY_MS));
+        return iframe;
+    } catch (error) {
+        iframe.remove();
+        throw error;
+    }
+}
+
+/**
+ * Copy every readable stylesheet into the clone as inline <style>, since linked sheets are not
+ * loaded when the markup is drawn as an image. Cross-origin sheets without CORS can't be read
+ * and are skipped.
+ */
+function inlineStylesheets(doc: Document, clone: HTMLElement): void {
+    const cssText: string[] = [];
+    for (const sheet of Array.from(doc.styleSheets)) {
+        if (sheet.ownerNode?.nodeName !== 'LINK') {
+            continue;
+        }
+        try {
+            cssText.push(Array.from(sheet.cssRules, rule => rule.cssText).join('\n'));
+        } catch {
+            // Cross-origin stylesheet
+        }
+    }
+    clone.querySelectorAll('link[rel="stylesheet"]').forEach(link => link.remove());
+    if (cssText.length > 0) {
+        const style = doc.createElement('style');
+        style.textContent = cssText.join('\n');
+        (clone.querySelector('head') ?? clone).appendChild(style);
+    }
+}
+
+/**
+ * Serialise the rendered page to a standalone SVG using <foreignObject>. Scripts are removed;
+ * styles they generated at runtime are already in the DOM and are kept.
+ */
+function toSvg(iframe: HTMLIFrameElement, dimensions: FrameDimensions): string {
+    const doc = iframe.contentDocument;
+    if (!doc) {
+        throw new Error('Rendered design is not accessible');
+    }
+    const clone = doc.documentElement.cloneNode(true) as HTMLElement;
+    clone.querySelectorAll('script, noscript').forEach(node => node.remove());
+    inlineStylesheets(doc, clone);
+    clone.setAttribute('xmlns', 'http://www.w3.org/1999/xhtml');
+    const markup = new XMLSerializer().serializeToString(clone);
+
+    return (
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${dimensions.width}" height="${dimensions.height}" ` +
+        `viewBox="0 0 ${dimensions.width} ${dimensions.height}">` +
+        `<foreignObject x="0" y="0" width="100%" height="100%">${markup}</foreignObject></svg>`
+    );
+}
+
+async function drawToCanvas(
+    svg: string,
+    dimensions: FrameDimensions,
+    scale: number
+): Promise<HTMLCanvasElement> {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+        image.onload = () => resolve();
+        image.onerror = () => reject(new Error('Failed to rasterize design'));
+        image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(dimensions.width * scale);
+    canvas.height = Math.round(dimensions.height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) {
+        throw new Error('Canvas 2D context unavailable');
+    }
+    context.fillStyle = 'white';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.scale(scale, scale);
+    context.drawImage(image, 0, 0, dimensions.width, dimensions.height);
+    return canvas;
+}
+
+async function rasterize(
+    svg: string,
+    dimensions: FrameDimensions,
+    type: 'image/png' | 'image/jpeg',
+    scale: number
+): Promise<string> {
+    const canvas = await drawToCanvas(svg, dimensions, scale);
+    const dataUrl = canvas.toDataURL(type, 0.92);
+    return dataUrl.slice(dataUrl.indexOf(',') + 1);
+}
+
+/**
+ * Render a design at a viewport size entirely inside the webview. Returns SVG markup for
+ * `svg`, base64 PNG for `png`, and base64 JPEG for `pdf` (the extension builds the PDF).
+ * Remote images only appear if they are already inlined as data URIs.
+ */
+export async function renderDesignSnapshot(
+    file: DesignFile,
+    dimensions: FrameDimensions,
+    format: DesignExportFormat,
+    nonce: string | null
+): Promise<string> {
+    const iframe = await loadOffscreen(file, dimensions, nonce);
+    try {
+        const svg = toSvg(iframe, dimensions);
+        switch (format) {
+            case 'svg':
+                return svg;
+            case 'png':
+                return await rasterize(
+                    svg,
+                    dimensions,
+                    'image/png',
+                    dimensions.pixelRatio ?? PNG_SCALE
+                );
+            case 'pdf':
+                return await rasterize(svg, dimensions, 'image/jpeg', PNG_SCALE);
+        }
+    } finally {
+        iframe.remove();
+    }
+}
+
+/**
+ * Render the first screen of a design at a viewport size as 1x RGBA pixels, for comparing
+ * two designs
+ */
+export async function renderDesignPixels(
+    file: DesignFile,
+    dimensions: FrameDimensions,
+    nonce: string | null
+): Promise<ImageData> {
+    const iframe = await loadOffscreen(file, dimensions, nonce);
+    try {
+        const canvas = await drawToCanvas(toSvg(iframe, dimensions), dimensions, 1);
+        const context = canvas.getContext('2d');
+        if (!context) {
+            throw new Error('Canvas 2D context unavailable');
+        }
+        return context.getImageData(0, 0, canvas.width, canvas.height);
+    } finally {
+        iframe.remove();
+    }
+}
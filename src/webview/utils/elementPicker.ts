@@ -0,0 +1,160 @@
+import type { CanvasChatContext, PickedElement } from '../../types/elementPicker';
+
+// Properties sent with a picked element; the rest of the computed style is noise to the agent
+export const PICKED_STYLE_PROPERTIES = [
+    'display',
+    'width',
+    'height',
+    'padding',
+    'margin',
+    'gap',
+    'color',
+    'background-color',
+    'background-image',
+    'font-family',
+    'font-size',
+    'font-weight',
+    'line-height',
+    'letter-spacing',
+    'text-align',
+    'border',
+    'border-radius',
+    'box-shadow',
+] as const;
+
+const DEFAULT_STYLE_VALUES = new Set([
+    '',
+    'none',
+    'normal',
+    'auto',
+    'start',
+    '0px',
+    'rgba(0, 0, 0, 0)',
+    'transparent',
+]);
+
+const MAX_HTML_LENGTH = 400;
+const MAX_SELECTOR_CLASSES = 2;
+
+// Ids and classes that can be written in a selector without escaping
+const IDENTIFIER = /^-?[A-Za-z_][\w-]*$/;
+
+/**
+ * The parts of a DOM element the selector is built from
+ */
+export interface SelectorNode {
+    readonly tagName: string;
+    readonly id: string;
+    readonly classList: ArrayLike<string>;
+    readonly parentElement: SelectorNode | null;
+    readonly children: ArrayLike<SelectorNode>;
+}
+
+/**
+ * A selector for the element, walking up to the nearest ancestor with an id or to <body>.
+ * Each step is pinned with :nth-of-type when it has siblings of the same tag, so the selector
+ * matches only this element; up to two classes are kept to make it readable.
+ */
+export function cssSelectorFor(element: SelectorNode): string {
+    const segments: string[] = [];
+    for (let node: SelectorNode | null = element; node; node = node.parentElement) {
+        const current: SelectorNode = node;
+        const tag = current.tagName.toLowerCase();
+        if (IDENTIFIER.test(current.id)) {
+            segments.unshift(`#${current.id}`);
+            break;
+        }
+        if (tag === 'body' || tag === 'html') {
+            segments.unshift(tag);
+            break;
+        }
+
+        const classes = Array.from(current.classList)
+            .filter(name => IDENTIFIER.test(name))
+            .slice(0, MAX_SELECTOR_CLASSES)
+            .map(name => `.${name}`)
+            .join('');
+        const siblings = current.parentElement
+            ? Array.from(current.parentElement.children).filter(
+                  sibling => sibling.tagName === current.tagName
+              )
+            : [];
+        const position =
+            siblings.length > 1 ? `:nth-of-type(${siblings.indexOf(current) + 1})` : '';
+        segments.unshift(`${tag}${classes}${position}`);
+    }
+    return segments.join(' > ');
+}
+
+export function collapseHtml(html: string): string {
+    const collapsed = html.replace(/\s+/g, ' ').trim();
+    return collapsed.length > MAX_HTML_LENGTH
+        ? `${collapsed.slice(0, MAX_HTML_LENGTH)}…`
+        : collapsed;
+}
+
+/**
+ * The picked style properties whose computed value is not a default
+ */
+export function pickStyles(getValue: (property: string) => string): Record<string, string> {
+    const styles: Record<string, string> = {};
+    for (const property of PICKED_STYLE_PROPERTIES) {
+        const value = getValue(property).trim();
+        if (!DEFAULT_STYLE_VALUES.has(value) && !value.startsWith('0px none')) {
+            styles[property] = value;
+        }
+    }
+    return styles;
+}
+
+/**
+ * Describe an element of a rendered design. Attributes the picker adds for highlighting are
+ * left out of the HTML.
+ */
+export function describeElement(element: Element, ignoredAttributes: string[]): PickedElement {
+    const clone = element.cloneNode(true) as Element;
+    for (const attribute of ignoredAttributes) {
+        clone.removeAttribute(attribute);
+        clone.querySelectorAll(`[${attribute}]`).forEach(node => node.removeAttribute(attribute));
+    }
+    const style = element.ownerDocument.defaultView?.getComputedStyle(element);
+    return {
+        selector: cssSelectorFor(element),
+        tagName: element.tagName.toLowerCase(),
+        html: collapseHtml(clone.outerHTML),
+        styles: style ? pickStyles(property => style.getPropertyValue(property)) : {},
+    };
+}
+
+/**
+ * The text sent after `Context: ` in a chat message. Picked elements follow the file path on
+ * their own lines, so the first line is always the file.
+ */
+export function formatChatContext(context: CanvasChatContext): string {
+    if (!context.elements || context.elements.length === 0) {
+        return context.fileName;
+    }
+    const lines = [
+        context.fileName,
+        'Selected elements (change only these unless asked otherwise):',
+    ];
+    for (const element of context.elements) {
+        lines.push(`- \`${element.selector}\``, `  HTML: ${element.html}`);
+        const styles = Object.entries(element.styles);
+        if (styles.length > 0) {
+            lines.push(
+                `  Styles: ${styles.map(([name, value]) => `${name}: ${value}`).join('; ')}`
+            );
+        }
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Split context text written by formatChatContext back into the file and the number of
+ * elements, for display
+ */
+export function parseChatContext(text: string): { fileName: string; elementCount: number } {
+    const [fileName, ...lines] = text.split('\n');
+    return { fileName, elementCount: lines.filter(line => line.startsWith('- `')).length };
+}
@@ -20,6 +20,52 @@ export function calculateGridPosition(index: number, config: CanvasConfig): Grid
     return { x, y };
 }
 
+/**
+ * Assign grid cells to designs in order. Variants generated from one brief start a new row
+ * and sit side by side as a comparison group; other designs fill rows as usual.
+ */
+export function assignGridSlots(
+    designs: DesignFile[],
+    framesPerRow: number
+): Map<string, { col: number; row: number }> {
+    const slots = new Map<string, { col: number; row: number }>();
+    const placedGroups = new Set<string>();
+    let col = 0;
+    let row = 0;
+    const place = (fileName: string) => {
+        slots.set(fileName, { col, row });
+        col++;
+        if (col >= framesPerRow) {
+            col = 0;
+            row++;
+        }
+    };
+    const startRow = () => {
+        if (col > 0) {
+            col = 0;
+            row++;
+        }
+    };
+
+    for (const design of designs) {
+        const group = design.variantGroup;
+        if (group === undefined) {
+            place(design.name);
+            continue;
+        }
+        if (placedGroups.has(group)) {
+            continue;
+        }
+        placedGroups.add(group);
+        startRow();
+        designs
+            .filter(member => member.variantGroup === group)
+            .forEach(member => place(member.name));
+        startRow();
+    }
+    return slots;
+}
+
 /**
  * Calculate total canvas bounds based on number of items
  */
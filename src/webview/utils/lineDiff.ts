@@ -0,0 +1,150 @@
+export interface DiffLine {
+    type: 'context' | 'add' | 'remove';
+    text: string;
+    // 1-based line numbers in the old/new text; absent for lines that only exist on one side
+    oldLine?: number;
+    newLine?: number;
+}
+
+export interface DiffHunk {
+    lines: DiffLine[];
+    // Number of unchanged lines hidden before this hunk
+    skippedBefore: number;
+}
+
+// Above this many LCS cells the diff degrades to remove-all/add-all to keep the webview responsive
+const MAX_LCS_CELLS = 4_000_000;
+
+function splitLines(text: string): string[] {
+    if (text === '') {
+        return [];
+    }
+    return text.replace(/\r\n/g, '\n').split('\n');
+}
+
+/**
+ * Line-based diff using a longest-common-subsequence table over the region between the
+ * common prefix and suffix.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+    const oldLines = splitLines(before);
+    const newLines = splitLines(after);
+
+    let prefix = 0;
+    while (
+        prefix < oldLines.length &&
+        prefix < newLines.length &&
+        oldLines[prefix] === newLines[prefix]
+    ) {
+        prefix++;
+    }
+    let suffix = 0;
+    while (
+        suffix < oldLines.length - prefix &&
+        suffix < newLines.length - prefix &&
+        oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+    ) {
+        suffix++;
+    }
+
+    const result: DiffLine[] = [];
+    for (let i = 0; i < prefix; i++) {
+        result.push({ type: 'context', text: oldLines[i], oldLine: i + 1, newLine: i + 1 });
+    }
+
+    const oldMid = oldLines.slice(prefix, oldLines.length - suffix);
+    const newMid = newLines.slice(prefix, newLines.length - suffix);
+    const n = oldMid.length;
+    const m = newMid.length;
+
+    if (n * m > MAX_LCS_CELLS) {
+        oldMid.forEach((text, i) => result.push({ type: 'remove', text, oldLine: prefix + i + 1 }));
+        newMid.forEach((text, j) => result.push({ type: 'add', text, newLine: prefix + j + 1 }));
+    } else {
+        // lcs[i][j] = length of the LCS of oldMid[i:] and newMid[j:]
+        const lcs: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+        for (let i = n - 1; i >= 0; i--) {
+            for (let j = m - 1; j >= 0; j--) {
+                lcs[i][j] =
+                    oldMid[i] === newMid[j]
+                        ? lcs[i + 1][j + 1] + 1
+                        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+            }
+        }
+
+        let i = 0;
+        let j = 0;
+        while (i < n || j < m) {
+            if (i < n && j < m && oldMid[i] === newMid[j]) {
+                result.push({
+                    type: 'context',
+                    text: oldMid[i],
+                    oldLine: prefix + i + 1,
+                    newLine: prefix + j + 1,
+                });
+                i++;
+                j++;
+            } else if (i < n && (j === m || lcs[i + 1][j] >= lcs[i][j + 1])) {
+                result.push({ type: 'remove', text: oldMid[i], oldLine: prefix + i + 1 });
+                i++;
+            } else {
+                result.push({ type: 'add', text: newMid[j], newLine: prefix + j + 1 });
+                j++;
+            }
+        }
+    }
+
+    for (let k = 0; k < suffix; k++) {
+        const oldIndex = oldLines.length - suffix + k;
+        const newIndex = newLines.length - suffix + k;
+        result.push({
+            type: 'context',
+            text: oldLines[oldIndex],
+            oldLine: oldIndex + 1,
+            newLine: newIndex + 1,
+        });
+    }
+
+    return result;
+}
+
+/**
+ * Group a diff into hunks, keeping `contextLines` unchanged lines around each change
+ */
+export function toHunks(diff: DiffLine[], contextLines: number = 3): DiffHunk[] {
+    const keep = new Array<boolean>(diff.length).fill(false);
+    diff.forEach((line, index) => {
+        if (line.type !== 'context') {
+            const start = Math.max(0, index - contextLines);
+            const end = Math.min(diff.length - 1, index + contextLines);
+            for (let k = start; k <= end; k++) {
+                keep[k] = true;
+            }
+        }
+    });
+
+    const hunks: DiffHunk[] = [];
+    let skipped = 0;
+    let current: DiffHunk | undefined;
+    diff.forEach((line, index) => {
+        if (!keep[index]) {
+            skipped++;
+            current = undefined;
+            return;
+        }
+        if (current === undefined) {
+            current = { lines: [], skippedBefore: skipped };
+            hunks.push(current);
+            skipped = 0;
+        }
+        current.lines.push(line);
+    });
+    return hunks;
+}
+
+export function countChanges(diff: DiffLine[]): { added: number; removed: number } {
+    return {
+        added: diff.filter(line => line.type === 'add').length,
+        removed: diff.filter(line => line.type === 'remove').length,
+    };
+}
@@ -0,0 +1,56 @@
+// Per-channel tolerance that absorbs anti-aliasing and subpixel text differences
+export const DEFAULT_DIFF_THRESHOLD = 24;
+
+// Changed pixels are painted in this colour over a faded copy of the second image
+const HIGHLIGHT: readonly [number, number, number] = [255, 0, 160];
+const FADE = 0.3;
+
+export interface PixelDiff {
+    // RGBA pixels ready for putImageData
+    pixels: Uint8ClampedArray<ArrayBuffer>;
+    changed: number;
+    total: number;
+}
+
+/**
+ * Compare two RGBA buffers of the same size. A pixel counts as changed when any channel
+ * differs by more than the threshold.
+ */
+export function diffPixels(
+    first: Uint8ClampedArray,
+    second: Uint8ClampedArray,
+    width: number,
+    height: number,
+    threshold = DEFAULT_DIFF_THRESHOLD
+): PixelDiff {
+    const total = width * height;
+    if (first.length !== total * 4 || second.length !== total * 4) {
+        throw new Error(`Expected two ${width}×${height} RGBA images`);
+    }
+
+    const pixels = new Uint8ClampedArray(total * 4);
+    let changed = 0;
+    for (let offset = 0; offset < pixels.length; offset += 4) {
+        let difference = 0;
+        for (let channel = 0; channel < 4; channel++) {
+            difference = Math.max(
+                difference,
+                Math.abs(first[offset + channel] - second[offset + channel])
+            );
+        }
+
+        if (difference > threshold) {
+            changed++;
+            pixels.set(HIGHLIGHT, offset);
+        } else {
+            const luminance =
+                0.299 * second[offset] + 0.587 * second[offset + 1] + 0.114 * second[offset + 2];
+            const faded = 255 - (255 - luminance) * FADE;
+            pixels[offset] = faded;
+            pixels[offset + 1] = faded;
+            pixels[offset + 2] = faded;
+        }
+        pixels[offset + 3] = 255;
+    }
+    return { pixels, changed, total };
+}
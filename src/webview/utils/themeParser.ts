@@ -1,5 +1,8 @@
+import { apcaContrast, convertColor, parseColor, wcagContrast } from './color';
+
 interface ParsedTheme {
     variables: Record<string, string>;
+    darkVariables?: Record<string, string>;
     lightMode: ThemeColors;
     darkMode?: ThemeColors;
     fonts: {
@@ -56,7 +59,19 @@ interface ThemeColors {
     sidebarRing: string;
 }
 
-export type { ParsedTheme, ThemeColors };
+interface ContrastCheck {
+    mode: 'light' | 'dark';
+    // Variable names without the leading dashes, e.g. "primary-foreground" on "primary"
+    foreground: string;
+    background: string;
+    foregroundValue: string;
+    backgroundValue: string;
+    // Undefined when either colour can't be parsed
+    wcagRatio?: number;
+    apcaLc?: number;
+}
+
+export type { ContrastCheck, ParsedTheme, ThemeColors };
 
 export function parseThemeCSS(cssSheet: string): ParsedTheme {
     const rootMatch = cssSheet.match(/:root\s*\{([^}]+)\}/);
@@ -71,6 +86,7 @@ export function parseThemeCSS(cssSheet: string): ParsedTheme {
 
     return {
         variables: lightMode.raw,
+        darkVariables: darkMode?.raw,
         lightMode: mapToThemeColors(lightMode.raw),
         darkMode: darkMode ? mapToThemeColors(darkMode.raw) : undefined,
         fonts: {
@@ -359,9 +375,102 @@ export function extractColorPalette(
     return palette;
 }
 
-// Utility function to convert OKLCH to hex for better compatibility
+/**
+ * Convert any supported CSS colour (oklch, oklab, hsl, rgb, hex) to hex. Colours outside the
+ * sRGB gamut are clipped; values that can't be parsed are returned unchanged.
+ */
 export function oklchToHex(oklchValue: string): string {
-    // For now, return the original value
-    // In a real implementation, you'd convert OKLCH to hex
-    return oklchValue;
+    return convertColor(oklchValue, 'hex') ?? oklchValue;
+}
+
+/**
+ * Follow `var(--name)` references to a concrete value
+ */
+function resolveVariable(value: string, variables: Record<string, string>): string {
+    let resolved = value;
+    for (let depth = 0; depth < 10; depth++) {
+        const match = /^var\((--[\w-]+)(?:\s*,\s*(.+))?\)$/.exec(resolved.trim());
+        if (!match) {
+            break;
+        }
+        resolved = variables[match[1]] ?? match[2] ?? resolved;
+    }
+    return resolved;
+}
+
+function contrastPairs(variables: Record<string, string>): Array<[string, string]> {
+    const pairs: Array<[string, string]> = [];
+    if ('--foreground' in variables && '--background' in variables) {
+        pairs.push(['foreground', 'background']);
+        // Secondary text usually sits on the page background too
+        if ('--muted-foreground' in variables) {
+            pairs.push(['muted-foreground', 'background']);
+        }
+    }
+    for (const name of Object.keys(variables)) {
+        const match = /^--(.+)-foreground$/.exec(name);
+        if (match && `--${match[1]}` in variables) {
+            pairs.push([`${match[1]}-foreground`, match[1]]);
+        }
+    }
+    return pairs;
+}
+
+/**
+ * WCAG 2.x and APCA contrast for every `--x-foreground` / `--x` pair the theme defines,
+ * plus foreground and muted foreground on the page background, in both modes
+ */
+export function buildContrastReport(theme: ParsedTheme): ContrastCheck[] {
+    const modes: Array<['light' | 'dark', Record<string, string>]> = [['light', theme.variables]];
+    if (theme.darkVariables) {
+        // Dark blocks usually only override colours, so fall back to the light values
+        modes.push(['dark', { ...theme.variables, ...theme.darkVariables }]);
+    }
+
+    return modes.flatMap(([mode, variables]) =>
+        contrastPairs(variables).map(([foreground, background]) => {
+            const foregroundValue = resolveVariable(variables[`--${foreground}`], variables);
+            const backgroundValue = resolveVariable(variables[`--${background}`], variables);
+            const fg = parseColor(foregroundValue);
+            const bg = parseColor(backgroundValue);
+            return {
+                mode,
+                foreground,
+                background,
+                foregroundValue,
+                backgroundValue,
+                wcagRatio: fg && bg ? wcagContrast(fg, bg) : undefined,
+                apcaLc: fg && bg ? apcaContrast(fg, bg) : undefined,
+            };
+        })
+    );
+}
+
+/**
+ * WCAG 2.x level for normal-size text: AAA at 7:1, AA at 4.5:1, and AA for large text only
+ * at 3:1
+ */
+export function wcagLevel(ratio: number): 'AAA' | 'AA' | 'AA Large' | 'Fail' {
+    if (ratio >= 7) {
+        return 'AAA';
+    }
+    if (ratio >= 4.5) {
+        return 'AA';
+    }
+    return ratio >= 3 ? 'AA Large' : 'Fail';
+}
+
+/**
+ * APCA use case the contrast is sufficient for: Lc 75 for body text, 60 for other content
+ * text, 45 for large headings
+ */
+export function apcaLevel(lc: number): 'Body' | 'Content' | 'Headline' | 'Fail' {
+    const magnitude = Math.abs(lc);
+    if (magnitude >= 75) {
+        return 'Body';
+    }
+    if (magnitude >= 60) {
+        return 'Content';
+    }
+    return magnitude >= 45 ? 'Headline' : 'Fail';
 }
@@ -0,0 +1,57 @@
+import type { DevicePreset } from '../../types/devicePresets';
+import type { FrameDimensions, ViewportConfig } from '../types/canvas.types';
+
+export type ViewportIconKind = 'mobile' | 'tablet' | 'desktop';
+
+/**
+ * Size a preset is rendered at, with width and height swapped when the canvas is rotated
+ */
+export function presetDimensions(preset: DevicePreset, rotated: boolean): FrameDimensions {
+    return {
+        width: rotated ? preset.height : preset.width,
+        height: rotated ? preset.width : preset.height,
+        ...(preset.pixelRatio !== undefined && { pixelRatio: preset.pixelRatio }),
+    };
+}
+
+export function viewportsFromPresets(
+    presets: readonly DevicePreset[],
+    rotated: boolean
+): ViewportConfig {
+    return Object.fromEntries(
+        presets.map(preset => [preset.id, presetDimensions(preset, rotated)])
+    );
+}
+
+/**
+ * Which device icon suits a preset, judged by its natural width
+ */
+export function viewportIconKind(preset: DevicePreset): ViewportIconKind {
+    if (preset.width < 600) {
+        return 'mobile';
+    }
+    return preset.width < 1000 ? 'tablet' : 'desktop';
+}
+
+export function formatPreset(preset: DevicePreset, rotated = false): string {
+    const { width, height } = presetDimensions(preset, rotated);
+    const ratio = preset.pixelRatio === undefined ? '' : ` @${preset.pixelRatio}x`;
+    return `${preset.name} · ${width}×${height}${ratio}`;
+}
+
+/**
+ * Make scripts in a design see the device's pixel ratio. Only `window.devicePixelRatio` is
+ * emulated: resolution media queries and srcset still follow the real screen.
+ */
+export function withPixelRatio(html: string, pixelRatio: number | undefined): string {
+    if (pixelRatio === undefined) {
+        return html;
+    }
+    const script = `<script>Object.defineProperty(window, 'devicePixelRatio', { get: () => ${pixelRatio}, configurable: true });</script>`;
+    // As early as possible, but never before the doctype, which would switch to quirks mode
+    const opening = [/<head(\s[^>]*)?>/i, /<html(\s[^>]*)?>/i, /<!doctype[^>]*>/i]
+        .map(pattern => pattern.exec(html))
+        .find(match => match !== null);
+    const end = opening ? opening.index + opening[0].length : 0;
+    return `${html.slice(0, end)}${script}${html.slice(end)}`;
+}